@@ -180,6 +180,43 @@ export class StaticAssetManager implements IAssetManager {
         return id;
     }
     
+    /**
+     * Store a user asset under its existing id (used when loading projects
+     * with embedded assets). Assets that already exist are left untouched.
+     */
+    async importAsset(asset: AssetData): Promise<boolean> {
+        if (!asset.id.startsWith('user_')) {
+            throw new Error('Only user assets can be imported');
+        }
+        
+        if (!this.db) {
+            await this.initIndexedDB();
+        }
+        
+        const tx = this.db!.transaction(['assets'], 'readwrite');
+        const store = tx.objectStore('assets');
+        const existing = store.getKey(asset.id);
+        
+        const added = await new Promise<boolean>((resolve, reject) => {
+            existing.onsuccess = () => {
+                if (existing.result !== undefined) {
+                    resolve(false);
+                    return;
+                }
+                const request = store.add({ ...asset, isUserAsset: true });
+                request.onsuccess = () => resolve(true);
+                request.onerror = () => reject(request.error);
+            };
+            existing.onerror = () => reject(existing.error);
+        });
+        
+        if (added) {
+            this.assetCache.set(asset.id, { ...asset, isUserAsset: true });
+        }
+        
+        return added;
+    }
+    
     async deleteAsset(id: string): Promise<void> {
         // Can only delete user assets
         if (!id.startsWith('user_')) {
@@ -33,9 +33,9 @@ export function debugFaceOrientation() {
         secondaryAxis: number,
         tertiaryAxis: number,
         bounds: { min: number[]; max: number[] },
-        voxelMap: Map<string, VoxelType>
+        facing: -1 | 1
     ) {
-        const faces = originalMethod.apply(this, [mask, slice, primaryAxis, secondaryAxis, tertiaryAxis, bounds, voxelMap]);
+        const faces = originalMethod.apply(this, [mask, slice, primaryAxis, secondaryAxis, tertiaryAxis, bounds, facing]);
         
         // Log face generation details
         if (faces.length > 0) {
@@ -51,7 +51,7 @@ export function debugFaceOrientation() {
                 
                 // Check if this face position makes sense
                 const currentKey = `${face.x},${face.y},${face.z}`;
-                const hasVoxel = voxelMap.has(currentKey);
+                const hasVoxel = voxels.has(currentKey);
                 
                 // For positive normals, check if there's a voxel at the face position
                 if ((face.normal.x > 0 || face.normal.y > 0 || face.normal.z > 0) && !hasVoxel) {
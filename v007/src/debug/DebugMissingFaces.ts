@@ -34,9 +34,10 @@ export function debugMissingFaces() {
         primaryAxis: number,
         secondaryAxis: number,
         tertiaryAxis: number,
-        bounds: { min: number[]; max: number[] }
+        bounds: { min: number[]; max: number[] },
+        facing: -1 | 1
     ) {
-        const mask = originalCreateSliceMask.apply(this, [voxelMap, slice, primaryAxis, secondaryAxis, tertiaryAxis, bounds]);
+        const mask = originalCreateSliceMask.apply(this, [voxelMap, slice, primaryAxis, secondaryAxis, tertiaryAxis, bounds, facing]);
         
         // Count non-null entries in mask
         let faceCount = 0;
@@ -85,9 +86,9 @@ export function debugMissingFaces() {
         secondaryAxis: number,
         tertiaryAxis: number,
         bounds: { min: number[]; max: number[] },
-        voxelMap: Map<string, VoxelType>
+        facing: -1 | 1
     ) {
-        const faces = originalGenerateRectangles.apply(this, [mask, slice, primaryAxis, secondaryAxis, tertiaryAxis, bounds, voxelMap]);
+        const faces = originalGenerateRectangles.apply(this, [mask, slice, primaryAxis, secondaryAxis, tertiaryAxis, bounds, facing]);
         
         const axisName = primaryAxis === 0 ? 'X' : primaryAxis === 1 ? 'Y' : 'Z';
         if (slice === bounds.max[primaryAxis] + 1 && faces.length === 0) {
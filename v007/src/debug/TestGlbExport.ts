@@ -0,0 +1,162 @@
+import { VoxelType } from '../types';
+import { GlbWriter, GLB_MAGIC, GLB_VERSION, GLB_CHUNK_JSON, GLB_CHUNK_BIN } from '../io/GlbWriter';
+
+/**
+ * Validate a buffer against the glTF 2.0 binary layout
+ * Returns a list of problems (empty when the file is valid)
+ */
+export function validateGlb(buffer: ArrayBuffer): string[] {
+    const errors: string[] = [];
+    const view = new DataView(buffer);
+    
+    if (buffer.byteLength < 20) {
+        return ['File is smaller than header + JSON chunk header'];
+    }
+    
+    // Header
+    if (view.getUint32(0, true) !== GLB_MAGIC) errors.push('Bad magic');
+    if (view.getUint32(4, true) !== GLB_VERSION) errors.push('Version is not 2');
+    if (view.getUint32(8, true) !== buffer.byteLength) errors.push('Header length does not match file size');
+    
+    // JSON chunk
+    const jsonLength = view.getUint32(12, true);
+    if (view.getUint32(16, true) !== GLB_CHUNK_JSON) errors.push('First chunk is not JSON');
+    if (jsonLength % 4 !== 0) errors.push('JSON chunk is not 4-byte aligned');
+    if (20 + jsonLength > buffer.byteLength) return [...errors, 'JSON chunk overruns file'];
+    
+    let json: any;
+    try {
+        json = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 20, jsonLength)));
+    } catch (error) {
+        return [...errors, `JSON chunk does not parse: ${error}`];
+    }
+    
+    if (json.asset?.version !== '2.0') errors.push('asset.version is not 2.0');
+    
+    // BIN chunk
+    let binLength = 0;
+    const binOffset = 20 + jsonLength;
+    if (binOffset < buffer.byteLength) {
+        binLength = view.getUint32(binOffset, true);
+        if (view.getUint32(binOffset + 4, true) !== GLB_CHUNK_BIN) errors.push('Second chunk is not BIN');
+        if (binLength % 4 !== 0) errors.push('BIN chunk is not 4-byte aligned');
+        if (binOffset + 8 + binLength !== buffer.byteLength) errors.push('BIN chunk length does not match file size');
+    }
+    
+    const buffers: any[] = json.buffers ?? [];
+    if (buffers.length > 0 && buffers[0].byteLength > binLength) {
+        errors.push('buffers[0].byteLength exceeds BIN chunk');
+    }
+    
+    // Buffer views must fit inside their buffer
+    const bufferViews: any[] = json.bufferViews ?? [];
+    bufferViews.forEach((bufferView, i) => {
+        const byteLength = buffers[bufferView.buffer]?.byteLength ?? 0;
+        if ((bufferView.byteOffset ?? 0) + bufferView.byteLength > byteLength) {
+            errors.push(`bufferViews[${i}] overruns buffer`);
+        }
+    });
+    
+    // Accessors must fit inside their buffer views
+    const componentSizes: Record<number, number> = { 5120: 1, 5121: 1, 5122: 2, 5123: 2, 5125: 4, 5126: 4 };
+    const typeSizes: Record<string, number> = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4 };
+    const accessors: any[] = json.accessors ?? [];
+    accessors.forEach((accessor, i) => {
+        const bufferView = bufferViews[accessor.bufferView];
+        if (!bufferView) {
+            errors.push(`accessors[${i}] references missing bufferView`);
+            return;
+        }
+        const size = accessor.count * componentSizes[accessor.componentType] * typeSizes[accessor.type];
+        if ((accessor.byteOffset ?? 0) + size > bufferView.byteLength) {
+            errors.push(`accessors[${i}] overruns bufferView`);
+        }
+    });
+    
+    // Primitives
+    const meshes: any[] = json.meshes ?? [];
+    meshes.forEach((mesh, m) => {
+        mesh.primitives.forEach((primitive: any, p: number) => {
+            const position = accessors[primitive.attributes.POSITION];
+            if (!position || !position.min || !position.max) {
+                errors.push(`meshes[${m}].primitives[${p}] POSITION is missing or has no bounds`);
+            }
+            if (primitive.material !== undefined && !json.materials?.[primitive.material]) {
+                errors.push(`meshes[${m}].primitives[${p}] references missing material`);
+            }
+            
+            // Indices must reference existing vertices
+            const indexAccessor = accessors[primitive.indices];
+            if (indexAccessor && position && binLength > 0) {
+                const bufferView = bufferViews[indexAccessor.bufferView];
+                const indices = new Uint32Array(buffer.slice(binOffset + 8 + bufferView.byteOffset, binOffset + 8 + bufferView.byteOffset + bufferView.byteLength));
+                if (indices.some(index => index >= position.count)) {
+                    errors.push(`meshes[${m}].primitives[${p}] has out of range indices`);
+                }
+            }
+        });
+    });
+    
+    // Nodes
+    const nodes: any[] = json.nodes ?? [];
+    nodes.forEach((node, i) => {
+        if (node.mesh !== undefined && !meshes[node.mesh]) errors.push(`nodes[${i}] references missing mesh`);
+    });
+    
+    return errors;
+}
+
+/**
+ * Export a small multi-layer scene to GLB and validate the result.
+ * Runs without a DOM or WebGL context.
+ */
+export function testGlbExport(): boolean {
+    console.log('=== Test GLB Export ===');
+    
+    // Layer 1: 3x1x3 stone floor with a grass voxel on top
+    const ground = new Map<string, VoxelType>();
+    for (let x = 0; x < 3; x++) {
+        for (let z = 0; z < 3; z++) {
+            ground.set(`${x},0,${z}`, VoxelType.STONE);
+        }
+    }
+    ground.set('1,1,1', VoxelType.GRASS);
+    
+    // Layer 2: transparent water, Layer 3: empty
+    const water = new Map<string, VoxelType>([['5,0,5', VoxelType.WATER]]);
+    
+    const writer = new GlbWriter(0.1);
+    const buffer = writer.createGlbFile([
+        { name: 'Ground', voxels: ground },
+        { name: 'Water', voxels: water },
+        { name: 'Empty', voxels: new Map() }
+    ]);
+    
+    const errors = validateGlb(buffer);
+    
+    const view = new DataView(buffer);
+    const json = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 20, view.getUint32(12, true))));
+    
+    // Layers become named nodes in order
+    const nodeNames = json.nodes.map((node: any) => node.name).join(',');
+    if (nodeNames !== 'Ground,Water,Empty') errors.push(`Unexpected node names: ${nodeNames}`);
+    if (json.nodes[2].mesh !== undefined) errors.push('Empty layer should not have a mesh');
+    
+    // One material per voxel color, transparent water blended
+    if (json.materials.length !== 3) errors.push(`Expected 3 materials, got ${json.materials.length}`);
+    const blended = json.materials.filter((material: any) => material.alphaMode === 'BLEND').length;
+    if (blended !== 1) errors.push(`Expected 1 blended material, got ${blended}`);
+    
+    if (errors.length > 0) {
+        errors.forEach(error => console.error('❌', error));
+        return false;
+    }
+    
+    console.log(`✅ GLB export valid (${buffer.byteLength} bytes, ${json.meshes.length} meshes, ${json.materials.length} materials)`);
+    return true;
+}
+
+// Make available globally
+if (typeof window !== 'undefined') {
+    (window as any).testGlbExport = testGlbExport;
+}
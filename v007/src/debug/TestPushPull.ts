@@ -0,0 +1,80 @@
+import { VoxelType, VoxelPosition } from '../types';
+import { PushPull } from '../interaction/PushPull';
+
+/**
+ * Grow push-pull face regions on a small scene and check which faces are
+ * grabbed and which voxels extruding and carving change.
+ * Runs without a DOM or WebGL context.
+ */
+export function testPushPull(): boolean {
+    console.log('=== Test Push Pull ===');
+    const errors: string[] = [];
+    
+    const voxels = new Map<string, VoxelType>();
+    const key = (x: number, y: number, z: number) => `${x},${y},${z}`;
+    const set = (x: number, y: number, z: number, type: VoxelType) => voxels.set(key(x, y, z), type);
+    const getVoxel = (x: number, y: number, z: number) => voxels.get(key(x, y, z)) ?? VoxelType.AIR;
+    const expect = (label: string, actual: unknown, expected: unknown) => {
+        if (actual !== expected) errors.push(`${label}: expected ${expected}, got ${actual}`);
+    };
+    const up = { x: 0, y: 1, z: 0 };
+    
+    // A 4x4 stone floor with a 2x2 grass patch in one corner and a post standing on it
+    for (let x = 0; x < 4; x++) {
+        for (let z = 0; z < 4; z++) {
+            set(x, 0, z, x < 2 && z < 2 ? VoxelType.GRASS : VoxelType.STONE);
+        }
+    }
+    set(3, 1, 3, VoxelType.STONE);
+    
+    // The region stops at other colors and at covered faces
+    const stone = PushPull.findFace(getVoxel, { x: 3, y: 0, z: 0 }, up);
+    expect('Stone face', stone?.voxels.length, 16 - 4 - 1);
+    expect('Stone type', stone?.type, VoxelType.STONE);
+    expect('Grass face', PushPull.findFace(getVoxel, { x: 0, y: 0, z: 0 }, up)?.voxels.length, 4);
+    
+    // Faces only connect within their own layer
+    expect('Post top', PushPull.findFace(getVoxel, { x: 3, y: 1, z: 3 }, up)?.voxels.length, 1);
+    
+    // Side faces grow along the edge and up the post standing in the same plane
+    expect('Side face', PushPull.findFace(getVoxel, { x: 3, y: 0, z: 0 }, { x: 1, y: 0, z: 0 })?.voxels.length, 5);
+    
+    // Covered faces and empty cells can't be grabbed
+    if (PushPull.findFace(getVoxel, { x: 3, y: 0, z: 3 }, up)) errors.push('Covered face was grabbed');
+    if (PushPull.findFace(getVoxel, { x: 0, y: 5, z: 0 }, up)) errors.push('Empty cell was grabbed');
+    
+    // The region limit caps large faces
+    expect('Limited face', PushPull.findFace(getVoxel, { x: 3, y: 0, z: 0 }, up, 5)?.voxels.length, 5);
+    
+    // Pulling the grass up two stacks two layers above it
+    const grass = PushPull.findFace(getVoxel, { x: 0, y: 0, z: 0 }, up)!;
+    const pulled = PushPull.sweep(grass, 2, getVoxel);
+    expect('Pulled count', pulled.length, 8);
+    if (!pulled.every((p: VoxelPosition) => p.y === 1 || p.y === 2)) errors.push('Pull left the layers above the face');
+    
+    // Pulling the stone stops each column at the post
+    expect('Pull around post', PushPull.sweep(stone!, 1, getVoxel).length, 11);
+    set(2, 2, 2, VoxelType.STONE);
+    const blocked = PushPull.sweep(stone!, 3, getVoxel);
+    if (blocked.some((p: VoxelPosition) => p.x === 2 && p.z === 2 && p.y > 1)) errors.push('Pull jumped over an obstacle');
+    
+    // Pushing the grass in removes it, then stops at the empty cell below
+    const pushed = PushPull.sweep(grass, -3, getVoxel);
+    expect('Pushed count', pushed.length, 4);
+    if (!pushed.every((p: VoxelPosition) => p.y === 0)) errors.push('Push carved past a gap');
+    
+    expect('Zero distance', PushPull.sweep(grass, 0, getVoxel).length, 0);
+    
+    if (errors.length > 0) {
+        errors.forEach(error => console.error('❌', error));
+        return false;
+    }
+    
+    console.log('✅ Push pull valid');
+    return true;
+}
+
+// Make available globally
+if (typeof window !== 'undefined') {
+    (window as any).testPushPull = testPushPull;
+}
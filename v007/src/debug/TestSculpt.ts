@@ -0,0 +1,130 @@
+import { VoxelType, VoxelPosition } from '../types';
+import { Sculpt, SculptBrush, SculptChange } from '../interaction/Sculpt';
+
+/**
+ * Dab each sculpting brush on a small terrain and check what smoothing,
+ * eroding, inflating, flattening and raising or lowering change.
+ * Runs without a DOM or WebGL context.
+ */
+export function testSculpt(): boolean {
+    console.log('=== Test Sculpt ===');
+    const errors: string[] = [];
+    
+    const key = (x: number, y: number, z: number) => `${x},${y},${z}`;
+    const up = { x: 0, y: 1, z: 0 };
+    const brush = (mode: SculptBrush['mode'], options: Partial<SculptBrush> = {}): SculptBrush =>
+        ({ mode, radius: 3, strength: 1, falloff: 0, ...options });
+    const expect = (label: string, actual: unknown, expected: unknown) => {
+        if (actual !== expected) errors.push(`${label}: expected ${expected}, got ${actual}`);
+    };
+    
+    // A flat 9x9 ground, 3 voxels deep, with a one voxel spike and a one voxel pit
+    const createGround = () => {
+        const voxels = new Map<string, VoxelType>();
+        for (let x = -4; x <= 4; x++) {
+            for (let z = -4; z <= 4; z++) {
+                for (let y = 0; y < 3; y++) {
+                    voxels.set(key(x, y, z), y === 2 ? VoxelType.GRASS : VoxelType.DIRT);
+                }
+            }
+        }
+        voxels.set(key(1, 3, 0), VoxelType.STONE);
+        voxels.delete(key(-1, 2, 0));
+        return voxels;
+    };
+    const dab = (voxels: Map<string, VoxelType>, b: SculptBrush, center: VoxelPosition = { x: 0, y: 2, z: 0 }, plane?: number) => {
+        const changes = Sculpt.apply((x, y, z) => voxels.get(key(x, y, z)) ?? VoxelType.AIR, center, up, b, VoxelType.SAND, plane);
+        for (const change of changes) {
+            if (change.type === VoxelType.AIR) voxels.delete(key(change.x, change.y, change.z));
+            else voxels.set(key(change.x, change.y, change.z), change.type);
+        }
+        return changes;
+    };
+    const has = (voxels: Map<string, VoxelType>, x: number, y: number, z: number) => voxels.has(key(x, y, z));
+    const count = (changes: SculptChange[], type?: VoxelType) =>
+        changes.filter(c => type === undefined ? c.type !== VoxelType.AIR : c.type === type).length;
+    
+    // Falloff eases the brush from full strength at the center to nothing at the edge
+    expect('Center weight', Sculpt.weight(0, brush('smooth', { strength: 0.8, falloff: 1 })), 0.8);
+    expect('Edge weight', Sculpt.weight(3, brush('smooth', { falloff: 1 })), 0);
+    expect('Hard edge weight', Sculpt.weight(3, brush('smooth', { falloff: 0 })), 1);
+    expect('Outside weight', Sculpt.weight(3.5, brush('smooth')), 0);
+    
+    // Smoothing knocks off the spike and fills the pit, leaving the flat ground alone
+    let voxels = createGround();
+    let changes = dab(voxels, brush('smooth'));
+    if (has(voxels, 1, 3, 0)) errors.push('Smooth left the spike');
+    if (!has(voxels, -1, 2, 0)) errors.push('Smooth left the pit');
+    expect('Smooth pit type', voxels.get(key(-1, 2, 0)), VoxelType.GRASS);
+    expect('Smooth changes', changes.length, 2);
+    
+    // A weak smooth only takes what stands nearly alone
+    voxels = createGround();
+    voxels.set(key(0, 4, 1), VoxelType.STONE);
+    dab(voxels, brush('smooth', { strength: 0.2 }));
+    if (has(voxels, 0, 4, 1)) errors.push('Weak smooth left a floating voxel');
+    if (!has(voxels, 1, 3, 0) || has(voxels, -1, 2, 0)) errors.push('Weak smooth changed the spike or pit');
+    
+    // Eroding takes the exposed top layer, not what's under it
+    voxels = createGround();
+    changes = dab(voxels, brush('erode', { radius: 1 }));
+    if (has(voxels, 0, 2, 0)) errors.push('Erode left an exposed voxel');
+    if (!has(voxels, 0, 1, 0)) errors.push('Erode took a covered voxel');
+    expect('Erode adds nothing', count(changes), 0);
+    
+    // Inflating grows the surface by a layer in the neighbors' types
+    voxels = createGround();
+    changes = dab(voxels, brush('inflate', { radius: 1 }), { x: -3, y: 3, z: 2 });
+    expect('Inflate above center', voxels.get(key(-3, 3, 2)), VoxelType.GRASS);
+    if (has(voxels, -3, 4, 2)) errors.push('Inflate grew more than a layer');
+    expect('Inflate removes nothing', count(changes, VoxelType.AIR), 0);
+    
+    // Flattening to the clicked plane cuts the spike and fills the pit
+    voxels = createGround();
+    dab(voxels, brush('flatten'), { x: 0, y: 2, z: 0 }, 2);
+    if (has(voxels, 1, 3, 0) || !has(voxels, -1, 2, 0)) errors.push('Flatten did not level the ground');
+    // A lower plane carves the ground down to it
+    voxels = createGround();
+    dab(voxels, brush('flatten', { radius: 2 }), { x: 0, y: 2, z: 0 }, 1);
+    if (has(voxels, 0, 2, 0) || !has(voxels, 0, 1, 0)) errors.push('Flatten to a lower plane did not cut down to it');
+    
+    // Raising lifts each column by more in the middle than at the edge
+    voxels = createGround();
+    changes = dab(voxels, brush('raise', { radius: 2, falloff: 1 }));
+    expect('Raised center', has(voxels, 0, 4, 0) && !has(voxels, 0, 5, 0), true);
+    if (has(voxels, 2, 3, 0)) errors.push('Raise lifted the edge of a fully soft brush');
+    expect('Raise type', voxels.get(key(0, 3, 0)), VoxelType.GRASS);
+    expect('Raise removes nothing', count(changes, VoxelType.AIR), 0);
+    
+    // Lowering digs down from each column's own surface
+    voxels = createGround();
+    changes = dab(voxels, brush('lower', { radius: 2 }));
+    if (has(voxels, 0, 2, 0) || has(voxels, 0, 1, 0) || !has(voxels, 0, 0, 0)) errors.push('Lower dug the wrong depth');
+    if (!has(voxels, 1, 1, 0) || has(voxels, 1, 3, 0) || has(voxels, 1, 2, 0)) errors.push('Lower did not follow the spike column');
+    expect('Lower adds nothing', count(changes), 0);
+    
+    // Sideways faces raise and lower along their own normal
+    voxels = createGround();
+    const side = Sculpt.apply((x, y, z) => voxels.get(key(x, y, z)) ?? VoxelType.AIR,
+        { x: 4, y: 1, z: 0 }, { x: 1, y: 0, z: 0 }, brush('raise', { radius: 1 }), VoxelType.SAND);
+    if (!side.some(c => c.x === 5 && c.y === 1 && c.z === 0)) errors.push('Raise on a side face did not grow outward');
+    if (side.some(c => c.x !== 5)) errors.push('Raise on a side face left its plane');
+    
+    // Zero strength does nothing
+    for (const mode of ['smooth', 'erode', 'inflate', 'flatten', 'raise', 'lower'] as const) {
+        expect(`Zero strength ${mode}`, dab(createGround(), brush(mode, { strength: 0 })).length, 0);
+    }
+    
+    if (errors.length > 0) {
+        errors.forEach(error => console.error('❌', error));
+        return false;
+    }
+    
+    console.log('✅ Sculpt brushes valid');
+    return true;
+}
+
+// Make available globally
+if (typeof window !== 'undefined') {
+    (window as any).testSculpt = testSculpt;
+}
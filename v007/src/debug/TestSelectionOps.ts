@@ -0,0 +1,103 @@
+import { VoxelType, VoxelPosition } from '../types';
+import { SelectionVoxel } from '../engine/DeltaUndoManager';
+import { SelectionOps } from '../tools/SelectionOps';
+
+/**
+ * Run the selection geometry operations on small boxes and check what
+ * hollowing, solidifying, outlining and island removal change.
+ * Runs without a DOM or WebGL context.
+ */
+export function testSelectionOps(): boolean {
+    console.log('=== Test Selection Ops ===');
+    const errors: string[] = [];
+    
+    const key = (v: VoxelPosition) => `${v.x},${v.y},${v.z}`;
+    const expect = (label: string, actual: unknown, expected: unknown) => {
+        if (actual !== expected) errors.push(`${label}: expected ${expected}, got ${actual}`);
+    };
+    const box = (from: VoxelPosition, to: VoxelPosition, type: VoxelType = VoxelType.STONE): SelectionVoxel[] => {
+        const voxels: SelectionVoxel[] = [];
+        for (let x = from.x; x <= to.x; x++) {
+            for (let y = from.y; y <= to.y; y++) {
+                for (let z = from.z; z <= to.z; z++) {
+                    voxels.push({ x, y, z, type });
+                }
+            }
+        }
+        return voxels;
+    };
+    const lookup = (voxels: SelectionVoxel[]) => {
+        const types = new Map(voxels.map(v => [key(v), v.type]));
+        return (x: number, y: number, z: number) => types.get(`${x},${y},${z}`) ?? VoxelType.AIR;
+    };
+    
+    // Hollowing a 6x6x6 cube keeps a shell of the given thickness
+    const cube = box({ x: 0, y: 0, z: 0 }, { x: 5, y: 5, z: 5 });
+    expect('Hollow 1 removes', SelectionOps.hollow(cube, 1).length, 4 * 4 * 4);
+    expect('Hollow 2 removes', SelectionOps.hollow(cube, 2).length, 2 * 2 * 2);
+    expect('Hollow 3 removes', SelectionOps.hollow(cube, 3).length, 0);
+    const hollowed = new Set(SelectionOps.hollow(cube, 1).map(key));
+    if (hollowed.has('0,2,2') || !hollowed.has('1,1,1')) errors.push('Hollow removed the wrong voxels');
+    
+    // Cavities already inside count as outside for the shell
+    const withCavity = cube.filter(v => key(v) !== '2,2,2');
+    const aroundCavity = new Set(SelectionOps.hollow(withCavity, 1).map(key));
+    if (['1,2,2', '3,2,2', '2,1,2', '2,3,2', '2,2,1', '2,2,3'].some(k => aroundCavity.has(k))) {
+        errors.push('Hollow removed the walls of an existing cavity');
+    }
+    expect('Hollow around a cavity removes', aroundCavity.size, 4 * 4 * 4 - 1 - 6);
+    
+    // Solidifying fills enclosed cells in the walls' type, not open ones
+    const shell = cube.filter(v => !hollowed.has(key(v)));
+    shell.forEach(v => { if (v.x === 0) v.type = VoxelType.SNOW; });
+    const filled = SelectionOps.solidify(shell, lookup(shell));
+    expect('Solidify fills', filled.length, 4 * 4 * 4);
+    expect('Solidify type', filled[0]?.type, VoxelType.STONE);
+    const open = shell.filter(v => key(v) !== '0,2,2');
+    expect('Solidify with a hole', SelectionOps.solidify(open, lookup(open)).length, 0);
+    // Cells holding unselected voxels stay as they are
+    const blocker: SelectionVoxel = { x: 2, y: 2, z: 2, type: VoxelType.WOOD };
+    expect('Solidify around a voxel', SelectionOps.solidify(shell, lookup([...shell, blocker])).length, 4 * 4 * 4 - 1);
+    // Two separate cavities each take their own walls' type
+    const twoRooms = box({ x: 0, y: 0, z: 0 }, { x: 6, y: 2, z: 2 }, VoxelType.DIRT)
+        .filter(v => key(v) !== '1,1,1' && key(v) !== '5,1,1');
+    twoRooms.forEach(v => { if (v.x >= 4) v.type = VoxelType.SAND; });
+    const rooms = SelectionOps.solidify(twoRooms, lookup(twoRooms));
+    const roomType = (x: number) => rooms.find(v => v.x === x)?.type;
+    expect('First room', roomType(1), VoxelType.DIRT);
+    expect('Second room', roomType(5), VoxelType.SAND);
+    
+    // Outlining adds a closed one voxel border, never below the ground
+    const single = [{ x: 0, y: 3, z: 0, type: VoxelType.STONE }];
+    expect('Outline around one voxel', SelectionOps.outline(single, lookup(single)).length, 26);
+    const grounded = [{ x: 0, y: 0, z: 0, type: VoxelType.STONE }];
+    expect('Outline on the ground', SelectionOps.outline(grounded, lookup(grounded)).length, 17);
+    const neighbor: SelectionVoxel = { x: 1, y: 3, z: 0, type: VoxelType.WOOD };
+    expect('Outline skips filled cells', SelectionOps.outline(single, lookup([...single, neighbor])).length, 25);
+    
+    // Small pieces go, the biggest always stays
+    const pieces = [
+        ...box({ x: 0, y: 0, z: 0 }, { x: 2, y: 2, z: 2 }),
+        ...box({ x: 5, y: 0, z: 0 }, { x: 5, y: 1, z: 0 }),
+        { x: 8, y: 4, z: 0, type: VoxelType.STONE },
+        // Touching the big piece by an edge only, so a piece of its own
+        { x: 3, y: 3, z: 1, type: VoxelType.STONE }
+    ];
+    expect('Islands under 2', SelectionOps.islands(pieces, 2).length, 2);
+    expect('Islands under 3', SelectionOps.islands(pieces, 3).length, 4);
+    expect('All but the largest piece', SelectionOps.islands(pieces, 1000).length, 4);
+    expect('No islands', SelectionOps.islands(cube, 10).length, 0);
+    
+    if (errors.length > 0) {
+        errors.forEach(error => console.error('❌', error));
+        return false;
+    }
+    
+    console.log('✅ Selection ops valid');
+    return true;
+}
+
+// Make available globally
+if (typeof window !== 'undefined') {
+    (window as any).testSelectionOps = testSelectionOps;
+}
@@ -0,0 +1,105 @@
+import { VoxelPosition } from '../types';
+import { ShapeRasterizer, ShapeOptions, DEFAULT_SHAPE_OPTIONS, SHAPE_KINDS } from '../interaction/ShapeRasterizer';
+
+/**
+ * Rasterize each shape tool shape and check sizes, symmetry, tapering and
+ * hollowing against the expected voxel counts.
+ * Runs without a DOM or WebGL context.
+ */
+export function testShapeRasterizer(): boolean {
+    console.log('=== Test Shape Rasterizer ===');
+    const errors: string[] = [];
+    
+    const origin = { x: 0, y: 0, z: 0 };
+    const shape = (end: VoxelPosition, options: Partial<ShapeOptions>, start: VoxelPosition = origin) =>
+        ShapeRasterizer.rasterize(start, end, { ...DEFAULT_SHAPE_OPTIONS, ...options });
+    const keys = (positions: VoxelPosition[]) => new Set(positions.map(p => `${p.x},${p.y},${p.z}`));
+    const extent = (positions: VoxelPosition[]) => {
+        const axes = ['x', 'y', 'z'] as const;
+        return axes.map(axis => {
+            const values = positions.map(p => p[axis]);
+            return `${Math.min(...values)}..${Math.max(...values)}`;
+        }).join(' ');
+    };
+    const expect = (label: string, actual: unknown, expected: unknown) => {
+        if (actual !== expected) errors.push(`${label}: expected ${expected}, got ${actual}`);
+    };
+    
+    // Sphere: a cube as wide as the larger base side, touching every face of its box
+    const sphere = shape({ x: 8, y: 0, z: 4 }, { kind: 'sphere' });
+    expect('Sphere extent', extent(sphere), '0..8 0..8 0..8');
+    expect('Sphere count', sphere.length, 389);
+    const sphereKeys = keys(sphere);
+    const mirrored = sphere.every(p => sphereKeys.has(`${8 - p.x},${p.y},${p.z}`) && sphereKeys.has(`${p.z},${p.x},${p.y}`));
+    if (!mirrored) errors.push('Sphere is not symmetric');
+    
+    // Dragging towards negative coordinates grows the other way
+    expect('Sphere drawn backwards', extent(shape({ x: -8, y: 0, z: -2 }, { kind: 'sphere' })), '-8..0 0..8 -8..0');
+    
+    // Ellipsoid fills its box unevenly
+    expect('Ellipsoid extent', extent(shape({ x: 10, y: 4, z: 6 }, { kind: 'ellipsoid' })), '0..10 0..4 0..6');
+    
+    // Cylinder: the same disc on every layer, along any axis
+    const cylinder = shape({ x: 6, y: 3, z: 6 }, { kind: 'cylinder', axis: 'y' });
+    expect('Cylinder count', cylinder.length, 4 * 37);
+    const sideways = shape({ x: 3, y: 6, z: 6 }, { kind: 'cylinder', axis: 'x' });
+    expect('Cylinder along X count', sideways.length, 4 * 37);
+    expect('Cylinder along X extent', extent(sideways), '0..3 0..6 0..6');
+    
+    // Cone: full disc at the base, a single voxel at the tip
+    const cone = shape({ x: 6, y: 6, z: 6 }, { kind: 'cone', axis: 'y' });
+    const layer = (positions: VoxelPosition[], y: number) => positions.filter(p => p.y === y).length;
+    expect('Cone base', layer(cone, 0), 37);
+    expect('Cone tip', layer(cone, 6), 1);
+    for (let y = 1; y <= 6; y++) {
+        if (layer(cone, y) > layer(cone, y - 1)) errors.push(`Cone layer ${y} is wider than the one below`);
+    }
+    // Dragging down flips the base to the start side
+    const hanging = shape({ x: 6, y: -6, z: 6 }, { kind: 'cone', axis: 'y' });
+    expect('Upside-down cone base', layer(hanging, 0), 37);
+    expect('Upside-down cone tip', layer(hanging, -6), 1);
+    
+    // Pyramid: square layers shrinking by one voxel per side
+    const pyramid = shape({ x: 6, y: 3, z: 6 }, { kind: 'pyramid', axis: 'y' });
+    expect('Pyramid count', pyramid.length, 49 + 25 + 9 + 1);
+    
+    // Torus: a ring with a hole through the middle
+    const torus = keys(shape({ x: 12, y: 2, z: 12 }, { kind: 'torus', axis: 'y' }));
+    if (torus.has('6,1,6')) errors.push('Torus has no hole');
+    if (!torus.has('0,1,6') || !torus.has('12,1,6') || !torus.has('6,1,0')) errors.push('Torus ring does not reach its box');
+    
+    // Hollow shapes keep the outside and lose the core
+    const solidBox = shape({ x: 6, y: 3, z: 6 }, { kind: 'cylinder', hollow: false });
+    const hollow = shape({ x: 6, y: 3, z: 6 }, { kind: 'cylinder', hollow: true, wallThickness: 1 });
+    const hollowKeys = keys(hollow);
+    if (!hollow.every(p => keys(solidBox).has(`${p.x},${p.y},${p.z}`))) errors.push('Hollow cylinder leaves the solid one');
+    if (hollowKeys.has('3,1,3')) errors.push('Hollow cylinder is filled');
+    if (!hollowKeys.has('3,0,3') || !hollowKeys.has('3,3,3')) errors.push('Hollow cylinder is missing its caps');
+    
+    const hollowSphere = shape({ x: 8, y: 0, z: 8 }, { kind: 'sphere', hollow: true, wallThickness: 1 });
+    const thickSphere = shape({ x: 8, y: 0, z: 8 }, { kind: 'sphere', hollow: true, wallThickness: 2 });
+    if (!(hollowSphere.length < thickSphere.length && thickSphere.length < sphere.length)) {
+        errors.push(`Wall thickness does not grow the shell (${hollowSphere.length}, ${thickSphere.length}, ${sphere.length})`);
+    }
+    if (keys(hollowSphere).has('4,4,4')) errors.push('Hollow sphere is filled');
+    // A wall thicker than the shape is just the solid shape
+    expect('Over-thick wall', shape({ x: 8, y: 0, z: 8 }, { kind: 'sphere', hollow: true, wallThickness: 10 }).length, sphere.length);
+    
+    // Single voxel boxes still place one voxel
+    for (const kind of SHAPE_KINDS) {
+        expect(`Single voxel ${kind}`, shape(origin, { kind }).length, 1);
+    }
+    
+    if (errors.length > 0) {
+        errors.forEach(error => console.error('❌', error));
+        return false;
+    }
+    
+    console.log('✅ Shape rasterizer valid');
+    return true;
+}
+
+// Make available globally
+if (typeof window !== 'undefined') {
+    (window as any).testShapeRasterizer = testShapeRasterizer;
+}
@@ -0,0 +1,85 @@
+import { VoxelType } from '../types';
+import { PngCodec } from '../io/PngCodec';
+import { SpriteSheetWriter, DEFAULT_SPRITE_SHEET_OPTIONS } from '../io/SpriteSheetWriter';
+import { SoftwareSpriteRenderer } from '../io/SpriteRenderer';
+
+/**
+ * Render a small model into a 4-direction sprite sheet with the software
+ * renderer and check the frames, pivots and atlas.
+ * Runs without a DOM or WebGL context.
+ */
+export async function testSpriteSheet(): Promise<boolean> {
+    console.log('=== Test Sprite Sheet ===');
+    const errors: string[] = [];
+    
+    // 3x1x3 stone base with a wooden pillar on one corner, so every yaw looks different
+    const voxels = new Map<string, VoxelType>();
+    for (let x = 0; x < 3; x++) {
+        for (let z = 0; z < 3; z++) {
+            voxels.set(`${x},0,${z}`, VoxelType.STONE);
+        }
+    }
+    for (let y = 1; y <= 3; y++) {
+        voxels.set(`0,${y},0`, VoxelType.WOOD);
+    }
+    
+    const writer = new SpriteSheetWriter(new SoftwareSpriteRenderer());
+    const { layout, frames } = await writer.renderFrames(voxels, DEFAULT_SPRITE_SHEET_OPTIONS);
+    
+    if (frames.length !== 4) errors.push(`Expected 4 frames, got ${frames.length}`);
+    if (frames.map(frame => frame.yaw).join(',') !== '45,135,225,315') {
+        errors.push(`Unexpected yaws: ${frames.map(frame => frame.yaw).join(',')}`);
+    }
+    
+    const alphaAt = (data: Uint8ClampedArray, width: number, x: number, y: number) => data[(y * width + x) * 4 + 3];
+    frames.forEach(({ yaw, image }) => {
+        if (image.width !== layout.width || image.height !== layout.height) {
+            errors.push(`Frame ${yaw} is ${image.width}x${image.height}, layout is ${layout.width}x${layout.height}`);
+        }
+        // The base covers the pivot from every side; the corners stay transparent
+        if (alphaAt(image.data, image.width, layout.pivotX, layout.pivotY - 1) !== 255) {
+            errors.push(`Frame ${yaw} has nothing just above the pivot`);
+        }
+        if (alphaAt(image.data, image.width, 0, 0) !== 0 || alphaAt(image.data, image.width, image.width - 1, image.height - 1) !== 0) {
+            errors.push(`Frame ${yaw} background is not transparent`);
+        }
+    });
+    
+    // The pillar moves around as the model turns
+    const same = (a: Uint8ClampedArray, b: Uint8ClampedArray) => a.every((value, i) => value === b[i]);
+    if (frames.length === 4 && same(frames[0].image.data, frames[1].image.data)) {
+        errors.push('Frames at different yaws are identical');
+    }
+    
+    // Sheet and atlas agree
+    const { png, atlas } = await writer.createSpriteSheet('pillar', voxels, DEFAULT_SPRITE_SHEET_OPTIONS);
+    const sheet = await PngCodec.decode(png);
+    if (sheet.width !== atlas.meta.size.w || sheet.height !== atlas.meta.size.h) {
+        errors.push('Atlas size does not match the sheet');
+    }
+    const names = Object.keys(atlas.frames);
+    if (names.join(',') !== 'pillar_045,pillar_135,pillar_225,pillar_315') {
+        errors.push(`Unexpected frame names: ${names.join(',')}`);
+    }
+    for (const [name, entry] of Object.entries(atlas.frames)) {
+        const { x, y, w, h } = entry.frame;
+        if (x + w > sheet.width || y + h > sheet.height) errors.push(`${name} lies outside the sheet`);
+        if (entry.pivot.x !== layout.pivotX / w || entry.pivot.y !== layout.pivotY / h) errors.push(`${name} has the wrong pivot`);
+        if (alphaAt(sheet.data, sheet.width, x + layout.pivotX, y + layout.pivotY - 1) !== 255) {
+            errors.push(`${name} was not copied into the sheet`);
+        }
+    }
+    
+    if (errors.length > 0) {
+        errors.forEach(error => console.error('❌', error));
+        return false;
+    }
+    
+    console.log(`✅ Sprite sheet valid (${sheet.width}x${sheet.height}, frames ${layout.width}x${layout.height}, pivot ${layout.pivotX},${layout.pivotY})`);
+    return true;
+}
+
+// Make available globally
+if (typeof window !== 'undefined') {
+    (window as any).testSpriteSheet = testSpriteSheet;
+}
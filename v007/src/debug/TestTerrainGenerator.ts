@@ -0,0 +1,118 @@
+import { VoxelType } from '../types';
+import { TerrainGenerator, TerrainOptions, DEFAULT_TERRAIN_OPTIONS } from '../engine/TerrainGenerator';
+
+/**
+ * Generate small terrains and check they repeat per seed, stay within their
+ * footprint and heights, and follow the water and biome rules.
+ * Runs without a DOM or WebGL context.
+ */
+export function testTerrainGenerator(): boolean {
+    console.log('=== Test Terrain Generator ===');
+    const errors: string[] = [];
+    
+    const base: TerrainOptions = { ...DEFAULT_TERRAIN_OPTIONS, x: 10, z: -5, width: 48, depth: 32, seed: 42 };
+    const generate = (options: Partial<TerrainOptions> = {}) => TerrainGenerator.generate({ ...base, ...options });
+    const sameArrays = (a: ArrayLike<number>, b: ArrayLike<number>) =>
+        a.length === b.length && Array.prototype.every.call(a, (value: number, i: number) => value === b[i]);
+    
+    // The same seed gives the same terrain, another seed doesn't
+    const terrain = generate();
+    const again = generate();
+    if (!sameArrays(terrain.positions, again.positions) || !sameArrays(terrain.types, again.types)) {
+        errors.push('Same seed gave different terrain');
+    }
+    if (sameArrays(terrain.heights, generate({ seed: 43 }).heights)) {
+        errors.push('Different seeds gave the same heights');
+    }
+    
+    // Every column is filled from the ground up within the footprint and height range
+    const voxels = new Map<string, VoxelType>();
+    for (let i = 0; i < terrain.types.length; i++) {
+        const [x, y, z] = [terrain.positions[i * 3], terrain.positions[i * 3 + 1], terrain.positions[i * 3 + 2]];
+        if (x < base.x || x >= base.x + base.width || z < base.z || z >= base.z + base.depth) {
+            errors.push(`Voxel outside the footprint at ${x},${y},${z}`);
+            break;
+        }
+        voxels.set(`${x},${y},${z}`, terrain.types[i]);
+    }
+    for (let row = 0; row < base.depth; row++) {
+        for (let col = 0; col < base.width; col++) {
+            const height = terrain.heights[row * base.width + col];
+            const x = base.x + col;
+            const z = base.z + row;
+            if (height < base.minHeight || height > base.maxHeight) {
+                errors.push(`Column ${x},${z} is ${height} high`);
+            }
+            for (let y = 0; y < Math.max(height, base.waterLevel); y++) {
+                const type = voxels.get(`${x},${y},${z}`);
+                if (type === undefined) errors.push(`Gap in column ${x},${z} at y ${y}`);
+                // Water only above the ground and below the water level
+                if ((type === VoxelType.WATER) !== (y >= height)) errors.push(`Wrong water at ${x},${y},${z}`);
+            }
+            if (voxels.has(`${x},${Math.max(height, base.waterLevel)},${z}`)) errors.push(`Column ${x},${z} is too tall`);
+        }
+    }
+    
+    // Before erosion, terrain next door lines up with the same seed
+    const neighbor = generate({ x: base.x + base.width, width: 1, erosion: 0 });
+    const edge = generate({ x: base.x + base.width, width: 2, erosion: 0 });
+    for (let row = 0; row < base.depth; row++) {
+        if (neighbor.heights[row] !== edge.heights[row * 2]) {
+            errors.push('Neighboring terrain does not line up');
+            break;
+        }
+    }
+    
+    // Biome rules by height and slope
+    const rules = { ...base, waterLevel: 8, beachHeight: 1, dirtSlope: 2, cliffSlope: 4, rockLine: 24, snowLine: 28 };
+    const expectType = (label: string, height: number, slope: number, expected: VoxelType) => {
+        const actual = TerrainGenerator.surfaceType(height, slope, rules);
+        if (actual !== expected) errors.push(`${label}: expected ${VoxelType[expected]}, got ${VoxelType[actual]}`);
+    };
+    expectType('Lake bed', 5, 0, VoxelType.SAND);
+    expectType('Beach', 9, 0, VoxelType.SAND);
+    expectType('Meadow', 15, 1, VoxelType.GRASS);
+    expectType('Hillside', 15, 2, VoxelType.DIRT);
+    expectType('Cliff', 15, 4, VoxelType.STONE);
+    expectType('Mountain', 25, 0, VoxelType.STONE);
+    expectType('Peak', 30, 0, VoxelType.SNOW);
+    if (TerrainGenerator.surfaceType(2, 0, { ...rules, waterLevel: 0 }) !== VoxelType.GRASS) {
+        errors.push('Beach without water');
+    }
+    
+    // Erosion keeps the ground and softens the slopes
+    const maxSlope = (heights: Int32Array, width: number) => {
+        let slope = 0;
+        for (let i = 0; i < heights.length; i++) {
+            if ((i % width) + 1 < width) slope = Math.max(slope, Math.abs(heights[i] - heights[i + 1]));
+            if (i + width < heights.length) slope = Math.max(slope, Math.abs(heights[i] - heights[i + width]));
+        }
+        return slope;
+    };
+    const rough = generate({ erosion: 0, scale: 8, octaves: 6, persistence: 0.8 });
+    const eroded = generate({ erosion: 40, scale: 8, octaves: 6, persistence: 0.8 });
+    if (maxSlope(eroded.heights, base.width) >= maxSlope(rough.heights, base.width)) {
+        errors.push('Erosion did not soften the steepest slope');
+    }
+    const sum = (heights: Int32Array) => heights.reduce((total, height) => total + height, 0);
+    if (Math.abs(sum(eroded.heights) - sum(rough.heights)) > base.width * base.depth / 2) {
+        errors.push('Erosion changed the amount of ground');
+    }
+    
+    // Out of range options are clamped
+    const tiny = generate({ width: 0, depth: -3, minHeight: 0, maxHeight: 0, octaves: 0 });
+    if (tiny.heights.length !== 1 || tiny.heights[0] !== 1) errors.push('Options were not clamped');
+    
+    if (errors.length > 0) {
+        errors.slice(0, 20).forEach(error => console.error('❌', error));
+        return false;
+    }
+    
+    console.log('✅ Terrain generator valid');
+    return true;
+}
+
+// Make available globally
+if (typeof window !== 'undefined') {
+    (window as any).testTerrainGenerator = testTerrainGenerator;
+}
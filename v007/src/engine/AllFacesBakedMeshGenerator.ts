@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { VoxelType } from '../types';
 import { ColorRegistry } from './ColorRegistry';
+import { applyVoxelMaterialShader, getMaterialChannels, VOXEL_MATERIAL_ATTRIBUTE, DEFAULT_ROUGHNESS, DEFAULT_METALNESS } from './VoxelMaterialShader';
 
 /**
  * Baked mesh generator that creates ALL faces for every voxel
@@ -26,8 +27,8 @@ export class AllFacesBakedMeshGenerator {
     } {
         // AllFacesBakedMeshGenerator: Processing voxels for baking
         
-        const opaqueData = { positions: [] as number[], normals: [] as number[], colors: [] as number[], indices: [] as number[] };
-        const transparentData = { positions: [] as number[], normals: [] as number[], colors: [] as number[], indices: [] as number[] };
+        const opaqueData = { positions: [] as number[], normals: [] as number[], colors: [] as number[], materials: [] as number[], indices: [] as number[] };
+        const transparentData = { positions: [] as number[], normals: [] as number[], colors: [] as number[], materials: [] as number[], indices: [] as number[] };
         
         let opaqueVertexIndex = 0;
         let transparentVertexIndex = 0;
@@ -36,6 +37,7 @@ export class AllFacesBakedMeshGenerator {
         for (const [key, type] of voxels) {
             const [x, y, z] = key.split(',').map(Number);
             const color = this.getVoxelColor(type);
+            const material = getMaterialChannels(this.colorRegistry.getMaterial(type));
             const isTransparent = this.isTransparent(type);
             
             const data = isTransparent ? transparentData : opaqueData;
@@ -133,6 +135,7 @@ export class AllFacesBakedMeshGenerator {
                     );
                     data.normals.push(face.normal[0], face.normal[1], face.normal[2]);
                     data.colors.push(color.r, color.g, color.b);
+                    data.materials.push(material[0], material[1], material[2]);
                 }
                 
                 // Add indices for two triangles
@@ -173,13 +176,14 @@ export class AllFacesBakedMeshGenerator {
         };
     }
     
-    private createMesh(data: { positions: number[], normals: number[], colors: number[], indices: number[] }, transparent: boolean): THREE.Mesh | null {
+    private createMesh(data: { positions: number[], normals: number[], colors: number[], materials: number[], indices: number[] }, transparent: boolean): THREE.Mesh | null {
         if (data.positions.length === 0) return null;
         
         const geometry = new THREE.BufferGeometry();
         geometry.setAttribute('position', new THREE.Float32BufferAttribute(data.positions, 3));
         geometry.setAttribute('normal', new THREE.Float32BufferAttribute(data.normals, 3));
         geometry.setAttribute('color', new THREE.Float32BufferAttribute(data.colors, 3));
+        geometry.setAttribute(VOXEL_MATERIAL_ATTRIBUTE, new THREE.Float32BufferAttribute(data.materials, 3));
         geometry.setIndex(data.indices);
         geometry.computeBoundingBox();
         
@@ -187,10 +191,11 @@ export class AllFacesBakedMeshGenerator {
             vertexColors: true,
             transparent,
             opacity: transparent ? 0.8 : 1.0,
-            roughness: 0.8,
-            metalness: 0.2,
+            roughness: DEFAULT_ROUGHNESS,
+            metalness: DEFAULT_METALNESS,
             side: THREE.FrontSide
         });
+        applyVoxelMaterialShader(material);
         
         const mesh = new THREE.Mesh(geometry, material);
         mesh.castShadow = true;
@@ -202,7 +207,8 @@ export class AllFacesBakedMeshGenerator {
         return type === VoxelType.WATER || 
                type === VoxelType.ICE || 
                type === VoxelType.LEAVES ||
-               type === VoxelType.SNOW;
+               type === VoxelType.SNOW ||
+               this.colorRegistry.getMaterial(type)?.glass === true;
     }
     
     private getVoxelColor(type: VoxelType): THREE.Color {
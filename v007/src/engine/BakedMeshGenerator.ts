@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { VoxelType } from '../types';
 import { ColorRegistry } from './ColorRegistry';
+import { applyVoxelMaterialShader, getMaterialChannels, VOXEL_MATERIAL_ATTRIBUTE, DEFAULT_ROUGHNESS, DEFAULT_METALNESS } from './VoxelMaterialShader';
 
 interface VoxelData {
     x: number;
@@ -99,7 +100,8 @@ export class BakedMeshGenerator {
         return type === VoxelType.WATER || 
                type === VoxelType.ICE || 
                type === VoxelType.LEAVES ||
-               type === VoxelType.SNOW;
+               type === VoxelType.SNOW ||
+               this.colorRegistry.getMaterial(type)?.glass === true;
     }
     
     /**
@@ -158,35 +160,40 @@ export class BakedMeshGenerator {
         // Start from min-1 to catch negative-facing boundary faces
         // End at max+1 to catch positive-facing boundary faces
         for (let slice = bounds.min[primaryAxis] - 1; slice <= bounds.max[primaryAxis] + 1; slice++) {
-            // Create mask for this slice
-            const mask = this.createSliceMask(
-                voxelMap, 
-                slice, 
-                primaryAxis, 
-                secondaryAxis, 
-                tertiaryAxis, 
-                bounds
-            );
-            
-            // Generate rectangles from mask
-            const sliceFaces = this.generateRectanglesFromMask(
-                mask, 
-                slice, 
-                primaryAxis, 
-                secondaryAxis, 
-                tertiaryAxis,
-                bounds,
-                voxelMap
-            );
-            
-            faces.push(...sliceFaces);
+            // Negative and positive facing faces get separate masks so
+            // opposite faces in the same plane are never merged together
+            for (const facing of [-1, 1] as const) {
+                // Create mask for this slice
+                const mask = this.createSliceMask(
+                    voxelMap, 
+                    slice, 
+                    primaryAxis, 
+                    secondaryAxis, 
+                    tertiaryAxis, 
+                    bounds,
+                    facing
+                );
+                
+                // Generate rectangles from mask
+                const sliceFaces = this.generateRectanglesFromMask(
+                    mask, 
+                    slice, 
+                    primaryAxis, 
+                    secondaryAxis, 
+                    tertiaryAxis,
+                    bounds,
+                    facing
+                );
+                
+                faces.push(...sliceFaces);
+            }
         }
         
         return faces;
     }
     
     /**
-     * Create a mask for a slice showing which faces need to be rendered
+     * Create a mask for a slice showing which faces facing one direction need to be rendered
      */
     private createSliceMask(
         voxelMap: Map<string, VoxelType>,
@@ -194,7 +201,8 @@ export class BakedMeshGenerator {
         primaryAxis: number,
         secondaryAxis: number,
         tertiaryAxis: number,
-        bounds: { min: number[]; max: number[] }
+        bounds: { min: number[]; max: number[] },
+        facing: -1 | 1
     ): (VoxelType | null)[][] {
         const width = bounds.max[secondaryAxis] - bounds.min[secondaryAxis] + 1;
         const height = bounds.max[tertiaryAxis] - bounds.min[tertiaryAxis] + 1;
@@ -218,10 +226,10 @@ export class BakedMeshGenerator {
                 const prevVoxel = voxelMap.get(prevKey);
                 
                 // Create face if there's a voxel on one side but not the other
-                if (currentVoxel && !prevVoxel) {
+                if (facing < 0 && currentVoxel && !prevVoxel) {
                     // Face on the negative side of current voxel (facing negative direction)
                     mask[v][u] = currentVoxel;
-                } else if (!currentVoxel && prevVoxel) {
+                } else if (facing > 0 && !currentVoxel && prevVoxel) {
                     // Face on the positive side of previous voxel (facing positive direction)  
                     mask[v][u] = prevVoxel;
                 }
@@ -241,7 +249,7 @@ export class BakedMeshGenerator {
         secondaryAxis: number,
         tertiaryAxis: number,
         bounds: { min: number[]; max: number[] },
-        voxelMap: Map<string, VoxelType>
+        facing: -1 | 1
     ): Face[] {
         const faces: Face[] = [];
         const height = mask.length;
@@ -286,42 +294,11 @@ export class BakedMeshGenerator {
                     coord[secondaryAxis] = bounds.min[secondaryAxis] + u;
                     coord[tertiaryAxis] = bounds.min[tertiaryAxis] + v;
                     
+                    // Negative faces belong to the voxel in this slice,
+                    // positive faces to the voxel in the previous slice
                     const normal = new THREE.Vector3(0, 0, 0);
-                    // Check if this face belongs to current slice voxel or previous slice voxel
-                    const currentCoord = [...coord];
-                    currentCoord[primaryAxis] = slice;
-                    const currentKey = `${currentCoord[0]},${currentCoord[1]},${currentCoord[2]}`;
-                    
-                    // Determine face position and normal direction based on mask
-                    // The mask already determined which voxel has the face
-                    const prevCoord = [...coord];
-                    prevCoord[primaryAxis] = slice - 1;
-                    const prevKey = `${prevCoord[0]},${prevCoord[1]},${prevCoord[2]}`;
-                    
-                    if (voxelMap.has(currentKey)) {
-                        // Face belongs to current voxel, facing negative
-                        coord[primaryAxis] = slice;
-                        normal.setComponent(primaryAxis, -1);
-                    } else if (voxelMap.has(prevKey)) {
-                        // Face belongs to previous voxel, facing positive
-                        coord[primaryAxis] = slice - 1;
-                        normal.setComponent(primaryAxis, 1);
-                    } else {
-                        // At boundary - the mask determined we need a face here
-                        // This happens when checking slices outside bounds
-                        // Determine which voxel owns this face based on the mask
-                        if (slice <= bounds.min[primaryAxis]) {
-                            // We're at or before the minimum bound
-                            // Face belongs to voxel at minimum bound, facing negative
-                            coord[primaryAxis] = bounds.min[primaryAxis];
-                            normal.setComponent(primaryAxis, -1);
-                        } else {
-                            // We're at or after the maximum bound
-                            // Face belongs to voxel at maximum bound, facing positive
-                            coord[primaryAxis] = bounds.max[primaryAxis];
-                            normal.setComponent(primaryAxis, 1);
-                        }
-                    }
+                    coord[primaryAxis] = facing < 0 ? slice : slice - 1;
+                    normal.setComponent(primaryAxis, facing);
                     
                     // Store face with proper width/height based on axis
                     const face: Face = {
@@ -374,13 +351,15 @@ export class BakedMeshGenerator {
         const positions: number[] = [];
         const normals: number[] = [];
         const colors: number[] = [];
+        const materials: number[] = [];
         const indices: number[] = [];
         
         let vertexIndex = 0;
         
         for (const face of faces) {
-            // Get color for voxel type
+            // Get color and material for voxel type
             const color = this.getVoxelColor(face.type);
+            const material = getMaterialChannels(this.colorRegistry.getMaterial(face.type));
             
             // Calculate face position and size
             const x = face.x * this.voxelSize;
@@ -395,6 +374,7 @@ export class BakedMeshGenerator {
                 positions.push(vertex.x, vertex.y, vertex.z);
                 normals.push(face.normal.x, face.normal.y, face.normal.z);
                 colors.push(color.r, color.g, color.b);
+                materials.push(material[0], material[1], material[2]);
             }
             
             // Add indices (two triangles)
@@ -411,6 +391,7 @@ export class BakedMeshGenerator {
         geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
         geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
         geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+        geometry.setAttribute(VOXEL_MATERIAL_ATTRIBUTE, new THREE.Float32BufferAttribute(materials, 3));
         geometry.setIndex(indices);
         geometry.computeBoundingBox();
         
@@ -419,10 +400,11 @@ export class BakedMeshGenerator {
             vertexColors: true,
             transparent,
             opacity: transparent ? 0.8 : 1.0,
-            roughness: 0.8,
-            metalness: 0.2,
+            roughness: DEFAULT_ROUGHNESS,
+            metalness: DEFAULT_METALNESS,
             side: THREE.FrontSide
         });
+        applyVoxelMaterialShader(material);
         
         return new THREE.Mesh(geometry, material);
     }
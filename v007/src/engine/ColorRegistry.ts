@@ -1,4 +1,9 @@
-import { VoxelType } from '../types';
+import { VoxelType, VoxelMaterial } from '../types';
+
+// Renderers register themselves on window in the browser; headless (CLI) there are none
+function getRendererHook(name: 'VoxelRenderer' | 'AssetPreviewScene'): any {
+    return typeof window !== 'undefined' ? (window as any)[name] : undefined;
+}
 
 /**
  * ColorRegistry manages the mapping between colors and VoxelTypes.
@@ -9,6 +14,7 @@ export class ColorRegistry {
     private static instance: ColorRegistry;
     private colorToTypeMap: Map<string, VoxelType> = new Map();
     private typeToColorMap: Map<VoxelType, string> = new Map();
+    private typeToMaterialMap: Map<VoxelType, VoxelMaterial> = new Map();
     private nextAvailableType: number = VoxelType.CUSTOM_1;
     
     // Maximum custom color slots (we'll expand VoxelType enum to have more)
@@ -63,18 +69,14 @@ export class ColorRegistry {
         
         // Update VoxelRenderer and AssetPreviewScene with the new color
         // This adds the color definition to the VOXEL_TYPES object
-        if ((window as any).VoxelRenderer) {
-            (window as any).VoxelRenderer.updateCustomColors([{
-                hex: normalizedColor,
-                voxelType: newType
-            }]);
-        }
-        if ((window as any).AssetPreviewScene) {
-            (window as any).AssetPreviewScene.updateCustomColors([{
-                hex: normalizedColor,
-                voxelType: newType
-            }]);
-        }
+        getRendererHook('VoxelRenderer')?.updateCustomColors([{
+            hex: normalizedColor,
+            voxelType: newType
+        }]);
+        getRendererHook('AssetPreviewScene')?.updateCustomColors([{
+            hex: normalizedColor,
+            voxelType: newType
+        }]);
         
         this.nextAvailableType++;
         
@@ -97,6 +99,32 @@ export class ColorRegistry {
         return this.colorToTypeMap.get(normalizedColor) || null;
     }
     
+    /**
+     * Find the registered VoxelType whose color is closest to the given one.
+     * Used when importing colors after all custom slots are taken.
+     */
+    findClosestVoxelType(hexColor: string): VoxelType {
+        const rgb = parseInt(hexColor.slice(1), 16);
+        let closestType = VoxelType.STONE;
+        let closestDistance = Infinity;
+        
+        for (const [type, color] of this.typeToColorMap) {
+            if (type === VoxelType.AIR) continue;
+            
+            const other = parseInt(color.slice(1), 16);
+            const dr = ((rgb >> 16) & 0xFF) - ((other >> 16) & 0xFF);
+            const dg = ((rgb >> 8) & 0xFF) - ((other >> 8) & 0xFF);
+            const db = (rgb & 0xFF) - (other & 0xFF);
+            const distance = dr * dr + dg * dg + db * db;
+            if (distance < closestDistance) {
+                closestDistance = distance;
+                closestType = type;
+            }
+        }
+        
+        return closestType;
+    }
+    
     /**
      * Update the color for an existing VoxelType
      */
@@ -115,22 +143,42 @@ export class ColorRegistry {
         this.typeToColorMap.set(voxelType, normalizedColor);
         
         // Update VoxelRenderer and AssetPreviewScene with the updated color
-        if ((window as any).VoxelRenderer) {
-            (window as any).VoxelRenderer.updateCustomColors([{
-                hex: normalizedColor,
-                voxelType: voxelType
-            }]);
-        }
-        if ((window as any).AssetPreviewScene) {
-            (window as any).AssetPreviewScene.updateCustomColors([{
-                hex: normalizedColor,
-                voxelType: voxelType
-            }]);
-        }
+        getRendererHook('VoxelRenderer')?.updateCustomColors([{
+            hex: normalizedColor,
+            voxelType: voxelType
+        }]);
+        getRendererHook('AssetPreviewScene')?.updateCustomColors([{
+            hex: normalizedColor,
+            voxelType: voxelType
+        }]);
         
         console.log(`Updated VoxelType ${voxelType} to color ${normalizedColor}`);
     }
     
+    /**
+     * Get the material properties for a given VoxelType (if any)
+     */
+    getMaterial(type: VoxelType): VoxelMaterial | null {
+        return this.typeToMaterialMap.get(type) || null;
+    }
+    
+    /**
+     * Set (or clear, with null) the material properties for a VoxelType
+     */
+    setMaterial(voxelType: VoxelType, material: VoxelMaterial | null): void {
+        if (material) {
+            this.typeToMaterialMap.set(voxelType, { ...material });
+        } else {
+            this.typeToMaterialMap.delete(voxelType);
+        }
+        
+        // Update VoxelRenderer so instanced voxels pick up the material
+        getRendererHook('VoxelRenderer')?.updateMaterials([{
+            voxelType,
+            material
+        }]);
+    }
+    
     /**
      * Get statistics about color usage
      */
@@ -0,0 +1,742 @@
+import { VoxelType, VoxelEngine } from './VoxelEngine';
+import { VoxelLayer } from './VoxelLayer';
+import { CHUNK_VOLUME } from './VoxelChunk';
+import { ActionLogger } from '../ui/ActionLogger';
+
+export type SelectionVoxel = { x: number; y: number; z: number; type: VoxelType };
+export type LayerProperty = 'name' | 'visible' | 'opacity' | 'locked';
+
+// Voxel changes on one layer, packed once the segment is closed
+interface VoxelDeltaOperation {
+    type: 'voxels';
+    layerId: string;
+    coords: Int32Array;
+    before: Uint16Array;
+    after: Uint16Array;
+}
+
+// The layer object itself is kept, so undoing a delete restores its voxels for free
+interface LayerCreateOperation {
+    type: 'layer-create';
+    layer: VoxelLayer;
+    index: number;
+}
+
+interface LayerDeleteOperation {
+    type: 'layer-delete';
+    layer: VoxelLayer;
+    index: number;
+}
+
+interface LayerMoveOperation {
+    type: 'layer-move';
+    layerId: string;
+    from: number;
+    to: number;
+}
+
+interface LayerPropertyOperation {
+    type: 'layer-property';
+    layerId: string;
+    property: LayerProperty;
+    before: string | number | boolean;
+    after: string | number | boolean;
+}
+
+interface SelectionOperation {
+    type: 'selection';
+    before: SelectionVoxel[];
+    after: SelectionVoxel[];
+}
+
+type HistoryOperation =
+    | VoxelDeltaOperation
+    | LayerCreateOperation
+    | LayerDeleteOperation
+    | LayerMoveOperation
+    | LayerPropertyOperation
+    | SelectionOperation;
+
+interface HistoryStep {
+    // In the order they happened; undo walks them backwards
+    operations: HistoryOperation[];
+    activeLayerBefore: string;
+    activeLayerAfter: string;
+    byteSize: number;
+}
+
+// Step being recorded. Voxel changes are coalesced per layer and position
+// (first before, last after) until a layer operation closes the segment.
+interface PendingStep {
+    operations: HistoryOperation[];
+    voxels: Map<string, Map<string, [number, number, number, VoxelType, VoxelType]>>;
+    activeLayerBefore: string;
+    label: string | null;
+}
+
+// One state in the undo tree. The root is the oldest state kept and has no step;
+// every other node holds the step that leads to it from its parent.
+interface HistoryNode {
+    id: number;
+    parent: HistoryNode | null;
+    children: HistoryNode[];
+    // Child that redo follows - the branch most recently visited
+    activeChild: HistoryNode | null;
+    step: HistoryStep | null;
+    label: string | null;
+    checkpoint: string | null;
+    timestamp: number;
+}
+
+/**
+ * Read-only view of the undo tree for the History panel
+ */
+export interface HistoryEntry {
+    id: number;
+    label: string;
+    checkpoint: string | null;
+    timestamp: number;
+    children: HistoryEntry[];
+    activeChildId: number | null;
+}
+
+// ActionLogger messages logged this soon after a commit name that step
+const LABEL_WINDOW_MS = 500;
+
+/**
+ * Undo/redo history made of compact deltas instead of scene snapshots.
+ *
+ * Layers report every voxel change; changes are gathered into a pending step
+ * that is committed after a short idle period (or explicitly), so a whole brush
+ * stroke becomes a single step. Steps form a tree: making a change after undoing
+ * starts a new branch instead of discarding the redo steps, and any node can be
+ * jumped to. History is trimmed to a memory budget, abandoned branches first.
+ */
+export class DeltaUndoManager {
+    private root!: HistoryNode;
+    private current!: HistoryNode;
+    private nodes: Map<number, HistoryNode> = new Map();
+    private nextNodeId: number = 0;
+    private pending: PendingStep | null = null;
+    private voxelEngine: VoxelEngine;
+    private selectionCallback: ((selection: SelectionVoxel[]) => void) | null = null;
+    private layerUICallback: (() => void) | null = null;
+    private historyListeners: Array<() => void> = [];
+    private readonly maxMemoryBytes: number;
+    private readonly commitDelayMs: number = 300; // Idle time that ends a step (e.g. a brush stroke)
+    private commitTimer: number | null = null;
+    private isRestoring: boolean = false; // Changes made while undoing/redoing aren't recorded
+    
+    constructor(voxelEngine: VoxelEngine, maxMemoryBytes: number = 64 * 1024 * 1024) {
+        this.voxelEngine = voxelEngine;
+        this.maxMemoryBytes = maxMemoryBytes;
+        this.resetTree();
+        
+        // Name steps after the message the action logged
+        ActionLogger.getInstance().addListener(this.handleLogMessage);
+    }
+    
+    /**
+     * Set the callback for selection restoration
+     */
+    setSelectionCallback(callback: (selection: SelectionVoxel[]) => void): void {
+        this.selectionCallback = callback;
+    }
+    
+    /**
+     * Set the callback for layer UI updates
+     */
+    setLayerUICallback(callback: () => void): void {
+        this.layerUICallback = callback;
+    }
+    
+    /**
+     * Subscribe to any change of the history (new step, undo, redo, checkpoints)
+     */
+    addHistoryListener(listener: () => void): void {
+        this.historyListeners.push(listener);
+    }
+    
+    private notifyHistoryListeners(): void {
+        for (const listener of this.historyListeners) {
+            listener();
+        }
+    }
+    
+    /**
+     * Record a single voxel change. Doesn't schedule a commit by itself, so
+     * intermediate changes (like lifting a selection) join the step they belong to.
+     */
+    recordVoxelChange(layerId: string, x: number, y: number, z: number, before: VoxelType, after: VoxelType): void {
+        if (this.isRestoring) return;
+        
+        const pending = this.getPending();
+        let layerVoxels = pending.voxels.get(layerId);
+        if (!layerVoxels) {
+            layerVoxels = new Map();
+            pending.voxels.set(layerId, layerVoxels);
+        }
+        
+        const key = `${x},${y},${z}`;
+        const existing = layerVoxels.get(key);
+        if (existing) {
+            existing[4] = after;
+        } else {
+            layerVoxels.set(key, [x, y, z, before, after]);
+        }
+    }
+    
+    recordLayerCreate(layer: VoxelLayer, index: number): void {
+        if (this.isRestoring) return;
+        this.pushOperation({ type: 'layer-create', layer, index });
+    }
+    
+    recordLayerDelete(layer: VoxelLayer, index: number): void {
+        if (this.isRestoring) return;
+        this.pushOperation({ type: 'layer-delete', layer, index });
+    }
+    
+    recordLayerMove(layerId: string, from: number, to: number): void {
+        if (this.isRestoring || from === to) return;
+        this.pushOperation({ type: 'layer-move', layerId, from, to });
+    }
+    
+    recordLayerProperty(layerId: string, property: LayerProperty, before: string | number | boolean, after: string | number | boolean): void {
+        if (this.isRestoring || before === after) return;
+        
+        // Dragging a slider produces many changes - keep the first before and last after
+        const operations = this.getPending().operations;
+        const last = operations[operations.length - 1];
+        if (last && last.type === 'layer-property' && last.layerId === layerId && last.property === property) {
+            last.after = after;
+            this.scheduleCommit();
+            return;
+        }
+        
+        this.pushOperation({ type: 'layer-property', layerId, property, before, after });
+    }
+    
+    /**
+     * Record a selection change as part of the current step
+     */
+    recordSelectionChange(previousSelection: SelectionVoxel[], newSelection: SelectionVoxel[]): void {
+        if (this.isRestoring) return;
+        
+        const operations = this.getPending().operations;
+        const existing = operations.find((op): op is SelectionOperation => op.type === 'selection');
+        if (existing) {
+            existing.after = newSelection.map(v => ({ ...v }));
+        } else {
+            operations.push({
+                type: 'selection',
+                before: previousSelection.map(v => ({ ...v })),
+                after: newSelection.map(v => ({ ...v }))
+            });
+        }
+        this.scheduleCommit();
+    }
+    
+    /**
+     * Commit the pending step once changes stop arriving
+     */
+    scheduleCommit(): void {
+        if (this.isRestoring) return;
+        
+        if (this.commitTimer) {
+            window.clearTimeout(this.commitTimer);
+        }
+        
+        this.commitTimer = window.setTimeout(() => {
+            this.commitTimer = null;
+            this.commit();
+        }, this.commitDelayMs);
+    }
+    
+    /**
+     * Commit the pending step now, if there is one
+     */
+    finalizePendingOperations(): void {
+        if (this.commitTimer) {
+            window.clearTimeout(this.commitTimer);
+            this.commitTimer = null;
+        }
+        this.commit();
+    }
+    
+    private getPending(): PendingStep {
+        if (!this.pending) {
+            this.pending = {
+                operations: [],
+                voxels: new Map(),
+                activeLayerBefore: this.voxelEngine.getActiveLayer()?.id ?? '',
+                label: null
+            };
+        }
+        return this.pending;
+    }
+    
+    private pushOperation(operation: HistoryOperation): void {
+        const pending = this.getPending();
+        this.closeVoxelSegment(pending);
+        pending.operations.push(operation);
+        this.scheduleCommit();
+    }
+    
+    /**
+     * Pack coalesced voxel changes into operations, dropping ones that ended where they started
+     */
+    private closeVoxelSegment(pending: PendingStep): void {
+        for (const [layerId, layerVoxels] of pending.voxels) {
+            const changes = [...layerVoxels.values()].filter(change => change[3] !== change[4]);
+            if (changes.length === 0) continue;
+            
+            const coords = new Int32Array(changes.length * 3);
+            const before = new Uint16Array(changes.length);
+            const after = new Uint16Array(changes.length);
+            changes.forEach(([x, y, z, from, to], i) => {
+                coords[i * 3] = x;
+                coords[i * 3 + 1] = y;
+                coords[i * 3 + 2] = z;
+                before[i] = from;
+                after[i] = to;
+            });
+            
+            pending.operations.push({ type: 'voxels', layerId, coords, before, after });
+        }
+        pending.voxels.clear();
+    }
+    
+    private commit(): void {
+        const pending = this.pending;
+        if (!pending) return;
+        this.pending = null;
+        
+        this.closeVoxelSegment(pending);
+        if (pending.operations.length === 0) return;
+        
+        const step: HistoryStep = {
+            operations: pending.operations,
+            activeLayerBefore: pending.activeLayerBefore,
+            activeLayerAfter: this.voxelEngine.getActiveLayer()?.id ?? '',
+            byteSize: pending.operations.reduce((sum, op) => sum + this.estimateOperationSize(op), 0)
+        };
+        
+        // New steps branch off the current node; its other children stay as abandoned branches
+        const node = this.createNode(this.current, step);
+        node.label = pending.label;
+        this.current.activeChild = node;
+        this.current = node;
+        
+        this.enforceMemoryBudget();
+        
+        console.log(`Undo step saved (${step.operations.length} operations, ${step.byteSize} bytes). History: ${this.nodes.size} states`);
+        this.notifyHistoryListeners();
+    }
+    
+    private createNode(parent: HistoryNode | null, step: HistoryStep | null): HistoryNode {
+        const node: HistoryNode = {
+            id: this.nextNodeId++,
+            parent,
+            children: [],
+            activeChild: null,
+            step,
+            label: null,
+            checkpoint: null,
+            timestamp: Date.now()
+        };
+        parent?.children.push(node);
+        this.nodes.set(node.id, node);
+        return node;
+    }
+    
+    private resetTree(): void {
+        this.nodes.clear();
+        this.root = this.createNode(null, null);
+        this.current = this.root;
+    }
+    
+    private handleLogMessage = (message: string): void => {
+        if (this.isRestoring || message === ActionLogger.actions.undo() || message === ActionLogger.actions.redo()) return;
+        
+        // Actions log right after finalizing their step
+        if (this.current.step && !this.current.label && Date.now() - this.current.timestamp < LABEL_WINDOW_MS) {
+            this.current.label = message;
+            this.notifyHistoryListeners();
+        } else if (this.pending && !this.pending.label) {
+            this.pending.label = message;
+        }
+    };
+    
+    /**
+     * Drop history until under budget: oldest abandoned or redo leaves first,
+     * then the oldest states at the root. Leaves with checkpoints are kept, but
+     * a checkpoint on the root is lost when the root itself is dropped.
+     */
+    private enforceMemoryBudget(): void {
+        let total = this.getMemoryUsage();
+        
+        while (total > this.maxMemoryBytes) {
+            let oldestLeaf: HistoryNode | null = null;
+            for (const node of this.nodes.values()) {
+                if (node.children.length > 0 || node === this.current || node === this.root || node.checkpoint) continue;
+                if (!oldestLeaf || node.timestamp < oldestLeaf.timestamp) oldestLeaf = node;
+            }
+            
+            if (oldestLeaf) {
+                total -= oldestLeaf.step!.byteSize;
+                this.removeSubtree(oldestLeaf);
+                continue;
+            }
+            
+            // Only the line to the current state is left - drop its oldest step
+            if (this.current === this.root) break;
+            let newRoot = this.current;
+            while (newRoot.parent !== this.root) newRoot = newRoot.parent!;
+            
+            for (const sibling of this.root.children) {
+                if (sibling !== newRoot) this.removeSubtree(sibling);
+            }
+            this.nodes.delete(this.root.id);
+            total -= newRoot.step!.byteSize;
+            newRoot.parent = null;
+            newRoot.step = null;
+            this.root = newRoot;
+        }
+    }
+    
+    private removeSubtree(node: HistoryNode): void {
+        const parent = node.parent;
+        if (parent) {
+            parent.children = parent.children.filter(child => child !== node);
+            if (parent.activeChild === node) {
+                parent.activeChild = parent.children[parent.children.length - 1] ?? null;
+            }
+        }
+        
+        const stack = [node];
+        while (stack.length > 0) {
+            const next = stack.pop()!;
+            this.nodes.delete(next.id);
+            stack.push(...next.children);
+        }
+    }
+    
+    private estimateOperationSize(operation: HistoryOperation): number {
+        switch (operation.type) {
+            case 'voxels':
+                return operation.coords.byteLength + operation.before.byteLength + operation.after.byteLength + 64;
+            case 'layer-create':
+            case 'layer-delete':
+                return operation.layer.getChunks().size * CHUNK_VOLUME * 2 + 256;
+            case 'selection':
+                return (operation.before.length + operation.after.length) * 40 + 64;
+            default:
+                return 64;
+        }
+    }
+    
+    /**
+     * Apply a step forwards (redo) or backwards (undo) without refreshing.
+     * Returns the selection the step restores, if it touched the selection.
+     */
+    private applyStep(step: HistoryStep, forward: boolean): SelectionVoxel[] | null {
+        const operations = forward ? step.operations : [...step.operations].reverse();
+        let selection: SelectionVoxel[] | null = null;
+        
+        for (const operation of operations) {
+            switch (operation.type) {
+                case 'voxels': {
+                    const layer = this.findLayer(operation.layerId);
+                    if (!layer) break;
+                    if (layer.isBaked) {
+                        this.voxelEngine.unbakeLayer(layer.id);
+                    }
+                    const types = forward ? operation.after : operation.before;
+                    const coords = operation.coords;
+                    for (let i = 0; i < types.length; i++) {
+                        layer.setVoxelAt(coords[i * 3], coords[i * 3 + 1], coords[i * 3 + 2], types[i] as VoxelType);
+                    }
+                    break;
+                }
+                
+                case 'layer-create':
+                    if (forward) {
+                        this.voxelEngine.insertLayer(operation.layer, operation.index);
+                    } else {
+                        this.voxelEngine.deleteLayer(operation.layer.id);
+                    }
+                    break;
+                
+                case 'layer-delete':
+                    if (forward) {
+                        this.voxelEngine.deleteLayer(operation.layer.id);
+                    } else {
+                        this.voxelEngine.insertLayer(operation.layer, operation.index);
+                    }
+                    break;
+                
+                case 'layer-move':
+                    this.voxelEngine.moveLayer(operation.layerId, forward ? operation.to : operation.from);
+                    break;
+                
+                case 'layer-property':
+                    this.applyLayerProperty(operation.layerId, operation.property, forward ? operation.after : operation.before);
+                    break;
+                
+                case 'selection':
+                    selection = forward ? operation.after : operation.before;
+                    break;
+            }
+        }
+        
+        // Restore active layer
+        const activeLayerId = forward ? step.activeLayerAfter : step.activeLayerBefore;
+        if (activeLayerId) {
+            this.voxelEngine.setActiveLayer(activeLayerId);
+        }
+        
+        return selection;
+    }
+    
+    private applyLayerProperty(layerId: string, property: LayerProperty, value: string | number | boolean): void {
+        switch (property) {
+            case 'name':
+                this.voxelEngine.setLayerName(layerId, value as string);
+                break;
+            case 'visible':
+                this.voxelEngine.setLayerVisibility(layerId, value as boolean);
+                break;
+            case 'opacity':
+                this.voxelEngine.setLayerOpacity(layerId, value as number);
+                break;
+            case 'locked':
+                this.voxelEngine.setLayerLocked(layerId, value as boolean);
+                break;
+        }
+    }
+    
+    private findLayer(layerId: string): VoxelLayer | undefined {
+        return this.voxelEngine.getAllLayers().find(layer => layer.id === layerId);
+    }
+    
+    /**
+     * Walk the tree from the current node to the target, undoing up to the
+     * common ancestor and redoing down, then refresh once
+     */
+    private moveTo(target: HistoryNode): void {
+        this.isRestoring = true;
+        
+        try {
+            const targetPath = new Set<HistoryNode>();
+            for (let node: HistoryNode | null = target; node; node = node.parent) {
+                targetPath.add(node);
+            }
+            
+            let selection: SelectionVoxel[] | null = null;
+            while (!targetPath.has(this.current)) {
+                selection = this.applyStep(this.current.step!, false) ?? selection;
+                this.current = this.current.parent!;
+            }
+            
+            const path: HistoryNode[] = [];
+            for (let node = target; node !== this.current; node = node.parent!) {
+                path.unshift(node);
+            }
+            for (const node of path) {
+                selection = this.applyStep(node.step!, true) ?? selection;
+                node.parent!.activeChild = node;
+                this.current = node;
+            }
+            
+            // Update rendering
+            this.voxelEngine.updateInstances();
+            
+            // Restore selection
+            if (selection && this.selectionCallback) {
+                this.selectionCallback(selection);
+            }
+            
+            // Update layer UI
+            if (this.layerUICallback) {
+                this.layerUICallback();
+            }
+        } finally {
+            // Always clear the flag even if an error occurs
+            this.isRestoring = false;
+        }
+        
+        this.notifyHistoryListeners();
+    }
+    
+    /**
+     * Undo the last operation
+     */
+    undo(): boolean {
+        // Finalize any pending changes first so they are what gets undone
+        this.finalizePendingOperations();
+        
+        if (!this.current.parent) return false;
+        this.moveTo(this.current.parent);
+        
+        // Log the undo operation
+        ActionLogger.getInstance().log(ActionLogger.actions.undo());
+        
+        return true;
+    }
+    
+    /**
+     * Redo along the most recently visited branch
+     */
+    redo(): boolean {
+        this.finalizePendingOperations();
+        
+        const next = this.current.activeChild;
+        if (!next) return false;
+        this.moveTo(next);
+        
+        // Log the redo operation
+        ActionLogger.getInstance().log(ActionLogger.actions.redo());
+        
+        return true;
+    }
+    
+    /**
+     * Jump to any state in the history tree, including abandoned branches
+     */
+    jumpTo(id: number): boolean {
+        this.finalizePendingOperations();
+        
+        const target = this.nodes.get(id);
+        if (!target) return false;
+        if (target !== this.current) {
+            this.moveTo(target);
+        }
+        return true;
+    }
+    
+    /**
+     * Name the current state so it's easy to find and return to
+     */
+    createCheckpoint(name: string): number {
+        this.finalizePendingOperations();
+        this.current.checkpoint = name;
+        this.notifyHistoryListeners();
+        return this.current.id;
+    }
+    
+    renameCheckpoint(id: number, name: string): void {
+        const node = this.nodes.get(id);
+        if (node && node.checkpoint !== null && node.checkpoint !== name) {
+            node.checkpoint = name;
+            this.notifyHistoryListeners();
+        }
+    }
+    
+    /**
+     * Remove a checkpoint name (the state itself stays in history)
+     */
+    removeCheckpoint(id: number): void {
+        const node = this.nodes.get(id);
+        if (node && node.checkpoint) {
+            node.checkpoint = null;
+            this.notifyHistoryListeners();
+        }
+    }
+    
+    /**
+     * Get the whole tree for display, starting at the oldest kept state
+     */
+    getHistoryTree(): HistoryEntry {
+        const toEntry = (node: HistoryNode): HistoryEntry => ({
+            id: node.id,
+            label: node === this.root ? 'Start' : node.label ?? this.describeStep(node.step!),
+            checkpoint: node.checkpoint,
+            timestamp: node.timestamp,
+            children: node.children.map(toEntry),
+            activeChildId: node.activeChild?.id ?? null
+        });
+        return toEntry(this.root);
+    }
+    
+    getCurrentId(): number {
+        return this.current.id;
+    }
+    
+    /**
+     * Fallback label for steps no ActionLogger message was logged for
+     */
+    private describeStep(step: HistoryStep): string {
+        const first = step.operations.find(op => op.type !== 'selection') ?? step.operations[0];
+        
+        switch (first.type) {
+            case 'voxels': {
+                let added = 0;
+                let removed = 0;
+                let changed = 0;
+                for (const op of step.operations) {
+                    if (op.type !== 'voxels') continue;
+                    for (let i = 0; i < op.after.length; i++) {
+                        if (op.before[i] === VoxelType.AIR) added++;
+                        else if (op.after[i] === VoxelType.AIR) removed++;
+                        else changed++;
+                    }
+                }
+                if (added > 0 && removed === 0 && changed === 0) return ActionLogger.actions.placeVoxel(added);
+                if (removed > 0 && added === 0 && changed === 0) return ActionLogger.actions.removeVoxel(removed);
+                return `Changed ${added + removed + changed} voxels`;
+            }
+            case 'layer-create':
+                return ActionLogger.actions.createLayer(first.layer.name);
+            case 'layer-delete':
+                return ActionLogger.actions.deleteLayer(first.layer.name);
+            case 'layer-move':
+                return 'Moved layer';
+            case 'layer-property':
+                return `Changed layer ${first.property}`;
+            case 'selection':
+                return 'Changed selection';
+        }
+    }
+    
+    /**
+     * Clear all history, including uncommitted changes
+     */
+    clear(): void {
+        this.pending = null;
+        if (this.commitTimer) {
+            window.clearTimeout(this.commitTimer);
+            this.commitTimer = null;
+        }
+        this.resetTree();
+        this.notifyHistoryListeners();
+    }
+    
+    /**
+     * Get the number of available undo operations
+     */
+    getUndoCount(): number {
+        let count = this.pending ? 1 : 0;
+        for (let node = this.current; node.parent; node = node.parent) count++;
+        return count;
+    }
+    
+    /**
+     * Get the number of available redo operations (along the active branch)
+     */
+    getRedoCount(): number {
+        let count = 0;
+        for (let node = this.current.activeChild; node; node = node.activeChild) count++;
+        return count;
+    }
+    
+    /**
+     * Get memory usage estimate in bytes
+     */
+    getMemoryUsage(): number {
+        let total = 0;
+        for (const node of this.nodes.values()) {
+            total += node.step?.byteSize ?? 0;
+        }
+        return total;
+    }
+}
@@ -0,0 +1,325 @@
+import { VoxelType } from '../types';
+
+export interface TerrainOptions {
+    // Same seed and options, same terrain
+    seed: number;
+    // Footprint: columns x..x + width - 1 by z..z + depth - 1, standing on y = 0
+    x: number;
+    z: number;
+    width: number;
+    depth: number;
+    // Lowest and highest column, in voxels
+    minHeight: number;
+    maxHeight: number;
+    // Size of the largest hills in voxels
+    scale: number;
+    // Noise layers; each adds detail at twice the frequency of the last
+    octaves: number;
+    // How much each octave contributes relative to the one before, 0-1
+    persistence: number;
+    // Thermal erosion passes that move material off slopes steeper than one voxel
+    erosion: number;
+    // Columns lower than this are covered with water up to it; 0 for no water
+    waterLevel: number;
+    // Biomes: sand up to beachHeight above the water, dirt on slopes of dirtSlope,
+    // bare stone on cliffs of cliffSlope and above rockLine, snow above snowLine
+    beachHeight: number;
+    dirtSlope: number;
+    cliffSlope: number;
+    rockLine: number;
+    snowLine: number;
+    // Voxels of dirt under grass, and of sand under sand, before stone starts
+    soilDepth: number;
+}
+
+export const DEFAULT_TERRAIN_OPTIONS: TerrainOptions = {
+    seed: 1,
+    x: -64,
+    z: -64,
+    width: 128,
+    depth: 128,
+    minHeight: 2,
+    maxHeight: 32,
+    scale: 64,
+    octaves: 4,
+    persistence: 0.5,
+    erosion: 10,
+    waterLevel: 10,
+    beachHeight: 1,
+    dirtSlope: 2,
+    cliffSlope: 4,
+    rockLine: 24,
+    snowLine: 28,
+    soilDepth: 3
+};
+
+// Larger footprints make more voxels than the editor handles comfortably
+export const MAX_TERRAIN_SIZE = 512;
+export const MAX_TERRAIN_HEIGHT = 128;
+export const MAX_TERRAIN_OCTAVES = 8;
+export const MAX_EROSION_PASSES = 100;
+
+// Erosion moves material while neighbors differ by more than this many voxels
+const TALUS = 1;
+// Layered noise rarely reaches its extremes; stretch it so heights use the whole range
+const NOISE_SPREAD = 1.5;
+
+/**
+ * Generated voxels in flat arrays, so they can be handed from a worker to the
+ * editor without copying
+ */
+export interface TerrainResult {
+    // x, y, z of each voxel
+    positions: Int32Array;
+    types: Uint8Array;
+    // Surface height of each column, row by row along z
+    heights: Int32Array;
+}
+
+/**
+ * Seeded 2D simplex noise
+ */
+export class SimplexNoise {
+    private perm = new Uint8Array(512);
+    
+    private static readonly GRADIENTS = [
+        [1, 1], [-1, 1], [1, -1], [-1, -1],
+        [1, 0], [-1, 0], [0, 1], [0, -1]
+    ];
+    private static readonly F2 = 0.5 * (Math.sqrt(3) - 1);
+    private static readonly G2 = (3 - Math.sqrt(3)) / 6;
+    
+    constructor(random: () => number) {
+        const p = new Uint8Array(256);
+        for (let i = 0; i < 256; i++) p[i] = i;
+        // Fisher-Yates shuffle from the seeded generator
+        for (let i = 255; i > 0; i--) {
+            const j = Math.floor(random() * (i + 1));
+            [p[i], p[j]] = [p[j], p[i]];
+        }
+        for (let i = 0; i < 512; i++) this.perm[i] = p[i & 255];
+    }
+    
+    /**
+     * Noise at a point, roughly -1 to 1
+     */
+    noise(x: number, y: number): number {
+        const { F2, G2, GRADIENTS } = SimplexNoise;
+        const skew = (x + y) * F2;
+        const i = Math.floor(x + skew);
+        const j = Math.floor(y + skew);
+        const unskew = (i + j) * G2;
+        const x0 = x - (i - unskew);
+        const y0 = y - (j - unskew);
+        
+        // Which of the two triangles of the skewed cell the point is in
+        const i1 = x0 > y0 ? 1 : 0;
+        const j1 = x0 > y0 ? 0 : 1;
+        const corners = [
+            [x0, y0, 0, 0],
+            [x0 - i1 + G2, y0 - j1 + G2, i1, j1],
+            [x0 - 1 + 2 * G2, y0 - 1 + 2 * G2, 1, 1]
+        ];
+        
+        let total = 0;
+        for (const [cx, cy, di, dj] of corners) {
+            const t = 0.5 - cx * cx - cy * cy;
+            if (t <= 0) continue;
+            const gradient = GRADIENTS[this.perm[((i + di) & 255) + this.perm[(j + dj) & 255]] & 7];
+            total += t * t * t * t * (gradient[0] * cx + gradient[1] * cy);
+        }
+        return 70 * total;
+    }
+}
+
+/**
+ * Procedural terrain: layered simplex noise heights, smoothed by thermal
+ * erosion, then painted by height and slope. Independent of the DOM so it
+ * can run in a worker.
+ */
+export class TerrainGenerator {
+    /**
+     * Small seeded random number generator (mulberry32), 0 to 1
+     */
+    static createRandom(seed: number): () => number {
+        let state = seed >>> 0;
+        return () => {
+            state = (state + 0x6D2B79F5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+    }
+    
+    /**
+     * Clamp options to the supported ranges
+     */
+    static normalizeOptions(options: TerrainOptions): TerrainOptions {
+        const clampInt = (value: number, min: number, max: number) =>
+            Math.min(Math.max(Math.round(Number.isFinite(value) ? value : min), min), max);
+        const minHeight = clampInt(options.minHeight, 1, MAX_TERRAIN_HEIGHT);
+        return {
+            ...options,
+            seed: clampInt(options.seed, 0, 0xFFFFFFFF),
+            x: clampInt(options.x, -100000, 100000),
+            z: clampInt(options.z, -100000, 100000),
+            width: clampInt(options.width, 1, MAX_TERRAIN_SIZE),
+            depth: clampInt(options.depth, 1, MAX_TERRAIN_SIZE),
+            minHeight,
+            maxHeight: clampInt(options.maxHeight, minHeight, MAX_TERRAIN_HEIGHT),
+            scale: Math.max(1, Number.isFinite(options.scale) ? options.scale : 1),
+            octaves: clampInt(options.octaves, 1, MAX_TERRAIN_OCTAVES),
+            persistence: Math.min(Math.max(Number.isFinite(options.persistence) ? options.persistence : 0.5, 0), 1),
+            erosion: clampInt(options.erosion, 0, MAX_EROSION_PASSES),
+            waterLevel: clampInt(options.waterLevel, 0, MAX_TERRAIN_HEIGHT),
+            beachHeight: clampInt(options.beachHeight, 0, MAX_TERRAIN_HEIGHT),
+            dirtSlope: clampInt(options.dirtSlope, 1, MAX_TERRAIN_HEIGHT),
+            cliffSlope: clampInt(options.cliffSlope, 1, MAX_TERRAIN_HEIGHT),
+            rockLine: clampInt(options.rockLine, 0, MAX_TERRAIN_HEIGHT),
+            snowLine: clampInt(options.snowLine, 0, MAX_TERRAIN_HEIGHT),
+            soilDepth: clampInt(options.soilDepth, 0, MAX_TERRAIN_HEIGHT)
+        };
+    }
+    
+    /**
+     * Column heights, row by row along z, before any rounding
+     */
+    static generateHeights(options: TerrainOptions): Float64Array {
+        const { width, depth, octaves, persistence } = options;
+        const random = TerrainGenerator.createRandom(options.seed);
+        const noise = new SimplexNoise(random);
+        // Each octave samples a different part of the noise so they don't line up
+        const offsets = Array.from({ length: octaves }, () => [random() * 10000, random() * 10000]);
+        
+        let amplitudeSum = 0;
+        for (let octave = 0, amplitude = 1; octave < octaves; octave++, amplitude *= persistence) {
+            amplitudeSum += amplitude;
+        }
+        
+        const heights = new Float64Array(width * depth);
+        for (let row = 0; row < depth; row++) {
+            for (let col = 0; col < width; col++) {
+                // World coordinates, so the same seed gives matching terrain next door
+                const wx = options.x + col;
+                const wz = options.z + row;
+                let value = 0;
+                let amplitude = 1;
+                let frequency = 1 / options.scale;
+                for (let octave = 0; octave < octaves; octave++) {
+                    value += amplitude * noise.noise(wx * frequency + offsets[octave][0], wz * frequency + offsets[octave][1]);
+                    amplitude *= persistence;
+                    frequency *= 2;
+                }
+                const normalized = Math.min(Math.max((value / amplitudeSum * NOISE_SPREAD + 1) / 2, 0), 1);
+                heights[row * width + col] = options.minHeight + normalized * (options.maxHeight - options.minHeight);
+            }
+        }
+        
+        TerrainGenerator.erode(heights, width, depth, options.erosion);
+        return heights;
+    }
+    
+    /**
+     * Thermal erosion: wherever a column stands more than TALUS above a
+     * neighbor, part of the difference slides down to it. Rounds off peaks and
+     * cliffs while keeping the total amount of ground.
+     */
+    static erode(heights: Float64Array, width: number, depth: number, passes: number): void {
+        const change = new Float64Array(heights.length);
+        const neighbors = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+        
+        for (let pass = 0; pass < passes; pass++) {
+            change.fill(0);
+            for (let row = 0; row < depth; row++) {
+                for (let col = 0; col < width; col++) {
+                    const index = row * width + col;
+                    for (const [dc, dr] of neighbors) {
+                        const c = col + dc;
+                        const r = row + dr;
+                        if (c < 0 || c >= width || r < 0 || r >= depth) continue;
+                        const neighbor = r * width + c;
+                        const drop = heights[index] - heights[neighbor];
+                        if (drop <= TALUS) continue;
+                        // Small steps so a column with several lower neighbors doesn't overshoot them
+                        const moved = (drop - TALUS) / 8;
+                        change[index] -= moved;
+                        change[neighbor] += moved;
+                    }
+                }
+            }
+            for (let i = 0; i < heights.length; i++) {
+                heights[i] += change[i];
+            }
+        }
+    }
+    
+    /**
+     * The type on top of a column of the given height and slope (the largest
+     * height difference to a neighboring column)
+     */
+    static surfaceType(height: number, slope: number, options: TerrainOptions): VoxelType {
+        if (options.waterLevel > 0 && height <= options.waterLevel + options.beachHeight) return VoxelType.SAND;
+        if (slope >= options.cliffSlope) return VoxelType.STONE;
+        if (height > options.snowLine) return VoxelType.SNOW;
+        if (height > options.rockLine) return VoxelType.STONE;
+        if (slope >= options.dirtSlope) return VoxelType.DIRT;
+        return VoxelType.GRASS;
+    }
+    
+    /**
+     * Generate the terrain. Columns are solid from y = 0 up to their height;
+     * water fills whatever lies below the water level.
+     */
+    static generate(input: TerrainOptions): TerrainResult {
+        const options = TerrainGenerator.normalizeOptions(input);
+        const { width, depth } = options;
+        const raw = TerrainGenerator.generateHeights(options);
+        
+        const heights = new Int32Array(width * depth);
+        let total = 0;
+        for (let i = 0; i < raw.length; i++) {
+            heights[i] = Math.max(1, Math.round(raw[i]));
+            total += Math.max(heights[i], options.waterLevel);
+        }
+        
+        const positions = new Int32Array(total * 3);
+        const types = new Uint8Array(total);
+        let count = 0;
+        const push = (x: number, y: number, z: number, type: VoxelType) => {
+            positions[count * 3] = x;
+            positions[count * 3 + 1] = y;
+            positions[count * 3 + 2] = z;
+            types[count++] = type;
+        };
+        
+        for (let row = 0; row < depth; row++) {
+            for (let col = 0; col < width; col++) {
+                const height = heights[row * width + col];
+                let slope = 0;
+                if (col > 0) slope = Math.max(slope, Math.abs(height - heights[row * width + col - 1]));
+                if (col < width - 1) slope = Math.max(slope, Math.abs(height - heights[row * width + col + 1]));
+                if (row > 0) slope = Math.max(slope, Math.abs(height - heights[(row - 1) * width + col]));
+                if (row < depth - 1) slope = Math.max(slope, Math.abs(height - heights[(row + 1) * width + col]));
+                
+                const surface = TerrainGenerator.surfaceType(height, slope, options);
+                // Grass and dirt sit on dirt, sand on sand, everything on stone
+                const soil = surface === VoxelType.SAND ? VoxelType.SAND
+                    : surface === VoxelType.GRASS || surface === VoxelType.DIRT ? VoxelType.DIRT
+                    : VoxelType.STONE;
+                
+                const x = options.x + col;
+                const z = options.z + row;
+                for (let y = 0; y < height; y++) {
+                    const below = height - 1 - y;
+                    push(x, y, z, below === 0 ? surface : below <= options.soilDepth ? soil : VoxelType.STONE);
+                }
+                for (let y = height; y < options.waterLevel; y++) {
+                    push(x, y, z, VoxelType.WATER);
+                }
+            }
+        }
+        
+        return { positions, types, heights };
+    }
+}
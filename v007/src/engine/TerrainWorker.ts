@@ -0,0 +1,11 @@
+import { TerrainGenerator, TerrainOptions } from './TerrainGenerator';
+
+// Generates terrain off the main thread; the voxel arrays are transferred back
+self.onmessage = (event: MessageEvent<TerrainOptions>) => {
+    try {
+        const result = TerrainGenerator.generate(event.data);
+        self.postMessage({ result }, { transfer: [result.positions.buffer, result.types.buffer, result.heights.buffer] });
+    } catch (error) {
+        self.postMessage({ error: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,30 @@
+import { TerrainGenerator, TerrainOptions, TerrainResult } from './TerrainGenerator';
+
+/**
+ * Runs the terrain generator in a Web Worker so the editor stays responsive.
+ * Falls back to generating on the calling thread where workers aren't available.
+ */
+export class TerrainWorkerClient {
+    static generate(options: TerrainOptions): Promise<TerrainResult> {
+        if (typeof Worker === 'undefined') {
+            return Promise.resolve().then(() => TerrainGenerator.generate(options));
+        }
+        
+        return new Promise((resolve, reject) => {
+            const worker = new Worker(new URL('./TerrainWorker.ts', import.meta.url), { type: 'module' });
+            worker.onmessage = (event: MessageEvent<{ result?: TerrainResult; error?: string }>) => {
+                worker.terminate();
+                if (event.data.result) {
+                    resolve(event.data.result);
+                } else {
+                    reject(new Error(event.data.error ?? 'Terrain generation failed'));
+                }
+            };
+            worker.onerror = (event) => {
+                worker.terminate();
+                reject(new Error(event.message || 'Terrain worker failed'));
+            };
+            worker.postMessage(options);
+        });
+    }
+}
@@ -0,0 +1,139 @@
+import { VoxelType } from '../types';
+
+// Chunks are 16x16x16 voxels; shifts/masks keep coordinate math branch-free
+// and correct for negative coordinates
+export const CHUNK_SHIFT = 4;
+export const CHUNK_SIZE = 1 << CHUNK_SHIFT;
+export const CHUNK_MASK = CHUNK_SIZE - 1;
+export const CHUNK_VOLUME = CHUNK_SIZE * CHUNK_SIZE * CHUNK_SIZE;
+
+/**
+ * Get the key of the chunk containing a voxel position
+ */
+export function chunkKeyOf(x: number, y: number, z: number): string {
+    return `${x >> CHUNK_SHIFT},${y >> CHUNK_SHIFT},${z >> CHUNK_SHIFT}`;
+}
+
+/**
+ * Group voxels keyed by "x,y,z" into chunks
+ */
+export function buildChunks(voxels: Iterable<[string, VoxelType]>): VoxelChunk[] {
+    const chunks = new Map<string, VoxelChunk>();
+
+    for (const [key, type] of voxels) {
+        if (type === VoxelType.AIR) continue;
+        const [x, y, z] = key.split(',').map(Number);
+        const chunkKey = chunkKeyOf(x, y, z);
+
+        let chunk = chunks.get(chunkKey);
+        if (!chunk) {
+            chunk = new VoxelChunk(x >> CHUNK_SHIFT, y >> CHUNK_SHIFT, z >> CHUNK_SHIFT);
+            chunks.set(chunkKey, chunk);
+        }
+        chunk.set(x, y, z, type);
+    }
+
+    return [...chunks.values()];
+}
+
+/**
+ * Fixed-size block of voxel storage backed by a typed array.
+ * Each cell holds a VoxelType (0 = AIR). The dirty flag is set on every
+ * change and cleared by whoever consumes the changes (the renderer).
+ * The revision counter only ever grows, so other consumers (autosave) can
+ * track changes without touching the renderer's flag.
+ */
+export class VoxelChunk {
+    public readonly cx: number;
+    public readonly cy: number;
+    public readonly cz: number;
+    public readonly key: string;
+    public readonly data: Uint16Array;
+    public dirty: boolean = true;
+    public revision: number = 0;
+    private count: number = 0;
+
+    constructor(cx: number, cy: number, cz: number, data?: Uint16Array) {
+        this.cx = cx;
+        this.cy = cy;
+        this.cz = cz;
+        this.key = `${cx},${cy},${cz}`;
+        this.data = data ? new Uint16Array(data) : new Uint16Array(CHUNK_VOLUME);
+
+        if (data) {
+            for (let i = 0; i < CHUNK_VOLUME; i++) {
+                if (this.data[i] !== VoxelType.AIR) this.count++;
+            }
+        }
+    }
+
+    /**
+     * Index into the data array for world coordinates inside this chunk
+     */
+    static indexOf(x: number, y: number, z: number): number {
+        return (x & CHUNK_MASK) | ((y & CHUNK_MASK) << CHUNK_SHIFT) | ((z & CHUNK_MASK) << (CHUNK_SHIFT * 2));
+    }
+
+    get(x: number, y: number, z: number): VoxelType {
+        return this.data[VoxelChunk.indexOf(x, y, z)] as VoxelType;
+    }
+
+    /**
+     * Set a cell, returning the previous type
+     */
+    set(x: number, y: number, z: number, type: VoxelType): VoxelType {
+        const index = VoxelChunk.indexOf(x, y, z);
+        const oldType = this.data[index] as VoxelType;
+        if (oldType === type) return oldType;
+
+        if (oldType === VoxelType.AIR) this.count++;
+        else if (type === VoxelType.AIR) this.count--;
+
+        this.data[index] = type;
+        this.dirty = true;
+        this.revision++;
+        return oldType;
+    }
+
+    /**
+     * Clear every cell
+     */
+    clear(): void {
+        if (this.count === 0) return;
+        this.data.fill(VoxelType.AIR);
+        this.count = 0;
+        this.dirty = true;
+        this.revision++;
+    }
+
+    getCount(): number {
+        return this.count;
+    }
+
+    isEmpty(): boolean {
+        return this.count === 0;
+    }
+
+    /**
+     * Visit every non-air voxel in world coordinates
+     */
+    forEachVoxel(callback: (x: number, y: number, z: number, type: VoxelType) => void): void {
+        if (this.count === 0) return;
+
+        const baseX = this.cx << CHUNK_SHIFT;
+        const baseY = this.cy << CHUNK_SHIFT;
+        const baseZ = this.cz << CHUNK_SHIFT;
+        const data = this.data;
+
+        for (let i = 0; i < CHUNK_VOLUME; i++) {
+            const type = data[i];
+            if (type === VoxelType.AIR) continue;
+            callback(
+                baseX + (i & CHUNK_MASK),
+                baseY + ((i >> CHUNK_SHIFT) & CHUNK_MASK),
+                baseZ + (i >> (CHUNK_SHIFT * 2)),
+                type as VoxelType
+            );
+        }
+    }
+}
@@ -1,9 +1,10 @@
 import * as THREE from 'three';
 import { VoxelRenderer } from './VoxelRenderer';
 import { VoxelType, VoxelPosition, RaycastHit } from '../types';
-import { SnapshotUndoManager } from './SnapshotUndoManager';
-import { VoxelLayer } from './VoxelLayer';
+import { DeltaUndoManager, SelectionVoxel, HistoryEntry } from './DeltaUndoManager';
+import { VoxelLayer, VoxelChangeListener } from './VoxelLayer';
 import { BakedMeshWireframe } from './BakedMeshWireframe';
+import { VoxelChunk, CHUNK_VOLUME } from './VoxelChunk';
 
 export { VoxelType };
 
@@ -13,7 +14,7 @@ export class VoxelEngine {
     private layers: VoxelLayer[];
     private activeLayerId: string;
     private renderer: VoxelRenderer;
-    private undoRedoManager: SnapshotUndoManager;
+    private undoRedoManager: DeltaUndoManager;
     private layerIdCounter: number = 0;
     private bakedMeshes: Map<string, { opaque?: THREE.Mesh; transparent?: THREE.Mesh }> = new Map();
     private bakedWireframe: BakedMeshWireframe;
@@ -25,12 +26,15 @@ export class VoxelEngine {
     private lastUpdateTime: number = 0;
     private readonly MIN_UPDATE_INTERVAL = 8; // ~120fps for smoother drawing
     
+    // Layer order/visibility/baked state at the last render - any change needs a full rebuild
+    private renderedLayerState: string = '';
+    
     constructor(scene: THREE.Scene, showWireframe = true, voxelSize = 0.1) {
         this.scene = scene;
         this.voxelSize = voxelSize; // Current voxel size for the world
         
         // Initialize undo/redo manager FIRST before creating any layers
-        this.undoRedoManager = new SnapshotUndoManager(this);
+        this.undoRedoManager = new DeltaUndoManager(this);
         
         // Initialize with a default layer
         this.layers = [];
@@ -46,8 +50,8 @@ export class VoxelEngine {
         this.bakedWireframe = new BakedMeshWireframe();
         this.bakedWireframe.setVisible(showWireframe);
         
-        // Take initial snapshot after a short delay
-        setTimeout(() => this.undoRedoManager.saveSnapshot(), 100);
+        // The default layer is the starting point, not an undoable step
+        this.undoRedoManager.clear();
     }
     
     // Getter for voxel size
@@ -78,11 +82,29 @@ export class VoxelEngine {
         
         const layerName = name || `Layer ${this.layerIdCounter}`;
         const layer = new VoxelLayer(id, layerName);
+        layer.setChangeListener(this.handleVoxelChange);
         this.layers.push(layer);
+        this.undoRedoManager.recordLayerCreate(layer, this.layers.length - 1);
         
         return layer;
     }
     
+    /**
+     * Put an existing layer object back at an index (used by undo/redo)
+     */
+    insertLayer(layer: VoxelLayer, index: number): void {
+        if (this.layers.includes(layer)) return;
+        
+        layer.setChangeListener(this.handleVoxelChange);
+        this.layers.splice(Math.min(index, this.layers.length), 0, layer);
+        this.updateInstances();
+    }
+    
+    // Forward every layer's voxel changes to undo history
+    private handleVoxelChange: VoxelChangeListener = (layer, x, y, z, oldType, newType) => {
+        this.undoRedoManager.recordVoxelChange(layer.id, x, y, z, oldType, newType);
+    };
+    
     deleteLayer(layerId: string): boolean {
         // Can't delete the last layer
         if (this.layers.length <= 1) return false;
@@ -99,6 +121,7 @@ export class VoxelEngine {
         
         // Remove the layer
         this.layers.splice(index, 1);
+        this.undoRedoManager.recordLayerDelete(layer, index);
         
         // If this was the active layer, switch to the first layer
         if (this.activeLayerId === layerId && this.layers.length > 0) {
@@ -132,6 +155,7 @@ export class VoxelEngine {
     setLayerVisibility(layerId: string, visible: boolean): boolean {
         const layer = this.layers.find(l => l.id === layerId);
         if (layer) {
+            this.undoRedoManager.recordLayerProperty(layerId, 'visible', layer.visible, visible);
             layer.visible = visible;
             this.updateBakedMeshVisibility();
             this.updateInstances();
@@ -143,6 +167,7 @@ export class VoxelEngine {
     setLayerName(layerId: string, name: string): boolean {
         const layer = this.layers.find(l => l.id === layerId);
         if (layer) {
+            this.undoRedoManager.recordLayerProperty(layerId, 'name', layer.name, name);
             layer.name = name;
             return true;
         }
@@ -152,6 +177,7 @@ export class VoxelEngine {
     setLayerOpacity(layerId: string, opacity: number): boolean {
         const layer = this.layers.find(l => l.id === layerId);
         if (layer) {
+            this.undoRedoManager.recordLayerProperty(layerId, 'opacity', layer.opacity, opacity);
             layer.opacity = opacity;
             this.updateInstances();
             return true;
@@ -162,6 +188,7 @@ export class VoxelEngine {
     setLayerLocked(layerId: string, locked: boolean): boolean {
         const layer = this.layers.find(l => l.id === layerId);
         if (layer) {
+            this.undoRedoManager.recordLayerProperty(layerId, 'locked', layer.locked, locked);
             layer.locked = locked;
             return true;
         }
@@ -177,6 +204,7 @@ export class VoxelEngine {
         // Remove and reinsert at new position
         const [layer] = this.layers.splice(currentIndex, 1);
         this.layers.splice(newIndex, 0, layer);
+        this.undoRedoManager.recordLayerMove(layerId, currentIndex, newIndex);
         
         return true;
     }
@@ -202,9 +230,9 @@ export class VoxelEngine {
         const targetLayer = this.layers[index - 1];
         
         // Copy all voxels from source to target
-        for (const [key, type] of sourceLayer.getVoxels()) {
-            targetLayer.setVoxel(key, type);
-        }
+        sourceLayer.forEachVoxel((x, y, z, type) => {
+            targetLayer.setVoxelAt(x, y, z, type);
+        });
         
         // Delete the source layer
         this.deleteLayer(layerId);
@@ -236,41 +264,91 @@ export class VoxelEngine {
         const activeLayer = this.getActiveLayer();
         if (!activeLayer || activeLayer.locked) return false;
         
-        const key = this.positionKey(x, y, z);
-        const oldType = activeLayer.getVoxel(key);
+        const oldType = activeLayer.getVoxelAt(x, y, z);
         
         // No change needed
         if (oldType === type) return false;
         
-        // Schedule snapshot for undo/redo if enabled
+        // Update voxel in active layer (the layer reports the change to undo history)
+        activeLayer.setVoxelAt(x, y, z, type);
+        
+        // Without recordUndo the change joins whatever step is committed next
         if (recordUndo) {
-            this.undoRedoManager.scheduleSnapshot();
+            this.undoRedoManager.scheduleCommit();
         }
         
-        // Update voxel in active layer
-        activeLayer.setVoxel(key, type);
-        
         // Track changed voxel for batch update
         if (this.batchMode) {
-            this.batchedChanges.add(key);
+            this.batchedChanges.add(this.positionKey(x, y, z));
         }
         
         return true;
     }
     
+    // Change the type of a voxel the active layer already has; empty cells stay empty
+    paintVoxel(x: number, y: number, z: number, type: VoxelType, recordUndo: boolean = true): boolean {
+        const activeLayer = this.getActiveLayer();
+        if (type === VoxelType.AIR || !activeLayer) return false;
+        if (activeLayer.getVoxelAt(Math.floor(x), Math.floor(y), Math.floor(z)) === VoxelType.AIR) return false;
+        
+        return this.setVoxel(x, y, z, type, recordUndo);
+    }
+    
+    /**
+     * Change every voxel of one type to another without touching geometry.
+     * Works on the active layer unless layers are given, and only at the given
+     * positions if any; locked and baked layers are skipped. The change is a
+     * single undo step. Returns the number of voxels changed.
+     */
+    replaceVoxelType(from: VoxelType, to: VoxelType, options: { layerIds?: string[]; positions?: VoxelPosition[] } = {}): number {
+        if (from === to || from === VoxelType.AIR || to === VoxelType.AIR) return 0;
+        
+        const activeLayer = this.getActiveLayer();
+        const layers = options.layerIds
+            ? this.layers.filter(layer => options.layerIds!.includes(layer.id))
+            : (activeLayer ? [activeLayer] : []);
+        
+        // Keep earlier edits out of this undo step
+        this.undoRedoManager.finalizePendingOperations();
+        
+        let count = 0;
+        for (const layer of layers) {
+            if (layer.locked || layer.isBaked) continue;
+            
+            const matches: VoxelPosition[] = [];
+            if (options.positions) {
+                for (const pos of options.positions) {
+                    if (layer.getVoxelAt(pos.x, pos.y, pos.z) === from) matches.push(pos);
+                }
+            } else {
+                layer.forEachVoxel((x, y, z, type) => {
+                    if (type === from) matches.push({ x, y, z });
+                });
+            }
+            
+            for (const pos of matches) {
+                if (layer.setVoxelAt(pos.x, pos.y, pos.z, to)) count++;
+            }
+        }
+        
+        if (count > 0) {
+            this.undoRedoManager.finalizePendingOperations();
+            this.updateInstances();
+        }
+        return count;
+    }
+    
     // Get voxel at position (checks all visible layers from top to bottom)
     getVoxel(x: number, y: number, z: number): VoxelType {
         x = Math.floor(x);
         y = Math.floor(y);
         z = Math.floor(z);
         
-        const key = this.positionKey(x, y, z);
-        
         // Check layers from top to bottom
         for (let i = this.layers.length - 1; i >= 0; i--) {
             const layer = this.layers[i];
             if (layer.visible) {
-                const type = layer.getVoxel(key);
+                const type = layer.getVoxelAt(x, y, z);
                 if (type !== VoxelType.AIR) {
                     return type;
                 }
@@ -285,13 +363,11 @@ export class VoxelEngine {
         y = Math.floor(y);
         z = Math.floor(z);
         
-        const key = this.positionKey(x, y, z);
-        
         // Check layers from top to bottom
         for (let i = this.layers.length - 1; i >= 0; i--) {
             const layer = this.layers[i];
             if (layer.visible) {
-                const type = layer.getVoxel(key);
+                const type = layer.getVoxelAt(x, y, z);
                 if (type !== VoxelType.AIR) {
                     return {
                         type,
@@ -369,33 +445,17 @@ export class VoxelEngine {
         // Update baked mesh visibility first
         this.updateBakedMeshVisibility();
         
-        // Combine voxels from all visible NON-BAKED layers
-        const combinedVoxelsByType = new Map<VoxelType, Set<string>>();
-        
-        // Initialize map for all voxel types
-        for (const type of Object.values(VoxelType)) {
-            if (typeof type === 'number' && type !== VoxelType.AIR) {
-                combinedVoxelsByType.set(type, new Set());
-            }
+        // Only redraw chunks that changed, unless the set of rendered layers changed
+        const layerState = this.getRenderedLayerState();
+        if (layerState !== this.renderedLayerState ||
+            !this.renderer.updateChunks(this.collectDirtyChunkVoxels())) {
+            this.performFullUpdate();
+            this.renderedLayerState = layerState;
         }
         
-        // Combine layers from bottom to top (skip baked layers)
         for (const layer of this.layers) {
-            if (layer.visible && !layer.isBaked) {
-                const layerVoxelsByType = layer.getVoxelsByType();
-                for (const [type, positions] of layerVoxelsByType) {
-                    const combinedSet = combinedVoxelsByType.get(type);
-                    if (combinedSet) {
-                        // Add all positions from this layer
-                        for (const pos of positions) {
-                            combinedSet.add(pos);
-                        }
-                    }
-                }
-            }
+            layer.clearDirtyFlags();
         }
-        
-        this.renderer.updateFromVoxelsByType(combinedVoxelsByType, this.batchMode);
         this.lastUpdateTime = Date.now();
         
         // Clear batched changes after update
@@ -409,6 +469,82 @@ export class VoxelEngine {
         }
     }
     
+    // Rebuild rendering from every visible non-baked layer
+    private performFullUpdate(): void {
+        const combinedVoxelsByType = new Map<VoxelType, Set<string>>();
+        const processedPositions = new Set<string>();
+        
+        // Combine layers from top to bottom so the topmost voxel wins (skip baked layers)
+        for (let i = this.layers.length - 1; i >= 0; i--) {
+            const layer = this.layers[i];
+            if (!layer.visible || layer.isBaked) continue;
+            
+            layer.forEachVoxel((x, y, z, type) => {
+                const key = this.positionKey(x, y, z);
+                if (processedPositions.has(key)) return;
+                processedPositions.add(key);
+                
+                let positions = combinedVoxelsByType.get(type);
+                if (!positions) {
+                    positions = new Set();
+                    combinedVoxelsByType.set(type, positions);
+                }
+                positions.add(key);
+            });
+        }
+        
+        this.renderer.updateFromVoxelsByType(combinedVoxelsByType, this.batchMode);
+    }
+    
+    // Key describing which layers are rendered as instances and in what order
+    private getRenderedLayerState(): string {
+        return this.layers
+            .filter(layer => layer.visible && !layer.isBaked)
+            .map(layer => layer.id)
+            .join('|');
+    }
+    
+    // Resolve the visible voxels of every dirty chunk across the rendered layers
+    private collectDirtyChunkVoxels(): Map<string, Array<{ x: number; y: number; z: number; type: VoxelType }>> {
+        const renderedLayers = this.layers.filter(layer => layer.visible && !layer.isBaked);
+        
+        const dirtyChunks = new Set<string>();
+        for (const layer of renderedLayers) {
+            for (const chunk of layer.getDirtyChunks()) {
+                dirtyChunks.add(chunk.key);
+            }
+        }
+        
+        const regions = new Map<string, Array<{ x: number; y: number; z: number; type: VoxelType }>>();
+        for (const chunkKey of dirtyChunks) {
+            // Same chunk from each layer, topmost first
+            const stack: VoxelChunk[] = [];
+            for (let i = renderedLayers.length - 1; i >= 0; i--) {
+                const chunk = renderedLayers[i].getChunks().get(chunkKey);
+                if (chunk && !chunk.isEmpty()) stack.push(chunk);
+            }
+            
+            const voxels: Array<{ x: number; y: number; z: number; type: VoxelType }> = [];
+            if (stack.length === 1) {
+                stack[0].forEachVoxel((x, y, z, type) => voxels.push({ x, y, z, type }));
+            } else if (stack.length > 1) {
+                const covered = new Uint8Array(CHUNK_VOLUME);
+                for (const chunk of stack) {
+                    chunk.forEachVoxel((x, y, z, type) => {
+                        const index = VoxelChunk.indexOf(x, y, z);
+                        if (covered[index]) return;
+                        covered[index] = 1;
+                        voxels.push({ x, y, z, type });
+                    });
+                }
+            }
+            
+            regions.set(chunkKey, voxels);
+        }
+        
+        return regions;
+    }
+    
     
     // Raycast to find voxel intersection using grid traversal
     raycast(raycaster: THREE.Raycaster): RaycastHit | null {
@@ -626,68 +762,6 @@ export class VoxelEngine {
         return count;
     }
     
-    // Export voxel data for saving (includes all layers)
-    exportVoxels(): any {
-        const voxelData: any = {
-            version: '2.0', // Updated version for layer support
-            timestamp: Date.now(),
-            voxelSize: this.voxelSize,
-            activeLayerId: this.activeLayerId,
-            layers: []
-        };
-        
-        // Export all layers
-        for (const layer of this.layers) {
-            voxelData.layers.push(layer.exportData());
-        }
-        
-        return voxelData;
-    }
-    
-    // Import voxel data from file
-    importVoxels(data: any): void {
-        if (!data) {
-            throw new Error('Invalid voxel data format');
-        }
-        
-        // Clear existing voxels
-        this.clear();
-        
-        // Check if this is the new layer format
-        if (data.version === '2.0' && data.layers) {
-            // Import layers
-            for (const layerData of data.layers) {
-                const layer = this.createLayer(layerData.name);
-                layer.importData(layerData);
-            }
-            
-            // Set active layer if specified
-            if (data.activeLayerId) {
-                this.setActiveLayer(data.activeLayerId);
-            }
-        } else if (data.voxels) {
-            // Old format - import into the default layer
-            const activeLayer = this.getActiveLayer();
-            if (!activeLayer) return;
-            
-            // Import voxels by type
-            for (const [typeStr, positions] of Object.entries(data.voxels)) {
-                const type = parseInt(typeStr) as VoxelType;
-                if (type in VoxelType && Array.isArray(positions)) {
-                    for (const posKey of positions as string[]) {
-                        const [x, y, z] = posKey.split(',').map(Number);
-                        // Don't record undo operations when importing
-                        this.setVoxel(x, y, z, type, false);
-                    }
-                }
-            }
-        } else {
-            throw new Error('Invalid voxel data format');
-        }
-        
-        console.log(`Imported ${this.getVoxelCount()} voxels from file`);
-    }
-
     // Clear all voxels
     clear(): void {
         // Clear all layers but keep at least one
@@ -699,6 +773,7 @@ export class VoxelEngine {
         this.activeLayerId = defaultLayer.id;
         
         this.renderer.clear();
+        this.renderedLayerState = '';
         
         // Clear undo history when clearing all voxels
         this.undoRedoManager.clear();
@@ -711,8 +786,7 @@ export class VoxelEngine {
         
         let hasVoxels = false;
         for (const layer of this.layers) {
-            for (const posKey of layer.getVoxels().keys()) {
-                const { x, y, z } = this.parsePositionKey(posKey);
+            layer.forEachVoxel((x, y, z) => {
                 min.x = Math.min(min.x, x);
                 min.y = Math.min(min.y, y);
                 min.z = Math.min(min.z, z);
@@ -720,7 +794,7 @@ export class VoxelEngine {
                 max.y = Math.max(max.y, y);
                 max.z = Math.max(max.z, z);
                 hasVoxels = true;
-            }
+            });
         }
         
         // If no voxels, return default bounds
@@ -740,16 +814,11 @@ export class VoxelEngine {
         return this.undoRedoManager.redo();
     }
     
-    recordSelectionChange(
-        previousSelection: Array<{ x: number; y: number; z: number; type: VoxelType }>,
-        newSelection: Array<{ x: number; y: number; z: number; type: VoxelType }>
-    ): void {
-        // Update current selection in undo manager and schedule snapshot
-        this.undoRedoManager.updateCurrentSelection(newSelection);
-        this.undoRedoManager.scheduleSnapshot();
+    recordSelectionChange(previousSelection: SelectionVoxel[], newSelection: SelectionVoxel[]): void {
+        this.undoRedoManager.recordSelectionChange(previousSelection, newSelection);
     }
     
-    setSelectionCallback(callback: (selection: Array<{ x: number; y: number; z: number; type: VoxelType }>) => void): void {
+    setSelectionCallback(callback: (selection: SelectionVoxel[]) => void): void {
         this.undoRedoManager.setSelectionCallback(callback);
     }
     
@@ -773,6 +842,35 @@ export class VoxelEngine {
         this.undoRedoManager.clear();
     }
     
+    // History tree (for the History panel)
+    jumpToHistory(id: number): boolean {
+        return this.undoRedoManager.jumpTo(id);
+    }
+    
+    createCheckpoint(name: string): number {
+        return this.undoRedoManager.createCheckpoint(name);
+    }
+    
+    renameCheckpoint(id: number, name: string): void {
+        this.undoRedoManager.renameCheckpoint(id, name);
+    }
+    
+    removeCheckpoint(id: number): void {
+        this.undoRedoManager.removeCheckpoint(id);
+    }
+    
+    getHistoryTree(): HistoryEntry {
+        return this.undoRedoManager.getHistoryTree();
+    }
+    
+    getCurrentHistoryId(): number {
+        return this.undoRedoManager.getCurrentId();
+    }
+    
+    addHistoryListener(listener: () => void): void {
+        this.undoRedoManager.addHistoryListener(listener);
+    }
+    
     // Toggle edge display
     toggleEdges(): void {
         this.renderer.toggleEdges();
@@ -793,25 +891,16 @@ export class VoxelEngine {
     // Get all voxels in the world (from all visible layers)
     getAllVoxels(): Array<{ x: number; y: number; z: number; type: VoxelType }> {
         const allVoxels: Array<{ x: number; y: number; z: number; type: VoxelType }> = [];
-        const processedPositions = new Set<string>();
+        const visibleLayers = this.layers.filter(layer => layer.visible);
         
-        // Iterate through layers from top to bottom
-        for (let i = this.layers.length - 1; i >= 0; i--) {
-            const layer = this.layers[i];
-            if (layer.visible) {
-                for (const [key, type] of layer.getVoxels().entries()) {
-                    if (type !== VoxelType.AIR && !processedPositions.has(key)) {
-                        const pos = this.parsePositionKey(key);
-                        allVoxels.push({
-                            x: pos.x,
-                            y: pos.y,
-                            z: pos.z,
-                            type: type
-                        });
-                        processedPositions.add(key);
-                    }
+        // Iterate through layers from top to bottom, skipping positions covered by a layer above
+        for (let i = visibleLayers.length - 1; i >= 0; i--) {
+            visibleLayers[i].forEachVoxel((x, y, z, type) => {
+                for (let j = i + 1; j < visibleLayers.length; j++) {
+                    if (visibleLayers[j].getVoxelAt(x, y, z) !== VoxelType.AIR) return;
                 }
-            }
+                allVoxels.push({ x, y, z, type });
+            });
         }
         
         return allVoxels;
@@ -4,6 +4,9 @@ import { BakedMeshGenerator } from './BakedMeshGenerator';
 import { AllFacesBakedMeshGenerator } from './AllFacesBakedMeshGenerator';
 import { FixedBakedMeshGenerator } from './FixedBakedMeshGenerator';
 import { ActionLogger } from '../ui/ActionLogger';
+import { VoxelChunk, chunkKeyOf, CHUNK_SHIFT } from './VoxelChunk';
+
+export type VoxelChangeListener = (layer: VoxelLayer, x: number, y: number, z: number, oldType: VoxelType, newType: VoxelType) => void;
 
 /**
  * Represents a single layer in the voxel world
@@ -30,60 +33,65 @@ export class VoxelLayer {
         vertexCount: number;
         faceCount: number;
     };
-    private originalVoxelData?: Map<string, VoxelType>; // Store for unbaking
     
-    // Voxel storage - same structure as original VoxelEngine
-    private voxels: Map<string, VoxelType>;
-    private voxelsByType: Map<VoxelType, Set<string>>;
+    // Voxel storage - fixed-size typed-array chunks keyed by chunk coordinate
+    private chunks: Map<string, VoxelChunk>;
+    private voxelCount: number = 0;
+    
+    // Notified of every voxel change (the engine forwards these to undo history)
+    private changeListener: VoxelChangeListener | null = null;
     
     constructor(id: string, name: string) {
         this.id = id;
         this.name = name;
-        this.voxels = new Map();
-        this.voxelsByType = new Map();
-        
-        // Initialize voxelsByType for all types
-        for (const type of Object.values(VoxelType)) {
-            if (typeof type === 'number' && type !== VoxelType.AIR) {
-                this.voxelsByType.set(type, new Set());
-            }
-        }
+        this.chunks = new Map();
+    }
+    
+    /**
+     * Set the listener notified of every voxel change in this layer
+     */
+    setChangeListener(listener: VoxelChangeListener | null): void {
+        this.changeListener = listener;
     }
     
     /**
      * Set a voxel in this layer
      */
     setVoxel(key: string, type: VoxelType): boolean {
+        const [x, y, z] = key.split(',').map(Number);
+        return this.setVoxelAt(x, y, z, type);
+    }
+    
+    /**
+     * Set a voxel by coordinates (avoids position key parsing)
+     */
+    setVoxelAt(x: number, y: number, z: number, type: VoxelType): boolean {
         // Prevent modifications to baked layers
         if (this.isBaked) {
             ActionLogger.getInstance().log('Cannot modify baked layer. Unbake first.', 2000);
             return false;
         }
-        const oldType = this.voxels.get(key) || VoxelType.AIR;
         
-        // No change needed
-        if (oldType === type) return false;
+        const chunkKey = chunkKeyOf(x, y, z);
+        let chunk = this.chunks.get(chunkKey);
         
-        // Update voxels map
-        if (type === VoxelType.AIR) {
-            this.voxels.delete(key);
-        } else {
-            this.voxels.set(key, type);
+        if (!chunk) {
+            // Nothing to remove from a chunk that doesn't exist
+            if (type === VoxelType.AIR) return false;
+            chunk = new VoxelChunk(x >> CHUNK_SHIFT, y >> CHUNK_SHIFT, z >> CHUNK_SHIFT);
+            this.chunks.set(chunkKey, chunk);
         }
         
-        // Update voxelsByType map
-        if (oldType !== VoxelType.AIR) {
-            const oldTypeSet = this.voxelsByType.get(oldType);
-            if (oldTypeSet) {
-                oldTypeSet.delete(key);
-            }
-        }
+        const oldType = chunk.set(x, y, z, type);
         
-        if (type !== VoxelType.AIR) {
-            if (!this.voxelsByType.has(type)) {
-                this.voxelsByType.set(type, new Set());
-            }
-            this.voxelsByType.get(type)!.add(key);
+        // No change needed
+        if (oldType === type) return false;
+        
+        if (oldType === VoxelType.AIR) this.voxelCount++;
+        else if (type === VoxelType.AIR) this.voxelCount--;
+        
+        if (this.changeListener) {
+            this.changeListener(this, x, y, z, oldType, type);
         }
         
         return true;
@@ -93,7 +101,16 @@ export class VoxelLayer {
      * Get voxel type at position
      */
     getVoxel(key: string): VoxelType {
-        return this.voxels.get(key) || VoxelType.AIR;
+        const [x, y, z] = key.split(',').map(Number);
+        return this.getVoxelAt(x, y, z);
+    }
+    
+    /**
+     * Get voxel type by coordinates (avoids position key parsing)
+     */
+    getVoxelAt(x: number, y: number, z: number): VoxelType {
+        const chunk = this.chunks.get(chunkKeyOf(x, y, z));
+        return chunk ? chunk.get(x, y, z) : VoxelType.AIR;
     }
     
     /**
@@ -105,9 +122,37 @@ export class VoxelLayer {
             console.warn('Cannot clear baked layer. Unbake first.');
             return;
         }
-        this.voxels.clear();
-        for (const set of this.voxelsByType.values()) {
-            set.clear();
+        
+        if (this.changeListener) {
+            const listener = this.changeListener;
+            this.forEachVoxel((x, y, z, type) => listener(this, x, y, z, type, VoxelType.AIR));
+        }
+        this.clearChunks();
+    }
+    
+    private clearChunks(): void {
+        // Chunks stay around (dirty) until the renderer has seen them emptied
+        for (const chunk of this.chunks.values()) {
+            chunk.clear();
+        }
+        this.voxelCount = 0;
+    }
+    
+    /**
+     * Replace the layer contents with pre-built chunks (used when loading projects).
+     * The change listener isn't notified - loading a scene starts a fresh undo history.
+     */
+    loadChunks(chunks: VoxelChunk[]): void {
+        if (this.isBaked) {
+            this.unbake();
+        }
+        
+        this.clearChunks();
+        for (const chunk of chunks) {
+            if (chunk.isEmpty()) continue;
+            chunk.dirty = true;
+            this.chunks.set(chunk.key, chunk);
+            this.voxelCount += chunk.getCount();
         }
     }
     
@@ -115,21 +160,75 @@ export class VoxelLayer {
      * Get voxel count in this layer
      */
     getVoxelCount(): number {
-        return this.voxels.size;
+        return this.voxelCount;
+    }
+    
+    /**
+     * Visit every voxel in this layer
+     */
+    forEachVoxel(callback: (x: number, y: number, z: number, type: VoxelType) => void): void {
+        for (const chunk of this.chunks.values()) {
+            chunk.forEachVoxel(callback);
+        }
     }
     
     /**
      * Get all voxels map
+     * Built on demand from chunk storage - prefer forEachVoxel for large layers
      */
     getVoxels(): Map<string, VoxelType> {
-        return this.voxels;
+        const voxels = new Map<string, VoxelType>();
+        this.forEachVoxel((x, y, z, type) => {
+            voxels.set(`${x},${y},${z}`, type);
+        });
+        return voxels;
     }
     
     /**
      * Get voxels by type map
+     * Built on demand from chunk storage - prefer forEachVoxel for large layers
      */
     getVoxelsByType(): Map<VoxelType, Set<string>> {
-        return this.voxelsByType;
+        const voxelsByType = new Map<VoxelType, Set<string>>();
+        this.forEachVoxel((x, y, z, type) => {
+            let positions = voxelsByType.get(type);
+            if (!positions) {
+                positions = new Set();
+                voxelsByType.set(type, positions);
+            }
+            positions.add(`${x},${y},${z}`);
+        });
+        return voxelsByType;
+    }
+    
+    /**
+     * Get the chunk storage
+     */
+    getChunks(): Map<string, VoxelChunk> {
+        return this.chunks;
+    }
+    
+    /**
+     * Get chunks modified since the last clearDirtyFlags()
+     */
+    getDirtyChunks(): VoxelChunk[] {
+        const dirty: VoxelChunk[] = [];
+        for (const chunk of this.chunks.values()) {
+            if (chunk.dirty) dirty.push(chunk);
+        }
+        return dirty;
+    }
+    
+    /**
+     * Mark all changes as consumed and drop chunks that became empty
+     */
+    clearDirtyFlags(): void {
+        for (const [key, chunk] of this.chunks) {
+            chunk.dirty = false;
+            if (chunk.isEmpty()) {
+                this.chunks.delete(key);
+            }
+        }
     }
     
     /**
@@ -139,7 +238,7 @@ export class VoxelLayer {
         const voxelData: any = {};
         
         // Export all voxels by type
-        for (const [type, positions] of this.voxelsByType.entries()) {
+        for (const [type, positions] of this.getVoxelsByType().entries()) {
             if (type !== VoxelType.AIR && positions.size > 0) {
                 voxelData[type] = Array.from(positions);
             }
@@ -195,18 +294,18 @@ export class VoxelLayer {
             return;
         }
         
-        if (this.voxels.size === 0) {
+        if (this.voxelCount === 0) {
             console.warn('Cannot bake empty layer');
             return;
         }
         
-        // Store original voxel data for unbaking
-        this.originalVoxelData = new Map(this.voxels);
+        // Chunk storage is left untouched while baked (edits are blocked),
+        // so unbaking only needs to drop the meshes
         
         // Generate optimized meshes
         // Use AllFacesBakedMeshGenerator to create ALL faces (no greedy meshing)
         const generator = new AllFacesBakedMeshGenerator(voxelSize);
-        const result = generator.generateOptimizedMesh(this.voxels);
+        const result = generator.generateOptimizedMesh(this.getVoxels());
         
         // Store baked meshes and metadata
         this.bakedOpaqueMesh = result.opaqueMesh || undefined;
@@ -228,11 +327,6 @@ export class VoxelLayer {
             return;
         }
         
-        if (!this.originalVoxelData) {
-            console.error('Cannot unbake: original voxel data missing');
-            return;
-        }
-        
         // Clean up baked meshes
         if (this.bakedOpaqueMesh) {
             this.bakedOpaqueMesh.geometry.dispose();
@@ -250,23 +344,13 @@ export class VoxelLayer {
             this.bakedTransparentMesh = undefined;
         }
         
-        // Restore original voxel data
-        this.voxels = new Map(this.originalVoxelData);
-        
-        // Rebuild voxelsByType
-        this.voxelsByType.clear();
-        for (const [key, type] of this.voxels) {
-            if (type !== VoxelType.AIR) {
-                if (!this.voxelsByType.has(type)) {
-                    this.voxelsByType.set(type, new Set());
-                }
-                this.voxelsByType.get(type)!.add(key);
-            }
+        // Voxels come back into instanced rendering, so every chunk needs redrawing
+        for (const chunk of this.chunks.values()) {
+            chunk.dirty = true;
         }
         
         // Clear baking state
         this.isBaked = false;
-        this.originalVoxelData = undefined;
         this.bakedMetadata = undefined;
         
         console.log(`Unbaked layer '${this.name}'`);
@@ -0,0 +1,71 @@
+import * as THREE from 'three';
+import { VoxelMaterial } from '../types';
+
+// Per-vertex (or per-instance) material channels: roughness, metalness, emissive strength
+export const VOXEL_MATERIAL_ATTRIBUTE = 'voxelMaterial';
+
+// Matches the material settings voxels have always been rendered with
+export const DEFAULT_ROUGHNESS = 0.8;
+export const DEFAULT_METALNESS = 0.2;
+
+/**
+ * Resolve the shader channels for a voxel material (defaults when absent)
+ */
+export function getMaterialChannels(material: VoxelMaterial | null | undefined): [number, number, number] {
+    return [
+        material?.roughness ?? DEFAULT_ROUGHNESS,
+        material?.metalness ?? DEFAULT_METALNESS,
+        material?.emissive ?? 0
+    ];
+}
+
+/**
+ * Patch a MeshStandardMaterial so roughness, metalness and emission come from
+ * the voxelMaterial attribute instead of the material uniforms. Works for both
+ * plain vertex attributes (baked meshes) and InstancedBufferAttributes.
+ */
+export function applyVoxelMaterialShader(material: THREE.MeshStandardMaterial): void {
+    const previous = material.onBeforeCompile;
+    
+    material.onBeforeCompile = (shader, renderer) => {
+        previous.call(material, shader, renderer);
+        
+        shader.vertexShader = shader.vertexShader
+            .replace(
+                '#include <common>',
+                `#include <common>
+                attribute vec3 ${VOXEL_MATERIAL_ATTRIBUTE};
+                varying vec3 vVoxelMaterial;`
+            )
+            .replace(
+                '#include <begin_vertex>',
+                `#include <begin_vertex>
+                vVoxelMaterial = ${VOXEL_MATERIAL_ATTRIBUTE};`
+            );
+        
+        shader.fragmentShader = shader.fragmentShader
+            .replace(
+                '#include <common>',
+                `#include <common>
+                varying vec3 vVoxelMaterial;`
+            )
+            .replace(
+                '#include <roughnessmap_fragment>',
+                `#include <roughnessmap_fragment>
+                roughnessFactor = vVoxelMaterial.x;`
+            )
+            .replace(
+                '#include <metalnessmap_fragment>',
+                `#include <metalnessmap_fragment>
+                metalnessFactor = vVoxelMaterial.y;`
+            )
+            .replace(
+                '#include <emissivemap_fragment>',
+                `#include <emissivemap_fragment>
+                totalEmissiveRadiance += diffuseColor.rgb * vVoxelMaterial.z;`
+            );
+    };
+    
+    // Keep patched and unpatched programs apart in three's program cache
+    material.customProgramCacheKey = () => VOXEL_MATERIAL_ATTRIBUTE;
+}
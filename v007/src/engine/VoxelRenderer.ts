@@ -1,7 +1,9 @@
 import * as THREE from 'three';
-import { VoxelType, VoxelTypeDefinition } from '../types';
+import { VoxelType, VoxelTypeDefinition, VoxelMaterial } from '../types';
 import { EdgeRenderer } from './EdgeRenderer';
 import { PerformanceMonitor } from '../utils/PerformanceMonitor';
+import { chunkKeyOf } from './VoxelChunk';
+import { applyVoxelMaterialShader, getMaterialChannels, VOXEL_MATERIAL_ATTRIBUTE, DEFAULT_ROUGHNESS, DEFAULT_METALNESS } from './VoxelMaterialShader';
 
 // Voxel type definitions with vibrant colors (as RGB strings for IDE color preview)
 const VOXEL_TYPES: Record<number, VoxelTypeDefinition> = {
@@ -23,6 +25,8 @@ interface InstanceData {
     count: number;
 }
 
+type RenderVoxel = { x: number; y: number; z: number; type: VoxelType };
+
 export class VoxelRenderer {
     private scene: THREE.Scene;
     private voxelSize: number;
@@ -49,6 +53,9 @@ export class VoxelRenderer {
     private usedIndices: Set<number> = new Set();  // Track which indices are in use
     private freeOpaqueIndices: number[] = [];  // Pool of free opaque indices
     private freeTransparentIndices: number[] = [];  // Pool of free transparent indices
+    private nextOpaqueIndex: number = 0;  // High-water mark of allocated opaque slots
+    private nextTransparentIndex: number = 0;  // High-water mark of allocated transparent slots
+    private chunkVoxels: Map<string, Map<string, RenderVoxel>> = new Map();  // Rendered voxels grouped by chunk
     private needsFullRebuild: boolean = false;
     private invisibleMatrix: THREE.Matrix4;
     
@@ -219,17 +226,19 @@ export class VoxelRenderer {
         // Mark for full data rebuild
         this.needsFullRebuild = true;
         this.voxelPositionMap.clear();
+        this.chunkVoxels.clear();
     }
     
     private createPreallocatedMeshes(): void {
         // Create opaque mesh with pre-allocated capacity
         if (this.opaqueCapacity > 0) {
             const opaqueMaterial = new THREE.MeshStandardMaterial({
-                roughness: 0.8,
-                metalness: 0.2
+                roughness: DEFAULT_ROUGHNESS,
+                metalness: DEFAULT_METALNESS
             });
+            applyVoxelMaterialShader(opaqueMaterial);
             
-            this.opaqueMesh = new THREE.InstancedMesh(this.geometry, opaqueMaterial, this.opaqueCapacity);
+            this.opaqueMesh = new THREE.InstancedMesh(this.createInstanceGeometry(this.opaqueCapacity), opaqueMaterial, this.opaqueCapacity);
             this.opaqueMesh.count = this.opaqueCapacity;  // Set to full capacity
             this.opaqueMesh.castShadow = true;
             this.opaqueMesh.receiveShadow = true;
@@ -247,15 +256,16 @@ export class VoxelRenderer {
         // Create transparent mesh with pre-allocated capacity
         if (this.transparentCapacity > 0) {
             const transparentMaterial = new THREE.MeshStandardMaterial({
-                roughness: 0.8,
-                metalness: 0.2,
+                roughness: DEFAULT_ROUGHNESS,
+                metalness: DEFAULT_METALNESS,
                 transparent: true,
                 opacity: 0.8,
                 depthWrite: false,
                 side: THREE.DoubleSide
             });
+            applyVoxelMaterialShader(transparentMaterial);
             
-            this.transparentMesh = new THREE.InstancedMesh(this.geometry, transparentMaterial, this.transparentCapacity);
+            this.transparentMesh = new THREE.InstancedMesh(this.createInstanceGeometry(this.transparentCapacity), transparentMaterial, this.transparentCapacity);
             this.transparentMesh.count = this.transparentCapacity;  // Set to full capacity
             this.transparentMesh.castShadow = true;
             this.transparentMesh.receiveShadow = true;
@@ -272,6 +282,27 @@ export class VoxelRenderer {
         }
     }
     
+    /**
+     * Clone the shared box geometry with a per-instance material attribute
+     */
+    private createInstanceGeometry(capacity: number): THREE.BufferGeometry {
+        const geometry = this.geometry.clone();
+        geometry.setAttribute(
+            VOXEL_MATERIAL_ATTRIBUTE,
+            new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3)
+        );
+        return geometry;
+    }
+    
+    /**
+     * Write a voxel type's material channels into an instance slot
+     */
+    private setInstanceMaterial(mesh: THREE.InstancedMesh, index: number, typeInfo: VoxelTypeDefinition): void {
+        const attribute = mesh.geometry.getAttribute(VOXEL_MATERIAL_ATTRIBUTE) as THREE.InstancedBufferAttribute;
+        const [roughness, metalness, emissive] = getMaterialChannels(typeInfo.material);
+        attribute.setXYZ(index, roughness, metalness, emissive);
+    }
+    
     private incrementalUpdate(voxelsByType: Map<VoxelType, Set<string>>): void {
         // If we need a full rebuild (after capacity increase), rebuild everything
         if (this.needsFullRebuild) {
@@ -300,23 +331,7 @@ export class VoxelRenderer {
         
         // Remove voxels that no longer exist
         for (const posKey of toRemove) {
-            const instanceIndex = this.voxelPositionMap.get(posKey);
-            if (instanceIndex !== undefined) {
-                // Hide the instance by scaling to 0
-                const isTransparent = instanceIndex >= this.opaqueCapacity;
-                if (isTransparent && this.transparentMesh) {
-                    const localIndex = instanceIndex - this.opaqueCapacity;
-                    this.transparentMesh.setMatrixAt(localIndex, this.invisibleMatrix);
-                    // Add to free list
-                    this.freeTransparentIndices.push(localIndex);
-                } else if (!isTransparent && this.opaqueMesh) {
-                    this.opaqueMesh.setMatrixAt(instanceIndex, this.invisibleMatrix);
-                    // Add to free list
-                    this.freeOpaqueIndices.push(instanceIndex);
-                }
-                this.voxelPositionMap.delete(posKey);
-                this.usedIndices.delete(instanceIndex);
-            }
+            this.releaseInstance(posKey);
         }
         
         // Process new and updated voxels
@@ -329,82 +344,195 @@ export class VoxelRenderer {
                 continue;
             }
             
-            const isTransparent = typeInfo.transparent || false;
-            const baseColor = typeInfo.color;
-            const opacity = typeInfo.opacity || 1.0;
-            
             for (const posKey of positions) {
                 const [x, y, z] = posKey.split(',').map(Number);
+                this.placeInstance(posKey, { x, y, z, type });
+            }
+        }
+        
+        this.refreshInstanceState();
+        
+        // Build complete voxel data for edge rendering from ALL voxels in the scene
+        // This ensures edges are shown for all voxels, not just newly added ones
+        const allVoxelData: RenderVoxel[] = [];
+        for (const [type, positions] of voxelsByType.entries()) {
+            if (type === VoxelType.AIR) continue;
+            for (const posKey of positions) {
+                const [x, y, z] = posKey.split(',').map(Number);
+                allVoxelData.push({ x, y, z, type });
+            }
+        }
+        
+        // Store the complete voxel data
+        this.currentVoxelData = allVoxelData;
+        this.indexByChunk(allVoxelData);
+        
+        this.refreshEdges(allVoxelData);
+    }
+    
+    /**
+     * Update only the given chunks, leaving every other instance untouched.
+     * Each entry holds the complete set of voxels to show inside that chunk.
+     * Returns false if the meshes can't take the change (caller should do a full update).
+     */
+    updateChunks(regions: Map<string, RenderVoxel[]>): boolean {
+        if (!this.opaqueMesh || !this.transparentMesh) return false;
+        if (regions.size === 0) return true;
+        
+        const monitor = PerformanceMonitor.getInstance();
+        monitor.startTimer('VoxelRenderer.updateChunks');
+        
+        try {
+            for (const [chunkKey, voxels] of regions) {
+                const previous = this.chunkVoxels.get(chunkKey);
+                const next = new Map<string, RenderVoxel>();
+                for (const voxel of voxels) {
+                    next.set(`${voxel.x},${voxel.y},${voxel.z}`, voxel);
+                }
                 
-                // Check if this voxel already exists
-                let instanceIndex = this.voxelPositionMap.get(posKey);
-                
-                if (instanceIndex === undefined) {
-                    // New voxel - get from free list or find new slot
-                    if (isTransparent) {
-                        // Get from free list or allocate new
-                        const localIndex = this.freeTransparentIndices.pop();
-                        if (localIndex !== undefined) {
-                            instanceIndex = this.opaqueCapacity + localIndex;
-                        } else {
-                            // Find first unused transparent slot
-                            for (let i = 0; i < this.transparentCapacity; i++) {
-                                const globalIndex = this.opaqueCapacity + i;
-                                if (!this.usedIndices.has(globalIndex)) {
-                                    instanceIndex = globalIndex;
-                                    break;
-                                }
-                            }
+                // Hide voxels that disappeared from this chunk
+                if (previous) {
+                    for (const posKey of previous.keys()) {
+                        if (!next.has(posKey)) {
+                            this.releaseInstance(posKey);
                         }
-                    } else {
-                        // Get from free list or allocate new
-                        instanceIndex = this.freeOpaqueIndices.pop();
-                        if (instanceIndex === undefined) {
-                            // Find first unused opaque slot
-                            for (let i = 0; i < this.opaqueCapacity; i++) {
-                                if (!this.usedIndices.has(i)) {
-                                    instanceIndex = i;
-                                    break;
-                                }
-                            }
-                        }
-                    }
-                    
-                    if (instanceIndex === undefined) {
-                        console.warn('No available slots for new voxel!');
-                        continue;
                     }
-                    
-                    this.voxelPositionMap.set(posKey, instanceIndex);
-                    this.usedIndices.add(instanceIndex);
                 }
                 
-                // Update the instance
-                this.tempMatrix.makeTranslation(
-                    x * this.voxelSize + this.voxelSize * 0.5,
-                    y * this.voxelSize + this.voxelSize * 0.5,
-                    z * this.voxelSize + this.voxelSize * 0.5
-                );
+                // Add new voxels and refresh changed ones
+                for (const [posKey, voxel] of next) {
+                    const existing = previous?.get(posKey);
+                    if (existing && existing.type === voxel.type && this.voxelPositionMap.has(posKey)) continue;
+                    if (!this.placeInstance(posKey, voxel)) {
+                        return false;
+                    }
+                }
                 
-                if (typeof baseColor === 'string') {
-                    this.tempColor.set(baseColor);
+                if (next.size > 0) {
+                    this.chunkVoxels.set(chunkKey, next);
                 } else {
-                    this.tempColor.setHex(baseColor);
+                    this.chunkVoxels.delete(chunkKey);
                 }
-                
-                // Apply to appropriate mesh
-                if (isTransparent && this.transparentMesh) {
-                    const localIndex = instanceIndex - this.opaqueCapacity;
-                    this.transparentMesh.setMatrixAt(localIndex, this.tempMatrix);
-                    this.tempColor.multiplyScalar(opacity);
-                    this.transparentMesh.setColorAt(localIndex, this.tempColor);
-                } else if (!isTransparent && this.opaqueMesh) {
-                    this.opaqueMesh.setMatrixAt(instanceIndex, this.tempMatrix);
-                    this.opaqueMesh.setColorAt(instanceIndex, this.tempColor);
+            }
+            
+            this.refreshInstanceState();
+            
+            const allVoxelData: RenderVoxel[] = [];
+            for (const chunk of this.chunkVoxels.values()) {
+                for (const voxel of chunk.values()) {
+                    allVoxelData.push(voxel);
+                }
+            }
+            this.currentVoxelData = allVoxelData;
+            
+            this.refreshEdges(allVoxelData);
+            return true;
+        } finally {
+            monitor.endTimer('VoxelRenderer.updateChunks');
+        }
+    }
+    
+    /**
+     * Assign (or reuse) an instance slot for a voxel and write its matrix and color.
+     * Returns false if the target mesh is out of capacity.
+     */
+    private placeInstance(posKey: string, voxel: RenderVoxel): boolean {
+        const typeInfo = VOXEL_TYPES[voxel.type];
+        if (!typeInfo) {
+            // Unknown voxel types are not rendered
+            this.releaseInstance(posKey);
+            return true;
+        }
+        
+        const isTransparent = typeInfo.transparent || false;
+        let instanceIndex = this.voxelPositionMap.get(posKey);
+        
+        // Voxel switched between opaque and transparent - move it to the other mesh
+        if (instanceIndex !== undefined && (instanceIndex >= this.opaqueCapacity) !== isTransparent) {
+            this.releaseInstance(posKey);
+            instanceIndex = undefined;
+        }
+        
+        if (instanceIndex === undefined) {
+            // New voxel - get from free list or take the next unused slot
+            if (isTransparent) {
+                let localIndex = this.freeTransparentIndices.pop();
+                if (localIndex === undefined && this.nextTransparentIndex < this.transparentCapacity) {
+                    localIndex = this.nextTransparentIndex++;
+                }
+                if (localIndex !== undefined) {
+                    instanceIndex = this.opaqueCapacity + localIndex;
+                }
+            } else {
+                instanceIndex = this.freeOpaqueIndices.pop();
+                if (instanceIndex === undefined && this.nextOpaqueIndex < this.opaqueCapacity) {
+                    instanceIndex = this.nextOpaqueIndex++;
                 }
             }
+            
+            if (instanceIndex === undefined) {
+                console.warn('No available slots for new voxel!');
+                return false;
+            }
+            
+            this.voxelPositionMap.set(posKey, instanceIndex);
+            this.usedIndices.add(instanceIndex);
         }
         
+        // Update the instance
+        this.tempMatrix.makeTranslation(
+            voxel.x * this.voxelSize + this.voxelSize * 0.5,
+            voxel.y * this.voxelSize + this.voxelSize * 0.5,
+            voxel.z * this.voxelSize + this.voxelSize * 0.5
+        );
+        
+        if (typeof typeInfo.color === 'string') {
+            this.tempColor.set(typeInfo.color);
+        } else {
+            this.tempColor.setHex(typeInfo.color);
+        }
+        
+        // Apply to appropriate mesh
+        if (isTransparent && this.transparentMesh) {
+            const localIndex = instanceIndex - this.opaqueCapacity;
+            this.transparentMesh.setMatrixAt(localIndex, this.tempMatrix);
+            this.tempColor.multiplyScalar(typeInfo.opacity || 1.0);
+            this.transparentMesh.setColorAt(localIndex, this.tempColor);
+            this.setInstanceMaterial(this.transparentMesh, localIndex, typeInfo);
+        } else if (!isTransparent && this.opaqueMesh) {
+            this.opaqueMesh.setMatrixAt(instanceIndex, this.tempMatrix);
+            this.opaqueMesh.setColorAt(instanceIndex, this.tempColor);
+            this.setInstanceMaterial(this.opaqueMesh, instanceIndex, typeInfo);
+        }
+        
+        return true;
+    }
+    
+    /**
+     * Hide a voxel's instance and return its slot to the free list
+     */
+    private releaseInstance(posKey: string): void {
+        const instanceIndex = this.voxelPositionMap.get(posKey);
+        if (instanceIndex === undefined) return;
+        
+        // Hide the instance by scaling to 0
+        const isTransparent = instanceIndex >= this.opaqueCapacity;
+        if (isTransparent && this.transparentMesh) {
+            const localIndex = instanceIndex - this.opaqueCapacity;
+            this.transparentMesh.setMatrixAt(localIndex, this.invisibleMatrix);
+            this.freeTransparentIndices.push(localIndex);
+        } else if (!isTransparent && this.opaqueMesh) {
+            this.opaqueMesh.setMatrixAt(instanceIndex, this.invisibleMatrix);
+            this.freeOpaqueIndices.push(instanceIndex);
+        }
+        this.voxelPositionMap.delete(posKey);
+        this.usedIndices.delete(instanceIndex);
+    }
+    
+    /**
+     * Recount instances and flag instance buffers for upload
+     */
+    private refreshInstanceState(): void {
         // Update counts for debugging
         this.opaqueCount = 0;
         this.transparentCount = 0;
@@ -422,43 +550,52 @@ export class VoxelRenderer {
             if (this.opaqueMesh.instanceColor) {
                 this.opaqueMesh.instanceColor.needsUpdate = true;
             }
+            this.opaqueMesh.geometry.getAttribute(VOXEL_MATERIAL_ATTRIBUTE).needsUpdate = true;
         }
         if (this.transparentMesh) {
             this.transparentMesh.instanceMatrix.needsUpdate = true;
             if (this.transparentMesh.instanceColor) {
                 this.transparentMesh.instanceColor.needsUpdate = true;
             }
+            this.transparentMesh.geometry.getAttribute(VOXEL_MATERIAL_ATTRIBUTE).needsUpdate = true;
         }
-        
-        // Build complete voxel data for edge rendering from ALL voxels in the scene
-        // This ensures edges are shown for all voxels, not just newly added ones
-        const allVoxelData: { x: number; y: number; z: number; type: VoxelType }[] = [];
-        for (const [type, positions] of voxelsByType.entries()) {
-            if (type === VoxelType.AIR) continue;
-            for (const posKey of positions) {
-                const [x, y, z] = posKey.split(',').map(Number);
-                allVoxelData.push({ x, y, z, type });
-            }
+    }
+    
+    /**
+     * Rebuild edges from the complete set of rendered voxels
+     */
+    private refreshEdges(allVoxelData: RenderVoxel[]): void {
+        if (!this.showEdges) return;
+        
+        if (allVoxelData.length === 0) {
+            // No voxels visible, clear edges
+            this.edgeRenderer.clearEdges();
+        } else if (allVoxelData.length < 50000) {  // Increased limit to 50k voxels
+            // Update edges with ALL current voxels in the scene
+            this.edgeRenderer.updateEdges(allVoxelData);
+        } else {
+            // Too many voxels, disable edges for performance
+            console.warn(`Disabling edges: ${allVoxelData.length} voxels exceeds 50000 limit`);
+            this.edgeRenderer.clearEdges();
+            this.showEdges = false;
+            this.edgeRenderer.setVisible(false);
         }
-        
-        // Store the complete voxel data
-        this.currentVoxelData = allVoxelData;
-        
-        // Update edges if enabled
-        if (this.showEdges) {
-            if (allVoxelData.length === 0) {
-                // No voxels visible, clear edges
-                this.edgeRenderer.clearEdges();
-            } else if (allVoxelData.length < 50000) {  // Increased limit to 50k voxels
-                // Update edges with ALL current voxels in the scene
-                this.edgeRenderer.updateEdges(allVoxelData);
-            } else {
-                // Too many voxels, disable edges for performance
-                console.warn(`Disabling edges: ${allVoxelData.length} voxels exceeds 50000 limit`);
-                this.edgeRenderer.clearEdges();
-                this.showEdges = false;
-                this.edgeRenderer.setVisible(false);
+    }
+    
+    /**
+     * Group rendered voxels by chunk so later chunk updates can diff against them
+     */
+    private indexByChunk(allVoxelData: RenderVoxel[]): void {
+        this.chunkVoxels.clear();
+        for (const voxel of allVoxelData) {
+            if (!VOXEL_TYPES[voxel.type]) continue;
+            const chunkKey = chunkKeyOf(voxel.x, voxel.y, voxel.z);
+            let chunk = this.chunkVoxels.get(chunkKey);
+            if (!chunk) {
+                chunk = new Map();
+                this.chunkVoxels.set(chunkKey, chunk);
             }
+            chunk.set(`${voxel.x},${voxel.y},${voxel.z}`, voxel);
         }
     }
     
@@ -534,10 +671,12 @@ export class VoxelRenderer {
                     this.transparentMesh.setMatrixAt(localIndex, this.tempMatrix);
                     this.tempColor.multiplyScalar(opacity);
                     this.transparentMesh.setColorAt(localIndex, this.tempColor);
+                    this.setInstanceMaterial(this.transparentMesh, localIndex, typeInfo);
                     transparentIndex++;
                 } else if (!isTransparent && this.opaqueMesh) {
                     this.opaqueMesh.setMatrixAt(instanceIndex, this.tempMatrix);
                     this.opaqueMesh.setColorAt(instanceIndex, this.tempColor);
+                    this.setInstanceMaterial(this.opaqueMesh, instanceIndex, typeInfo);
                     opaqueIndex++;
                 }
             }
@@ -546,6 +685,8 @@ export class VoxelRenderer {
         // Update counts
         this.opaqueCount = opaqueIndex;
         this.transparentCount = transparentIndex;
+        this.nextOpaqueIndex = opaqueIndex;
+        this.nextTransparentIndex = transparentIndex;
         
         // Mark matrices as needing update
         if (this.opaqueMesh) {
@@ -553,16 +694,19 @@ export class VoxelRenderer {
             if (this.opaqueMesh.instanceColor) {
                 this.opaqueMesh.instanceColor.needsUpdate = true;
             }
+            this.opaqueMesh.geometry.getAttribute(VOXEL_MATERIAL_ATTRIBUTE).needsUpdate = true;
         }
         if (this.transparentMesh) {
             this.transparentMesh.instanceMatrix.needsUpdate = true;
             if (this.transparentMesh.instanceColor) {
                 this.transparentMesh.instanceColor.needsUpdate = true;
             }
+            this.transparentMesh.geometry.getAttribute(VOXEL_MATERIAL_ATTRIBUTE).needsUpdate = true;
         }
         
         // Store current voxel data
         this.currentVoxelData = allVoxelData;
+        this.indexByChunk(allVoxelData);
         
         // Update edges if needed (with throttling)
         if (this.showEdges) {
@@ -662,6 +806,9 @@ export class VoxelRenderer {
         this.usedIndices.clear();
         this.freeOpaqueIndices = [];
         this.freeTransparentIndices = [];
+        this.nextOpaqueIndex = 0;
+        this.nextTransparentIndex = 0;
+        this.chunkVoxels.clear();
         this.opaqueCount = 0;
         this.transparentCount = 0;
         
@@ -680,10 +827,12 @@ export class VoxelRenderer {
         colorPalette.forEach((color) => {
             // If color has a specific voxelType, update or add it
             if (color.voxelType !== undefined) {
-                // Add or update the color definition
+                // Add or update the color definition, keeping any material
+                const existing = VOXEL_TYPES[color.voxelType];
                 VOXEL_TYPES[color.voxelType] = {
+                    ...existing,
                     color: color.hex,
-                    transparent: false
+                    transparent: existing?.material?.glass || false
                 };
             } else {
                 // Otherwise update by index (legacy behavior)
@@ -697,6 +846,26 @@ export class VoxelRenderer {
         });
     }
     
+    // Update material properties (emission, roughness, metalness, glass) per voxel type
+    static updateMaterials(entries: { voxelType: VoxelType; material: VoxelMaterial | null }[]): void {
+        for (const { voxelType, material } of entries) {
+            const existing = VOXEL_TYPES[voxelType];
+            if (!existing) continue;
+            
+            const definition: VoxelTypeDefinition = { ...existing, material: material || undefined };
+            if (material?.glass) {
+                // Glass renders with the transparent voxels
+                definition.transparent = true;
+                definition.opacity = material.opacity ?? 0.5;
+            } else if (existing.material?.glass) {
+                // No longer glass - back to opaque
+                definition.transparent = false;
+                definition.opacity = undefined;
+            }
+            VOXEL_TYPES[voxelType] = definition;
+        }
+    }
+    
     // Dispose of all resources
     dispose() {
         this.clear();
@@ -3,12 +3,21 @@ import { VoxelType } from '../engine/VoxelEngine';
 import { AssetInfo, AssetData } from '../assets/types';
 import { StaticAssetManager } from '../assets/StaticAssetManager';
 import { ColorRegistry } from '../engine/ColorRegistry';
+import { DrawMode } from '../types';
+import { ShapeRasterizer, ShapeOptions, DEFAULT_SHAPE_OPTIONS } from './ShapeRasterizer';
+import { Symmetry, SymmetrySettings, SymmetryAxis, DEFAULT_SYMMETRY, SYMMETRY_AXES } from './Symmetry';
+import { PushPull, PushPullFace, VoxelLookup, MAX_PUSH_PULL_DISTANCE } from './PushPull';
+import { Sculpt, SculptBrush, SculptMode, DEFAULT_BRUSH_STRENGTH, DEFAULT_BRUSH_FALLOFF } from './Sculpt';
+
+// Tools whose left clicks repaint existing voxels while paint mode is on
+const PAINT_TOOLS = ['brush', 'box', 'line', 'fill'];
 
 export class DrawingSystem {
     // Properties
     voxelEngine: any;
     isDrawing: boolean;
     drawMode: string;
+    paintMode: boolean;  // Left clicks recolor existing voxels in the active layer instead of adding
     currentVoxelType: VoxelType;
     brushSize: number;
     toolMode: string;
@@ -19,7 +28,24 @@ export class DrawingSystem {
     boxState: 'idle' | 'base' | 'height';  // Track box tool state
     boxHeightStartMouseY: number;  // Track mouse Y when height adjustment starts
     boxPreviewY: number;  // Store the Y position from preview for third click
+    shapeOptions: ShapeOptions;  // Shape tool settings, fitted into the box tool's drag
+    shapeMode: DrawMode;  // Whether the shape tool adds or carves
     lineStart: { x: number; y: number; z: number } | null;
+    symmetry: SymmetrySettings;  // Mirror planes applied to every edit
+    lastSymmetryAxes: Record<SymmetryAxis, boolean>;  // Axes restored when symmetry is toggled back on
+    symmetryHelper: THREE.Group | null;  // Visualized mirror planes
+    pushPullFace: PushPullFace | null;  // Face region grabbed by the push-pull tool
+    pushPullAnchor: THREE.Vector3 | null;  // World point where the face was grabbed
+    pushPullDistance: number;  // Voxels the face moves along its normal, negative pushes in
+    sculptMode: SculptMode;  // Which sculpting brush the sculpt tool uses
+    brushStrength: number;  // Sculpt brush strength at its center, 0-1
+    brushFalloff: number;  // How much weaker the sculpt brush is at its edge, 0-1
+    sculptStroke: {
+        normal: { x: number; y: number; z: number };  // Clicked face normal, kept for the whole drag
+        plane: number;  // Flatten level along the normal's axis
+        lastCenter: { x: number; y: number; z: number };  // Where the last dab landed
+        changed: number;  // Voxels changed so far
+    } | null;
     drawingSurface: {
         normal: THREE.Vector3;
         basePos: { x: number; y: number; z: number };
@@ -76,10 +102,11 @@ export class DrawingSystem {
         
         // Drawing state
         this.isDrawing = false;
-        this.drawMode = 'add'; // 'add' or 'remove'
+        this.drawMode = 'add'; // 'add', 'remove' or 'paint'
+        this.paintMode = false;
         this.currentVoxelType = VoxelType.GRASS;
         this.brushSize = 1;
-        this.toolMode = 'brush'; // 'brush', 'eraser', 'box', 'line', 'fill', 'eyedropper'
+        this.toolMode = 'brush'; // 'brush', 'eraser', 'box', 'shape', 'line', 'pushpull', 'sculpt', 'fill', 'eyedropper'
         this.previousToolMode = 'brush'; // Default to brush
         this.isShiftDragging = false;
         
@@ -89,7 +116,19 @@ export class DrawingSystem {
         this.boxState = 'idle';
         this.boxHeightStartMouseY = 0;
         this.boxPreviewY = 0;
+        this.shapeOptions = { ...DEFAULT_SHAPE_OPTIONS };
+        this.shapeMode = 'add';
         this.lineStart = null;
+        this.symmetry = { axes: { ...DEFAULT_SYMMETRY.axes }, plane: { ...DEFAULT_SYMMETRY.plane } };
+        this.lastSymmetryAxes = { x: true, y: false, z: false };
+        this.symmetryHelper = null;
+        this.pushPullFace = null;
+        this.pushPullAnchor = null;
+        this.pushPullDistance = 0;
+        this.sculptMode = 'smooth';
+        this.brushStrength = DEFAULT_BRUSH_STRENGTH;
+        this.brushFalloff = DEFAULT_BRUSH_FALLOFF;
+        this.sculptStroke = null;
         this.drawingSurface = null; // Store the surface we're drawing on
         this.lastBrushPosition = null; // Track last brush position to avoid duplicates
         this.processedPositions = new Set(); // Track all processed positions in current drag
@@ -495,7 +534,7 @@ export class DrawingSystem {
             pos = constrainedPos;
         } else if (hit) {
             // Normal preview behavior when not drawing
-            pos = (this.toolMode === 'eraser' || this.drawMode === 'remove') 
+            pos = (this.toolMode === 'eraser' || this.drawMode === 'remove' || this.isPainting()) 
                 ? hit.voxelPos 
                 : hit.adjacentPos;
         } else {
@@ -520,13 +559,15 @@ export class DrawingSystem {
             return;
         }
         
-        // For brush, eraser, fill, box, and line tools, show preview appropriately
+        // For brush, eraser, fill, box, shape, line, push-pull and sculpt tools, show preview appropriately
         if (this.toolMode === 'brush' || this.toolMode === 'eraser' || this.toolMode === 'fill' || 
-            this.toolMode === 'box' || this.toolMode === 'line') {
+            this.toolMode === 'box' || this.toolMode === 'shape' || this.toolMode === 'line' || this.toolMode === 'pushpull' ||
+            this.toolMode === 'sculpt') {
             const voxelSize = this.voxelEngine.getCurrentVoxelSize();
             
-            // For fill, box, and line tools, hide regular preview - they have their own
-            if (this.toolMode === 'fill' || this.toolMode === 'box' || this.toolMode === 'line') {
+            // For fill, box, shape, line, push-pull and sculpt tools, hide regular preview - they have their own
+            if (this.toolMode === 'fill' || this.toolMode === 'box' || this.toolMode === 'shape' || this.toolMode === 'line' ||
+                this.toolMode === 'pushpull' || this.toolMode === 'sculpt') {
                 this.previewGroup.visible = false;
                 return;
             }
@@ -572,8 +613,8 @@ export class DrawingSystem {
                     this.eraserGlowMesh.scale.setScalar(this.brushSize);
                     this.eraserGlowMaterial.opacity = 0.3;
                 }
-            } else if (this.drawMode === 'add') {
-                // Always use the same color logic as brush size 1
+            } else if (this.drawMode !== 'remove') {
+                // Always use the same color logic as brush size 1 (adding or painting)
                 let previewColor: THREE.Color;
                 if (this.voxelPanel) {
                     const colorPickerPopover = (this.voxelPanel as any).getColorPickerPopover?.();
@@ -648,10 +689,33 @@ export class DrawingSystem {
             return;
         }
         
+        // Push-pull grabs the face region under the cursor; the drag sets the distance
+        if (this.toolMode === 'pushpull' && mode === 'add') {
+            this.startPushPull(hit);
+            return;
+        }
+        
+        // Sculpting dabs at the cursor for as long as the mouse is held
+        if (this.toolMode === 'sculpt' && mode === 'add') {
+            this.startSculpt(hit);
+            return;
+        }
+        
         this.isDrawing = true;
         this.isShiftDragging = shiftKey;
         // If using eraser tool, always remove voxels
         this.drawMode = this.toolMode === 'eraser' ? 'remove' : mode;
+        // In paint mode, left clicks recolor what's there instead of adding
+        if (mode === 'add' && this.isPainting()) {
+            this.drawMode = 'paint';
+        }
+        // Left clicks with the shape tool follow its add/remove setting instead,
+        // and don't count as a drag, so a removing shape doesn't erase as the mouse moves
+        const isShapeClick = this.toolMode === 'shape' && mode === 'add';
+        if (isShapeClick) {
+            this.drawMode = this.shapeMode;
+            this.isDrawing = false;
+        }
         
         // Clear processed positions for new drag operation
         this.processedPositions.clear();
@@ -667,7 +731,7 @@ export class DrawingSystem {
             // - For removing: constrain to the voxel layer we're removing from
             let constraintPos;
             
-            if (mode === 'remove') {
+            if (this.drawMode !== 'add') {
                 // For remove mode, we need to establish the working plane
                 // at the clicked face, similar to add mode but on the voxel side
                 // This keeps the plane stable even after voxels are removed
@@ -781,7 +845,7 @@ export class DrawingSystem {
         
         // If we're in remove mode (right-click), always apply brush regardless of tool
         // This allows right-click drag to work with any tool selected
-        if (this.drawMode === 'remove') {
+        if (this.drawMode === 'remove' && !isShapeClick) {
             this.applyBrush(pos.x, pos.y, pos.z);
             // For single click (not drag), update immediately
             if (!this.voxelEngine.isBatchMode()) {
@@ -801,15 +865,23 @@ export class DrawingSystem {
                 }
                 break;
             case 'box':
+            case 'shape':
                 if (this.boxState === 'idle') {
                     // First click: set the X/Z base dimensions
                     this.boxStart = pos;
                     this.boxEnd = pos;
                     this.boxState = 'base';
-                    // Make sure we're in add mode for box tool (unless explicitly removing)
-                    if (this.drawMode !== 'remove') {
+                    // Make sure we're in add mode for box tool (unless explicitly removing or painting)
+                    if (this.drawMode !== 'remove' && this.drawMode !== 'paint') {
                         this.drawMode = 'add';
                     }
+                } else if (this.boxState === 'base' && this.toolMode === 'shape' && !ShapeRasterizer.needsHeight(this.shapeOptions.kind)) {
+                    // Spheres take their height from the base, so the second click applies
+                    this.applyShapeTool(this.boxStart!, { x: pos.x, y: this.boxStart!.y, z: pos.z });
+                    this.boxStart = null;
+                    this.boxEnd = null;
+                    this.boxState = 'idle';
+                    this.clearToolPreviews();
                 } else if (this.boxState === 'base') {
                     // Second click: lock X/Z dimensions and start Y height adjustment
                     this.boxEnd = { x: pos.x, y: this.boxStart!.y, z: pos.z };
@@ -818,8 +890,12 @@ export class DrawingSystem {
                     // Third click: confirm with final Y height and apply
                     // Use the Y position calculated during preview instead of hit position
                     this.boxEnd!.y = this.boxPreviewY;
-                    console.log('Applying box tool:', this.boxStart, this.boxEnd, 'drawMode:', this.drawMode);
-                    this.applyBoxTool(this.boxStart!, this.boxEnd!);
+                    if (this.toolMode === 'shape') {
+                        this.applyShapeTool(this.boxStart!, this.boxEnd!);
+                    } else {
+                        console.log('Applying box tool:', this.boxStart, this.boxEnd, 'drawMode:', this.drawMode);
+                        this.applyBoxTool(this.boxStart!, this.boxEnd!);
+                    }
                     this.boxStart = null;
                     this.boxEnd = null;
                     this.boxState = 'idle';
@@ -904,6 +980,8 @@ export class DrawingSystem {
                 const logger = ActionLogger.getInstance();
                 if (this.drawMode === 'add') {
                     logger.log(ActionLogger.actions.placeVoxel(operationCount));
+                } else if (this.drawMode === 'paint') {
+                    logger.log(ActionLogger.actions.paintVoxel(operationCount));
                 } else {
                     logger.log(ActionLogger.actions.removeVoxel(operationCount));
                 }
@@ -984,7 +1062,7 @@ export class DrawingSystem {
         let voxelTypeToUse = this.currentVoxelType;
         
         // Check if we're using a custom color (works for all brush sizes)
-        if (this.voxelPanel && this.drawMode === 'add') {
+        if (this.voxelPanel && this.drawMode !== 'remove') {
             const colorOrType = this.voxelPanel.getSelectedColorOrType();
             if (colorOrType.isCustomColor) {
                 voxelTypeToUse = colorOrType.type;
@@ -1008,10 +1086,13 @@ export class DrawingSystem {
                     // Apply voxel change (batched internally)
                     if (this.drawMode === 'add') {
                         // When adding, replace any existing voxel with the new type
-                        this.voxelEngine.setVoxel(vx, vy, vz, voxelTypeToUse);
+                        this.setVoxelSymmetric(vx, vy, vz, voxelTypeToUse);
+                    } else if (this.drawMode === 'paint') {
+                        // When painting, only recolor voxels that are already there
+                        this.paintVoxelSymmetric(vx, vy, vz, voxelTypeToUse);
                     } else {
                         // When removing (eraser mode or right-click), set to AIR
-                        this.voxelEngine.setVoxel(vx, vy, vz, VoxelType.AIR);
+                        this.setVoxelSymmetric(vx, vy, vz, VoxelType.AIR);
                     }
                 }
             }
@@ -1033,6 +1114,177 @@ export class DrawingSystem {
         this.brushSize = Math.max(1, Math.min(10, size));
     }
     
+    // Set a voxel and its mirror images. The copies go through the same setVoxel
+    // path inside the same operation, so they land in the same undo step.
+    // With recolorOnly, mirror images only repaint voxels that already exist.
+    private setVoxelSymmetric(x: number, y: number, z: number, type: VoxelType, recolorOnly: boolean = false): void {
+        const positions = Symmetry.mirror({ x, y, z }, this.symmetry);
+        positions.forEach((pos, i) => {
+            if (i > 0 && recolorOnly && this.voxelEngine.getVoxel(pos.x, pos.y, pos.z) === VoxelType.AIR) {
+                return;
+            }
+            this.voxelEngine.setVoxel(pos.x, pos.y, pos.z, type);
+        });
+    }
+    
+    // Recolor a voxel and its mirror images where the active layer has them
+    private paintVoxelSymmetric(x: number, y: number, z: number, type: VoxelType): number {
+        let painted = 0;
+        for (const pos of Symmetry.mirror({ x, y, z }, this.symmetry)) {
+            if (this.voxelEngine.paintVoxel(pos.x, pos.y, pos.z, type)) painted++;
+        }
+        return painted;
+    }
+    
+    // Whether left clicks with the current tool repaint instead of adding
+    isPainting(): boolean {
+        return this.paintMode && PAINT_TOOLS.includes(this.toolMode);
+    }
+    
+    setPaintMode(enabled: boolean): void {
+        this.paintMode = enabled;
+        window.dispatchEvent(new CustomEvent('paint-mode-changed', { detail: enabled }));
+        if (this.lastUpdateHit) {
+            this.updatePreview(this.lastUpdateHit);
+        }
+    }
+    
+    togglePaintMode(): void {
+        this.setPaintMode(!this.paintMode);
+        import('../ui/ActionLogger').then(({ ActionLogger }) => {
+            const logger = ActionLogger.getInstance();
+            logger.log(this.paintMode ? 'Paint mode on' : 'Paint mode off');
+        });
+    }
+    
+    getSymmetry(): SymmetrySettings {
+        return { axes: { ...this.symmetry.axes }, plane: { ...this.symmetry.plane } };
+    }
+    
+    setSymmetry(settings: { axes?: Partial<Record<SymmetryAxis, boolean>>; plane?: Partial<{ x: number; y: number; z: number }> }): void {
+        const plane = { ...this.symmetry.plane, ...settings.plane };
+        this.symmetry = {
+            axes: { ...this.symmetry.axes, ...settings.axes },
+            plane: {
+                x: Symmetry.snapPlane(plane.x),
+                y: Symmetry.snapPlane(plane.y),
+                z: Symmetry.snapPlane(plane.z)
+            }
+        };
+        if (Symmetry.isActive(this.symmetry)) {
+            this.lastSymmetryAxes = { ...this.symmetry.axes };
+        }
+        this.updateSymmetryHelper();
+        window.dispatchEvent(new CustomEvent('symmetry-changed', { detail: this.getSymmetry() }));
+    }
+    
+    // Turn symmetry off, or back on with the axes used last
+    toggleSymmetry(): void {
+        if (Symmetry.isActive(this.symmetry)) {
+            this.setSymmetry({ axes: { x: false, y: false, z: false } });
+        } else {
+            this.setSymmetry({ axes: this.lastSymmetryAxes });
+        }
+        import('../ui/ActionLogger').then(({ ActionLogger }) => {
+            const logger = ActionLogger.getInstance();
+            const axes = SYMMETRY_AXES.filter(axis => this.symmetry.axes[axis]).map(axis => axis.toUpperCase());
+            logger.log(axes.length > 0 ? `Symmetry: ${axes.join(', ')}` : 'Symmetry off');
+        });
+    }
+    
+    // Draw the active mirror planes, sized to the model with some margin
+    updateSymmetryHelper(): void {
+        if (this.symmetryHelper) {
+            this.voxelEngine.scene.remove(this.symmetryHelper);
+            this.symmetryHelper.traverse((child: any) => {
+                if (child.geometry) child.geometry.dispose();
+                if (child.material) child.material.dispose();
+            });
+            this.symmetryHelper = null;
+        }
+        if (!Symmetry.isActive(this.symmetry)) return;
+        
+        const voxelSize = this.voxelEngine.getCurrentVoxelSize();
+        const bounds = this.voxelEngine.getBounds();
+        const center = Symmetry.centerOf(bounds.min, bounds.max);
+        const extent = Math.max(
+            32,
+            bounds.max.x - bounds.min.x + 16,
+            bounds.max.y - bounds.min.y + 16,
+            bounds.max.z - bounds.min.z + 16
+        );
+        
+        // X axis = Red, Y axis = Green, Z axis = Blue
+        const colors: Record<SymmetryAxis, number> = { x: 0xff0000, y: 0x00ff00, z: 0x0000ff };
+        const group = new THREE.Group();
+        
+        for (const axis of SYMMETRY_AXES) {
+            if (!this.symmetry.axes[axis]) continue;
+            
+            const geometry = new THREE.PlaneGeometry(extent * voxelSize, extent * voxelSize);
+            const plane = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({
+                color: colors[axis],
+                opacity: 0.08,
+                transparent: true,
+                side: THREE.DoubleSide,
+                depthWrite: false
+            }));
+            plane.add(new THREE.LineSegments(
+                new THREE.EdgesGeometry(geometry),
+                new THREE.LineBasicMaterial({ color: colors[axis], opacity: 0.5, transparent: true })
+            ));
+            
+            // PlaneGeometry faces Z; vertical planes stand on the ground
+            if (axis === 'x') {
+                plane.rotation.y = Math.PI / 2;
+                plane.position.set(this.symmetry.plane.x, extent / 2, center.z);
+            } else if (axis === 'y') {
+                plane.rotation.x = -Math.PI / 2;
+                plane.position.set(center.x, this.symmetry.plane.y, center.z);
+            } else {
+                plane.position.set(center.x, extent / 2, this.symmetry.plane.z);
+            }
+            plane.position.multiplyScalar(voxelSize);
+            group.add(plane);
+        }
+        
+        // Disable raycasting for the planes
+        group.traverse((child: any) => {
+            child.raycast = () => {};
+        });
+        
+        this.voxelEngine.scene.add(group);
+        this.symmetryHelper = group;
+    }
+    
+    // Add mirrored copies of the box, shape and line previews
+    private mirrorToolPreviews(): void {
+        if (!Symmetry.isActive(this.symmetry) || this.toolPreviewMeshes.length === 0) return;
+        
+        // One reflection per mirror image, combined the same way as Symmetry.mirror
+        const voxelSize = this.voxelEngine.getCurrentVoxelSize();
+        let reflections = [new THREE.Matrix4()];
+        for (const axis of SYMMETRY_AXES) {
+            if (!this.symmetry.axes[axis]) continue;
+            const offset = 2 * this.symmetry.plane[axis] * voxelSize;
+            const reflect = new THREE.Matrix4().makeScale(axis === 'x' ? -1 : 1, axis === 'y' ? -1 : 1, axis === 'z' ? -1 : 1)
+                .setPosition(axis === 'x' ? offset : 0, axis === 'y' ? offset : 0, axis === 'z' ? offset : 0);
+            reflections = reflections.concat(reflections.map(matrix => reflect.clone().multiply(matrix)));
+        }
+        
+        for (const item of [...this.toolPreviewMeshes]) {
+            for (const reflection of reflections.slice(1)) {
+                const copy = item.clone();
+                copy.applyMatrix4(reflection);
+                copy.traverse((child: any) => {
+                    child.raycast = () => {};
+                });
+                this.voxelEngine.scene.add(copy);
+                this.toolPreviewMeshes.push(copy);
+            }
+        }
+    }
+    
     getPreviousToolMode(): string {
         return this.previousToolMode;
     }
@@ -1180,6 +1432,9 @@ export class DrawingSystem {
     }
     
     private applyFillToSelection(minX: number, maxX: number, minY: number, maxY: number, camera: THREE.Camera, scene: THREE.Scene): void {
+        // The fill tool always recolors; paint mode keeps it to the active layer
+        this.drawMode = this.paintMode ? 'paint' : 'add';
+        
         // Get the voxel type to use
         let voxelTypeToUse = this.currentVoxelType;
         // Fill tool always fills with selected color
@@ -1236,7 +1491,11 @@ export class DrawingSystem {
             
             for (const [key, type] of voxelsToFill) {
                 const [x, y, z] = key.split(',').map(Number);
-                this.voxelEngine.setVoxel(x, y, z, type);
+                if (this.drawMode === 'paint') {
+                    this.paintVoxelSymmetric(x, y, z, type);
+                } else {
+                    this.setVoxelSymmetric(x, y, z, type, true);
+                }
             }
             
             this.voxelEngine.endBatch();
@@ -1304,9 +1563,9 @@ export class DrawingSystem {
         }
     }
     
-    // Cancel box tool (for right-click)
+    // Cancel box or shape tool (for right-click)
     cancelBoxTool(): void {
-        if (this.toolMode === 'box' && this.boxState !== 'idle') {
+        if ((this.toolMode === 'box' || this.toolMode === 'shape') && this.boxState !== 'idle') {
             this.boxStart = null;
             this.boxEnd = null;
             this.boxState = 'idle';
@@ -1314,7 +1573,7 @@ export class DrawingSystem {
             this.clearToolPreviews();
             import('../ui/ActionLogger').then(({ ActionLogger }) => {
                 const logger = ActionLogger.getInstance();
-                logger.log('Box tool cancelled');
+                logger.log(this.toolMode === 'shape' ? 'Shape tool cancelled' : 'Box tool cancelled');
             });
         }
     }
@@ -1346,6 +1605,12 @@ export class DrawingSystem {
         this.boxState = 'idle';
         this.boxPreviewY = 0;
         this.lineStart = null;
+        this.pushPullFace = null;
+        this.pushPullAnchor = null;
+        this.pushPullDistance = 0;
+        if (this.sculptStroke) {
+            this.finishSculpt();
+        }
         
         // Update current tool display in info bar
         const toolElement = document.getElementById('current-tool');
@@ -1354,7 +1619,10 @@ export class DrawingSystem {
                 'brush': 'Brush',
                 'eraser': 'Eraser',
                 'box': 'Box',
+                'shape': 'Shape',
                 'line': 'Line',
+                'pushpull': 'Push/Pull',
+                'sculpt': 'Sculpt',
                 'fill': 'Fill',
                 'asset': 'Asset',
                 'selection': 'Selection',
@@ -1381,7 +1649,7 @@ export class DrawingSystem {
             if (mode === 'brush' || mode === 'eraser') {
                 this.previewGroup.visible = true;
             } else {
-                // Hide for box, line, fill, and selection tools
+                // Hide for box, shape, line, fill, and selection tools
                 this.previewGroup.visible = false;
             }
         } else {
@@ -1476,7 +1744,7 @@ export class DrawingSystem {
         
         // Get the voxel type to use (may be mapped from custom color)
         let voxelTypeToUse = this.currentVoxelType;
-        if (this.voxelPanel && this.drawMode === 'add') {
+        if (this.voxelPanel && this.drawMode !== 'remove') {
             const colorOrType = this.voxelPanel.getSelectedColorOrType();
             if (colorOrType.isCustomColor) {
                 voxelTypeToUse = colorOrType.type;
@@ -1486,13 +1754,16 @@ export class DrawingSystem {
         // Start batch for box operation
         this.voxelEngine.startBatch();
         
+        let paintedCount = 0;
         for (let x = minX; x <= maxX; x++) {
             for (let y = minY; y <= maxY; y++) {
                 for (let z = minZ; z <= maxZ; z++) {
                     if (this.drawMode === 'add') {
-                        this.voxelEngine.setVoxel(x, y, z, voxelTypeToUse);
+                        this.setVoxelSymmetric(x, y, z, voxelTypeToUse);
+                    } else if (this.drawMode === 'paint') {
+                        paintedCount += this.paintVoxelSymmetric(x, y, z, voxelTypeToUse);
                     } else {
-                        this.voxelEngine.setVoxel(x, y, z, VoxelType.AIR);
+                        this.setVoxelSymmetric(x, y, z, VoxelType.AIR);
                     }
                 }
             }
@@ -1501,20 +1772,284 @@ export class DrawingSystem {
         // End batch and update
         this.voxelEngine.endBatch();
         
-        const voxelCount = (maxX - minX + 1) * (maxY - minY + 1) * (maxZ - minZ + 1);
-        console.log(`Box tool completed - ${voxelCount} voxels ${this.drawMode === 'add' ? 'added' : 'removed'}`);
+        // Painting only touches the voxels that were there
+        const voxelCount = this.drawMode === 'paint' ? paintedCount : (maxX - minX + 1) * (maxY - minY + 1) * (maxZ - minZ + 1);
+        console.log(`Box tool completed - ${voxelCount} voxels ${this.drawMode === 'add' ? 'added' : this.drawMode === 'paint' ? 'painted' : 'removed'}`);
         
         // Log the action
         import('../ui/ActionLogger').then(({ ActionLogger }) => {
             const logger = ActionLogger.getInstance();
             if (this.drawMode === 'add') {
                 logger.log(ActionLogger.actions.placeVoxel(voxelCount));
+            } else if (this.drawMode === 'paint') {
+                logger.log(ActionLogger.actions.paintVoxel(voxelCount));
             } else {
                 logger.log(ActionLogger.actions.removeVoxel(voxelCount));
             }
         });
     }
     
+    // Shape tool implementation: the shape is fitted into the dragged box
+    applyShapeTool(start: { x: number; y: number; z: number }, end: { x: number; y: number; z: number }): void {
+        const positions = ShapeRasterizer.rasterize(start, end, this.shapeOptions);
+        
+        // Get the voxel type to use (may be mapped from custom color)
+        let voxelTypeToUse = this.currentVoxelType;
+        if (this.voxelPanel && this.drawMode === 'add') {
+            const colorOrType = this.voxelPanel.getSelectedColorOrType();
+            if (colorOrType.isCustomColor) {
+                voxelTypeToUse = colorOrType.type;
+            }
+        }
+        
+        this.voxelEngine.startBatch();
+        for (const { x, y, z } of positions) {
+            this.setVoxelSymmetric(x, y, z, this.drawMode === 'add' ? voxelTypeToUse : VoxelType.AIR);
+        }
+        this.voxelEngine.endBatch();
+        
+        console.log(`Shape tool completed - ${this.shapeOptions.kind}, ${positions.length} voxels ${this.drawMode === 'add' ? 'added' : 'removed'}`);
+        
+        import('../ui/ActionLogger').then(({ ActionLogger }) => {
+            const logger = ActionLogger.getInstance();
+            if (this.drawMode === 'add') {
+                logger.log(ActionLogger.actions.placeVoxel(positions.length));
+            } else {
+                logger.log(ActionLogger.actions.removeVoxel(positions.length));
+            }
+        });
+    }
+    
+    setShapeOptions(options: Partial<ShapeOptions>): void {
+        this.shapeOptions = { ...this.shapeOptions, ...options };
+        this.refreshToolPreview();
+    }
+    
+    setShapeMode(mode: DrawMode): void {
+        this.shapeMode = mode;
+        if (this.toolMode === 'shape' && this.boxState !== 'idle') {
+            this.drawMode = mode;
+        }
+        this.refreshToolPreview();
+    }
+    
+    // Redraw an in-progress shape after its settings change
+    private refreshToolPreview(): void {
+        if (this.toolMode === 'shape' && this.boxState !== 'idle' && this.lastUpdateHit) {
+            const raycaster = (this.voxelEngine.scene as any).raycaster || 
+                            (window as any).app?.raycaster;
+            this.updateToolPreview(this.lastUpdateHit, raycaster);
+        }
+    }
+    
+    // Push-pull tool: grab the face region under the cursor
+    private startPushPull(hit: any): void {
+        const face = PushPull.findFace(this.getVoxelLookup(), hit.voxelPos, this.getFaceNormal(hit.normal));
+        if (!face) return;
+        
+        this.pushPullFace = face;
+        this.pushPullAnchor = hit.point.clone();
+        this.pushPullDistance = 0;
+        this.clearToolPreviews();
+        this.previewPushPull(face, 0);
+        this.mirrorToolPreviews();
+    }
+    
+    isPushPulling(): boolean {
+        return this.pushPullFace !== null;
+    }
+    
+    // Follow the drag: the distance is taken where the mouse ray passes
+    // closest to the line through the grab point along the face normal
+    updatePushPull(raycaster: THREE.Raycaster): void {
+        if (!this.pushPullFace || !this.pushPullAnchor) return;
+        
+        const voxelSize = this.voxelEngine.getCurrentVoxelSize();
+        const { normal } = this.pushPullFace;
+        const direction = new THREE.Vector3(normal.x, normal.y, normal.z);
+        const reach = MAX_PUSH_PULL_DISTANCE * voxelSize;
+        const closest = new THREE.Vector3();
+        raycaster.ray.distanceSqToSegment(
+            this.pushPullAnchor.clone().addScaledVector(direction, -reach),
+            this.pushPullAnchor.clone().addScaledVector(direction, reach),
+            undefined,
+            closest
+        );
+        const distance = Math.round(closest.sub(this.pushPullAnchor).dot(direction) / voxelSize);
+        if (distance === this.pushPullDistance && this.toolPreviewMeshes.length > 0) return;
+        
+        this.pushPullDistance = distance;
+        this.clearToolPreviews();
+        this.previewPushPull(this.pushPullFace, distance);
+        this.mirrorToolPreviews();
+    }
+    
+    // Apply the dragged distance on release
+    finishPushPull(): void {
+        if (!this.pushPullFace) return;
+        
+        const face = this.pushPullFace;
+        const distance = this.pushPullDistance;
+        this.pushPullFace = null;
+        this.pushPullAnchor = null;
+        this.pushPullDistance = 0;
+        this.clearToolPreviews();
+        
+        if (distance !== 0) {
+            this.applyPushPull(face, distance);
+        }
+    }
+    
+    // Cancel push-pull drag (for right-click)
+    cancelPushPull(): void {
+        if (!this.pushPullFace) return;
+        
+        this.pushPullFace = null;
+        this.pushPullAnchor = null;
+        this.pushPullDistance = 0;
+        this.clearToolPreviews();
+        import('../ui/ActionLogger').then(({ ActionLogger }) => {
+            const logger = ActionLogger.getInstance();
+            logger.log('Push/pull cancelled');
+        });
+    }
+    
+    // Move a face region along its normal: pulling out extrudes it in its own
+    // type, pushing in carves that many layers
+    applyPushPull(face: PushPullFace, distance: number): void {
+        const cells = PushPull.sweep(face, distance, this.getVoxelLookup());
+        const type = distance > 0 ? face.type : VoxelType.AIR;
+        
+        this.voxelEngine.startBatch();
+        for (const { x, y, z } of cells) {
+            this.setVoxelSymmetric(x, y, z, type);
+        }
+        this.voxelEngine.endBatch();
+        
+        console.log(`Push/pull completed - ${face.voxels.length} faces moved ${distance}, ${cells.length} voxels ${distance > 0 ? 'added' : 'removed'}`);
+        
+        import('../ui/ActionLogger').then(({ ActionLogger }) => {
+            const logger = ActionLogger.getInstance();
+            if (distance > 0) {
+                logger.log(ActionLogger.actions.placeVoxel(cells.length));
+            } else {
+                logger.log(ActionLogger.actions.removeVoxel(cells.length));
+            }
+        });
+    }
+    
+    // Sculpt tool: start a stroke at the clicked face. The whole drag is one batch,
+    // and each dab works on the scene as the one before it left it
+    private startSculpt(hit: any): void {
+        const normal = this.getFaceNormal(hit.normal);
+        const plane = normal.x !== 0 ? hit.voxelPos.x : normal.z !== 0 ? hit.voxelPos.z : hit.voxelPos.y;
+        this.sculptStroke = { normal, plane, lastCenter: { ...hit.voxelPos }, changed: 0 };
+        this.voxelEngine.startBatch();
+        this.applySculpt(hit.voxelPos);
+        this.voxelEngine.updateInstances();
+    }
+    
+    isSculpting(): boolean {
+        return this.sculptStroke !== null;
+    }
+    
+    // Dab again once the cursor has moved far enough across the surface, so
+    // holding still doesn't keep piling dabs on one spot
+    continueSculpt(hit: any): void {
+        if (!this.sculptStroke || !hit) return;
+        
+        const { normal, lastCenter } = this.sculptStroke;
+        const pos = hit.voxelPos;
+        const offset = { x: pos.x - lastCenter.x, y: pos.y - lastCenter.y, z: pos.z - lastCenter.z };
+        const along = offset.x * normal.x + offset.y * normal.y + offset.z * normal.z;
+        const across = Math.sqrt(offset.x * offset.x + offset.y * offset.y + offset.z * offset.z - along * along);
+        if (across < Math.max(1, Sculpt.radiusFor(this.brushSize) / 2)) return;
+        
+        this.sculptStroke.lastCenter = { ...pos };
+        this.applySculpt(pos);
+        this.voxelEngine.updateInstances();
+    }
+    
+    // End the stroke on release
+    finishSculpt(): void {
+        if (!this.sculptStroke) return;
+        
+        const changed = this.sculptStroke.changed;
+        this.sculptStroke = null;
+        this.voxelEngine.endBatch();
+        
+        console.log(`Sculpt completed - ${this.sculptMode}, ${changed} voxels changed`);
+        
+        import('../ui/ActionLogger').then(({ ActionLogger }) => {
+            const logger = ActionLogger.getInstance();
+            logger.log(ActionLogger.actions.sculpt(this.sculptMode, changed));
+        });
+    }
+    
+    // One dab of the sculpt brush at center
+    private applySculpt(center: { x: number; y: number; z: number }): void {
+        if (!this.sculptStroke) return;
+        
+        // New voxels without neighbors to take a type from use the selected color
+        let voxelTypeToUse = this.currentVoxelType;
+        if (this.voxelPanel) {
+            const colorOrType = this.voxelPanel.getSelectedColorOrType();
+            if (colorOrType.isCustomColor) {
+                voxelTypeToUse = colorOrType.type;
+            }
+        }
+        
+        const { normal, plane } = this.sculptStroke;
+        const changes = Sculpt.apply(this.getVoxelLookup(), center, normal, this.getSculptBrush(), voxelTypeToUse, plane);
+        for (const { x, y, z, type } of changes) {
+            // Like the brush, never build below the ground
+            if (y < 0 && type !== VoxelType.AIR) continue;
+            this.setVoxelSymmetric(x, y, z, type);
+            this.sculptStroke.changed++;
+        }
+    }
+    
+    // The sculpt brush covers about as much as the cube brush of the same size
+    getSculptBrush(): SculptBrush {
+        return {
+            mode: this.sculptMode,
+            radius: Sculpt.radiusFor(this.brushSize),
+            strength: this.brushStrength,
+            falloff: this.brushFalloff
+        };
+    }
+    
+    setSculptMode(mode: SculptMode): void {
+        this.sculptMode = mode;
+        this.notifySculptChanged();
+    }
+    
+    setBrushStrength(strength: number): void {
+        this.brushStrength = Math.max(0, Math.min(1, strength));
+        this.notifySculptChanged();
+    }
+    
+    setBrushFalloff(falloff: number): void {
+        this.brushFalloff = Math.max(0, Math.min(1, falloff));
+        this.notifySculptChanged();
+    }
+    
+    private notifySculptChanged(): void {
+        window.dispatchEvent(new CustomEvent('sculpt-changed', { detail: this.getSculptBrush() }));
+        if (this.toolMode === 'sculpt' && this.lastUpdateHit) {
+            this.updatePreview(this.lastUpdateHit);
+        }
+    }
+    
+    private getVoxelLookup(): VoxelLookup {
+        return (x, y, z) => this.voxelEngine.getVoxel(x, y, z);
+    }
+    
+    // Raycast normals are unit vectors along one axis, up to float noise
+    private getFaceNormal(normal: THREE.Vector3): { x: number; y: number; z: number } {
+        return { x: Math.round(normal.x), y: Math.round(normal.y), z: Math.round(normal.z) };
+    }
+    
     // Line tool implementation
     applyLineTool(start: { x: number; y: number; z: number }, end: { x: number; y: number; z: number }): void {
         const dx = Math.abs(end.x - start.x);
@@ -1525,7 +2060,7 @@ export class DrawingSystem {
         
         // Get the voxel type to use (may be mapped from custom color)
         let voxelTypeToUse = this.currentVoxelType;
-        if (this.voxelPanel && this.drawMode === 'add') {
+        if (this.voxelPanel && this.drawMode !== 'remove') {
             const colorOrType = this.voxelPanel.getSelectedColorOrType();
             if (colorOrType.isCustomColor) {
                 voxelTypeToUse = colorOrType.type;
@@ -1542,9 +2077,11 @@ export class DrawingSystem {
             const z = Math.round(start.z + (end.z - start.z) * t);
             
             if (this.drawMode === 'add') {
-                this.voxelEngine.setVoxel(x, y, z, voxelTypeToUse);
+                this.setVoxelSymmetric(x, y, z, voxelTypeToUse);
+            } else if (this.drawMode === 'paint') {
+                this.paintVoxelSymmetric(x, y, z, voxelTypeToUse);
             } else {
-                this.voxelEngine.setVoxel(x, y, z, VoxelType.AIR);
+                this.setVoxelSymmetric(x, y, z, VoxelType.AIR);
             }
         }
         
@@ -1554,8 +2091,13 @@ export class DrawingSystem {
     
     // Fill tool implementation (flood fill based on voxel type/color)
     applyFillTool(startPos: { x: number; y: number; z: number }): void {
-        // Fill tool is always in 'add' mode (replacing colors)
-        this.drawMode = 'add';
+        // Fill tool always replaces colors; paint mode keeps it to the active layer
+        this.drawMode = this.paintMode ? 'paint' : 'add';
+        // Painting floods what the active layer holds rather than what's visible
+        const activeLayer = this.voxelEngine.getActiveLayer();
+        const getVoxel: VoxelLookup = this.drawMode === 'paint' && activeLayer
+            ? (x, y, z) => activeLayer.getVoxelAt(x, y, z)
+            : this.getVoxelLookup();
         
         // Get the voxel type to use (may be mapped from custom color)
         let voxelTypeToUse = this.currentVoxelType;
@@ -1566,7 +2108,7 @@ export class DrawingSystem {
             }
         }
         
-        const targetType = this.voxelEngine.getVoxel(startPos.x, startPos.y, startPos.z);
+        const targetType = getVoxel(startPos.x, startPos.y, startPos.z);
         
         // Don't fill if clicking on empty space (AIR)
         if (targetType === VoxelType.AIR) {
@@ -1592,7 +2134,7 @@ export class DrawingSystem {
             if (visited.has(key)) continue;
             visited.add(key);
             
-            const currentType = this.voxelEngine.getVoxel(pos.x, pos.y, pos.z);
+            const currentType = getVoxel(pos.x, pos.y, pos.z);
             if (currentType !== targetType) continue;
             
             operations.push(pos);
@@ -1625,7 +2167,11 @@ export class DrawingSystem {
         
         // Apply all fill operations
         for (const pos of operations) {
-            this.voxelEngine.setVoxel(pos.x, pos.y, pos.z, voxelTypeToUse);
+            if (this.drawMode === 'paint') {
+                this.paintVoxelSymmetric(pos.x, pos.y, pos.z, voxelTypeToUse);
+            } else {
+                this.setVoxelSymmetric(pos.x, pos.y, pos.z, voxelTypeToUse, true);
+            }
         }
         
         // End batch and update
@@ -1647,15 +2193,16 @@ export class DrawingSystem {
         
         if (!hit) return;
         
-        // For eraser tool, always use voxel position
-        const pos = (this.toolMode === 'eraser' || this.drawMode === 'remove') 
+        // For eraser tool and painting, always use voxel position
+        const pos = (this.toolMode === 'eraser' || this.drawMode === 'remove' || this.isPainting()) 
             ? hit.voxelPos 
             : hit.adjacentPos;
         
-        if (this.toolMode === 'box') {
+        if (this.toolMode === 'box' || this.toolMode === 'shape') {
+            const preview = this.toolMode === 'shape' ? this.previewShapeTool.bind(this) : this.previewBoxTool.bind(this);
             if (this.boxState === 'base' && this.boxStart) {
                 // First click done, preview X/Z box at current position
-                this.previewBoxTool(this.boxStart, { ...pos, y: this.boxStart.y });
+                preview(this.boxStart, { ...pos, y: this.boxStart.y });
             } else if (this.boxState === 'height' && this.boxStart && this.boxEnd && raycaster) {
                 // Second click done, preview Y height adjustment
                 // Create a vertical plane at the box center to intersect with the ray
@@ -1695,11 +2242,43 @@ export class DrawingSystem {
                 
                 console.log('Box height preview - start.y:', this.boxStart.y, 'endY:', endY, 'intersection.y:', intersection?.y);
                 this.boxPreviewY = endY;  // Store the preview Y for use in third click
-                this.previewBoxTool(this.boxStart, { ...this.boxEnd, y: endY });
+                preview(this.boxStart, { ...this.boxEnd, y: endY });
             }
         } else if (this.toolMode === 'line' && this.lineStart) {
             this.previewLineTool(this.lineStart, pos);
+        } else if (this.toolMode === 'pushpull') {
+            if (this.pushPullFace) {
+                this.previewPushPull(this.pushPullFace, this.pushPullDistance);
+            } else {
+                // Highlight the region a click would grab
+                const face = PushPull.findFace(this.getVoxelLookup(), hit.voxelPos, this.getFaceNormal(hit.normal));
+                if (face) {
+                    this.previewPushPull(face, 0);
+                }
+            }
+        } else if (this.toolMode === 'sculpt') {
+            this.previewSculpt(hit.voxelPos);
+        }
+        
+        this.mirrorToolPreviews();
+    }
+    
+    // Color of box, shape and line previews: the selected color, or red when removing
+    private getToolPreviewColor(): THREE.Color {
+        if (this.voxelPanel && this.drawMode !== 'remove') {
+            const colorPickerPopover = (this.voxelPanel as any).getColorPickerPopover?.();
+            const colorInfo = colorPickerPopover?.getSelectedColor();
+            if (colorInfo && (this.voxelPanel as any).isColorPaletteSelected()) {
+                // Use the actual selected color for preview
+                return new THREE.Color(colorInfo.hex);
+            }
+            // Use the voxel type color
+            return this.getVoxelColor(this.currentVoxelType);
         }
+        // Use the voxel type color or red for remove mode
+        return this.drawMode !== 'remove' ? 
+            this.getVoxelColor(this.currentVoxelType) : 
+            new THREE.Color(0xff0000);
     }
     
     // Preview box tool
@@ -1724,23 +2303,7 @@ export class DrawingSystem {
         const group = new THREE.Group();
         
         // Create new materials with the selected color
-        let previewColor: THREE.Color;
-        if (this.voxelPanel && this.drawMode === 'add') {
-            const colorPickerPopover = (this.voxelPanel as any).getColorPickerPopover?.();
-            const colorInfo = colorPickerPopover?.getSelectedColor();
-            if (colorInfo && (this.voxelPanel as any).isColorPaletteSelected()) {
-                // Use the actual selected color for preview
-                previewColor = new THREE.Color(colorInfo.hex);
-            } else {
-                // Use the voxel type color
-                previewColor = this.getVoxelColor(this.currentVoxelType);
-            }
-        } else {
-            // Use the voxel type color or red for remove mode
-            previewColor = this.drawMode === 'add' ? 
-                this.getVoxelColor(this.currentVoxelType) : 
-                new THREE.Color(0xff0000);
-        }
+        const previewColor = this.getToolPreviewColor();
         
         // Create material for this specific preview
         const boxPreviewMaterial = new THREE.MeshBasicMaterial({
@@ -1752,7 +2315,7 @@ export class DrawingSystem {
         
         // Create edge material with appropriate color
         let edgeColor = previewColor.clone();
-        if (this.drawMode === 'add') {
+        if (this.drawMode !== 'remove') {
             const brightness = previewColor.r * 0.299 + previewColor.g * 0.587 + previewColor.b * 0.114;
             if (brightness < 0.3) {
                 // For very dark colors, lighten them up a bit
@@ -1792,6 +2355,150 @@ export class DrawingSystem {
         this.toolPreviewMeshes.push(group);
     }
     
+    // Preview shape tool: the voxels it will fill inside a faint outline of its box
+    previewShapeTool(start: { x: number; y: number; z: number }, end: { x: number; y: number; z: number }): void {
+        const bounds = ShapeRasterizer.getBounds(start, end, this.shapeOptions.kind);
+        this.previewBoxTool(bounds.start, bounds.end);
+        
+        // Only the outside shows, and a one voxel shell has the same outside as the solid shape
+        const positions = ShapeRasterizer.rasterize(start, end, { ...this.shapeOptions, hollow: true, wallThickness: 1 });
+        if (positions.length === 0) return;
+        
+        const voxelSize = this.voxelEngine.getCurrentVoxelSize();
+        const geometry = new THREE.BoxGeometry(voxelSize, voxelSize, voxelSize);
+        const material = new THREE.MeshBasicMaterial({
+            color: this.getToolPreviewColor(),
+            opacity: 0.35,
+            transparent: true,
+            depthWrite: false
+        });
+        const voxels = new THREE.InstancedMesh(geometry, material, positions.length);
+        
+        const matrix = new THREE.Matrix4();
+        positions.forEach(({ x, y, z }, i) => {
+            matrix.makeTranslation(
+                x * voxelSize + voxelSize * 0.5,
+                y * voxelSize + voxelSize * 0.5,
+                z * voxelSize + voxelSize * 0.5
+            );
+            voxels.setMatrixAt(i, matrix);
+        });
+        voxels.instanceMatrix.needsUpdate = true;
+        
+        // Disable raycasting for the preview
+        voxels.raycast = () => {};
+        
+        const group = new THREE.Group();
+        group.add(voxels);
+        this.voxelEngine.scene.add(group);
+        this.toolPreviewMeshes.push(group);
+    }
+    
+    // Preview push-pull: the grabbed face region, and the voxels the drag adds or removes
+    previewPushPull(face: PushPullFace, distance: number): void {
+        const voxelSize = this.voxelEngine.getCurrentVoxelSize();
+        const normal = new THREE.Vector3(face.normal.x, face.normal.y, face.normal.z);
+        const group = new THREE.Group();
+        const matrix = new THREE.Matrix4();
+        const position = new THREE.Vector3();
+        
+        // One quad per face, slightly outside the surface to avoid z-fighting
+        const rotation = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal);
+        const scale = new THREE.Vector3(1, 1, 1);
+        const faces = new THREE.InstancedMesh(
+            new THREE.PlaneGeometry(voxelSize, voxelSize),
+            new THREE.MeshBasicMaterial({
+                color: this.getFaceAxisColor(normal),
+                opacity: 0.3,
+                transparent: true,
+                side: THREE.DoubleSide,
+                depthWrite: false
+            }),
+            face.voxels.length
+        );
+        face.voxels.forEach(({ x, y, z }, i) => {
+            position.set(x + 0.5, y + 0.5, z + 0.5).addScaledVector(normal, 0.501).multiplyScalar(voxelSize);
+            matrix.compose(position, rotation, scale);
+            faces.setMatrixAt(i, matrix);
+        });
+        faces.instanceMatrix.needsUpdate = true;
+        group.add(faces);
+        
+        // Voxels that will be added in the face's color, or removed in red
+        const cells = distance !== 0 ? PushPull.sweep(face, distance, this.getVoxelLookup()) : [];
+        if (cells.length > 0) {
+            const voxels = new THREE.InstancedMesh(
+                new THREE.BoxGeometry(voxelSize, voxelSize, voxelSize),
+                new THREE.MeshBasicMaterial({
+                    color: distance > 0 ? this.getVoxelColor(face.type) : new THREE.Color(0xff0000),
+                    opacity: 0.35,
+                    transparent: true,
+                    depthWrite: false
+                }),
+                cells.length
+            );
+            cells.forEach(({ x, y, z }, i) => {
+                matrix.makeTranslation(
+                    x * voxelSize + voxelSize * 0.5,
+                    y * voxelSize + voxelSize * 0.5,
+                    z * voxelSize + voxelSize * 0.5
+                );
+                voxels.setMatrixAt(i, matrix);
+            });
+            voxels.instanceMatrix.needsUpdate = true;
+            group.add(voxels);
+        }
+        
+        // Disable raycasting for the preview
+        group.traverse((child: any) => {
+            child.raycast = () => {};
+        });
+        
+        this.voxelEngine.scene.add(group);
+        this.toolPreviewMeshes.push(group);
+    }
+    
+    // Preview the sculpt brush: a sphere of its reach around the voxel under the
+    // cursor, and a fainter inner one that shrinks as the falloff softens the edge
+    previewSculpt(center: { x: number; y: number; z: number }): void {
+        const voxelSize = this.voxelEngine.getCurrentVoxelSize();
+        const { mode, radius, falloff } = this.getSculptBrush();
+        const color = mode === 'erode' || mode === 'lower' ? new THREE.Color(0xff0000) : this.getToolPreviewColor();
+        const group = new THREE.Group();
+        
+        const addSphere = (sphereRadius: number, opacity: number) => {
+            const sphere = new THREE.Mesh(
+                new THREE.SphereGeometry(sphereRadius * voxelSize, 16, 12),
+                new THREE.MeshBasicMaterial({
+                    color,
+                    opacity,
+                    transparent: true,
+                    wireframe: true,
+                    depthWrite: false
+                })
+            );
+            group.add(sphere);
+        };
+        addSphere(radius + 0.5, 0.3);
+        if (falloff > 0 && radius > 1) {
+            addSphere((radius + 0.5) * (1 - falloff / 2), 0.15);
+        }
+        
+        group.position.set(
+            (center.x + 0.5) * voxelSize,
+            (center.y + 0.5) * voxelSize,
+            (center.z + 0.5) * voxelSize
+        );
+        
+        // Disable raycasting for the preview
+        group.traverse((child: any) => {
+            child.raycast = () => {};
+        });
+        
+        this.voxelEngine.scene.add(group);
+        this.toolPreviewMeshes.push(group);
+    }
+    
     // Preview line tool
     previewLineTool(start: { x: number; y: number; z: number }, end: { x: number; y: number; z: number }): void {
         const dx = Math.abs(end.x - start.x);
@@ -1801,27 +2508,11 @@ export class DrawingSystem {
         const steps = Math.max(dx, dy, dz);
         
         // Get the preview color once for all voxels in the line
-        let previewColor: THREE.Color;
-        if (this.voxelPanel && this.drawMode === 'add') {
-            const colorPickerPopover = (this.voxelPanel as any).getColorPickerPopover?.();
-            const colorInfo = colorPickerPopover?.getSelectedColor();
-            if (colorInfo && (this.voxelPanel as any).isColorPaletteSelected()) {
-                // Use the actual selected color for preview
-                previewColor = new THREE.Color(colorInfo.hex);
-            } else {
-                // Use the voxel type color
-                previewColor = this.getVoxelColor(this.currentVoxelType);
-            }
-        } else {
-            // Use the voxel type color or red for remove mode
-            previewColor = this.drawMode === 'add' ? 
-                this.getVoxelColor(this.currentVoxelType) : 
-                new THREE.Color(0xff0000);
-        }
+        const previewColor = this.getToolPreviewColor();
         
         // Create edge color
         let edgeColor = previewColor.clone();
-        if (this.drawMode === 'add') {
+        if (this.drawMode !== 'remove') {
             const brightness = previewColor.r * 0.299 + previewColor.g * 0.587 + previewColor.b * 0.114;
             if (brightness < 0.3) {
                 // For very dark colors, lighten them up a bit
@@ -2087,7 +2778,7 @@ export class DrawingSystem {
             const finalZ = pos.z + Math.round(rotatedZ + centerZ);
             
             // Place voxel
-            this.voxelEngine.setVoxel(finalX, finalY, finalZ, voxelType);
+            this.setVoxelSymmetric(finalX, finalY, finalZ, voxelType);
         }
         
         // Update instances
@@ -2222,14 +2913,7 @@ export class DrawingSystem {
         }
         
         // Determine axis color based on normal direction
-        let axisColor = 0xffffff;
-        if (Math.abs(hit.normal.x) > 0.5) {
-            axisColor = 0x0000ff;  // Blue for X axis
-        } else if (Math.abs(hit.normal.y) > 0.5) {
-            axisColor = 0x00ff00;  // Green for Y axis
-        } else if (Math.abs(hit.normal.z) > 0.5) {
-            axisColor = 0xff0000;  // Red for Z axis
-        }
+        const axisColor = this.getFaceAxisColor(hit.normal);
         
         // Store base color for hover effect
         this.arrowBaseColor = axisColor;
@@ -2271,6 +2955,18 @@ export class DrawingSystem {
         this.normalArrow.visible = true;
     }
     
+    // Color of face highlights, by the axis the face points along
+    private getFaceAxisColor(normal: THREE.Vector3): number {
+        if (Math.abs(normal.x) > 0.5) {
+            return 0x0000ff;  // Blue for X axis
+        } else if (Math.abs(normal.y) > 0.5) {
+            return 0x00ff00;  // Green for Y axis
+        } else if (Math.abs(normal.z) > 0.5) {
+            return 0xff0000;  // Red for Z axis
+        }
+        return 0xffffff;
+    }
+    
     hideFaceHighlight(): void {
         if (this.faceHighlight) {
             this.faceHighlight.visible = false;
@@ -2315,8 +3011,13 @@ export class DrawingSystem {
             return;
         }
         
-        // Replace the voxel with the new color
-        this.voxelEngine.setVoxel(x, y, z, voxelTypeToUse);
+        // Replace the voxel with the new color; paint mode keeps to the active layer
+        this.drawMode = this.paintMode ? 'paint' : 'add';
+        if (this.drawMode === 'paint') {
+            this.paintVoxelSymmetric(x, y, z, voxelTypeToUse);
+        } else {
+            this.setVoxelSymmetric(x, y, z, voxelTypeToUse, true);
+        }
         this.voxelEngine.updateInstances();
         
         // Log the action
@@ -0,0 +1,93 @@
+import { VoxelType, VoxelPosition } from '../types';
+
+export type VoxelLookup = (x: number, y: number, z: number) => VoxelType;
+
+export interface PushPullFace {
+    // Outward normal of the face, one unit along a single axis
+    normal: VoxelPosition;
+    // Type of the voxels the region was grown over
+    type: VoxelType;
+    // Voxels whose face along the normal makes up the region
+    voxels: VoxelPosition[];
+}
+
+// Largest face region, the same limit as the flood fill
+export const MAX_FACE_REGION = 10000;
+// Furthest a face can be moved in one drag
+export const MAX_PUSH_PULL_DISTANCE = 64;
+
+const AXES: (keyof VoxelPosition)[] = ['x', 'y', 'z'];
+
+/**
+ * Face selection and extrusion for the push-pull tool. Voxel reads go through
+ * a lookup so this stays independent of the engine and renderer.
+ */
+export class PushPull {
+    /**
+     * The face region under the cursor: voxels of the clicked voxel's type in
+     * the same layer, connected through their edges, whose neighbor along the
+     * normal is empty. Returns null if the clicked face isn't exposed.
+     */
+    static findFace(getVoxel: VoxelLookup, start: VoxelPosition, normal: VoxelPosition, limit: number = MAX_FACE_REGION): PushPullFace | null {
+        const type = getVoxel(start.x, start.y, start.z);
+        const isFace = (pos: VoxelPosition) =>
+            getVoxel(pos.x, pos.y, pos.z) === type &&
+            getVoxel(pos.x + normal.x, pos.y + normal.y, pos.z + normal.z) === VoxelType.AIR;
+        if (type === VoxelType.AIR || !isFace(start)) return null;
+        
+        // Steps within the face's layer
+        const steps: VoxelPosition[] = [];
+        for (const axis of AXES) {
+            if (normal[axis] !== 0) continue;
+            steps.push({ x: 0, y: 0, z: 0, [axis]: 1 }, { x: 0, y: 0, z: 0, [axis]: -1 });
+        }
+        
+        const voxels: VoxelPosition[] = [start];
+        const visited = new Set<string>([`${start.x},${start.y},${start.z}`]);
+        for (let head = 0; head < voxels.length && voxels.length < limit; head++) {
+            const current = voxels[head];
+            for (const step of steps) {
+                const next = { x: current.x + step.x, y: current.y + step.y, z: current.z + step.z };
+                const key = `${next.x},${next.y},${next.z}`;
+                if (visited.has(key)) continue;
+                visited.add(key);
+                if (isFace(next) && voxels.length < limit) {
+                    voxels.push(next);
+                }
+            }
+        }
+        
+        return { normal: { ...normal }, type, voxels };
+    }
+    
+    /**
+     * Cells changed by moving the face distance voxels along its normal.
+     * Pulling out (positive) fills empty cells in front of the face with its
+     * type; pushing in (negative) empties cells behind it. Each column stops
+     * at the first cell it can't change, so a pull never jumps over an
+     * obstacle and a push never carves past a gap.
+     */
+    static sweep(face: PushPullFace, distance: number, getVoxel: VoxelLookup): VoxelPosition[] {
+        const pulling = distance > 0;
+        const layers = Math.min(Math.abs(Math.round(distance)), MAX_PUSH_PULL_DISTANCE);
+        const { normal } = face;
+        const cells: VoxelPosition[] = [];
+        
+        for (const voxel of face.voxels) {
+            // Pulls start in front of the face, pushes with the face voxel itself
+            for (let layer = pulling ? 1 : 0; layer < (pulling ? layers + 1 : layers); layer++) {
+                const offset = pulling ? layer : -layer;
+                const cell = {
+                    x: voxel.x + normal.x * offset,
+                    y: voxel.y + normal.y * offset,
+                    z: voxel.z + normal.z * offset
+                };
+                const empty = getVoxel(cell.x, cell.y, cell.z) === VoxelType.AIR;
+                if (pulling !== empty) break;
+                cells.push(cell);
+            }
+        }
+        
+        return cells;
+    }
+}
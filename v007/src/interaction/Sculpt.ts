@@ -0,0 +1,219 @@
+import { VoxelType, VoxelPosition } from '../types';
+import { VoxelLookup } from './PushPull';
+
+export type SculptMode = 'smooth' | 'erode' | 'inflate' | 'flatten' | 'raise' | 'lower';
+
+export const SCULPT_MODES: SculptMode[] = ['smooth', 'erode', 'inflate', 'flatten', 'raise', 'lower'];
+
+export interface SculptBrush {
+    mode: SculptMode;
+    // Reach from the brush center, in voxels
+    radius: number;
+    // How hard one dab works at the center, 0-1
+    strength: number;
+    // How much weaker the edge is than the center: 0 is a hard edge, 1 fades to nothing
+    falloff: number;
+}
+
+export interface SculptChange extends VoxelPosition {
+    type: VoxelType;
+}
+
+export const DEFAULT_BRUSH_STRENGTH = 0.5;
+export const DEFAULT_BRUSH_FALLOFF = 0.5;
+
+const AXES: (keyof VoxelPosition)[] = ['x', 'y', 'z'];
+
+const FACE_NEIGHBORS: VoxelPosition[] = [
+    { x: 1, y: 0, z: 0 }, { x: -1, y: 0, z: 0 },
+    { x: 0, y: 1, z: 0 }, { x: 0, y: -1, z: 0 },
+    { x: 0, y: 0, z: 1 }, { x: 0, y: 0, z: -1 }
+];
+
+// Smoothing looks at the voxels sharing a face or an edge: a small sphere around each voxel
+const SMOOTH_NEIGHBORS: VoxelPosition[] = [];
+for (let x = -1; x <= 1; x++) {
+    for (let y = -1; y <= 1; y++) {
+        for (let z = -1; z <= 1; z++) {
+            const distanceSq = x * x + y * y + z * z;
+            if (distanceSq > 0 && distanceSq <= 2) SMOOTH_NEIGHBORS.push({ x, y, z });
+        }
+    }
+}
+
+/**
+ * Sculpting brushes for voxel terrain. Each dab reads the scene through a
+ * lookup and returns the changes, all worked out from the scene as it was
+ * before the dab, so this stays independent of the engine and renderer.
+ */
+export class Sculpt {
+    /**
+     * Brush reach for an NxNxN brush size, so a sculpt brush covers about as
+     * much as the cube brush of the same size
+     */
+    static radiusFor(brushSize: number): number {
+        return Math.max(1, brushSize / 2);
+    }
+    
+    /**
+     * Effective strength at a distance from the center: full strength at the
+     * center, easing down towards the edge by the falloff, 0 beyond the radius
+     */
+    static weight(distance: number, brush: SculptBrush): number {
+        if (distance > brush.radius) return 0;
+        const t = distance / brush.radius;
+        const ease = t * t * (3 - 2 * t);
+        return Math.max(0, Math.min(1, brush.strength)) * (1 - Math.max(0, Math.min(1, brush.falloff)) * ease);
+    }
+    
+    /**
+     * One dab of the brush at center. normal is the outward normal of the
+     * clicked face, one unit along a single axis; flatten and raise/lower work
+     * along it. plane is the flatten level along the normal's axis, taken from
+     * the start of the stroke. fillType is used where new voxels have no
+     * neighbors to take their type from.
+     */
+    static apply(getVoxel: VoxelLookup, center: VoxelPosition, normal: VoxelPosition, brush: SculptBrush,
+                 fillType: VoxelType, plane?: number): SculptChange[] {
+        switch (brush.mode) {
+            case 'smooth':
+            case 'erode':
+            case 'inflate':
+            case 'flatten':
+                return Sculpt.applyVolume(getVoxel, center, normal, brush, fillType, plane);
+            case 'raise':
+            case 'lower':
+                return Sculpt.applyColumns(getVoxel, center, normal, brush);
+        }
+    }
+    
+    // Brushes that look at each voxel in the sphere on its own
+    private static applyVolume(getVoxel: VoxelLookup, center: VoxelPosition, normal: VoxelPosition, brush: SculptBrush,
+                               fillType: VoxelType, plane?: number): SculptChange[] {
+        const changes: SculptChange[] = [];
+        const reach = Math.ceil(brush.radius);
+        const axis = Sculpt.normalAxis(normal);
+        const sign = normal[axis] < 0 ? -1 : 1;
+        const level = plane ?? center[axis];
+        
+        for (let dx = -reach; dx <= reach; dx++) {
+            for (let dy = -reach; dy <= reach; dy++) {
+                for (let dz = -reach; dz <= reach; dz++) {
+                    const strength = Sculpt.weight(Math.sqrt(dx * dx + dy * dy + dz * dz), brush);
+                    if (strength <= 0) continue;
+                    
+                    const pos = { x: center.x + dx, y: center.y + dy, z: center.z + dz };
+                    const current = getVoxel(pos.x, pos.y, pos.z);
+                    const solid = current !== VoxelType.AIR;
+                    let type: VoxelType | null = null;
+                    
+                    if (brush.mode === 'smooth') {
+                        // Blur: follow the majority of the neighborhood, weaker dabs need a clearer majority
+                        const { count, majority } = Sculpt.countSolid(getVoxel, pos, SMOOTH_NEIGHBORS);
+                        const fraction = count / SMOOTH_NEIGHBORS.length;
+                        if (solid && fraction < strength / 2) {
+                            type = VoxelType.AIR;
+                        } else if (!solid && fraction > 1 - strength / 2) {
+                            type = majority ?? fillType;
+                        }
+                    } else if (brush.mode === 'erode' || brush.mode === 'inflate') {
+                        // Full strength takes every exposed voxel or fills every touching gap;
+                        // weaker dabs only take sharp corners and fill deep dents
+                        const needed = 1 + Math.round((1 - strength) * 4);
+                        const { count, majority } = Sculpt.countSolid(getVoxel, pos, FACE_NEIGHBORS);
+                        if (brush.mode === 'erode' && solid && FACE_NEIGHBORS.length - count >= needed) {
+                            type = VoxelType.AIR;
+                        } else if (brush.mode === 'inflate' && !solid && count >= needed) {
+                            type = majority ?? fillType;
+                        }
+                    } else {
+                        // Flatten: solid up to the plane, empty above it, within reach of the plane
+                        const height = (pos[axis] - level) * sign;
+                        if (Math.abs(height) > strength * brush.radius) continue;
+                        if (solid && height > 0) {
+                            type = VoxelType.AIR;
+                        } else if (!solid && height <= 0) {
+                            type = Sculpt.countSolid(getVoxel, pos, FACE_NEIGHBORS).majority ?? fillType;
+                        }
+                    }
+                    
+                    if (type !== null && type !== current) {
+                        changes.push({ ...pos, type });
+                    }
+                }
+            }
+        }
+        return changes;
+    }
+    
+    // Raise and lower move the surface of each column along the normal,
+    // by more in the middle of the brush than at its edge
+    private static applyColumns(getVoxel: VoxelLookup, center: VoxelPosition, normal: VoxelPosition, brush: SculptBrush): SculptChange[] {
+        const changes: SculptChange[] = [];
+        const reach = Math.ceil(brush.radius);
+        const axis = Sculpt.normalAxis(normal);
+        const sign = normal[axis] < 0 ? -1 : 1;
+        const [u, v] = AXES.filter(a => a !== axis);
+        const cell = (du: number, dv: number, h: number): VoxelPosition => ({
+            ...center,
+            [u]: center[u] + du,
+            [v]: center[v] + dv,
+            [axis]: center[axis] + h * sign
+        });
+        const isSolid = (pos: VoxelPosition) => getVoxel(pos.x, pos.y, pos.z) !== VoxelType.AIR;
+        
+        for (let du = -reach; du <= reach; du++) {
+            for (let dv = -reach; dv <= reach; dv++) {
+                const amount = Math.round(Sculpt.weight(Math.sqrt(du * du + dv * dv), brush) * brush.radius);
+                if (amount <= 0) continue;
+                
+                // The column's surface: the highest solid voxel near the brush with air above it
+                let top: number | null = null;
+                for (let h = reach; h >= -reach; h--) {
+                    if (isSolid(cell(du, dv, h))) {
+                        if (!isSolid(cell(du, dv, h + 1))) top = h;
+                        break;
+                    }
+                }
+                if (top === null) continue;
+                
+                if (brush.mode === 'raise') {
+                    const surface = cell(du, dv, top);
+                    const type = getVoxel(surface.x, surface.y, surface.z);
+                    for (let h = top + 1; h <= top + amount; h++) {
+                        const pos = cell(du, dv, h);
+                        if (isSolid(pos)) break;
+                        changes.push({ ...pos, type });
+                    }
+                } else {
+                    for (let h = top; h > top - amount; h--) {
+                        const pos = cell(du, dv, h);
+                        if (!isSolid(pos)) break;
+                        changes.push({ ...pos, type: VoxelType.AIR });
+                    }
+                }
+            }
+        }
+        return changes;
+    }
+    
+    // Solid neighbors and their most common type
+    private static countSolid(getVoxel: VoxelLookup, pos: VoxelPosition, offsets: VoxelPosition[]): { count: number; majority: VoxelType | null } {
+        const types = new Map<VoxelType, number>();
+        let count = 0;
+        let majority: VoxelType | null = null;
+        for (const offset of offsets) {
+            const type = getVoxel(pos.x + offset.x, pos.y + offset.y, pos.z + offset.z);
+            if (type === VoxelType.AIR) continue;
+            count++;
+            const seen = (types.get(type) ?? 0) + 1;
+            types.set(type, seen);
+            if (majority === null || seen > types.get(majority)!) majority = type;
+        }
+        return { count, majority };
+    }
+    
+    private static normalAxis(normal: VoxelPosition): keyof VoxelPosition {
+        return AXES.find(axis => normal[axis] !== 0) ?? 'y';
+    }
+}
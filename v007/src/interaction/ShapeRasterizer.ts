@@ -0,0 +1,224 @@
+import { VoxelPosition } from '../types';
+
+export type ShapeKind = 'sphere' | 'ellipsoid' | 'cylinder' | 'cone' | 'pyramid' | 'torus';
+export type ShapeAxis = 'x' | 'y' | 'z';
+
+export const SHAPE_KINDS: ShapeKind[] = ['sphere', 'ellipsoid', 'cylinder', 'cone', 'pyramid', 'torus'];
+
+export interface ShapeOptions {
+    kind: ShapeKind;
+    // Axis of cylinders, cones, pyramids and tori; ignored by spheres and ellipsoids
+    axis: ShapeAxis;
+    hollow: boolean;
+    // Wall thickness in voxels for hollow shapes
+    wallThickness: number;
+}
+
+export const DEFAULT_SHAPE_OPTIONS: ShapeOptions = {
+    kind: 'sphere',
+    axis: 'y',
+    hollow: false,
+    wallThickness: 1
+};
+
+// Largest extent per side, so a stray drag can't allocate a huge grid
+export const MAX_SHAPE_SIZE = 256;
+
+const AXES: ShapeAxis[] = ['x', 'y', 'z'];
+
+/**
+ * Turns parametric shapes into voxel positions. The shape is fitted into the
+ * box spanned by two corners (inclusive); cones and pyramids stand on the
+ * start corner's side of their axis and point towards the end corner.
+ * Pure grid math with no renderer dependency.
+ */
+export class ShapeRasterizer {
+    /**
+     * Whether the shape's size along the vertical needs a separate drag.
+     * Spheres take their height from the base instead.
+     */
+    static needsHeight(kind: ShapeKind): boolean {
+        return kind !== 'sphere';
+    }
+    
+    /**
+     * The box a shape dragged from start to end occupies. Spheres become a
+     * cube as wide as the larger base side, growing from the start corner.
+     */
+    static getBounds(start: VoxelPosition, end: VoxelPosition, kind: ShapeKind): { start: VoxelPosition; end: VoxelPosition } {
+        const clampTo = (from: number, to: number) =>
+            from + Math.sign(to - from) * Math.min(Math.abs(to - from), MAX_SHAPE_SIZE - 1);
+        
+        if (kind === 'sphere') {
+            const size = Math.min(Math.max(Math.abs(end.x - start.x), Math.abs(end.z - start.z)), MAX_SHAPE_SIZE - 1);
+            const towards = (from: number, to: number) => from + (to < from ? -size : size);
+            return {
+                start: { ...start },
+                end: { x: towards(start.x, end.x), y: start.y + size, z: towards(start.z, end.z) }
+            };
+        }
+        
+        return {
+            start: { ...start },
+            end: { x: clampTo(start.x, end.x), y: clampTo(start.y, end.y), z: clampTo(start.z, end.z) }
+        };
+    }
+    
+    /**
+     * Voxel positions of the shape spanned by start and end
+     */
+    static rasterize(start: VoxelPosition, end: VoxelPosition, options: ShapeOptions): VoxelPosition[] {
+        const bounds = ShapeRasterizer.getBounds(start, end, options.kind);
+        const min = {
+            x: Math.min(bounds.start.x, bounds.end.x),
+            y: Math.min(bounds.start.y, bounds.end.y),
+            z: Math.min(bounds.start.z, bounds.end.z)
+        };
+        const size = {
+            x: Math.abs(bounds.end.x - bounds.start.x) + 1,
+            y: Math.abs(bounds.end.y - bounds.start.y) + 1,
+            z: Math.abs(bounds.end.z - bounds.start.z) + 1
+        };
+        
+        const solid = ShapeRasterizer.fill(size, bounds, options);
+        const cells = options.hollow
+            ? ShapeRasterizer.shell(solid, size, Math.max(1, Math.floor(options.wallThickness)))
+            : solid;
+        
+        const positions: VoxelPosition[] = [];
+        let index = 0;
+        for (let x = 0; x < size.x; x++) {
+            for (let y = 0; y < size.y; y++) {
+                for (let z = 0; z < size.z; z++, index++) {
+                    if (cells[index]) {
+                        positions.push({ x: min.x + x, y: min.y + y, z: min.z + z });
+                    }
+                }
+            }
+        }
+        return positions;
+    }
+    
+    /**
+     * Solid occupancy grid, indexed x-major then y then z
+     */
+    private static fill(
+        size: VoxelPosition,
+        bounds: { start: VoxelPosition; end: VoxelPosition },
+        options: ShapeOptions
+    ): Uint8Array {
+        const grid = new Uint8Array(size.x * size.y * size.z);
+        const axis = options.kind === 'sphere' || options.kind === 'ellipsoid' ? 'y' : options.axis;
+        const [uAxis, wAxis] = AXES.filter(other => other !== axis);
+        const length = size[axis];
+        // Which way along the axis the tapered shapes point
+        const reversed = bounds.end[axis] < bounds.start[axis];
+        
+        let index = 0;
+        const cell: VoxelPosition = { x: 0, y: 0, z: 0 };
+        for (cell.x = 0; cell.x < size.x; cell.x++) {
+            for (cell.y = 0; cell.y < size.y; cell.y++) {
+                for (cell.z = 0; cell.z < size.z; cell.z++, index++) {
+                    // Voxel centers, -1..1 across the box
+                    const u = (cell[uAxis] + 0.5) / size[uAxis] * 2 - 1;
+                    const w = (cell[wAxis] + 0.5) / size[wAxis] * 2 - 1;
+                    const v = (cell[axis] + 0.5) / length * 2 - 1;
+                    // Layer along the axis counted from the base, 0..length-1
+                    const layer = reversed ? length - 1 - cell[axis] : cell[axis];
+                    // Tapered shapes shrink linearly from the full base to one layer's worth at the tip
+                    const taper = (length - layer) / length;
+                    
+                    let inside: boolean;
+                    switch (options.kind) {
+                        case 'sphere':
+                        case 'ellipsoid':
+                            inside = u * u + v * v + w * w <= 1;
+                            break;
+                        case 'cylinder':
+                            inside = u * u + w * w <= 1;
+                            break;
+                        case 'cone':
+                            inside = u * u + w * w <= taper * taper;
+                            break;
+                        case 'pyramid':
+                            inside = Math.max(Math.abs(u), Math.abs(w)) <= taper;
+                            break;
+                        case 'torus': {
+                            // The tube is as thick as the box is tall, capped at half the ring's radius
+                            const ringRadius = Math.min(size[uAxis], size[wAxis]) / 2;
+                            const tube = Math.min(0.5, length / 2 / ringRadius);
+                            const radial = Math.sqrt(u * u + w * w);
+                            const across = (radial - (1 - tube)) / tube;
+                            inside = across * across + v * v <= 1;
+                            break;
+                        }
+                    }
+                    if (inside) grid[index] = 1;
+                }
+            }
+        }
+        
+        return grid;
+    }
+    
+    /**
+     * Keep the voxels within thickness steps of the outside. Distances count
+     * face-adjacent steps, and the box border counts as outside, so caps are
+     * as thick as the walls.
+     */
+    private static shell(solid: Uint8Array, size: VoxelPosition, thickness: number): Uint8Array {
+        const strideX = size.y * size.z;
+        const strideY = size.z;
+        const distance = new Int32Array(solid.length);
+        const queue = new Int32Array(solid.length);
+        let head = 0;
+        let tail = 0;
+        
+        // Seed with the solid voxels that touch the outside
+        let index = 0;
+        for (let x = 0; x < size.x; x++) {
+            for (let y = 0; y < size.y; y++) {
+                for (let z = 0; z < size.z; z++, index++) {
+                    if (!solid[index]) continue;
+                    const exposed =
+                        x === 0 || x === size.x - 1 || !solid[index - strideX] || !solid[index + strideX] ||
+                        y === 0 || y === size.y - 1 || !solid[index - strideY] || !solid[index + strideY] ||
+                        z === 0 || z === size.z - 1 || !solid[index - 1] || !solid[index + 1];
+                    if (exposed) {
+                        distance[index] = 1;
+                        queue[tail++] = index;
+                    }
+                }
+            }
+        }
+        
+        // Walk inwards until the wall is thick enough
+        while (head < tail) {
+            const current = queue[head++];
+            if (distance[current] >= thickness) continue;
+            const x = Math.floor(current / strideX);
+            const y = Math.floor(current / strideY) % size.y;
+            const z = current % size.z;
+            const neighbors = [
+                x > 0 ? current - strideX : -1,
+                x < size.x - 1 ? current + strideX : -1,
+                y > 0 ? current - strideY : -1,
+                y < size.y - 1 ? current + strideY : -1,
+                z > 0 ? current - 1 : -1,
+                z < size.z - 1 ? current + 1 : -1
+            ];
+            for (const neighbor of neighbors) {
+                if (neighbor >= 0 && solid[neighbor] && distance[neighbor] === 0) {
+                    distance[neighbor] = distance[current] + 1;
+                    queue[tail++] = neighbor;
+                }
+            }
+        }
+        
+        const shell = new Uint8Array(solid.length);
+        for (let i = 0; i < solid.length; i++) {
+            if (distance[i] > 0) shell[i] = 1;
+        }
+        return shell;
+    }
+}
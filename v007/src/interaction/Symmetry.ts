@@ -0,0 +1,66 @@
+import { VoxelPosition } from '../types';
+
+export type SymmetryAxis = 'x' | 'y' | 'z';
+
+export const SYMMETRY_AXES: SymmetryAxis[] = ['x', 'y', 'z'];
+
+export interface SymmetrySettings {
+    // Axes the edits are mirrored across; several together mirror into every octant
+    axes: Record<SymmetryAxis, boolean>;
+    // Plane positions in voxel units. Whole numbers lie between two voxels,
+    // halves run through a voxel's center so that column is shared.
+    plane: VoxelPosition;
+}
+
+export const DEFAULT_SYMMETRY: SymmetrySettings = {
+    axes: { x: false, y: false, z: false },
+    plane: { x: 0, y: 0, z: 0 }
+};
+
+/**
+ * Mirror math for symmetric drawing, independent of the renderer
+ */
+export class Symmetry {
+    static isActive(settings: SymmetrySettings): boolean {
+        return settings.axes.x || settings.axes.y || settings.axes.z;
+    }
+    
+    /**
+     * Round a plane position to the nearest voxel boundary or center
+     */
+    static snapPlane(value: number): number {
+        return Math.round(value * 2) / 2;
+    }
+    
+    /**
+     * The plane through the middle of a box of voxels, per axis
+     */
+    static centerOf(min: VoxelPosition, max: VoxelPosition): VoxelPosition {
+        return {
+            x: (min.x + max.x + 1) / 2,
+            y: (min.y + max.y + 1) / 2,
+            z: (min.z + max.z + 1) / 2
+        };
+    }
+    
+    /**
+     * The voxel and its mirror images, starting with the voxel itself.
+     * Voxels on a plane through their center are not repeated.
+     */
+    static mirror(position: VoxelPosition, settings: SymmetrySettings): VoxelPosition[] {
+        let positions: VoxelPosition[] = [position];
+        for (const axis of SYMMETRY_AXES) {
+            if (!settings.axes[axis]) continue;
+            const mirrored: VoxelPosition[] = [];
+            for (const current of positions) {
+                // Voxel i spans [i, i + 1], so its image spans [2p - i - 1, 2p - i]
+                const image = 2 * settings.plane[axis] - current[axis] - 1;
+                if (image !== current[axis]) {
+                    mirrored.push({ ...current, [axis]: image });
+                }
+            }
+            positions = positions.concat(mirrored);
+        }
+        return positions;
+    }
+}
@@ -0,0 +1,385 @@
+import { VoxelEngine } from '../engine/VoxelEngine';
+import { VoxelChunk } from '../engine/VoxelChunk';
+import { VoxelType } from '../types';
+import { FileManager } from './FileManager';
+import { ProjectData, ProjectLayer, ProjectPaletteEntry, PROJECT_VERSION } from './ProjectParser';
+
+/**
+ * Autosave of the full scene into IndexedDB, so work survives crashes and reloads
+ *
+ * Each page load is its own session. Saves are incremental: a chunk is only
+ * written again when its revision changed, and removed chunks are deleted.
+ * Layer properties and the palette are small and stored on the session record.
+ */
+
+export interface AutosaveOptions {
+    // Seconds between autosave checks (nothing is written when nothing changed)
+    intervalSeconds: number;
+    // Keep at most this many sessions, newest first
+    maxSessions: number;
+    // Drop sessions not updated for this many days
+    maxAgeDays: number;
+}
+
+export interface AutosaveSession {
+    id: string;
+    created: number;
+    updated: number;
+    voxelCount: number;
+    layerCount: number;
+    thumbnail: Blob | null;
+}
+
+interface AutosaveSessionRecord extends AutosaveSession {
+    voxelSize: number;
+    activeLayerId: string | null;
+    layers: Omit<ProjectLayer, 'chunks'>[];
+    palette: ProjectPaletteEntry[];
+}
+
+interface AutosaveChunkRecord {
+    sessionId: string;
+    layerId: string;
+    key: string;
+    cx: number;
+    cy: number;
+    cz: number;
+    data: Uint16Array;
+}
+
+// What was last written for a chunk; chunk is null for records this session
+// adopted from storage but hasn't written itself
+interface SavedChunkState {
+    chunk: VoxelChunk | null;
+    revision: number;
+}
+
+export const DEFAULT_AUTOSAVE_OPTIONS: AutosaveOptions = {
+    intervalSeconds: 30,
+    maxSessions: 5,
+    maxAgeDays: 7
+};
+
+export class AutosaveManager {
+    private voxelEngine: VoxelEngine;
+    private fileManager: FileManager;
+    private options: AutosaveOptions;
+    private db: IDBDatabase | null = null;
+    private readonly DB_NAME = 'VoxelAutosave';
+    private readonly DB_VERSION = 1;
+    
+    private sessionId: string;
+    private sessionCreated: number;
+    private savedChunks: Map<string, SavedChunkState> = new Map();
+    private savedMetadata: string | null = null;
+    private intervalId: number | null = null;
+    private saving: boolean = false;
+    private thumbnailProvider: (() => Promise<Blob | null>) | null = null;
+    
+    constructor(voxelEngine: VoxelEngine, fileManager: FileManager, options: Partial<AutosaveOptions> = {}) {
+        this.voxelEngine = voxelEngine;
+        this.fileManager = fileManager;
+        this.options = { ...DEFAULT_AUTOSAVE_OPTIONS, ...options };
+        this.sessionCreated = Date.now();
+        this.sessionId = `session_${this.sessionCreated}_${Math.random().toString(36).substr(2, 9)}`;
+    }
+    
+    /**
+     * Set the callback that renders a PNG thumbnail for the recovery prompt
+     */
+    setThumbnailProvider(provider: () => Promise<Blob | null>): void {
+        this.thumbnailProvider = provider;
+    }
+    
+    /**
+     * Change interval and retention. Takes effect on the next save (and restarts the timer if running).
+     */
+    setOptions(options: Partial<AutosaveOptions>): void {
+        this.options = { ...this.options, ...options };
+        if (this.intervalId !== null) {
+            this.stop();
+            this.start();
+        }
+    }
+    
+    getOptions(): AutosaveOptions {
+        return { ...this.options };
+    }
+    
+    /**
+     * Start periodic autosaving. Also saves when the tab is hidden, which is
+     * the last reliable moment before a reload or the tab being discarded.
+     */
+    start(): void {
+        if (this.intervalId !== null) return;
+        
+        this.intervalId = window.setInterval(() => this.saveNow(), this.options.intervalSeconds * 1000);
+        document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+    
+    stop(): void {
+        if (this.intervalId !== null) {
+            window.clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+    
+    private handleVisibilityChange = (): void => {
+        if (document.visibilityState === 'hidden') {
+            this.saveNow();
+        }
+    };
+    
+    /**
+     * Write whatever changed since the last save. Returns false when there was nothing to write.
+     */
+    async saveNow(): Promise<boolean> {
+        if (this.saving) return false;
+        this.saving = true;
+        
+        try {
+            const db = await this.openDatabase();
+            const layers = this.voxelEngine.getAllLayers();
+            
+            // Diff chunks against what was last written
+            const writes: AutosaveChunkRecord[] = [];
+            const written = new Map<string, SavedChunkState>();
+            let voxelCount = 0;
+            for (const layer of layers) {
+                voxelCount += layer.getVoxelCount();
+                for (const chunk of layer.getChunks().values()) {
+                    if (chunk.isEmpty()) continue;
+                    
+                    const key = `${layer.id}|${chunk.key}`;
+                    const saved = this.savedChunks.get(key);
+                    if (!saved || saved.chunk !== chunk || saved.revision !== chunk.revision) {
+                        writes.push({
+                            sessionId: this.sessionId,
+                            layerId: layer.id,
+                            key: chunk.key,
+                            cx: chunk.cx,
+                            cy: chunk.cy,
+                            cz: chunk.cz,
+                            data: chunk.data
+                        });
+                    }
+                    written.set(key, { chunk, revision: chunk.revision });
+                }
+            }
+            const deletes = [...this.savedChunks.keys()].filter(key => !written.has(key));
+            
+            const metadata = {
+                voxelSize: this.voxelEngine.getVoxelSize(),
+                activeLayerId: this.voxelEngine.getActiveLayer()?.id ?? null,
+                layers: layers.map(layer => ({
+                    id: layer.id,
+                    name: layer.name,
+                    visible: layer.visible,
+                    opacity: layer.opacity,
+                    locked: layer.locked,
+                    isEditingAsset: layer.isEditingAsset,
+                    editingAssetId: layer.editingAssetId,
+                    editingAssetType: layer.editingAssetType
+                }))
+            };
+            const metadataJson = JSON.stringify(metadata);
+            
+            if (writes.length === 0 && deletes.length === 0 && metadataJson === this.savedMetadata) {
+                return false;
+            }
+            
+            // Don't create a session for an untouched empty scene
+            if (this.savedMetadata === null && this.savedChunks.size === 0 && voxelCount === 0) {
+                return false;
+            }
+            
+            const usedTypes = new Set<VoxelType>();
+            for (const layer of layers) {
+                layer.forEachVoxel((_x, _y, _z, type) => usedTypes.add(type));
+            }
+            
+            let thumbnail: Blob | null = null;
+            if (this.thumbnailProvider) {
+                try {
+                    thumbnail = await this.thumbnailProvider();
+                } catch (error) {
+                    console.warn('Could not capture autosave thumbnail:', error);
+                }
+            }
+            
+            const session: AutosaveSessionRecord = {
+                id: this.sessionId,
+                created: this.sessionCreated,
+                updated: Date.now(),
+                voxelCount,
+                layerCount: layers.length,
+                thumbnail,
+                ...metadata,
+                palette: this.fileManager.createProjectPalette(usedTypes)
+            };
+            
+            const tx = db.transaction(['sessions', 'chunks'], 'readwrite');
+            const chunkStore = tx.objectStore('chunks');
+            // put() clones synchronously, so later edits can't leak into this save
+            for (const record of writes) {
+                chunkStore.put(record);
+            }
+            for (const key of deletes) {
+                const [layerId, chunkKey] = key.split('|');
+                chunkStore.delete([this.sessionId, layerId, chunkKey]);
+            }
+            tx.objectStore('sessions').put(session);
+            await this.completeTransaction(tx);
+            
+            this.savedChunks = written;
+            this.savedMetadata = metadataJson;
+            
+            await this.pruneSessions();
+            return true;
+        } catch (error) {
+            console.error('Autosave failed:', error);
+            return false;
+        } finally {
+            this.saving = false;
+        }
+    }
+    
+    /**
+     * List autosaved sessions from earlier page loads, newest first
+     */
+    async listSessions(): Promise<AutosaveSession[]> {
+        const db = await this.openDatabase();
+        const tx = db.transaction(['sessions'], 'readonly');
+        const records = await this.requestResult<AutosaveSessionRecord[]>(tx.objectStore('sessions').getAll());
+        
+        return records
+            .filter(record => record.id !== this.sessionId)
+            .sort((a, b) => b.updated - a.updated)
+            .map(({ id, created, updated, voxelCount, layerCount, thumbnail }) => ({
+                id, created, updated, voxelCount, layerCount, thumbnail
+            }));
+    }
+    
+    /**
+     * Replace the current scene with an autosaved session. The session is
+     * adopted, so further autosaves continue it instead of starting a new one.
+     */
+    async restoreSession(id: string): Promise<void> {
+        const db = await this.openDatabase();
+        const tx = db.transaction(['sessions', 'chunks'], 'readonly');
+        const session = await this.requestResult<AutosaveSessionRecord | undefined>(tx.objectStore('sessions').get(id));
+        if (!session) {
+            throw new Error(`Autosave session not found: ${id}`);
+        }
+        const records = await this.requestResult<AutosaveChunkRecord[]>(
+            tx.objectStore('chunks').index('sessionId').getAll(id)
+        );
+        
+        const chunksByLayer = new Map<string, VoxelChunk[]>();
+        for (const record of records) {
+            let chunks = chunksByLayer.get(record.layerId);
+            if (!chunks) {
+                chunks = [];
+                chunksByLayer.set(record.layerId, chunks);
+            }
+            chunks.push(new VoxelChunk(record.cx, record.cy, record.cz, record.data));
+        }
+        
+        const project: ProjectData = {
+            version: PROJECT_VERSION,
+            timestamp: session.updated,
+            voxelSize: session.voxelSize,
+            activeLayerId: session.activeLayerId,
+            layers: session.layers.map(layer => ({ ...layer, chunks: chunksByLayer.get(layer.id) ?? [] })),
+            palette: session.palette,
+            assets: [],
+            thumbnail: null
+        };
+        await this.fileManager.loadProject(project);
+        
+        // Loading assigns new layer ids, so the next save rewrites every
+        // chunk and deletes the stored ones (chunk: null never matches)
+        this.sessionId = session.id;
+        this.sessionCreated = session.created;
+        this.savedMetadata = null;
+        this.savedChunks = new Map();
+        for (const record of records) {
+            this.savedChunks.set(`${record.layerId}|${record.key}`, { chunk: null, revision: -1 });
+        }
+        
+        await this.saveNow();
+    }
+    
+    /**
+     * Delete an autosaved session and its voxel data
+     */
+    async deleteSession(id: string): Promise<void> {
+        const db = await this.openDatabase();
+        const tx = db.transaction(['sessions', 'chunks'], 'readwrite');
+        tx.objectStore('sessions').delete(id);
+        
+        const chunkStore = tx.objectStore('chunks');
+        const keys = await this.requestResult<IDBValidKey[]>(chunkStore.index('sessionId').getAllKeys(id));
+        for (const key of keys) {
+            chunkStore.delete(key);
+        }
+        await this.completeTransaction(tx);
+    }
+    
+    /**
+     * Apply retention: drop sessions older than maxAgeDays, then all but the
+     * newest maxSessions. The current session is always kept.
+     */
+    async pruneSessions(): Promise<void> {
+        const sessions = await this.listSessions();
+        const cutoff = Date.now() - this.options.maxAgeDays * 24 * 60 * 60 * 1000;
+        // The current session counts towards maxSessions once it has been saved
+        const keep = Math.max(0, this.options.maxSessions - (this.savedMetadata !== null ? 1 : 0));
+        
+        for (let i = 0; i < sessions.length; i++) {
+            if (i >= keep || sessions[i].updated < cutoff) {
+                await this.deleteSession(sessions[i].id);
+            }
+        }
+    }
+    
+    private async openDatabase(): Promise<IDBDatabase> {
+        if (this.db) return this.db;
+        
+        this.db = await new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+            
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => resolve(request.result);
+            
+            request.onupgradeneeded = (event) => {
+                const db = (event.target as IDBOpenDBRequest).result;
+                
+                if (!db.objectStoreNames.contains('sessions')) {
+                    db.createObjectStore('sessions', { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains('chunks')) {
+                    const store = db.createObjectStore('chunks', { keyPath: ['sessionId', 'layerId', 'key'] });
+                    store.createIndex('sessionId', 'sessionId', { unique: false });
+                }
+            };
+        });
+        return this.db;
+    }
+    
+    private requestResult<T>(request: IDBRequest): Promise<T> {
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    }
+    
+    private completeTransaction(tx: IDBTransaction): Promise<void> {
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+}
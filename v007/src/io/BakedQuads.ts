@@ -0,0 +1,78 @@
+import * as THREE from 'three';
+import { VoxelType } from '../types';
+import { BakedMeshGenerator } from '../engine/BakedMeshGenerator';
+import { VOXEL_MATERIAL_ATTRIBUTE, DEFAULT_ROUGHNESS, DEFAULT_METALNESS } from '../engine/VoxelMaterialShader';
+
+/**
+ * Greedy-meshed surface quads in voxel grid units, shared by the OBJ and STL writers
+ */
+export interface BakedQuad {
+    // Four integer [x, y, z] grid corners, counter-clockwise seen from outside
+    corners: number[][];
+    normal: number[];
+    // Linear-space color of the voxel type
+    color: THREE.Color;
+    roughness: number;
+    metalness: number;
+    emissive: number;
+    opacity: number;
+}
+
+/**
+ * Run BakedMeshGenerator.generateOptimizedMesh and read its faces back as quads.
+ * Meshing with a voxel size of 1 keeps every corner on exact integer coordinates,
+ * so coincident vertices can be matched without float tolerances.
+ */
+export function collectBakedQuads(voxels: Map<string, VoxelType>): BakedQuad[] {
+    if (voxels.size === 0) return [];
+    
+    const generator = new BakedMeshGenerator(1);
+    const { opaqueMesh, transparentMesh } = generator.generateOptimizedMesh(voxels);
+    const quads: BakedQuad[] = [];
+    
+    for (const mesh of [opaqueMesh, transparentMesh]) {
+        if (!mesh) continue;
+        
+        const geometry = mesh.geometry;
+        const position = geometry.getAttribute('position');
+        const normal = geometry.getAttribute('normal');
+        const color = geometry.getAttribute('color');
+        const voxelMaterial = geometry.getAttribute(VOXEL_MATERIAL_ATTRIBUTE);
+        const meshMaterial = mesh.material as THREE.MeshStandardMaterial;
+        const opacity = meshMaterial.transparent ? meshMaterial.opacity : 1;
+        
+        // Each face is written as 4 consecutive vertices
+        for (let v = 0; v < position.count; v += 4) {
+            const corners: number[][] = [];
+            for (let i = 0; i < 4; i++) {
+                corners.push([
+                    Math.round(position.getX(v + i)),
+                    Math.round(position.getY(v + i)),
+                    Math.round(position.getZ(v + i))
+                ]);
+            }
+            
+            quads.push({
+                corners,
+                normal: [normal.getX(v), normal.getY(v), normal.getZ(v)],
+                color: new THREE.Color(color.getX(v), color.getY(v), color.getZ(v)),
+                roughness: voxelMaterial ? voxelMaterial.getX(v) : DEFAULT_ROUGHNESS,
+                metalness: voxelMaterial ? voxelMaterial.getY(v) : DEFAULT_METALNESS,
+                emissive: voxelMaterial ? voxelMaterial.getZ(v) : 0,
+                opacity
+            });
+        }
+        
+        geometry.dispose();
+        meshMaterial.dispose();
+    }
+    
+    return quads;
+}
+
+/**
+ * Format a grid coordinate scaled to output units without float noise
+ */
+export function formatCoordinate(value: number, voxelSize: number): string {
+    return String(Number((value * voxelSize).toFixed(6)));
+}
@@ -0,0 +1,176 @@
+import { VoxelType } from '../types';
+import { ColorRegistry } from '../engine/ColorRegistry';
+
+/**
+ * How one Minecraft block id (or '*' pattern) is imported: as a built-in
+ * VoxelType, as a custom color, or skipped when neither is set
+ */
+export interface BlockColorEntry {
+    pattern: string;
+    type?: VoxelType;
+    color?: string;
+}
+
+const STORAGE_KEY = 'schematicBlockColors';
+
+// Matched in order after the user's own entries, so exact ids come before patterns
+export const DEFAULT_BLOCK_COLORS: BlockColorEntry[] = [
+    { pattern: 'minecraft:air', type: VoxelType.AIR },
+    { pattern: 'minecraft:cave_air', type: VoxelType.AIR },
+    { pattern: 'minecraft:void_air', type: VoxelType.AIR },
+    { pattern: 'minecraft:structure_void', type: VoxelType.AIR },
+    
+    { pattern: 'minecraft:grass_block', type: VoxelType.GRASS },
+    { pattern: 'minecraft:moss_block', type: VoxelType.GRASS },
+    
+    { pattern: 'minecraft:dirt', type: VoxelType.DIRT },
+    { pattern: 'minecraft:coarse_dirt', type: VoxelType.DIRT },
+    { pattern: 'minecraft:rooted_dirt', type: VoxelType.DIRT },
+    { pattern: 'minecraft:podzol', type: VoxelType.DIRT },
+    { pattern: 'minecraft:mycelium', type: VoxelType.DIRT },
+    { pattern: 'minecraft:dirt_path', type: VoxelType.DIRT },
+    { pattern: 'minecraft:farmland', type: VoxelType.DIRT },
+    { pattern: 'minecraft:mud', type: VoxelType.DIRT },
+    
+    { pattern: 'minecraft:stone', type: VoxelType.STONE },
+    { pattern: 'minecraft:cobblestone', type: VoxelType.STONE },
+    { pattern: 'minecraft:mossy_cobblestone', type: VoxelType.STONE },
+    { pattern: 'minecraft:smooth_stone', type: VoxelType.STONE },
+    { pattern: 'minecraft:andesite', type: VoxelType.STONE },
+    { pattern: 'minecraft:diorite', type: VoxelType.STONE },
+    { pattern: 'minecraft:granite', type: VoxelType.STONE },
+    { pattern: 'minecraft:deepslate', type: VoxelType.STONE },
+    { pattern: 'minecraft:cobbled_deepslate', type: VoxelType.STONE },
+    { pattern: 'minecraft:tuff', type: VoxelType.STONE },
+    { pattern: 'minecraft:bedrock', type: VoxelType.STONE },
+    { pattern: 'minecraft:gravel', type: VoxelType.STONE },
+    { pattern: 'minecraft:*stone_bricks', type: VoxelType.STONE },
+    { pattern: 'minecraft:*_ore', type: VoxelType.STONE },
+    
+    { pattern: 'minecraft:*_log', type: VoxelType.WOOD },
+    { pattern: 'minecraft:*_wood', type: VoxelType.WOOD },
+    { pattern: 'minecraft:*_planks', type: VoxelType.WOOD },
+    { pattern: 'minecraft:*_stem', type: VoxelType.WOOD },
+    { pattern: 'minecraft:*_hyphae', type: VoxelType.WOOD },
+    
+    { pattern: 'minecraft:*_leaves', type: VoxelType.LEAVES },
+    
+    { pattern: 'minecraft:water', type: VoxelType.WATER },
+    { pattern: 'minecraft:bubble_column', type: VoxelType.WATER },
+    
+    { pattern: 'minecraft:sand', type: VoxelType.SAND },
+    { pattern: 'minecraft:red_sand', type: VoxelType.SAND },
+    { pattern: 'minecraft:suspicious_sand', type: VoxelType.SAND },
+    { pattern: 'minecraft:*sandstone', type: VoxelType.SAND },
+    
+    { pattern: 'minecraft:snow', type: VoxelType.SNOW },
+    { pattern: 'minecraft:snow_block', type: VoxelType.SNOW },
+    { pattern: 'minecraft:powder_snow', type: VoxelType.SNOW },
+    
+    { pattern: 'minecraft:ice', type: VoxelType.ICE },
+    { pattern: 'minecraft:packed_ice', type: VoxelType.ICE },
+    { pattern: 'minecraft:blue_ice', type: VoxelType.ICE },
+    { pattern: 'minecraft:frosted_ice', type: VoxelType.ICE }
+];
+
+/**
+ * Editable mapping from Minecraft block ids to voxel types, used by schematic
+ * import. The user's entries are kept in localStorage and take precedence
+ * over the defaults.
+ */
+export class BlockColorTable {
+    private userEntries: BlockColorEntry[] = [];
+    
+    constructor() {
+        this.load();
+    }
+    
+    /**
+     * Strip block state properties and add the default namespace:
+     * 'oak_log[axis=y]' becomes 'minecraft:oak_log'
+     */
+    static normalizeBlockId(blockState: string): string {
+        const id = blockState.split('[')[0].trim().toLowerCase();
+        return id.includes(':') ? id : `minecraft:${id}`;
+    }
+    
+    /**
+     * Find the entry that applies to a block id, or null if it's unmapped
+     */
+    findEntry(blockId: string): BlockColorEntry | null {
+        const id = BlockColorTable.normalizeBlockId(blockId);
+        for (const entries of [this.userEntries, DEFAULT_BLOCK_COLORS]) {
+            const exact = entries.find(entry => entry.pattern === id);
+            if (exact) return exact;
+            const pattern = entries.find(entry => entry.pattern.includes('*') && this.matches(entry.pattern, id));
+            if (pattern) return pattern;
+        }
+        return null;
+    }
+    
+    /**
+     * Resolve a block id to a voxel type: AIR for air and skipped blocks,
+     * null for unmapped blocks
+     */
+    resolve(blockId: string): VoxelType | null {
+        const entry = this.findEntry(blockId);
+        if (!entry) return null;
+        if (entry.type !== undefined) return entry.type;
+        if (!entry.color) return VoxelType.AIR;
+        
+        const colorRegistry = ColorRegistry.getInstance();
+        return colorRegistry.getOrCreateVoxelType(entry.color) ?? colorRegistry.findClosestVoxelType(entry.color);
+    }
+    
+    /**
+     * Set how a block id (or pattern) is imported, replacing any earlier user entry for it
+     */
+    setEntry(entry: BlockColorEntry): void {
+        const pattern = entry.pattern.includes('*') ? entry.pattern : BlockColorTable.normalizeBlockId(entry.pattern);
+        this.userEntries = this.userEntries.filter(existing => existing.pattern !== pattern);
+        this.userEntries.unshift({ ...entry, pattern });
+        this.save();
+    }
+    
+    /**
+     * Remove a user entry, falling back to the default mapping
+     */
+    removeEntry(pattern: string): void {
+        this.userEntries = this.userEntries.filter(entry => entry.pattern !== pattern);
+        this.save();
+    }
+    
+    getUserEntries(): BlockColorEntry[] {
+        return this.userEntries.map(entry => ({ ...entry }));
+    }
+    
+    /**
+     * Forget all user entries
+     */
+    reset(): void {
+        this.userEntries = [];
+        this.save();
+    }
+    
+    private matches(pattern: string, id: string): boolean {
+        const expression = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+        return new RegExp(`^${expression}$`).test(id);
+    }
+    
+    private load(): void {
+        if (typeof localStorage === 'undefined') return;
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            if (stored) {
+                this.userEntries = JSON.parse(stored);
+            }
+        } catch (error) {
+            console.warn('Ignoring invalid block color table:', error);
+        }
+    }
+    
+    private save(): void {
+        if (typeof localStorage === 'undefined') return;
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.userEntries));
+    }
+}
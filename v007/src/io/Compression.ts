@@ -0,0 +1,44 @@
+/**
+ * Compression helpers built on the platform CompressionStream API,
+ * available in browsers and in Node 18+
+ */
+
+/**
+ * Compress bytes ('deflate' is zlib-wrapped, as used by PNG)
+ */
+export async function compressBytes(data: Uint8Array, format: CompressionFormat = 'deflate'): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream(format));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Decompress bytes; rejects if the data is corrupt or truncated
+ */
+export async function decompressBytes(data: Uint8Array, format: CompressionFormat = 'deflate'): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 (IEEE), as used by PNG and ZIP. Pass a previous result to continue a running CRC.
+ */
+export function crc32(data: Uint8Array, crc: number = 0): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+    
+    let c = (crc ^ 0xFFFFFFFF) >>> 0;
+    for (let i = 0; i < data.length; i++) {
+        c = crcTable[(c ^ data[i]) & 0xFF] ^ (c >>> 8);
+    }
+    return (c ^ 0xFFFFFFFF) >>> 0;
+}
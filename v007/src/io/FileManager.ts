@@ -1,21 +1,138 @@
 import { VoxelEngine } from '../engine/VoxelEngine';
-import { VoxelType } from '../types';
+import { VoxelLayer } from '../engine/VoxelLayer';
+import { VoxelChunk } from '../engine/VoxelChunk';
+import { StaticAssetManager } from '../assets/StaticAssetManager';
+import { AssetInfo } from '../assets/types';
+import { VoxelType, VoxelPosition } from '../types';
 import { VoxParser } from './VoxParser';
-import { VoxWriter } from './VoxWriter';
+import { SchematicParser, SchematicFormat } from './SchematicParser';
+import { BlockColorTable } from './BlockColorTable';
+import { ImageVoxelizer, ImageImportOptions, DEFAULT_IMAGE_IMPORT_OPTIONS } from './ImageVoxelizer';
+import { SliceStackParser, SliceStack, SliceAxis, SliceLayout } from './SliceStackParser';
+import { SliceStackWriter } from './SliceStackWriter';
+import { SpriteSheetWriter, SpriteSheetOptions } from './SpriteSheetWriter';
+import { SpriteRenderer } from './SpriteRenderer';
+import { PngCodec, PngImage } from './PngCodec';
+import { GifEncoder } from './GifEncoder';
+import { TurntableOptions } from './TurntableRecorder';
+import { ZipArchive } from './ZipArchive';
+import { ProjectData, ProjectPaletteEntry, PROJECT_EXTENSION, PROJECT_VERSION } from './ProjectParser';
+import { SceneConverter, SceneExportOptions, SceneInputFormat, SceneOutputFormat } from './SceneConverter';
+
+export type ExportFormat = 'vox' | 'json' | 'glb' | 'obj' | 'stl' | 'qb' | 'gox' | 'slices' | typeof PROJECT_EXTENSION;
+
+export interface ExportOptions extends SceneExportOptions {
+    // Axis to cut slices along (slices); defaults to Y
+    sliceAxis?: SliceAxis;
+    // A zip of PNGs or one sprite sheet PNG (slices); defaults to zip
+    sliceLayout?: SliceLayout;
+}
+
+/**
+ * What a schematic contains, shown to the user before it's imported
+ */
+export interface SchematicReview {
+    fileName: string;
+    size: { x: number; y: number; z: number };
+    // Block id -> number of blocks, air excluded
+    blockCounts: Map<string, number>;
+    // Editable; changes apply to this import
+    table: BlockColorTable;
+}
+
+/**
+ * An image about to be imported, shown to the user to choose how
+ */
+export interface ImageImportInfo {
+    fileName: string;
+    width: number;
+    height: number;
+    // Gray images are most likely heightmaps
+    grayscale: boolean;
+}
 
 /**
  * File manager for importing and exporting voxel data
- * Supports multiple formats: VOX (MagicaVoxel) and JSON
+ * Moves scenes between the engine and browser files; the formats themselves
+ * are read and written by the DOM-free SceneConverter.
+ * Supports multiple formats: NEL (binary project), VOX (MagicaVoxel), QB (Qubicle),
+ * GOX (Goxel) and JSON, plus glTF (GLB), OBJ/MTL and STL mesh export.
+ * Minecraft schematics (.schem, .litematic), images (as heightmaps or
+ * pixel art) and PNG slice stacks (.zip or sprite sheet) are imported into
+ * a new layer; slice stacks can also be exported. Sprite sheets and
+ * turntable animations (GIF, APNG) are rendered from the scene.
  */
 export class FileManager {
     private voxelEngine: VoxelEngine;
     private voxParser: VoxParser;
-    private voxWriter: VoxWriter;
+    private sceneConverter: SceneConverter;
+    private schematicParser: SchematicParser;
+    private blockColorTable: BlockColorTable;
+    private schematicReviewer: ((review: SchematicReview) => Promise<boolean>) | null = null;
+    private imageVoxelizer: ImageVoxelizer;
+    private sliceStackParser: SliceStackParser;
+    private imageImportPrompt: ((info: ImageImportInfo) => Promise<ImageImportOptions | null>) | null = null;
+    private assetManager: StaticAssetManager | null = null;
+    private thumbnailProvider: (() => Promise<Blob | null>) | null = null;
+    private spriteRenderer: SpriteRenderer | undefined = undefined;
+    private turntableProvider: ((options: TurntableOptions) => Promise<PngImage[]>) | null = null;
     
     constructor(voxelEngine: VoxelEngine) {
         this.voxelEngine = voxelEngine;
         this.voxParser = new VoxParser();
-        this.voxWriter = new VoxWriter();
+        this.sceneConverter = new SceneConverter();
+        this.schematicParser = new SchematicParser();
+        this.blockColorTable = new BlockColorTable();
+        this.imageVoxelizer = new ImageVoxelizer();
+        this.sliceStackParser = new SliceStackParser();
+    }
+    
+    /**
+     * Set the asset manager used to embed and restore user assets in project files
+     */
+    setAssetManager(assetManager: StaticAssetManager): void {
+        this.assetManager = assetManager;
+    }
+    
+    /**
+     * Set the callback that renders a PNG thumbnail for project files
+     */
+    setThumbnailProvider(provider: () => Promise<Blob | null>): void {
+        this.thumbnailProvider = provider;
+    }
+    
+    /**
+     * Set the renderer for sprite sheets; without one they're rendered in software
+     */
+    setSpriteRenderer(renderer: SpriteRenderer): void {
+        this.spriteRenderer = renderer;
+    }
+    
+    /**
+     * Set the callback that renders turntable frames from the viewport
+     */
+    setTurntableProvider(provider: (options: TurntableOptions) => Promise<PngImage[]>): void {
+        this.turntableProvider = provider;
+    }
+    
+    /**
+     * Set the callback that lets the user review block mappings before a
+     * schematic is imported. Resolving false cancels the import.
+     */
+    setSchematicReviewer(reviewer: (review: SchematicReview) => Promise<boolean>): void {
+        this.schematicReviewer = reviewer;
+    }
+    
+    getBlockColorTable(): BlockColorTable {
+        return this.blockColorTable;
+    }
+    
+    /**
+     * Set the callback that asks how an image should be imported.
+     * Resolving null cancels the import.
+     */
+    setImageImportPrompt(prompt: (info: ImageImportInfo) => Promise<ImageImportOptions | null>): void {
+        this.imageImportPrompt = prompt;
     }
     
     /**
@@ -25,11 +142,24 @@ export class FileManager {
         const extension = file.name.split('.').pop()?.toLowerCase();
         
         switch (extension) {
+            case PROJECT_EXTENSION:
             case 'vox':
-                await this.importVoxFile(file);
-                break;
+            case 'qb':
+            case 'gox':
             case 'json':
-                await this.importJsonFile(file);
+                await this.importSceneFile(file, extension);
+                break;
+            case 'schem':
+            case 'litematic':
+                await this.importSchematicFile(file, extension);
+                break;
+            case 'zip':
+                await this.importSliceStackFile(file);
+                break;
+            case 'png':
+            case 'jpg':
+            case 'jpeg':
+                await this.importImageFile(file, extension === 'png' ? 'image/png' : 'image/jpeg');
                 break;
             default:
                 throw new Error(`Unsupported file format: ${extension}`);
@@ -39,17 +169,30 @@ export class FileManager {
     /**
      * Export voxel data to a file
      */
-    async exportFile(format: 'vox' | 'json', filename?: string): Promise<void> {
+    async exportFile(format: ExportFormat, filename?: string, options: ExportOptions = {}): Promise<void> {
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
         const defaultFilename = `voxels_${timestamp}`;
         const actualFilename = filename || defaultFilename;
         
         switch (format) {
+            case PROJECT_EXTENSION:
+                await this.exportScene(await this.getProjectData(), format, actualFilename, options);
+                break;
             case 'vox':
-                await this.exportVoxFile(actualFilename);
+                // VOX holds what's on screen: visible layers, topmost wins
+                await this.exportScene(this.getSceneData(), format, actualFilename, { ...options, visibleOnly: true });
                 break;
             case 'json':
-                await this.exportJsonFile(actualFilename);
+            case 'glb':
+            case 'obj':
+            case 'stl':
+            case 'qb':
+            case 'gox':
+                await this.exportScene(this.getSceneData(), format, actualFilename, options);
+                break;
+            case 'slices':
+                // getAllVoxels already resolves overlapping visible layers
+                await this.exportSliceStack(actualFilename, this.voxelEngine.getAllVoxels(), this.voxelEngine.getBounds(), options);
                 break;
             default:
                 throw new Error(`Unsupported export format: ${format}`);
@@ -57,96 +200,215 @@ export class FileManager {
     }
     
     /**
-     * Import VOX file (MagicaVoxel format)
+     * Import a whole-scene file (project, VOX, QB, GOX or JSON), replacing the current scene
      */
-    private async importVoxFile(file: File): Promise<void> {
+    private async importSceneFile(file: File, format: SceneInputFormat): Promise<void> {
+        const label = format === PROJECT_EXTENSION ? 'project' : `${format.toUpperCase()}`;
         try {
-            const buffer = await file.arrayBuffer();
-            const voxData = await this.voxParser.parseVoxFile(buffer);
+            const { project, issues } = await this.sceneConverter.read(await file.arrayBuffer(), format);
             
-            console.log(`Importing VOX file with ${voxData.models.length} models`);
+            await this.loadProject(project);
             
-            // Clear existing voxels
-            this.voxelEngine.clear();
+            console.log(`Imported ${this.voxelEngine.getVoxelCount()} voxels in ${project.layers.length} layers from ${label} file ${file.name}`);
             
-            // Convert and import voxels
-            const voxels = this.voxParser.convertToVoxelData(voxData);
+            // A partly malformed file loads what it can; say what was left out
+            for (const issue of issues) {
+                console.warn(`${file.name}: ${issue.path || '(root)'}: ${issue.message}`);
+            }
             
-            for (const [posKey, type] of voxels.entries()) {
-                const [x, y, z] = posKey.split(',').map(Number);
-                this.voxelEngine.setVoxel(x, y, z, type, false); // Don't record undo
+            // Log the import
+            import('../ui/ActionLogger').then(({ ActionLogger }) => {
+                const logger = ActionLogger.getInstance();
+                if (issues.length > 0) {
+                    logger.log(ActionLogger.actions.importWithIssues(file.name, issues.length), 6000);
+                } else {
+                    logger.log(ActionLogger.actions.importVoxels(file.name));
+                }
+            });
+        } catch (error) {
+            console.error(`Error importing ${label} file:`, error);
+            throw new Error(`Failed to import ${label} file: ${error}`);
+        }
+    }
+    
+    /**
+     * List the assets of every voxel type, default and user made
+     */
+    async listAssets(): Promise<AssetInfo[]> {
+        if (!this.assetManager) return [];
+        
+        const assets: AssetInfo[] = [];
+        for (let type = VoxelType.GRASS; type <= VoxelType.ICE; type++) {
+            assets.push(...await this.assetManager.loadAssetList(type));
+        }
+        return assets;
+    }
+    
+    /**
+     * Render a layer or an asset from several angles into a sprite sheet,
+     * downloaded as a zip of the PNG and its JSON atlas
+     */
+    async exportSpriteSheet(source: { layerId: string } | { assetId: string }, options: SpriteSheetOptions): Promise<void> {
+        try {
+            let name: string;
+            let voxels: Map<string, VoxelType>;
+            if ('layerId' in source) {
+                const layer = this.voxelEngine.getAllLayers().find(l => l.id === source.layerId);
+                if (!layer) {
+                    throw new Error(`Layer with id ${source.layerId} not found`);
+                }
+                name = layer.name;
+                voxels = layer.getVoxels();
+            } else {
+                if (!this.assetManager) {
+                    throw new Error('No asset manager');
+                }
+                const asset = await this.assetManager.loadAsset(source.assetId);
+                name = asset.name;
+                voxels = asset.voxelData;
             }
             
-            // Update rendering
-            this.voxelEngine.updateInstances();
+            const baseName = name.replace(/[^\w-]+/g, '_');
+            const writer = new SpriteSheetWriter(this.spriteRenderer);
+            const { png, atlas } = await writer.createSpriteSheet(baseName, voxels, options);
             
-            console.log(`Imported ${voxels.size} voxels from VOX file`);
+            const zip = await ZipArchive.create([
+                { name: `${baseName}.png`, data: png },
+                { name: `${baseName}.json`, data: new TextEncoder().encode(JSON.stringify(atlas, null, 2)) }
+            ]);
+            this.downloadFile(new Blob([zip], { type: 'application/zip' }), `${baseName}_sprites.zip`, 'application/zip');
             
-            // Log the import
+            console.log(`Exported ${Object.keys(atlas.frames).length} sprite frames of "${name}" (${atlas.meta.size.w}x${atlas.meta.size.h})`);
+            
+            // Log the export
             import('../ui/ActionLogger').then(({ ActionLogger }) => {
                 const logger = ActionLogger.getInstance();
-                logger.log(ActionLogger.actions.importVoxels(file.name));
+                logger.log(ActionLogger.actions.exportVoxels('sprite sheet'));
             });
         } catch (error) {
-            console.error('Error importing VOX file:', error);
-            throw new Error(`Failed to import VOX file: ${error}`);
+            console.error('Error exporting sprite sheet:', error);
+            throw new Error(`Failed to export sprite sheet: ${error}`);
         }
     }
     
     /**
-     * Export VOX file (MagicaVoxel format)
+     * Record the camera orbiting the scene and download it as an animated
+     * GIF or PNG (APNG)
      */
-    private async exportVoxFile(filename: string): Promise<void> {
+    async exportTurntable(options: TurntableOptions): Promise<void> {
         try {
-            // Get voxel data from engine
-            const voxelData = this.voxelEngine.exportVoxels();
+            if (!this.turntableProvider) {
+                throw new Error('No viewport to record');
+            }
+            const frames = await this.turntableProvider(options);
+            const delayMs = options.duration * 1000 / options.frameCount;
             
-            // Convert to voxelsByType map
-            const voxelsByType = new Map<VoxelType, Set<string>>();
-            for (const [typeStr, positions] of Object.entries(voxelData.voxels)) {
-                const type = parseInt(typeStr) as VoxelType;
-                voxelsByType.set(type, new Set(positions as string[]));
+            const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+            const filename = `turntable_${timestamp}`;
+            if (options.format === 'gif') {
+                const gif = GifEncoder.encode(frames, delayMs);
+                this.downloadFile(new Blob([gif], { type: 'image/gif' }), `${filename}.gif`, 'image/gif');
+            } else {
+                const png = await PngCodec.encodeAnimated(frames, delayMs);
+                this.downloadFile(new Blob([png], { type: 'image/png' }), `${filename}.png`, 'image/png');
             }
             
-            // Create VOX file
-            const buffer = this.voxWriter.createVoxFile(voxelsByType);
+            console.log(`Exported ${frames.length} turntable frames (${options.width}x${options.height}) as ${options.format.toUpperCase()}`);
             
-            // Download file
-            this.downloadFile(buffer, `${filename}.vox`, 'application/octet-stream');
+            // Log the export
+            import('../ui/ActionLogger').then(({ ActionLogger }) => {
+                const logger = ActionLogger.getInstance();
+                logger.log(ActionLogger.actions.exportVoxels('turntable'));
+            });
+        } catch (error) {
+            console.error('Error exporting turntable:', error);
+            throw new Error(`Failed to export turntable: ${error}`);
+        }
+    }
+    
+    /**
+     * Import a Minecraft schematic into a new layer. Blocks without a mapping
+     * in the block color table are skipped and reported.
+     */
+    private async importSchematicFile(file: File, format: SchematicFormat): Promise<void> {
+        try {
+            const schematic = await this.schematicParser.parseSchematicFile(await file.arrayBuffer(), format);
+            const name = file.name.replace(/\.[^.]+$/, '');
             
-            console.log(`Exported ${this.voxelEngine.getVoxelCount()} voxels to VOX file`);
+            if (this.schematicReviewer) {
+                const regions = schematic.regions;
+                const extent = (axis: 'x' | 'y' | 'z') =>
+                    Math.max(...regions.map(region => region.origin[axis] + region.size[axis])) -
+                    Math.min(...regions.map(region => region.origin[axis]));
+                
+                const proceed = await this.schematicReviewer({
+                    fileName: file.name,
+                    size: { x: extent('x'), y: extent('y'), z: extent('z') },
+                    blockCounts: this.schematicParser.countBlocks(schematic, this.blockColorTable),
+                    table: this.blockColorTable
+                });
+                if (!proceed) return;
+            }
             
-            // Log the export
+            const { voxels, unmapped } = this.schematicParser.convertToVoxels(schematic, this.blockColorTable);
+            
+            const layer = this.importIntoNewLayer(name, voxels);
+            
+            console.log(`Imported ${voxels.size} voxels from schematic into layer "${layer.name}"`);
+            
+            let message = `Imported: ${file.name}`;
+            if (unmapped.size > 0) {
+                const skipped = [...unmapped.values()].reduce((sum, count) => sum + count, 0);
+                console.warn(`Skipped ${skipped} blocks without a color mapping:`,
+                    Object.fromEntries([...unmapped].sort((a, b) => b[1] - a[1])));
+                message += ` (${unmapped.size} unmapped block types, ${skipped} blocks skipped)`;
+            }
+            
+            // Log the import
             import('../ui/ActionLogger').then(({ ActionLogger }) => {
                 const logger = ActionLogger.getInstance();
-                logger.log(ActionLogger.actions.exportVoxels('VOX'));
+                logger.log(message, unmapped.size > 0 ? 6000 : 3000);
             });
         } catch (error) {
-            console.error('Error exporting VOX file:', error);
-            throw new Error(`Failed to export VOX file: ${error}`);
+            console.error('Error importing schematic:', error);
+            throw new Error(`Failed to import schematic: ${error}`);
         }
     }
     
     /**
-     * Import JSON file (native format with full features)
+     * Import an image into a new layer, as a heightmap or as pixel art
      */
-    private async importJsonFile(file: File): Promise<void> {
+    private async importImageFile(file: File, mimeType: string): Promise<void> {
         try {
-            const text = await file.text();
-            const data = JSON.parse(text);
+            const image = await this.imageVoxelizer.decodeImage(await file.arrayBuffer(), mimeType);
             
-            // Validate data format
-            if (!data.voxels || typeof data.voxels !== 'object') {
-                throw new Error('Invalid JSON format: missing voxels data');
+            // Slice sheets exported by us carry their layout, so rebuild them instead
+            if (this.sliceStackParser.isSpriteSheet(image)) {
+                this.importSliceStack(file.name, this.sliceStackParser.parseSpriteSheet(image));
+                return;
             }
             
-            // Import using existing engine method
-            this.voxelEngine.importVoxels(data);
+            const grayscale = this.imageVoxelizer.isGrayscale(image);
             
-            // Update rendering
-            this.voxelEngine.updateInstances();
+            // Without a prompt, guess the mode from the colors
+            let options: ImageImportOptions | null = {
+                ...DEFAULT_IMAGE_IMPORT_OPTIONS,
+                mode: grayscale ? 'heightmap' : 'pixel-art'
+            };
+            if (this.imageImportPrompt) {
+                options = await this.imageImportPrompt({
+                    fileName: file.name,
+                    width: image.width,
+                    height: image.height,
+                    grayscale
+                });
+                if (!options) return;
+            }
+            
+            const voxels = this.imageVoxelizer.convertToVoxels(image, options);
+            this.importIntoNewLayer(file.name.replace(/\.[^.]+$/, ''), voxels);
             
-            console.log(`Imported voxels from JSON file`);
+            console.log(`Imported ${voxels.size} voxels from ${image.width}x${image.height} image as ${options.mode}`);
             
             // Log the import
             import('../ui/ActionLogger').then(({ ActionLogger }) => {
@@ -154,52 +416,259 @@ export class FileManager {
                 logger.log(ActionLogger.actions.importVoxels(file.name));
             });
         } catch (error) {
-            console.error('Error importing JSON file:', error);
-            throw new Error(`Failed to import JSON file: ${error}`);
+            console.error('Error importing image:', error);
+            throw new Error(`Failed to import image: ${error}`);
+        }
+    }
+    
+    /**
+     * Import a zip of PNG slices into a new layer
+     */
+    private async importSliceStackFile(file: File): Promise<void> {
+        try {
+            this.importSliceStack(file.name, await this.sliceStackParser.parseZip(await file.arrayBuffer()));
+        } catch (error) {
+            console.error('Error importing slice stack:', error);
+            throw new Error(`Failed to import slice stack: ${error}`);
         }
     }
     
+    private importSliceStack(fileName: string, stack: SliceStack): void {
+        const voxels = this.sliceStackParser.convertToVoxels(stack);
+        this.importIntoNewLayer(fileName.replace(/\.[^.]+$/, ''), voxels);
+        
+        console.log(`Imported ${voxels.size} voxels from ${stack.slices.length} slices along ${stack.info.axis.toUpperCase()}`);
+        
+        // Log the import
+        import('../ui/ActionLogger').then(({ ActionLogger }) => {
+            const logger = ActionLogger.getInstance();
+            logger.log(ActionLogger.actions.importVoxels(fileName));
+        });
+    }
+    
     /**
-     * Export JSON file (native format with full features)
+     * Put imported voxels in a new active layer, as one undo step
      */
-    private async exportJsonFile(filename: string): Promise<void> {
+    private importIntoNewLayer(name: string, voxels: Map<string, VoxelType>): VoxelLayer {
+        const layer = this.voxelEngine.createLayer(name);
+        for (const [posKey, type] of voxels) {
+            layer.setVoxel(posKey, type);
+        }
+        this.voxelEngine.setActiveLayer(layer.id);
+        
+        // Make the import its own undo step
+        this.voxelEngine.finalizePendingOperations();
+        this.voxelEngine.updateInstances();
+        
+        return layer;
+    }
+    
+    /**
+     * Export voxels as PNG slices, as a zip or as a sprite sheet
+     */
+    private async exportSliceStack(
+        filename: string,
+        voxels: Array<{ x: number; y: number; z: number; type: VoxelType }>,
+        bounds: { min: VoxelPosition; max: VoxelPosition },
+        options: ExportOptions
+    ): Promise<void> {
         try {
-            // Get voxel data with metadata
-            const data = this.voxelEngine.exportVoxels();
+            const writer = new SliceStackWriter();
+            const stack = writer.createSlices(voxels, bounds, options.sliceAxis ?? 'y');
+            
+            if (options.sliceLayout === 'sheet') {
+                const png = await writer.createSpriteSheet(stack);
+                this.downloadFile(new Blob([png], { type: 'image/png' }), `${filename}_slices.png`, 'image/png');
+            } else {
+                const zip = await writer.createZip(stack);
+                this.downloadFile(new Blob([zip], { type: 'application/zip' }), `${filename}_slices.zip`, 'application/zip');
+            }
+            
+            console.log(`Exported ${voxels.length} voxels as ${stack.slices.length} slices along ${stack.info.axis.toUpperCase()}`);
+            
+            // Log the export
+            import('../ui/ActionLogger').then(({ ActionLogger }) => {
+                const logger = ActionLogger.getInstance();
+                logger.log(ActionLogger.actions.exportVoxels('PNG slices'));
+            });
+        } catch (error) {
+            console.error('Error exporting slice stack:', error);
+            throw new Error(`Failed to export slice stack: ${error}`);
+        }
+    }
+    
+    /**
+     * The current scene's layers and palette, sharing the engine's chunks
+     */
+    getSceneData(): ProjectData {
+        const layers = this.voxelEngine.getAllLayers();
+        
+        // Palette of every type in use so custom colors can be remapped on load
+        const usedTypes = new Set<VoxelType>();
+        for (const layer of layers) {
+            layer.forEachVoxel((_x, _y, _z, type) => usedTypes.add(type));
+        }
+        
+        return {
+            version: PROJECT_VERSION,
+            timestamp: Date.now(),
+            voxelSize: this.voxelEngine.getVoxelSize(),
+            activeLayerId: this.voxelEngine.getActiveLayer()?.id ?? null,
+            layers: layers.map(layer => ({
+                id: layer.id,
+                name: layer.name,
+                visible: layer.visible,
+                opacity: layer.opacity,
+                locked: layer.locked,
+                isEditingAsset: layer.isEditingAsset,
+                editingAssetId: layer.editingAssetId,
+                editingAssetType: layer.editingAssetType,
+                isBaked: layer.isBaked,
+                chunks: [...layer.getChunks().values()]
+            })),
+            palette: this.createProjectPalette(usedTypes),
+            assets: [],
+            thumbnail: null
+        };
+    }
+    
+    /**
+     * The current scene plus referenced user assets and a thumbnail, for a
+     * binary project file
+     */
+    async getProjectData(): Promise<ProjectData> {
+        const project = this.getSceneData();
+        
+        // User assets referenced by layers that are editing them
+        if (this.assetManager) {
+            const assetIds = new Set(project.layers
+                .map(layer => layer.editingAssetId)
+                .filter((id): id is string => !!id && id.startsWith('user_')));
             
-            // Add additional metadata
-            const exportData = {
-                ...data,
-                metadata: {
-                    version: '2.0',
-                    timestamp: Date.now(),
-                    voxelCount: this.voxelEngine.getVoxelCount(),
-                    bounds: this.voxelEngine.getBounds(),
-                    format: 'NeverEverLand v007',
-                    features: {
-                        voxelTypes: Object.keys(VoxelType).filter(k => isNaN(Number(k))),
-                        voxelSize: data.voxelSize
-                    }
+            for (const id of assetIds) {
+                try {
+                    project.assets.push(await this.assetManager.loadAsset(id));
+                } catch (error) {
+                    console.warn(`Skipping missing asset ${id}:`, error);
                 }
-            };
+            }
+        }
+        if (project.assets.length > 0) {
+            const usedTypes = new Set(project.palette.map(entry => entry.type));
+            for (const asset of project.assets) {
+                for (const type of asset.voxelData.values()) usedTypes.add(type);
+            }
+            project.palette = this.createProjectPalette(usedTypes);
+        }
+        
+        if (this.thumbnailProvider) {
+            try {
+                const blob = await this.thumbnailProvider();
+                if (blob) project.thumbnail = new Uint8Array(await blob.arrayBuffer());
+            } catch (error) {
+                console.warn('Could not capture project thumbnail:', error);
+            }
+        }
+        
+        return project;
+    }
+    
+    /**
+     * Replace the current scene with a binary project file
+     */
+    async loadProjectBuffer(buffer: ArrayBuffer): Promise<void> {
+        const { project } = await this.sceneConverter.read(buffer, PROJECT_EXTENSION);
+        await this.loadProject(project);
+    }
+    
+    /**
+     * Describe the colors and materials of the given types for a project file
+     */
+    createProjectPalette(types: Iterable<VoxelType>): ProjectPaletteEntry[] {
+        return this.sceneConverter.createPalette(types);
+    }
+    
+    /**
+     * Replace the current scene with project data. Its palette is registered
+     * first; data from SceneConverter.read is already registered and unchanged.
+     */
+    async loadProject(project: ProjectData): Promise<void> {
+        this.sceneConverter.registerPalette(project);
+        
+        this.voxelEngine.clear();
+        
+        // Layer ids may change, so track where the saved active layer ended up
+        let activeLayerId: string | null = null;
+        const bakedLayerIds: string[] = [];
+        project.layers.forEach((projectLayer, index) => {
+            // Reuse the default layer left by clear() for the first one
+            const layer = index === 0
+                ? this.voxelEngine.getActiveLayer()!
+                : this.voxelEngine.createLayer(projectLayer.name);
             
-            // Create JSON string with pretty formatting
-            const json = JSON.stringify(exportData, null, 2);
+            layer.name = projectLayer.name;
+            layer.visible = projectLayer.visible;
+            layer.opacity = projectLayer.opacity;
+            layer.locked = projectLayer.locked;
+            layer.isEditingAsset = projectLayer.isEditingAsset;
+            layer.editingAssetId = projectLayer.editingAssetId;
+            layer.editingAssetType = projectLayer.editingAssetType;
+            layer.loadChunks(projectLayer.chunks.map(chunk => new VoxelChunk(chunk.cx, chunk.cy, chunk.cz, chunk.data)));
             
-            // Download file
-            const blob = new Blob([json], { type: 'application/json' });
-            this.downloadFile(blob, `${filename}.json`, 'application/json');
+            if (projectLayer.isBaked) {
+                bakedLayerIds.push(layer.id);
+            }
+            if (projectLayer.id === project.activeLayerId) {
+                activeLayerId = layer.id;
+            }
+        });
+        
+        if (activeLayerId) {
+            this.voxelEngine.setActiveLayer(activeLayerId);
+        }
+        
+        // Restore embedded user assets that aren't in this browser yet
+        if (this.assetManager) {
+            for (const asset of project.assets) {
+                try {
+                    await this.assetManager.importAsset(asset);
+                } catch (error) {
+                    console.warn(`Could not restore asset ${asset.id}:`, error);
+                }
+            }
+        }
+        
+        // The loaded scene is the new starting point for undo
+        this.voxelEngine.clearUndoHistory();
+        this.voxelEngine.updateInstances();
+        
+        for (const layerId of bakedLayerIds) {
+            this.voxelEngine.bakeLayer(layerId);
+        }
+    }
+    
+    /**
+     * Write a scene with the SceneConverter and download the resulting files
+     */
+    private async exportScene(project: ProjectData, format: SceneOutputFormat, filename: string, options: ExportOptions): Promise<void> {
+        const label = format === PROJECT_EXTENSION ? 'project' : format.toUpperCase();
+        try {
+            const files = await this.sceneConverter.write(project, format, filename, options);
+            for (const file of files) {
+                this.downloadFile(file.data, file.name, file.mimeType);
+            }
             
-            console.log(`Exported ${this.voxelEngine.getVoxelCount()} voxels to JSON file`);
+            const stats = this.sceneConverter.getStats(project);
+            console.log(`Exported ${stats.voxelCount} voxels in ${stats.layerCount} layers to ${label} file`);
             
             // Log the export
             import('../ui/ActionLogger').then(({ ActionLogger }) => {
                 const logger = ActionLogger.getInstance();
-                logger.log(ActionLogger.actions.exportVoxels('JSON'));
+                logger.log(ActionLogger.actions.exportVoxels(label));
             });
         } catch (error) {
-            console.error('Error exporting JSON file:', error);
-            throw new Error(`Failed to export JSON file: ${error}`);
+            console.error(`Error exporting ${label} file:`, error);
+            throw new Error(`Failed to export ${label} file: ${error}`);
         }
     }
     
@@ -225,20 +694,20 @@ export class FileManager {
      * Get supported file extensions for import
      */
     getSupportedImportFormats(): string[] {
-        return ['vox', 'json'];
+        return [PROJECT_EXTENSION, 'vox', 'qb', 'gox', 'json', 'schem', 'litematic', 'png', 'jpg', 'jpeg', 'zip'];
     }
     
     /**
      * Get supported file extensions for export
      */
     getSupportedExportFormats(): string[] {
-        return ['vox', 'json'];
+        return [PROJECT_EXTENSION, 'vox', 'qb', 'gox', 'json', 'glb', 'obj', 'stl', 'slices'];
     }
     
     /**
-     * Export a specific layer to VOX file
+     * Export a specific layer
      */
-    async exportLayer(layerId: string, format: 'vox' | 'json'): Promise<void> {
+    async exportLayer(layerId: string, format: ExportFormat, options: ExportOptions = {}): Promise<void> {
         const layers = this.voxelEngine.getAllLayers();
         const layer = layers.find(l => l.id === layerId);
         
@@ -249,36 +718,29 @@ export class FileManager {
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
         const filename = `${layer.name.replace(/\s+/g, '_')}_${timestamp}`;
         
-        if (format === 'vox') {
-            // Get voxels from the specific layer
-            const voxelsByType = layer.getVoxelsByType();
-            
-            // Create VOX file
-            const buffer = this.voxWriter.createVoxFile(voxelsByType);
-            
-            // Download file
-            this.downloadFile(buffer, `${filename}.vox`, 'application/octet-stream');
-            
-            console.log(`Exported ${layer.getVoxelCount()} voxels from layer "${layer.name}" to VOX file`);
+        if (format === 'slices') {
+            const voxels: Array<{ x: number; y: number; z: number; type: VoxelType }> = [];
+            const min = { x: Infinity, y: Infinity, z: Infinity };
+            const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+            layer.forEachVoxel((x, y, z, type) => {
+                voxels.push({ x, y, z, type });
+                min.x = Math.min(min.x, x);
+                min.y = Math.min(min.y, y);
+                min.z = Math.min(min.z, z);
+                max.x = Math.max(max.x, x);
+                max.y = Math.max(max.y, y);
+                max.z = Math.max(max.z, z);
+            });
+            if (voxels.length === 0) {
+                throw new Error(`Layer "${layer.name}" is empty`);
+            }
+            await this.exportSliceStack(filename, voxels, { min, max }, options);
         } else {
-            // Export as JSON with layer data
-            const exportData = {
-                version: '2.0',
-                timestamp: Date.now(),
-                voxelSize: 0.1,
-                layers: [layer.exportData()],
-                metadata: {
-                    format: 'NeverEverLand v007 Layer Export',
-                    layerName: layer.name,
-                    voxelCount: layer.getVoxelCount()
-                }
-            };
-            
-            const json = JSON.stringify(exportData, null, 2);
-            const blob = new Blob([json], { type: 'application/json' });
-            this.downloadFile(blob, `${filename}.json`, 'application/json');
-            
-            console.log(`Exported layer "${layer.name}" to JSON file`);
+            // The scene reduced to this layer, exported even when hidden; projects are exported as JSON
+            const scene = this.getSceneData();
+            scene.layers = scene.layers.filter(projectLayer => projectLayer.id === layer.id);
+            scene.activeLayerId = layer.id;
+            await this.exportScene(scene, format === PROJECT_EXTENSION ? 'json' : format, filename, { ...options, visibleOnly: false });
         }
     }
     
@@ -312,6 +774,9 @@ export class FileManager {
                     layer.setVoxel(posKey, type);
                 }
                 
+                // Make the import its own undo step
+                this.voxelEngine.finalizePendingOperations();
+                
                 // Update rendering
                 this.voxelEngine.updateInstances();
                 
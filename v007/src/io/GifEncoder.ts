@@ -0,0 +1,295 @@
+import { PngImage } from './PngCodec';
+
+// Colors are binned at 5 bits per channel for the palette and its lookups
+const BIN_COUNT = 1 << 15;
+// GIF LZW codes are at most 12 bits
+const MAX_CODE = 4095;
+
+const binOf = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+/**
+ * Animated GIF writer. All frames share one global palette, built by median
+ * cut over every frame so colors don't flicker between frames. Pixels with
+ * alpha below 128 become transparent. Loops forever.
+ */
+export class GifEncoder {
+    /**
+     * Encode equally sized RGBA frames, each shown for delayMs
+     */
+    static encode(frames: PngImage[], delayMs: number): Uint8Array {
+        if (frames.length === 0) {
+            throw new Error('Cannot encode a GIF without frames');
+        }
+        const { width, height } = frames[0];
+        if (frames.some(frame => frame.width !== width || frame.height !== height)) {
+            throw new Error('All GIF frames must have the same size');
+        }
+        
+        const transparent = frames.some(frame => frame.data.some((value, i) => (i & 3) === 3 && value < 128));
+        const palette = GifEncoder.createPalette(frames, transparent ? 255 : 256);
+        const transparentIndex = transparent ? palette.length / 3 : -1;
+        const lookup = new Int16Array(BIN_COUNT).fill(-1);
+        
+        const out = new ByteWriter();
+        out.writeString('GIF89a');
+        
+        // Logical screen with a 256-entry global color table
+        out.writeUint16(width);
+        out.writeUint16(height);
+        out.writeByte(0xF7);
+        out.writeByte(0);
+        out.writeByte(0);
+        const table = new Uint8Array(256 * 3);
+        table.set(palette);
+        out.writeBytes(table);
+        
+        // NETSCAPE2.0 extension: loop forever
+        out.writeBytes([0x21, 0xFF, 0x0B]);
+        out.writeString('NETSCAPE2.0');
+        out.writeBytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+        
+        const delay = Math.max(2, Math.round(delayMs / 10));
+        for (const frame of frames) {
+            // Graphic control: restore to background between transparent frames
+            out.writeBytes([0x21, 0xF9, 0x04, transparent ? (2 << 2) | 1 : 1 << 2]);
+            out.writeUint16(delay);
+            out.writeByte(transparent ? transparentIndex : 0);
+            out.writeByte(0);
+            
+            // Image descriptor covering the whole screen, no local table
+            out.writeByte(0x2C);
+            out.writeUint16(0);
+            out.writeUint16(0);
+            out.writeUint16(width);
+            out.writeUint16(height);
+            out.writeByte(0);
+            
+            const indices = new Uint8Array(width * height);
+            const { data } = frame;
+            for (let i = 0; i < indices.length; i++) {
+                if (transparent && data[i * 4 + 3] < 128) {
+                    indices[i] = transparentIndex;
+                    continue;
+                }
+                const bin = binOf(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+                if (lookup[bin] < 0) {
+                    lookup[bin] = GifEncoder.findNearest(palette, data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+                }
+                indices[i] = lookup[bin];
+            }
+            
+            out.writeByte(8);
+            const compressed = GifEncoder.compress(indices);
+            for (let offset = 0; offset < compressed.length; offset += 255) {
+                const block = compressed.subarray(offset, offset + 255);
+                out.writeByte(block.length);
+                out.writeBytes(block);
+            }
+            out.writeByte(0);
+        }
+        
+        out.writeByte(0x3B);
+        return out.toBytes();
+    }
+    
+    /**
+     * Median cut over a 15-bit color histogram of the opaque pixels.
+     * Returns packed RGB, at most maxColors entries.
+     */
+    private static createPalette(frames: PngImage[], maxColors: number): Uint8Array {
+        const counts = new Uint32Array(BIN_COUNT);
+        const sums = new Float64Array(BIN_COUNT * 3);
+        for (const { data } of frames) {
+            for (let i = 0; i < data.length; i += 4) {
+                if (data[i + 3] < 128) continue;
+                const bin = binOf(data[i], data[i + 1], data[i + 2]);
+                counts[bin]++;
+                sums[bin * 3] += data[i];
+                sums[bin * 3 + 1] += data[i + 1];
+                sums[bin * 3 + 2] += data[i + 2];
+            }
+        }
+        
+        const used: number[] = [];
+        for (let bin = 0; bin < BIN_COUNT; bin++) {
+            if (counts[bin] > 0) used.push(bin);
+        }
+        if (used.length === 0) {
+            return new Uint8Array(3);
+        }
+        
+        // Channel of a bin: 0 red, 1 green, 2 blue
+        const channelOf = (bin: number, channel: number) => (bin >> (10 - channel * 5)) & 31;
+        const boxes: number[][] = [used];
+        while (boxes.length < maxColors) {
+            // Split the box with the widest channel range, weighted by how many pixels it holds
+            let best = -1;
+            let bestScore = 0;
+            let bestChannel = 0;
+            boxes.forEach((box, index) => {
+                if (box.length < 2) return;
+                let population = 0;
+                for (const bin of box) population += counts[bin];
+                for (let channel = 0; channel < 3; channel++) {
+                    let min = 31;
+                    let max = 0;
+                    for (const bin of box) {
+                        const value = channelOf(bin, channel);
+                        min = Math.min(min, value);
+                        max = Math.max(max, value);
+                    }
+                    const score = (max - min) * Math.sqrt(population);
+                    if (score > bestScore) {
+                        best = index;
+                        bestScore = score;
+                        bestChannel = channel;
+                    }
+                }
+            });
+            if (best < 0) break;
+            
+            // Cut at the pixel median along that channel
+            const box = boxes[best].sort((a, b) => channelOf(a, bestChannel) - channelOf(b, bestChannel));
+            let total = 0;
+            for (const bin of box) total += counts[bin];
+            let running = 0;
+            let cut = 1;
+            for (; cut < box.length - 1; cut++) {
+                running += counts[box[cut - 1]];
+                if (running * 2 >= total) break;
+            }
+            boxes.splice(best, 1, box.slice(0, cut), box.slice(cut));
+        }
+        
+        // Each palette color is the pixel average of its box
+        const palette = new Uint8Array(boxes.length * 3);
+        boxes.forEach((box, index) => {
+            let count = 0;
+            const sum = [0, 0, 0];
+            for (const bin of box) {
+                count += counts[bin];
+                sum[0] += sums[bin * 3];
+                sum[1] += sums[bin * 3 + 1];
+                sum[2] += sums[bin * 3 + 2];
+            }
+            palette[index * 3] = Math.round(sum[0] / count);
+            palette[index * 3 + 1] = Math.round(sum[1] / count);
+            palette[index * 3 + 2] = Math.round(sum[2] / count);
+        });
+        return palette;
+    }
+    
+    private static findNearest(palette: Uint8Array, r: number, g: number, b: number): number {
+        let best = 0;
+        let bestDistance = Infinity;
+        for (let i = 0; i < palette.length; i += 3) {
+            const dr = palette[i] - r;
+            const dg = palette[i + 1] - g;
+            const db = palette[i + 2] - b;
+            const distance = dr * dr + dg * dg + db * db;
+            if (distance < bestDistance) {
+                best = i / 3;
+                bestDistance = distance;
+            }
+        }
+        return best;
+    }
+    
+    /**
+     * Variable-length LZW with 8-bit symbols, packed least significant bit first
+     */
+    private static compress(indices: Uint8Array): Uint8Array {
+        const clearCode = 256;
+        const endCode = 257;
+        const out: number[] = [];
+        let buffer = 0;
+        let bufferBits = 0;
+        let codeSize = 9;
+        let nextCode = endCode + 1;
+        // (prefix code << 8 | symbol) -> code
+        let dictionary = new Map<number, number>();
+        
+        const emit = (code: number) => {
+            buffer |= code << bufferBits;
+            bufferBits += codeSize;
+            while (bufferBits >= 8) {
+                out.push(buffer & 0xFF);
+                buffer >>>= 8;
+                bufferBits -= 8;
+            }
+        };
+        
+        emit(clearCode);
+        let prefix = indices[0];
+        for (let i = 1; i < indices.length; i++) {
+            const symbol = indices[i];
+            const key = (prefix << 8) | symbol;
+            const code = dictionary.get(key);
+            if (code !== undefined) {
+                prefix = code;
+                continue;
+            }
+            
+            emit(prefix);
+            if (nextCode <= MAX_CODE) {
+                dictionary.set(key, nextCode++);
+                // The decoder widens one code later than the encoder adds
+                if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+            } else {
+                emit(clearCode);
+                dictionary = new Map();
+                codeSize = 9;
+                nextCode = endCode + 1;
+            }
+            prefix = symbol;
+        }
+        emit(prefix);
+        emit(endCode);
+        if (bufferBits > 0) out.push(buffer & 0xFF);
+        
+        return new Uint8Array(out);
+    }
+}
+
+/**
+ * Growable little-endian byte buffer
+ */
+class ByteWriter {
+    private bytes = new Uint8Array(1 << 16);
+    private length = 0;
+    
+    writeByte(value: number): void {
+        this.ensure(1);
+        this.bytes[this.length++] = value;
+    }
+    
+    writeUint16(value: number): void {
+        this.writeByte(value & 0xFF);
+        this.writeByte((value >> 8) & 0xFF);
+    }
+    
+    writeBytes(values: ArrayLike<number>): void {
+        this.ensure(values.length);
+        this.bytes.set(values, this.length);
+        this.length += values.length;
+    }
+    
+    writeString(value: string): void {
+        for (let i = 0; i < value.length; i++) {
+            this.writeByte(value.charCodeAt(i));
+        }
+    }
+    
+    toBytes(): Uint8Array {
+        return this.bytes.slice(0, this.length);
+    }
+    
+    private ensure(extra: number): void {
+        if (this.length + extra <= this.bytes.length) return;
+        let size = this.bytes.length * 2;
+        while (size < this.length + extra) size *= 2;
+        const grown = new Uint8Array(size);
+        grown.set(this.bytes.subarray(0, this.length));
+        this.bytes = grown;
+    }
+}
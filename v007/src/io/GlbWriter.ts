@@ -0,0 +1,296 @@
+import * as THREE from 'three';
+import { VoxelType } from '../types';
+import { BakedMeshGenerator } from '../engine/BakedMeshGenerator';
+import { VOXEL_MATERIAL_ATTRIBUTE, DEFAULT_ROUGHNESS, DEFAULT_METALNESS } from '../engine/VoxelMaterialShader';
+
+/**
+ * glTF 2.0 binary (.glb) writer
+ * Exports layers as named nodes using the greedy-meshed geometry from
+ * BakedMeshGenerator, with one material per voxel color
+ * https://registry.khronos.org/glTF/specs/2.0/glTF-2.0.html#binary-gltf-layout
+ */
+
+export interface GlbLayer {
+    name: string;
+    voxels: Map<string, VoxelType>;
+}
+
+// GLB container constants
+export const GLB_MAGIC = 0x46546C67; // 'glTF'
+export const GLB_VERSION = 2;
+export const GLB_CHUNK_JSON = 0x4E4F534A; // 'JSON'
+export const GLB_CHUNK_BIN = 0x004E4942; // 'BIN\0'
+
+// glTF enums
+const COMPONENT_FLOAT = 5126;
+const COMPONENT_UNSIGNED_INT = 5125;
+const TARGET_ARRAY_BUFFER = 34962;
+const TARGET_ELEMENT_ARRAY_BUFFER = 34963;
+const MODE_TRIANGLES = 4;
+
+// Triangles of one mesh that share a material
+interface PrimitiveGroup {
+    materialKey: string;
+    color: THREE.Color;
+    channels: [number, number, number];
+    opacity: number;
+    triangles: number[];
+}
+
+export class GlbWriter {
+    private voxelSize: number;
+    private json: any;
+    private chunks: Uint8Array[] = [];
+    private byteLength: number = 0;
+    private materialIndices = new Map<string, number>();
+    
+    constructor(voxelSize: number = 0.1) {
+        this.voxelSize = voxelSize;
+    }
+    
+    /**
+     * Create a GLB file with one node per layer
+     */
+    createGlbFile(layers: GlbLayer[]): ArrayBuffer {
+        this.json = {
+            asset: { version: '2.0', generator: 'NeverEverLand v007' },
+            scene: 0,
+            scenes: [{ name: 'Scene', nodes: [] as number[] }],
+            nodes: [] as any[],
+            meshes: [] as any[],
+            materials: [] as any[],
+            accessors: [] as any[],
+            bufferViews: [] as any[],
+            buffers: [] as any[]
+        };
+        this.chunks = [];
+        this.byteLength = 0;
+        this.materialIndices.clear();
+        
+        const generator = new BakedMeshGenerator(this.voxelSize);
+        
+        for (const layer of layers) {
+            const node: any = { name: layer.name };
+            
+            if (layer.voxels.size > 0) {
+                const { opaqueMesh, transparentMesh } = generator.generateOptimizedMesh(layer.voxels);
+                const primitives: any[] = [];
+                
+                for (const mesh of [opaqueMesh, transparentMesh]) {
+                    if (!mesh) continue;
+                    primitives.push(...this.writeMesh(mesh));
+                    mesh.geometry.dispose();
+                    (mesh.material as THREE.Material).dispose();
+                }
+                
+                if (primitives.length > 0) {
+                    node.mesh = this.json.meshes.length;
+                    this.json.meshes.push({ name: layer.name, primitives });
+                }
+            }
+            
+            this.json.scenes[0].nodes.push(this.json.nodes.length);
+            this.json.nodes.push(node);
+        }
+        
+        // glTF forbids empty top-level arrays
+        for (const key of ['meshes', 'materials', 'accessors', 'bufferViews', 'buffers']) {
+            if (this.json[key].length === 0) delete this.json[key];
+        }
+        if (this.byteLength > 0) {
+            this.json.buffers = [{ byteLength: this.byteLength }];
+        }
+        
+        return this.assemble();
+    }
+    
+    /**
+     * Split a baked mesh into one primitive per material and write its buffers
+     */
+    private writeMesh(mesh: THREE.Mesh): any[] {
+        const geometry = mesh.geometry;
+        const position = geometry.getAttribute('position');
+        const normal = geometry.getAttribute('normal');
+        const color = geometry.getAttribute('color');
+        const voxelMaterial = geometry.getAttribute(VOXEL_MATERIAL_ATTRIBUTE);
+        const index = geometry.getIndex();
+        if (!index) return [];
+        
+        const meshMaterial = mesh.material as THREE.MeshStandardMaterial;
+        const opacity = meshMaterial.transparent ? meshMaterial.opacity : 1;
+        
+        // Group triangles by the color and material channels of their first vertex
+        const groups = new Map<string, PrimitiveGroup>();
+        for (let t = 0; t < index.count; t += 3) {
+            const v = index.getX(t);
+            const channels: [number, number, number] = voxelMaterial
+                ? [voxelMaterial.getX(v), voxelMaterial.getY(v), voxelMaterial.getZ(v)]
+                : [DEFAULT_ROUGHNESS, DEFAULT_METALNESS, 0];
+            const vertexColor = new THREE.Color(color.getX(v), color.getY(v), color.getZ(v));
+            const materialKey = `${vertexColor.getHexString()}|${channels.join(',')}|${opacity}`;
+            
+            let group = groups.get(materialKey);
+            if (!group) {
+                group = { materialKey, color: vertexColor, channels, opacity, triangles: [] };
+                groups.set(materialKey, group);
+            }
+            group.triangles.push(index.getX(t), index.getX(t + 1), index.getX(t + 2));
+        }
+        
+        const primitives: any[] = [];
+        for (const group of groups.values()) {
+            // Compact the vertices used by this group
+            const remap = new Map<number, number>();
+            const positions: number[] = [];
+            const normals: number[] = [];
+            const indices: number[] = [];
+            
+            for (const v of group.triangles) {
+                let compact = remap.get(v);
+                if (compact === undefined) {
+                    compact = remap.size;
+                    remap.set(v, compact);
+                    positions.push(position.getX(v), position.getY(v), position.getZ(v));
+                    normals.push(normal.getX(v), normal.getY(v), normal.getZ(v));
+                }
+                indices.push(compact);
+            }
+            
+            primitives.push({
+                attributes: {
+                    POSITION: this.addAccessor(new Float32Array(positions), 'VEC3', TARGET_ARRAY_BUFFER, true),
+                    NORMAL: this.addAccessor(new Float32Array(normals), 'VEC3', TARGET_ARRAY_BUFFER)
+                },
+                indices: this.addAccessor(new Uint32Array(indices), 'SCALAR', TARGET_ELEMENT_ARRAY_BUFFER),
+                material: this.getMaterialIndex(group),
+                mode: MODE_TRIANGLES
+            });
+        }
+        
+        return primitives;
+    }
+    
+    /**
+     * Get (or create) the glTF material for a voxel color
+     */
+    private getMaterialIndex(group: PrimitiveGroup): number {
+        const existing = this.materialIndices.get(group.materialKey);
+        if (existing !== undefined) return existing;
+        
+        // Vertex colors are already in linear space, as glTF expects
+        const [roughness, metalness, emissive] = group.channels;
+        const { r, g, b } = group.color;
+        const material: any = {
+            name: `#${group.color.getHexString()}`,
+            pbrMetallicRoughness: {
+                baseColorFactor: [r, g, b, group.opacity],
+                metallicFactor: metalness,
+                roughnessFactor: roughness
+            }
+        };
+        
+        if (emissive > 0) {
+            // Intensities above 1 need KHR_materials_emissive_strength
+            const factor = Math.min(emissive, 1);
+            material.emissiveFactor = [r * factor, g * factor, b * factor];
+            if (emissive > 1) {
+                material.extensions = { KHR_materials_emissive_strength: { emissiveStrength: emissive } };
+                this.json.extensionsUsed = ['KHR_materials_emissive_strength'];
+            }
+        }
+        if (group.opacity < 1) {
+            material.alphaMode = 'BLEND';
+        }
+        
+        const materialIndex = this.json.materials.length;
+        this.json.materials.push(material);
+        this.materialIndices.set(group.materialKey, materialIndex);
+        return materialIndex;
+    }
+    
+    /**
+     * Append data to the binary chunk and create a bufferView + accessor for it
+     */
+    private addAccessor(data: Float32Array | Uint32Array, type: 'SCALAR' | 'VEC3', target: number, withBounds: boolean = false): number {
+        const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+        
+        this.json.bufferViews.push({
+            buffer: 0,
+            byteOffset: this.byteLength,
+            byteLength: bytes.byteLength,
+            target
+        });
+        this.chunks.push(bytes);
+        this.byteLength += bytes.byteLength; // Float32/Uint32 data keeps 4-byte alignment
+        
+        const components = type === 'VEC3' ? 3 : 1;
+        const accessor: any = {
+            bufferView: this.json.bufferViews.length - 1,
+            componentType: data instanceof Float32Array ? COMPONENT_FLOAT : COMPONENT_UNSIGNED_INT,
+            count: data.length / components,
+            type
+        };
+        
+        // POSITION accessors must declare min/max
+        if (withBounds) {
+            const min = [Infinity, Infinity, Infinity];
+            const max = [-Infinity, -Infinity, -Infinity];
+            for (let i = 0; i < data.length; i += 3) {
+                for (let c = 0; c < 3; c++) {
+                    min[c] = Math.min(min[c], data[i + c]);
+                    max[c] = Math.max(max[c], data[i + c]);
+                }
+            }
+            accessor.min = min;
+            accessor.max = max;
+        }
+        
+        this.json.accessors.push(accessor);
+        return this.json.accessors.length - 1;
+    }
+    
+    /**
+     * Assemble header, JSON chunk and BIN chunk into the GLB container
+     */
+    private assemble(): ArrayBuffer {
+        // JSON chunk is padded with spaces, BIN chunk with zeros, both to 4 bytes
+        const jsonBytes = new TextEncoder().encode(JSON.stringify(this.json));
+        const jsonLength = align4(jsonBytes.length);
+        const binLength = align4(this.byteLength);
+        const hasBin = this.byteLength > 0;
+        
+        const totalLength = 12 + 8 + jsonLength + (hasBin ? 8 + binLength : 0);
+        const buffer = new ArrayBuffer(totalLength);
+        const view = new DataView(buffer);
+        const bytes = new Uint8Array(buffer);
+        
+        // Header
+        view.setUint32(0, GLB_MAGIC, true);
+        view.setUint32(4, GLB_VERSION, true);
+        view.setUint32(8, totalLength, true);
+        
+        // JSON chunk
+        view.setUint32(12, jsonLength, true);
+        view.setUint32(16, GLB_CHUNK_JSON, true);
+        bytes.set(jsonBytes, 20);
+        bytes.fill(0x20, 20 + jsonBytes.length, 20 + jsonLength);
+        
+        // BIN chunk
+        if (hasBin) {
+            let offset = 20 + jsonLength;
+            view.setUint32(offset, binLength, true);
+            view.setUint32(offset + 4, GLB_CHUNK_BIN, true);
+            offset += 8;
+            for (const chunk of this.chunks) {
+                bytes.set(chunk, offset);
+                offset += chunk.byteLength;
+            }
+        }
+        
+        return buffer;
+    }
+}
+
+function align4(length: number): number {
+    return (length + 3) & ~3;
+}
@@ -0,0 +1,208 @@
+import { VoxelType } from '../types';
+import { ColorRegistry } from '../engine/ColorRegistry';
+import { VoxLayerData } from './VoxParser';
+import { PngCodec } from './PngCodec';
+
+/**
+ * Goxel (.gox) file parser
+ * A .gox file is a sequence of chunks: BL16 chunks hold 16x16x16 blocks of
+ * RGBA voxels encoded as 64x64 PNG images, and LAYR chunks list which blocks
+ * each layer places where, followed by a dictionary of layer properties.
+ */
+
+export const GOX_BLOCK_SIZE = 16;
+
+interface GoxBlockPlacement {
+    blockIndex: number;
+    x: number;
+    y: number;
+    z: number;
+}
+
+interface GoxLayer {
+    name: string;
+    visible: boolean;
+    placements: GoxBlockPlacement[];
+}
+
+export interface GoxData {
+    version: number;
+    // RGBA voxels of each BL16 block, indexed (x + y * 16 + z * 256) * 4
+    blocks: Uint8ClampedArray[];
+    layers: GoxLayer[];
+}
+
+export class GoxParser {
+    private view: DataView | null = null;
+    private bytes: Uint8Array | null = null;
+    private offset: number = 0;
+    
+    /**
+     * Parse a GOX file from an ArrayBuffer
+     */
+    async parseGoxFile(buffer: ArrayBuffer): Promise<GoxData> {
+        this.view = new DataView(buffer);
+        this.bytes = new Uint8Array(buffer);
+        this.offset = 0;
+        
+        if (this.readString(4) !== 'GOX ') {
+            throw new Error('Invalid GOX file: incorrect magic number');
+        }
+        
+        const version = this.readInt32();
+        if (version !== 1 && version !== 2) {
+            throw new Error(`Unsupported GOX version ${version}`);
+        }
+        
+        const blocks: Uint8ClampedArray[] = [];
+        const layers: GoxLayer[] = [];
+        
+        while (this.offset < buffer.byteLength) {
+            const type = this.readString(4);
+            const length = this.readInt32();
+            const start = this.offset;
+            const end = start + length;
+            if (length < 0 || end + 4 > buffer.byteLength) {
+                throw new Error(`Invalid GOX file: chunk ${type} is truncated`);
+            }
+            
+            switch (type) {
+                case 'BL16': {
+                    const image = await PngCodec.decode(this.bytes.subarray(start, end));
+                    if (image.width * image.height !== GOX_BLOCK_SIZE ** 3) {
+                        throw new Error(`Invalid GOX file: block image is ${image.width}x${image.height}`);
+                    }
+                    blocks.push(image.data);
+                    break;
+                }
+                
+                case 'LAYR':
+                    layers.push(this.readLayer(end, version, layers.length));
+                    break;
+                
+                // IMG, PREV, MATE, CAMR, LIGH and others don't affect the voxels
+            }
+            
+            // Skip the rest of the chunk and its CRC (Goxel doesn't verify it either)
+            this.offset = end + 4;
+        }
+        
+        return { version, blocks, layers };
+    }
+    
+    private readLayer(end: number, version: number, index: number): GoxLayer {
+        const placements: GoxBlockPlacement[] = [];
+        const count = this.readInt32();
+        
+        for (let i = 0; i < count; i++) {
+            const blockIndex = this.readInt32();
+            let x = this.readInt32();
+            let y = this.readInt32();
+            let z = this.readInt32();
+            this.readInt32(); // Unused
+            
+            // Version 1 stored block centers instead of corners
+            if (version === 1) {
+                x -= GOX_BLOCK_SIZE / 2;
+                y -= GOX_BLOCK_SIZE / 2;
+                z -= GOX_BLOCK_SIZE / 2;
+            }
+            placements.push({ blockIndex, x, y, z });
+        }
+        
+        // Dictionary of properties, ended by the chunk end or an empty key
+        let name = `Layer ${index + 1}`;
+        let visible = true;
+        while (this.offset + 4 <= end) {
+            const keyLength = this.readInt32();
+            if (keyLength === 0) break;
+            const key = this.readString(keyLength);
+            const valueLength = this.readInt32();
+            const valueStart = this.offset;
+            
+            if (key === 'name') {
+                name = new TextDecoder().decode(this.bytes!.subarray(valueStart, valueStart + valueLength)).replace(/\0.*$/, '');
+            } else if (key === 'visible' && valueLength > 0) {
+                visible = this.bytes![valueStart] !== 0;
+            }
+            
+            this.offset = valueStart + valueLength;
+        }
+        
+        return { name, visible, placements };
+    }
+    
+    /**
+     * Convert parsed layers to engine layers in Three.js coordinates
+     * (Goxel is Z-up like MagicaVoxel)
+     */
+    convertToLayers(goxData: GoxData): VoxLayerData[] {
+        const paletteTypes = new Map<number, VoxelType>();
+        const colorRegistry = ColorRegistry.getInstance();
+        const layers: VoxLayerData[] = [];
+        let minY = 0;
+        
+        for (const goxLayer of goxData.layers) {
+            const voxels = new Map<string, VoxelType>();
+            
+            for (const placement of goxLayer.placements) {
+                const block = goxData.blocks[placement.blockIndex];
+                if (!block) continue;
+                
+                for (let i = 0; i < GOX_BLOCK_SIZE ** 3; i++) {
+                    if (block[i * 4 + 3] === 0) continue;
+                    
+                    const rgb = (block[i * 4] << 16) | (block[i * 4 + 1] << 8) | block[i * 4 + 2];
+                    let type = paletteTypes.get(rgb);
+                    if (type === undefined) {
+                        const hex = '#' + rgb.toString(16).padStart(6, '0');
+                        type = colorRegistry.getOrCreateVoxelType(hex) ?? colorRegistry.findClosestVoxelType(hex);
+                        paletteTypes.set(rgb, type);
+                    }
+                    
+                    const gx = placement.x + (i % GOX_BLOCK_SIZE);
+                    const gy = placement.y + (Math.floor(i / GOX_BLOCK_SIZE) % GOX_BLOCK_SIZE);
+                    const gz = placement.z + Math.floor(i / (GOX_BLOCK_SIZE * GOX_BLOCK_SIZE));
+                    
+                    // Goxel Z (up) becomes Three.js Y, Goxel Y (forward) becomes -Z
+                    minY = Math.min(minY, gz);
+                    voxels.set(`${gx},${gz},${-gy - 1}`, type);
+                }
+            }
+            
+            layers.push({ name: goxLayer.name, hidden: !goxLayer.visible, voxels });
+        }
+        
+        // Lift the scene so nothing ends up below the ground plane
+        if (minY < 0) {
+            for (const layer of layers) {
+                const lifted = new Map<string, VoxelType>();
+                for (const [key, type] of layer.voxels) {
+                    const [x, y, z] = key.split(',').map(Number);
+                    lifted.set(`${x},${y - minY},${z}`, type);
+                }
+                layer.voxels = lifted;
+            }
+        }
+        
+        return layers;
+    }
+    
+    private readString(length: number): string {
+        if (this.offset + length > this.bytes!.length) {
+            throw new Error('Invalid GOX file: unexpected end of data');
+        }
+        const value = String.fromCharCode(...this.bytes!.subarray(this.offset, this.offset + length));
+        this.offset += length;
+        return value;
+    }
+    
+    private readInt32(): number {
+        if (this.offset + 4 > this.view!.byteLength) {
+            throw new Error('Invalid GOX file: unexpected end of data');
+        }
+        const value = this.view!.getInt32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+}
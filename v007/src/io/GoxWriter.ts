@@ -0,0 +1,151 @@
+import { VoxelType } from '../types';
+import { ColorRegistry } from '../engine/ColorRegistry';
+import { GOX_BLOCK_SIZE } from './GoxParser';
+import { PngCodec } from './PngCodec';
+import { crc32 } from './Compression';
+
+interface GoxLayerInput {
+    name: string;
+    visible: boolean;
+    voxels: Map<string, VoxelType>;
+}
+
+/**
+ * Goxel (.gox) version 2 writer
+ * Each layer's voxels are split into 16x16x16 blocks, written as BL16 PNG
+ * chunks, followed by one LAYR chunk per layer referencing its blocks
+ */
+export class GoxWriter {
+    /**
+     * Create a GOX file from layers
+     */
+    async createGoxFile(layers: GoxLayerInput[]): Promise<ArrayBuffer> {
+        const colorRegistry = ColorRegistry.getInstance();
+        const chunks: Uint8Array[] = [];
+        const layerChunks: Uint8Array[] = [];
+        let blockCount = 0;
+        
+        for (const [layerIndex, layer] of layers.entries()) {
+            // RGBA voxels per block, keyed by the block's corner in Goxel coordinates
+            const blocks = new Map<string, Uint8ClampedArray>();
+            
+            for (const [key, type] of layer.voxels) {
+                if (type === VoxelType.AIR) continue;
+                const [x, y, z] = key.split(',').map(Number);
+                
+                // Three.js Y (up) becomes Goxel Z, Three.js -Z (forward) becomes Goxel Y
+                const gx = x;
+                const gy = -z - 1;
+                const gz = y;
+                const bx = Math.floor(gx / GOX_BLOCK_SIZE) * GOX_BLOCK_SIZE;
+                const by = Math.floor(gy / GOX_BLOCK_SIZE) * GOX_BLOCK_SIZE;
+                const bz = Math.floor(gz / GOX_BLOCK_SIZE) * GOX_BLOCK_SIZE;
+                
+                const blockKey = `${bx},${by},${bz}`;
+                let block = blocks.get(blockKey);
+                if (!block) {
+                    block = new Uint8ClampedArray(GOX_BLOCK_SIZE ** 3 * 4);
+                    blocks.set(blockKey, block);
+                }
+                
+                const rgb = parseInt((colorRegistry.getColor(type) || '#FFFFFF').slice(1), 16);
+                const i = ((gx - bx) + (gy - by) * GOX_BLOCK_SIZE + (gz - bz) * GOX_BLOCK_SIZE * GOX_BLOCK_SIZE) * 4;
+                block[i] = (rgb >> 16) & 0xFF;
+                block[i + 1] = (rgb >> 8) & 0xFF;
+                block[i + 2] = rgb & 0xFF;
+                block[i + 3] = 255;
+            }
+            
+            const placements: number[] = [];
+            for (const [blockKey, block] of blocks) {
+                // A 16x16x16 block is stored as a 64x64 image in the same memory order
+                const png = await PngCodec.encode({ width: 64, height: 64, data: block });
+                chunks.push(this.createChunk('BL16', png));
+                
+                const [bx, by, bz] = blockKey.split(',').map(Number);
+                placements.push(blockCount++, bx, by, bz, 0);
+            }
+            
+            layerChunks.push(this.createChunk('LAYR', this.createLayerData(layer, layerIndex, placements)));
+        }
+        
+        const header = new Uint8Array(8);
+        header.set([0x47, 0x4F, 0x58, 0x20]); // 'GOX '
+        new DataView(header.buffer).setInt32(4, 2, true);
+        
+        const parts = [header, ...chunks, ...layerChunks];
+        const file = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+        let offset = 0;
+        for (const part of parts) {
+            file.set(part, offset);
+            offset += part.length;
+        }
+        return file.buffer;
+    }
+    
+    /**
+     * Block placements (index, x, y, z, unused) followed by the property dictionary
+     */
+    private createLayerData(layer: GoxLayerInput, layerIndex: number, placements: number[]): Uint8Array {
+        const entries: [string, Uint8Array][] = [];
+        
+        entries.push(['name', new TextEncoder().encode(layer.name.slice(0, 255))]);
+        
+        // Identity transform as 16 floats
+        const matrix = new Float32Array(16);
+        matrix[0] = matrix[5] = matrix[10] = matrix[15] = 1;
+        entries.push(['mat', new Uint8Array(matrix.buffer)]);
+        
+        const id = new Uint8Array(4);
+        new DataView(id.buffer).setInt32(0, layerIndex + 1, true);
+        entries.push(['id', id]);
+        entries.push(['base_id', new Uint8Array(4)]);
+        entries.push(['visible', new Uint8Array([layer.visible ? 1 : 0])]);
+        
+        let size = 4 + placements.length * 4 + 4; // Count, placements, closing empty key
+        for (const [key, value] of entries) {
+            size += 4 + key.length + 4 + value.length;
+        }
+        
+        const data = new Uint8Array(size);
+        const view = new DataView(data.buffer);
+        let offset = 0;
+        
+        view.setInt32(offset, placements.length / 5, true);
+        offset += 4;
+        for (const value of placements) {
+            view.setInt32(offset, value, true);
+            offset += 4;
+        }
+        
+        for (const [key, value] of entries) {
+            view.setInt32(offset, key.length, true);
+            offset += 4;
+            for (let i = 0; i < key.length; i++) {
+                data[offset++] = key.charCodeAt(i);
+            }
+            view.setInt32(offset, value.length, true);
+            offset += 4;
+            data.set(value, offset);
+            offset += value.length;
+        }
+        view.setInt32(offset, 0, true);
+        
+        return data;
+    }
+    
+    /**
+     * Type, length, data and CRC (over type and data)
+     */
+    private createChunk(type: string, data: Uint8Array): Uint8Array {
+        const chunk = new Uint8Array(12 + data.length);
+        const view = new DataView(chunk.buffer);
+        for (let i = 0; i < 4; i++) {
+            chunk[i] = type.charCodeAt(i);
+        }
+        view.setInt32(4, data.length, true);
+        chunk.set(data, 8);
+        view.setUint32(8 + data.length, crc32(data, crc32(chunk.subarray(0, 4))), true);
+        return chunk;
+    }
+}
@@ -0,0 +1,161 @@
+import { VoxelType } from '../types';
+import { ColorRegistry } from '../engine/ColorRegistry';
+import { PngCodec, PngImage } from './PngCodec';
+
+export type ImageImportMode = 'heightmap' | 'pixel-art';
+
+export interface ImageImportOptions {
+    mode: ImageImportMode;
+    // Heightmap: height of white pixels, black pixels are one voxel high
+    maxHeight: number;
+    // Heightmap: voxels of dirt under the grass before stone starts
+    dirtDepth: number;
+    // Pixel art: standing up in the XY plane, or lying flat on the ground
+    orientation: 'upright' | 'flat';
+    // Pixel art: how many voxels thick the image is extruded
+    depth: number;
+}
+
+export const DEFAULT_IMAGE_IMPORT_OPTIONS: ImageImportOptions = {
+    mode: 'heightmap',
+    maxHeight: 32,
+    dirtDepth: 3,
+    orientation: 'upright',
+    depth: 1
+};
+
+// Larger images make more voxels than the editor handles comfortably
+export const MAX_IMAGE_SIZE = 512;
+
+// Pixels more transparent than this are left empty
+const ALPHA_THRESHOLD = 128;
+
+/**
+ * Turns images into voxels, either as a heightmap (brightness is terrain
+ * height) or as pixel art (one voxel per pixel, in the pixel's color)
+ */
+export class ImageVoxelizer {
+    /**
+     * Decode a PNG or JPEG file. PNG is decoded without the DOM; other
+     * formats need the browser's image decoder.
+     */
+    async decodeImage(buffer: ArrayBuffer, mimeType: string): Promise<PngImage> {
+        const bytes = new Uint8Array(buffer);
+        const image = mimeType === 'image/png'
+            ? await PngCodec.decode(bytes)
+            : await this.decodeWithBrowser(bytes, mimeType);
+        
+        if (image.width > MAX_IMAGE_SIZE || image.height > MAX_IMAGE_SIZE) {
+            throw new Error(`Image is too large (${image.width}x${image.height}), the limit is ${MAX_IMAGE_SIZE}x${MAX_IMAGE_SIZE}`);
+        }
+        return image;
+    }
+    
+    /**
+     * Whether every pixel is a shade of gray - a hint that the image is a heightmap
+     */
+    isGrayscale(image: PngImage): boolean {
+        const data = image.data;
+        for (let i = 0; i < data.length; i += 4) {
+            if (data[i] !== data[i + 1] || data[i] !== data[i + 2]) {
+                return false;
+            }
+        }
+        return true;
+    }
+    
+    /**
+     * Convert an image using the given mode
+     */
+    convertToVoxels(image: PngImage, options: ImageImportOptions): Map<string, VoxelType> {
+        return options.mode === 'heightmap'
+            ? this.createHeightmap(image, options)
+            : this.createPixelArt(image, options);
+    }
+    
+    /**
+     * Each pixel becomes a solid column on the XZ plane (image top at z = 0).
+     * The top voxel is grass, then dirtDepth voxels of dirt, then stone.
+     * Transparent pixels are left empty.
+     */
+    createHeightmap(image: PngImage, options: ImageImportOptions): Map<string, VoxelType> {
+        const voxels = new Map<string, VoxelType>();
+        const maxHeight = Math.max(1, Math.floor(options.maxHeight));
+        const dirtDepth = Math.max(0, Math.floor(options.dirtDepth));
+        
+        for (let row = 0; row < image.height; row++) {
+            for (let x = 0; x < image.width; x++) {
+                const i = (row * image.width + x) * 4;
+                if (image.data[i + 3] < ALPHA_THRESHOLD) continue;
+                
+                // Perceived brightness, 0-1
+                const luminance = (0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2]) / 255;
+                const height = 1 + Math.round(luminance * (maxHeight - 1));
+                
+                for (let y = 0; y < height; y++) {
+                    const depth = height - 1 - y;
+                    const type = depth === 0 ? VoxelType.GRASS
+                        : depth <= dirtDepth ? VoxelType.DIRT
+                        : VoxelType.STONE;
+                    voxels.set(`${x},${y},${row}`, type);
+                }
+            }
+        }
+        
+        return voxels;
+    }
+    
+    /**
+     * One voxel per opaque pixel, extruded depth voxels thick. Upright images
+     * stand on y = 0 facing +Z; flat ones lie on y = 0 with the image top at z = 0.
+     */
+    createPixelArt(image: PngImage, options: ImageImportOptions): Map<string, VoxelType> {
+        const voxels = new Map<string, VoxelType>();
+        const colorRegistry = ColorRegistry.getInstance();
+        const depth = Math.max(1, Math.floor(options.depth));
+        const typeByColor = new Map<number, VoxelType>();
+        
+        for (let row = 0; row < image.height; row++) {
+            for (let x = 0; x < image.width; x++) {
+                const i = (row * image.width + x) * 4;
+                if (image.data[i + 3] < ALPHA_THRESHOLD) continue;
+                
+                const rgb = (image.data[i] << 16) | (image.data[i + 1] << 8) | image.data[i + 2];
+                let type = typeByColor.get(rgb);
+                if (type === undefined) {
+                    const hex = '#' + rgb.toString(16).padStart(6, '0').toUpperCase();
+                    // Out of custom color slots: use the nearest existing color
+                    type = colorRegistry.getOrCreateVoxelType(hex) ?? colorRegistry.findClosestVoxelType(hex);
+                    typeByColor.set(rgb, type);
+                }
+                
+                for (let d = 0; d < depth; d++) {
+                    const key = options.orientation === 'upright'
+                        ? `${x},${image.height - 1 - row},${-d}`
+                        : `${x},${d},${row}`;
+                    voxels.set(key, type);
+                }
+            }
+        }
+        
+        return voxels;
+    }
+    
+    private async decodeWithBrowser(bytes: Uint8Array, mimeType: string): Promise<PngImage> {
+        if (typeof createImageBitmap === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+            throw new Error(`Decoding ${mimeType} images needs a browser, only PNG is supported here`);
+        }
+        
+        const bitmap = await createImageBitmap(new Blob([bytes], { type: mimeType }));
+        const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('Could not create a canvas to decode the image');
+        }
+        context.drawImage(bitmap, 0, 0);
+        bitmap.close();
+        
+        const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+        return { width: imageData.width, height: imageData.height, data: imageData.data };
+    }
+}
@@ -0,0 +1,159 @@
+/**
+ * Reader for Minecraft's NBT (Named Binary Tag) format, big-endian as used
+ * by schematic files. Compounds become plain objects, lists become arrays,
+ * longs become bigints and the array tags become typed arrays.
+ */
+
+export type NbtValue =
+    | number
+    | bigint
+    | string
+    | Int8Array
+    | Int32Array
+    | BigInt64Array
+    | NbtValue[]
+    | NbtCompound;
+
+export interface NbtCompound {
+    [name: string]: NbtValue;
+}
+
+const TAG_END = 0;
+const TAG_BYTE = 1;
+const TAG_SHORT = 2;
+const TAG_INT = 3;
+const TAG_LONG = 4;
+const TAG_FLOAT = 5;
+const TAG_DOUBLE = 6;
+const TAG_BYTE_ARRAY = 7;
+const TAG_STRING = 8;
+const TAG_LIST = 9;
+const TAG_COMPOUND = 10;
+const TAG_INT_ARRAY = 11;
+const TAG_LONG_ARRAY = 12;
+
+export class NbtReader {
+    private view: DataView;
+    private bytes: Uint8Array;
+    private offset: number = 0;
+    private decoder = new TextDecoder();
+    
+    constructor(bytes: Uint8Array) {
+        this.bytes = bytes;
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+    
+    /**
+     * Read the root tag, which must be a compound. Its name is returned separately.
+     */
+    readRoot(): { name: string; value: NbtCompound } {
+        const type = this.readUint8();
+        if (type !== TAG_COMPOUND) {
+            throw new Error('Invalid NBT data: root tag is not a compound');
+        }
+        const name = this.readString();
+        return { name, value: this.readCompound(0) };
+    }
+    
+    private readPayload(type: number, depth: number): NbtValue {
+        // Guard against hostile nesting
+        if (depth > 512) {
+            throw new Error('Invalid NBT data: nested too deeply');
+        }
+        
+        switch (type) {
+            case TAG_BYTE:
+                return this.view.getInt8(this.advance(1));
+            case TAG_SHORT:
+                return this.view.getInt16(this.advance(2));
+            case TAG_INT:
+                return this.view.getInt32(this.advance(4));
+            case TAG_LONG:
+                return this.view.getBigInt64(this.advance(8));
+            case TAG_FLOAT:
+                return this.view.getFloat32(this.advance(4));
+            case TAG_DOUBLE:
+                return this.view.getFloat64(this.advance(8));
+            case TAG_BYTE_ARRAY: {
+                const length = this.readLength();
+                const start = this.advance(length);
+                return new Int8Array(this.bytes.buffer.slice(this.bytes.byteOffset + start, this.bytes.byteOffset + start + length));
+            }
+            case TAG_STRING:
+                return this.readString();
+            case TAG_LIST: {
+                const elementType = this.readUint8();
+                const length = this.view.getInt32(this.advance(4));
+                const list: NbtValue[] = [];
+                for (let i = 0; i < length; i++) {
+                    list.push(this.readPayload(elementType, depth + 1));
+                }
+                return list;
+            }
+            case TAG_COMPOUND:
+                return this.readCompound(depth + 1);
+            case TAG_INT_ARRAY: {
+                const length = this.readLength(4);
+                const array = new Int32Array(length);
+                for (let i = 0; i < length; i++) {
+                    array[i] = this.view.getInt32(this.advance(4));
+                }
+                return array;
+            }
+            case TAG_LONG_ARRAY: {
+                const length = this.readLength(8);
+                const array = new BigInt64Array(length);
+                for (let i = 0; i < length; i++) {
+                    array[i] = this.view.getBigInt64(this.advance(8));
+                }
+                return array;
+            }
+            default:
+                throw new Error(`Invalid NBT data: unknown tag type ${type}`);
+        }
+    }
+    
+    private readCompound(depth: number): NbtCompound {
+        const compound: NbtCompound = {};
+        while (true) {
+            const type = this.readUint8();
+            if (type === TAG_END) break;
+            const name = this.readString();
+            compound[name] = this.readPayload(type, depth);
+        }
+        return compound;
+    }
+    
+    private readString(): string {
+        const length = this.view.getUint16(this.advance(2));
+        const start = this.advance(length);
+        return this.decoder.decode(this.bytes.subarray(start, start + length));
+    }
+    
+    private readUint8(): number {
+        return this.view.getUint8(this.advance(1));
+    }
+    
+    /**
+     * Read an array length and check the elements fit in the remaining data
+     */
+    private readLength(elementSize: number = 1): number {
+        const length = this.view.getInt32(this.advance(4));
+        if (length < 0 || this.offset + length * elementSize > this.bytes.length) {
+            throw new Error('Invalid NBT data: array runs past the end of the data');
+        }
+        return length;
+    }
+    
+    /**
+     * Move past a value of the given size, returning where it starts
+     */
+    private advance(size: number): number {
+        const start = this.offset;
+        if (start + size > this.bytes.length) {
+            throw new Error('Invalid NBT data: unexpected end of data');
+        }
+        this.offset += size;
+        return start;
+    }
+}
@@ -0,0 +1,146 @@
+import { VoxelType } from '../types';
+import { collectBakedQuads, formatCoordinate, BakedQuad } from './BakedQuads';
+
+/**
+ * Wavefront OBJ + MTL writer
+ * Each layer becomes an OBJ object built from the greedy-meshed quads,
+ * with one MTL material per voxel color
+ */
+
+export interface ObjLayer {
+    name: string;
+    voxels: Map<string, VoxelType>;
+}
+
+export interface ObjExportOptions {
+    // Size of one voxel in output units
+    voxelSize?: number;
+    // Share vertices between faces that meet at the same position
+    mergeVertices?: boolean;
+}
+
+export class ObjWriter {
+    /**
+     * Create OBJ and MTL file contents. The OBJ references the MTL by mtlFileName.
+     */
+    createObjFile(layers: ObjLayer[], mtlFileName: string, options: ObjExportOptions = {}): { obj: string; mtl: string } {
+        const voxelSize = options.voxelSize ?? 0.1;
+        const mergeVertices = options.mergeVertices ?? true;
+        
+        const objLines: string[] = [
+            '# NeverEverLand v007 OBJ export',
+            `mtllib ${mtlFileName}`
+        ];
+        const mtlLines: string[] = ['# NeverEverLand v007 MTL export'];
+        
+        // Faces are axis aligned, so six shared normals cover everything
+        const normalIndices = new Map<string, number>();
+        for (const normal of [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]]) {
+            normalIndices.set(normal.join(','), normalIndices.size + 1);
+            objLines.push(`vn ${normal.join(' ')}`);
+        }
+        
+        const vertexIndices = new Map<string, number>();
+        const materialNames = new Map<string, string>();
+        let vertexCount = 0;
+        
+        for (const layer of layers) {
+            const quads = collectBakedQuads(layer.voxels);
+            if (quads.length === 0) continue;
+            
+            objLines.push(`o ${this.sanitizeName(layer.name)}`);
+            
+            // Group faces by material so each usemtl is written once per object
+            const quadsByMaterial = new Map<string, BakedQuad[]>();
+            for (const quad of quads) {
+                const key = this.getMaterialKey(quad);
+                if (!materialNames.has(key)) {
+                    const name = this.getMaterialName(quad, new Set(materialNames.values()));
+                    materialNames.set(key, name);
+                    mtlLines.push(...this.createMaterial(name, quad));
+                }
+                
+                const group = quadsByMaterial.get(key);
+                if (group) group.push(quad);
+                else quadsByMaterial.set(key, [quad]);
+            }
+            
+            for (const [key, group] of quadsByMaterial) {
+                objLines.push(`usemtl ${materialNames.get(key)}`);
+                
+                for (const quad of group) {
+                    const normalIndex = normalIndices.get(quad.normal.join(','));
+                    const face: string[] = [];
+                    
+                    for (const corner of quad.corners) {
+                        const positionKey = corner.join(',');
+                        let index = mergeVertices ? vertexIndices.get(positionKey) : undefined;
+                        if (index === undefined) {
+                            objLines.push(`v ${corner.map(c => formatCoordinate(c, voxelSize)).join(' ')}`);
+                            index = ++vertexCount;
+                            if (mergeVertices) vertexIndices.set(positionKey, index);
+                        }
+                        face.push(`${index}//${normalIndex}`);
+                    }
+                    
+                    objLines.push(`f ${face.join(' ')}`);
+                }
+            }
+        }
+        
+        return {
+            obj: objLines.join('\n') + '\n',
+            mtl: mtlLines.join('\n') + '\n'
+        };
+    }
+    
+    /**
+     * Key identifying a distinct material
+     */
+    private getMaterialKey(quad: BakedQuad): string {
+        return `${quad.color.getHexString()}|${quad.roughness}|${quad.metalness}|${quad.emissive}|${quad.opacity}`;
+    }
+    
+    /**
+     * Name materials after their color; colors with several materials get a suffix
+     */
+    private getMaterialName(quad: BakedQuad, usedNames: Set<string>): string {
+        const baseName = `voxel_${quad.color.getHexString()}`;
+        let name = baseName;
+        for (let suffix = 1; usedNames.has(name); suffix++) {
+            name = `${baseName}_${suffix}`;
+        }
+        return name;
+    }
+    
+    /**
+     * MTL definition for a material, including the common PBR extension keys
+     */
+    private createMaterial(name: string, quad: BakedQuad): string[] {
+        // MTL colors are written in sRGB
+        const srgb = quad.color.clone().convertLinearToSRGB();
+        const rgb = [srgb.r, srgb.g, srgb.b].map(c => c.toFixed(6)).join(' ');
+        const emissive = [srgb.r, srgb.g, srgb.b].map(c => (c * quad.emissive).toFixed(6)).join(' ');
+        
+        return [
+            '',
+            `newmtl ${name}`,
+            'Ka 0.000000 0.000000 0.000000',
+            `Kd ${rgb}`,
+            'Ks 0.000000 0.000000 0.000000',
+            `Ke ${emissive}`,
+            `Ns ${((1 - quad.roughness) * 1000).toFixed(1)}`,
+            `d ${quad.opacity.toFixed(6)}`,
+            `Pr ${quad.roughness.toFixed(6)}`,
+            `Pm ${quad.metalness.toFixed(6)}`,
+            'illum 2'
+        ];
+    }
+    
+    /**
+     * OBJ names can't contain whitespace
+     */
+    private sanitizeName(name: string): string {
+        return name.trim().replace(/\s+/g, '_') || 'Layer';
+    }
+}
@@ -0,0 +1,328 @@
+import { compressBytes, decompressBytes, crc32 } from './Compression';
+
+/**
+ * Decoded image as 8-bit RGBA, row by row from the top
+ */
+export interface PngImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+    // tEXt chunks, keyword -> text
+    text?: Record<string, string>;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+// Samples per pixel for each PNG color type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Minimal PNG reader/writer that works without a DOM (no canvas),
+ * so embedded images (Goxel blocks, slice stacks) also decode headless.
+ * Reads non-interlaced images of any color type at 8 or 16 bits per sample
+ * (16-bit samples are reduced to 8 bits) and palette images at 1-8 bits.
+ * Always writes 8-bit RGBA, still or animated (APNG). Text chunks are read
+ * and written as metadata.
+ */
+export class PngCodec {
+    /**
+     * Decode a PNG file to RGBA pixels
+     */
+    static async decode(bytes: Uint8Array): Promise<PngImage> {
+        for (let i = 0; i < PNG_SIGNATURE.length; i++) {
+            if (bytes[i] !== PNG_SIGNATURE[i]) {
+                throw new Error('Invalid PNG file: incorrect signature');
+            }
+        }
+        
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        let offset = 8;
+        let width = 0;
+        let height = 0;
+        let bitDepth = 0;
+        let colorType = 0;
+        let palette: Uint8Array | null = null;
+        let transparency: Uint8Array | null = null;
+        const idat: Uint8Array[] = [];
+        const text: Record<string, string> = {};
+        
+        while (offset + 8 <= bytes.length) {
+            const length = view.getUint32(offset);
+            const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+            const data = bytes.subarray(offset + 8, offset + 8 + length);
+            offset += 12 + length;
+            
+            if (type === 'IHDR') {
+                const header = new DataView(data.buffer, data.byteOffset, data.byteLength);
+                width = header.getUint32(0);
+                height = header.getUint32(4);
+                bitDepth = data[8];
+                colorType = data[9];
+                if (data[12] !== 0) {
+                    throw new Error('Interlaced PNG images are not supported');
+                }
+            } else if (type === 'PLTE') {
+                palette = data;
+            } else if (type === 'tRNS') {
+                transparency = data;
+            } else if (type === 'tEXt') {
+                // Latin-1 keyword, null separator, Latin-1 text
+                const separator = data.indexOf(0);
+                if (separator > 0) {
+                    text[String.fromCharCode(...data.subarray(0, separator))] =
+                        new TextDecoder('latin1').decode(data.subarray(separator + 1));
+                }
+            } else if (type === 'IDAT') {
+                idat.push(data);
+            } else if (type === 'IEND') {
+                break;
+            }
+        }
+        
+        const channels = CHANNELS[colorType];
+        if (!width || !height || channels === undefined) {
+            throw new Error('Invalid PNG file: missing or unsupported header');
+        }
+        if (colorType === 3 ? ![1, 2, 4, 8].includes(bitDepth) : bitDepth !== 8 && bitDepth !== 16) {
+            throw new Error(`Unsupported PNG bit depth ${bitDepth} for color type ${colorType}`);
+        }
+        
+        const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0));
+        let position = 0;
+        for (const chunk of idat) {
+            compressed.set(chunk, position);
+            position += chunk.length;
+        }
+        
+        const raw = await decompressBytes(compressed);
+        const bitsPerPixel = channels * bitDepth;
+        const stride = Math.ceil(width * bitsPerPixel / 8);
+        const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+        const pixels = PngCodec.unfilter(raw, height, stride, bytesPerPixel);
+        
+        const data = new Uint8ClampedArray(width * height * 4);
+        const sampleAt = (row: number, index: number): number => {
+            // Index counts samples within the row; 16-bit samples use their high byte
+            if (bitDepth === 16) return pixels[row * stride + index * 2];
+            if (bitDepth === 8) return pixels[row * stride + index];
+            const bit = index * bitDepth;
+            const byte = pixels[row * stride + (bit >> 3)];
+            return (byte >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+        };
+        
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const out = (y * width + x) * 4;
+                const s = x * channels;
+                
+                switch (colorType) {
+                    case 0:
+                        data[out] = data[out + 1] = data[out + 2] = sampleAt(y, s);
+                        data[out + 3] = 255;
+                        break;
+                    case 2:
+                        data[out] = sampleAt(y, s);
+                        data[out + 1] = sampleAt(y, s + 1);
+                        data[out + 2] = sampleAt(y, s + 2);
+                        data[out + 3] = 255;
+                        break;
+                    case 3: {
+                        const index = sampleAt(y, s);
+                        data[out] = palette?.[index * 3] ?? 0;
+                        data[out + 1] = palette?.[index * 3 + 1] ?? 0;
+                        data[out + 2] = palette?.[index * 3 + 2] ?? 0;
+                        data[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+                        break;
+                    }
+                    case 4:
+                        data[out] = data[out + 1] = data[out + 2] = sampleAt(y, s);
+                        data[out + 3] = sampleAt(y, s + 1);
+                        break;
+                    case 6:
+                        data[out] = sampleAt(y, s);
+                        data[out + 1] = sampleAt(y, s + 1);
+                        data[out + 2] = sampleAt(y, s + 2);
+                        data[out + 3] = sampleAt(y, s + 3);
+                        break;
+                }
+            }
+        }
+        
+        return Object.keys(text).length > 0 ? { width, height, data, text } : { width, height, data };
+    }
+    
+    /**
+     * Encode RGBA pixels as an 8-bit RGBA PNG file
+     */
+    static async encode(image: PngImage): Promise<Uint8Array> {
+        const textChunks = Object.entries(image.text ?? {}).map(([keyword, value]) => {
+            const chunk = new Uint8Array(keyword.length + 1 + value.length);
+            for (let i = 0; i < keyword.length; i++) {
+                chunk[i] = keyword.charCodeAt(i);
+            }
+            for (let i = 0; i < value.length; i++) {
+                chunk[keyword.length + 1 + i] = value.charCodeAt(i);
+            }
+            return PngCodec.createChunk('tEXt', chunk);
+        });
+        
+        return PngCodec.joinChunks([
+            PngCodec.createHeader(image.width, image.height),
+            ...textChunks,
+            PngCodec.createChunk('IDAT', await PngCodec.compressPixels(image)),
+            PngCodec.createChunk('IEND', new Uint8Array(0))
+        ]);
+    }
+    
+    /**
+     * Encode equally sized frames as an animated PNG (APNG) that loops
+     * forever, each frame shown for delayMs. Viewers without APNG support
+     * show the first frame.
+     */
+    static async encodeAnimated(frames: PngImage[], delayMs: number): Promise<Uint8Array> {
+        if (frames.length === 0) {
+            throw new Error('Cannot encode an animated PNG without frames');
+        }
+        const { width, height } = frames[0];
+        if (frames.some(frame => frame.width !== width || frame.height !== height)) {
+            throw new Error('All animation frames must have the same size');
+        }
+        
+        // acTL: frame count, then 0 plays for an endless loop
+        const animationControl = new Uint8Array(8);
+        new DataView(animationControl.buffer).setUint32(0, frames.length);
+        
+        const chunks = [PngCodec.createHeader(width, height), PngCodec.createChunk('acTL', animationControl)];
+        // fcTL and fdAT chunks share one sequence
+        let sequence = 0;
+        for (let i = 0; i < frames.length; i++) {
+            // Full-frame region, delay in milliseconds, no dispose, replace pixels
+            const frameControl = new Uint8Array(26);
+            const view = new DataView(frameControl.buffer);
+            view.setUint32(0, sequence++);
+            view.setUint32(4, width);
+            view.setUint32(8, height);
+            view.setUint16(20, Math.min(Math.round(delayMs), 0xFFFF));
+            view.setUint16(22, 1000);
+            chunks.push(PngCodec.createChunk('fcTL', frameControl));
+            
+            const compressed = await PngCodec.compressPixels(frames[i]);
+            if (i === 0) {
+                // The first frame doubles as the still image
+                chunks.push(PngCodec.createChunk('IDAT', compressed));
+            } else {
+                const frameData = new Uint8Array(4 + compressed.length);
+                new DataView(frameData.buffer).setUint32(0, sequence++);
+                frameData.set(compressed, 4);
+                chunks.push(PngCodec.createChunk('fdAT', frameData));
+            }
+        }
+        chunks.push(PngCodec.createChunk('IEND', new Uint8Array(0)));
+        
+        return PngCodec.joinChunks(chunks);
+    }
+    
+    /**
+     * IHDR for 8-bit RGBA
+     */
+    private static createHeader(width: number, height: number): Uint8Array {
+        const header = new Uint8Array(13);
+        const headerView = new DataView(header.buffer);
+        headerView.setUint32(0, width);
+        headerView.setUint32(4, height);
+        header[8] = 8; // Bit depth
+        header[9] = 6; // RGBA
+        return PngCodec.createChunk('IHDR', header);
+    }
+    
+    /**
+     * Filter and compress RGBA rows for IDAT or fdAT
+     */
+    private static async compressPixels(image: PngImage): Promise<Uint8Array> {
+        const { width, height, data } = image;
+        const stride = width * 4;
+        
+        // Filter type 0 (none) for every row - the image data here is mostly flat color
+        const raw = new Uint8Array((stride + 1) * height);
+        for (let y = 0; y < height; y++) {
+            raw[y * (stride + 1)] = 0;
+            raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+        }
+        return compressBytes(raw);
+    }
+    
+    /**
+     * Signature followed by the chunks
+     */
+    private static joinChunks(chunks: Uint8Array[]): Uint8Array {
+        const file = new Uint8Array(8 + chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+        file.set(PNG_SIGNATURE, 0);
+        let offset = 8;
+        for (const chunk of chunks) {
+            file.set(chunk, offset);
+            offset += chunk.length;
+        }
+        return file;
+    }
+    
+    /**
+     * Length, type, data and CRC (over type and data)
+     */
+    private static createChunk(type: string, data: Uint8Array): Uint8Array {
+        const chunk = new Uint8Array(12 + data.length);
+        const view = new DataView(chunk.buffer);
+        view.setUint32(0, data.length);
+        for (let i = 0; i < 4; i++) {
+            chunk[4 + i] = type.charCodeAt(i);
+        }
+        chunk.set(data, 8);
+        view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+        return chunk;
+    }
+    
+    /**
+     * Reverse the per-row filters (None, Sub, Up, Average, Paeth)
+     */
+    private static unfilter(raw: Uint8Array, height: number, stride: number, bytesPerPixel: number): Uint8Array {
+        if (raw.length < height * (stride + 1)) {
+            throw new Error('Invalid PNG file: image data is truncated');
+        }
+        
+        const pixels = new Uint8Array(height * stride);
+        
+        for (let y = 0; y < height; y++) {
+            const filter = raw[y * (stride + 1)];
+            const source = y * (stride + 1) + 1;
+            const row = y * stride;
+            const previous = row - stride;
+            
+            for (let i = 0; i < stride; i++) {
+                const left = i >= bytesPerPixel ? pixels[row + i - bytesPerPixel] : 0;
+                const up = y > 0 ? pixels[previous + i] : 0;
+                const upLeft = y > 0 && i >= bytesPerPixel ? pixels[previous + i - bytesPerPixel] : 0;
+                let predictor: number;
+                
+                switch (filter) {
+                    case 0: predictor = 0; break;
+                    case 1: predictor = left; break;
+                    case 2: predictor = up; break;
+                    case 3: predictor = (left + up) >> 1; break;
+                    case 4: {
+                        const p = left + up - upLeft;
+                        const pa = Math.abs(p - left);
+                        const pb = Math.abs(p - up);
+                        const pc = Math.abs(p - upLeft);
+                        predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+                        break;
+                    }
+                    default:
+                        throw new Error(`Invalid PNG file: unknown filter type ${filter}`);
+                }
+                
+                pixels[row + i] = (raw[source + i] + predictor) & 0xFF;
+            }
+        }
+        
+        return pixels;
+    }
+}
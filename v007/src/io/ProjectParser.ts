@@ -0,0 +1,286 @@
+import { VoxelType, VoxelMaterial } from '../types';
+import { VoxelChunk, buildChunks, CHUNK_VOLUME } from '../engine/VoxelChunk';
+import { AssetData } from '../assets/types';
+import { SceneValidator, SceneIssue } from './SceneSchema';
+
+/**
+ * NeverEverLand project file (.nel) parser
+ *
+ * Binary container, little endian:
+ *   'NELP' magic, uint32 format version, then chunks of
+ *   4-char id, uint32 byte length, payload
+ *
+ * Chunks:
+ *   META  JSON project properties (voxel size, active layer, timestamp)
+ *   PALT  palette: uint32 count, then per entry uint16 type, r, g, b bytes,
+ *         uint32 length + JSON material (0 length when none)
+ *   LAYR  one per layer: uint32 length + JSON layer properties, then voxel chunks
+ *   ASET  one per embedded user asset: uint32 length + JSON asset info, then voxel chunks
+ *   THMB  PNG thumbnail bytes
+ *
+ * Voxel chunks: uint32 count, then per chunk int32 cx, cy, cz, uint32 run count
+ * and (uint16 length, uint16 type) runs covering the chunk's 16x16x16 cells.
+ * Unknown chunks are skipped so older readers can open newer files.
+ *
+ * JSON scenes (see SceneSchema) are validated and converted to the same ProjectData.
+ */
+
+export const PROJECT_MAGIC = 'NELP';
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = 'nel';
+
+export interface ProjectLayer {
+    id: string;
+    name: string;
+    visible: boolean;
+    opacity: number;
+    locked: boolean;
+    isEditingAsset: boolean;
+    editingAssetId?: string;
+    editingAssetType?: VoxelType;
+    // Rebaked on load
+    isBaked?: boolean;
+    chunks: VoxelChunk[];
+}
+
+export interface ProjectPaletteEntry {
+    type: VoxelType;
+    color: string;
+    material: VoxelMaterial | null;
+}
+
+export interface ProjectData {
+    version: number;
+    timestamp: number;
+    voxelSize: number;
+    activeLayerId: string | null;
+    layers: ProjectLayer[];
+    palette: ProjectPaletteEntry[];
+    assets: AssetData[];
+    thumbnail: Uint8Array | null;
+}
+
+export class ProjectParser {
+    private view: DataView | null = null;
+    private offset: number = 0;
+    
+    /**
+     * Check whether a buffer starts with the project magic number
+     */
+    static isProjectFile(buffer: ArrayBuffer): boolean {
+        if (buffer.byteLength < 8) return false;
+        const bytes = new Uint8Array(buffer, 0, 4);
+        return String.fromCharCode(...bytes) === PROJECT_MAGIC;
+    }
+    
+    /**
+     * Parse a binary project file
+     */
+    parseProjectFile(buffer: ArrayBuffer): ProjectData {
+        this.view = new DataView(buffer);
+        this.offset = 0;
+        
+        if (this.readTag() !== PROJECT_MAGIC) {
+            throw new Error('Invalid project file: incorrect magic number');
+        }
+        
+        const version = this.readUint32();
+        if (version > PROJECT_VERSION) {
+            throw new Error(`Project file version ${version} is newer than this editor supports (${PROJECT_VERSION})`);
+        }
+        
+        const project: ProjectData = {
+            version,
+            timestamp: Date.now(),
+            voxelSize: 0.1,
+            activeLayerId: null,
+            layers: [],
+            palette: [],
+            assets: [],
+            thumbnail: null
+        };
+        
+        while (this.offset < buffer.byteLength) {
+            const id = this.readTag();
+            const length = this.readUint32();
+            const end = this.offset + length;
+            if (end > buffer.byteLength) {
+                throw new Error(`Invalid project file: chunk ${id} overruns file`);
+            }
+            
+            switch (id) {
+                case 'META': {
+                    const meta = this.readJson(length);
+                    project.timestamp = meta.timestamp ?? project.timestamp;
+                    project.voxelSize = meta.voxelSize ?? project.voxelSize;
+                    project.activeLayerId = meta.activeLayerId ?? null;
+                    break;
+                }
+                
+                case 'PALT':
+                    project.palette = this.readPalette();
+                    break;
+                
+                case 'LAYR': {
+                    const properties = this.readJson(this.readUint32());
+                    project.layers.push({
+                        id: properties.id,
+                        name: properties.name,
+                        visible: properties.visible ?? true,
+                        opacity: properties.opacity ?? 1,
+                        locked: properties.locked ?? false,
+                        isEditingAsset: properties.isEditingAsset ?? false,
+                        editingAssetId: properties.editingAssetId,
+                        editingAssetType: properties.editingAssetType,
+                        isBaked: properties.isBaked ?? false,
+                        chunks: this.readChunks()
+                    });
+                    break;
+                }
+                
+                case 'ASET': {
+                    const info = this.readJson(this.readUint32());
+                    const voxelData = new Map<string, VoxelType>();
+                    for (const chunk of this.readChunks()) {
+                        chunk.forEachVoxel((x, y, z, type) => voxelData.set(`${x},${y},${z}`, type));
+                    }
+                    project.assets.push({
+                        ...info,
+                        created: info.created ? new Date(info.created) : undefined,
+                        modified: info.modified ? new Date(info.modified) : undefined,
+                        voxelData
+                    });
+                    break;
+                }
+                
+                case 'THMB':
+                    project.thumbnail = new Uint8Array(buffer.slice(this.offset, end));
+                    break;
+                
+                default:
+                    console.log(`Skipping unknown project chunk: ${id}`);
+            }
+            
+            this.offset = end;
+        }
+        
+        return project;
+    }
+    
+    /**
+     * Migrate and validate a JSON scene (any known version) and convert it to
+     * ProjectData. Throws SceneValidationError when nothing can be loaded;
+     * otherwise issues lists what was skipped or replaced by a default.
+     */
+    parseJsonProject(data: unknown): { project: ProjectData; issues: SceneIssue[] } {
+        const { scene, issues } = new SceneValidator().validate(data);
+        
+        const project: ProjectData = {
+            version: PROJECT_VERSION,
+            timestamp: scene.timestamp,
+            voxelSize: scene.voxelSize,
+            activeLayerId: scene.activeLayerId,
+            layers: scene.layers.map(layer => ({
+                id: layer.id,
+                name: layer.name,
+                visible: layer.visible,
+                opacity: layer.opacity,
+                locked: layer.locked,
+                isEditingAsset: false,
+                isBaked: layer.isBaked,
+                chunks: buildChunks(this.flattenTypedPositions(layer.voxels))
+            })),
+            palette: scene.palette,
+            assets: [],
+            thumbnail: null
+        };
+        
+        return { project, issues };
+    }
+    
+    /**
+     * Expand validated { [type]: ["x,y,z", ...] } into position/type pairs
+     */
+    private *flattenTypedPositions(voxels: Record<string, string[]>): Generator<[string, VoxelType]> {
+        for (const [typeStr, positions] of Object.entries(voxels)) {
+            const type = Number(typeStr) as VoxelType;
+            for (const posKey of positions) yield [posKey, type];
+        }
+    }
+    
+    private readPalette(): ProjectPaletteEntry[] {
+        const count = this.readUint32();
+        const palette: ProjectPaletteEntry[] = [];
+        
+        for (let i = 0; i < count; i++) {
+            const type = this.view!.getUint16(this.offset, true) as VoxelType;
+            const color = '#' + [2, 3, 4]
+                .map(o => this.view!.getUint8(this.offset + o).toString(16).padStart(2, '0'))
+                .join('')
+                .toUpperCase();
+            this.offset += 5;
+            
+            const materialLength = this.readUint32();
+            const material = materialLength > 0 ? this.readJson(materialLength) : null;
+            palette.push({ type, color, material });
+        }
+        
+        return palette;
+    }
+    
+    private readChunks(): VoxelChunk[] {
+        const count = this.readUint32();
+        const chunks: VoxelChunk[] = [];
+        
+        for (let i = 0; i < count; i++) {
+            const cx = this.readInt32();
+            const cy = this.readInt32();
+            const cz = this.readInt32();
+            const runCount = this.readUint32();
+            
+            const data = new Uint16Array(CHUNK_VOLUME);
+            let index = 0;
+            for (let r = 0; r < runCount; r++) {
+                const length = this.view!.getUint16(this.offset, true);
+                const type = this.view!.getUint16(this.offset + 2, true);
+                this.offset += 4;
+                
+                if (index + length > CHUNK_VOLUME) {
+                    throw new Error(`Invalid project file: chunk ${cx},${cy},${cz} has too many voxels`);
+                }
+                data.fill(type, index, index + length);
+                index += length;
+            }
+            
+            chunks.push(new VoxelChunk(cx, cy, cz, data));
+        }
+        
+        return chunks;
+    }
+    
+    private readJson(length: number): any {
+        const bytes = new Uint8Array(this.view!.buffer, this.view!.byteOffset + this.offset, length);
+        this.offset += length;
+        return JSON.parse(new TextDecoder().decode(bytes));
+    }
+    
+    private readTag(): string {
+        let tag = '';
+        for (let i = 0; i < 4; i++) {
+            tag += String.fromCharCode(this.view!.getUint8(this.offset++));
+        }
+        return tag;
+    }
+    
+    private readUint32(): number {
+        const value = this.view!.getUint32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+    
+    private readInt32(): number {
+        const value = this.view!.getInt32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+}
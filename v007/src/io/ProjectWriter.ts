@@ -0,0 +1,147 @@
+import { VoxelChunk, CHUNK_VOLUME, buildChunks } from '../engine/VoxelChunk';
+import { ProjectData, PROJECT_MAGIC, PROJECT_VERSION } from './ProjectParser';
+
+/**
+ * NeverEverLand project file (.nel) writer
+ * See ProjectParser for the layout
+ */
+export class ProjectWriter {
+    private parts: Uint8Array[] = [];
+    private byteLength: number = 0;
+    
+    /**
+     * Create a binary project file
+     */
+    createProjectFile(project: Omit<ProjectData, 'version'>): ArrayBuffer {
+        this.parts = [];
+        this.byteLength = 0;
+        
+        this.writeTag(PROJECT_MAGIC);
+        this.writeUint32(PROJECT_VERSION);
+        
+        this.writeChunk('META', () => this.writeJson({
+            timestamp: project.timestamp,
+            voxelSize: project.voxelSize,
+            activeLayerId: project.activeLayerId,
+            format: 'NeverEverLand v007'
+        }));
+        
+        this.writeChunk('PALT', () => {
+            this.writeUint32(project.palette.length);
+            for (const entry of project.palette) {
+                const rgb = parseInt(entry.color.slice(1), 16);
+                this.writeUint16(entry.type);
+                this.writeBytes(new Uint8Array([(rgb >> 16) & 0xFF, (rgb >> 8) & 0xFF, rgb & 0xFF]));
+                if (entry.material) {
+                    this.writeSizedJson(entry.material);
+                } else {
+                    this.writeUint32(0);
+                }
+            }
+        });
+        
+        for (const layer of project.layers) {
+            this.writeChunk('LAYR', () => {
+                const { chunks, ...properties } = layer;
+                this.writeSizedJson(properties);
+                this.writeChunks(chunks);
+            });
+        }
+        
+        for (const asset of project.assets) {
+            this.writeChunk('ASET', () => {
+                const { voxelData, ...info } = asset;
+                this.writeSizedJson(info);
+                this.writeChunks(buildChunks(voxelData));
+            });
+        }
+        
+        if (project.thumbnail) {
+            this.writeChunk('THMB', () => this.writeBytes(project.thumbnail!));
+        }
+        
+        // Join the parts into one buffer
+        const result = new Uint8Array(this.byteLength);
+        let offset = 0;
+        for (const part of this.parts) {
+            result.set(part, offset);
+            offset += part.byteLength;
+        }
+        return result.buffer;
+    }
+    
+    /**
+     * Write a chunk header, with the byte length of whatever writeContent adds
+     */
+    private writeChunk(id: string, writeContent: () => void): void {
+        this.writeTag(id);
+        const lengthPart = new Uint8Array(4);
+        this.writeBytes(lengthPart);
+        
+        const start = this.byteLength;
+        writeContent();
+        new DataView(lengthPart.buffer).setUint32(0, this.byteLength - start, true);
+    }
+    
+    /**
+     * Write voxel chunks as run-length encoded cells, skipping empty chunks
+     */
+    private writeChunks(chunks: Iterable<VoxelChunk>): void {
+        const nonEmpty = [...chunks].filter(chunk => !chunk.isEmpty());
+        this.writeUint32(nonEmpty.length);
+        
+        for (const chunk of nonEmpty) {
+            const runs: number[] = [];
+            const data = chunk.data;
+            let start = 0;
+            for (let i = 1; i <= CHUNK_VOLUME; i++) {
+                if (i === CHUNK_VOLUME || data[i] !== data[start]) {
+                    runs.push(i - start, data[start]);
+                    start = i;
+                }
+            }
+            
+            const header = new DataView(new ArrayBuffer(16));
+            header.setInt32(0, chunk.cx, true);
+            header.setInt32(4, chunk.cy, true);
+            header.setInt32(8, chunk.cz, true);
+            header.setUint32(12, runs.length / 2, true);
+            this.writeBytes(new Uint8Array(header.buffer));
+            
+            // Run lengths never exceed CHUNK_VOLUME (4096) so both fit in uint16
+            const runData = new Uint16Array(runs);
+            this.writeBytes(new Uint8Array(runData.buffer));
+        }
+    }
+    
+    private writeSizedJson(value: unknown): void {
+        const bytes = new TextEncoder().encode(JSON.stringify(value));
+        this.writeUint32(bytes.byteLength);
+        this.writeBytes(bytes);
+    }
+    
+    private writeJson(value: unknown): void {
+        this.writeBytes(new TextEncoder().encode(JSON.stringify(value)));
+    }
+    
+    private writeTag(tag: string): void {
+        this.writeBytes(new Uint8Array([...tag].map(c => c.charCodeAt(0))));
+    }
+    
+    private writeUint32(value: number): void {
+        const bytes = new Uint8Array(4);
+        new DataView(bytes.buffer).setUint32(0, value, true);
+        this.writeBytes(bytes);
+    }
+    
+    private writeUint16(value: number): void {
+        const bytes = new Uint8Array(2);
+        new DataView(bytes.buffer).setUint16(0, value, true);
+        this.writeBytes(bytes);
+    }
+    
+    private writeBytes(bytes: Uint8Array): void {
+        this.parts.push(bytes);
+        this.byteLength += bytes.byteLength;
+    }
+}
@@ -0,0 +1,199 @@
+import { VoxelType } from '../types';
+import { ColorRegistry } from '../engine/ColorRegistry';
+import { VoxLayerData } from './VoxParser';
+
+/**
+ * Qubicle Binary (.qb) parser
+ * Based on the Qubicle Binary 1.1 specification: a header followed by
+ * named matrices, each optionally run-length compressed per Z slice
+ */
+
+// Run-length markers used in compressed matrices
+export const QB_CODEFLAG = 2;
+export const QB_NEXTSLICEFLAG = 6;
+
+export interface QbMatrix {
+    name: string;
+    size: { x: number; y: number; z: number };
+    position: { x: number; y: number; z: number };
+    // Packed 0xAABBGGRR colors indexed x + y * size.x + z * size.x * size.y; alpha 0 is empty
+    colors: Uint32Array;
+}
+
+export interface QbData {
+    version: number;
+    // Right-handed files use the same Z direction as Three.js
+    rightHanded: boolean;
+    matrices: QbMatrix[];
+}
+
+export class QbParser {
+    private view: DataView | null = null;
+    private offset: number = 0;
+    
+    /**
+     * Parse a QB file from an ArrayBuffer
+     */
+    parseQbFile(buffer: ArrayBuffer): QbData {
+        this.view = new DataView(buffer);
+        this.offset = 0;
+        
+        if (buffer.byteLength < 24) {
+            throw new Error('Invalid QB file: header is truncated');
+        }
+        
+        const version = this.readUint32();
+        const colorFormat = this.readUint32(); // 0 = RGBA, 1 = BGRA
+        const zAxisOrientation = this.readUint32(); // 0 = left-handed, 1 = right-handed
+        const compressed = this.readUint32() !== 0;
+        this.readUint32(); // Visibility mask encoding - any non-zero alpha is solid either way
+        const numMatrices = this.readUint32();
+        
+        if (colorFormat > 1) {
+            throw new Error(`Invalid QB file: unknown color format ${colorFormat}`);
+        }
+        
+        const matrices: QbMatrix[] = [];
+        for (let i = 0; i < numMatrices; i++) {
+            matrices.push(this.readMatrix(compressed, colorFormat === 1));
+        }
+        
+        return { version, rightHanded: zAxisOrientation === 1, matrices };
+    }
+    
+    private readMatrix(compressed: boolean, bgra: boolean): QbMatrix {
+        const nameLength = this.readUint8();
+        let name = '';
+        for (let i = 0; i < nameLength; i++) {
+            name += String.fromCharCode(this.readUint8());
+        }
+        
+        const size = { x: this.readUint32(), y: this.readUint32(), z: this.readUint32() };
+        const position = { x: this.readInt32(), y: this.readInt32(), z: this.readInt32() };
+        
+        const sliceSize = size.x * size.y;
+        const volume = sliceSize * size.z;
+        if (volume > 512 * 512 * 512) {
+            throw new Error(`Invalid QB file: matrix "${name}" is too large (${size.x}x${size.y}x${size.z})`);
+        }
+        
+        const colors = new Uint32Array(volume);
+        
+        if (!compressed) {
+            for (let i = 0; i < volume; i++) {
+                colors[i] = this.readColor(bgra);
+            }
+        } else {
+            for (let z = 0; z < size.z; z++) {
+                let index = 0;
+                
+                while (true) {
+                    let data = this.readUint32();
+                    if (data === QB_NEXTSLICEFLAG) break;
+                    
+                    let count = 1;
+                    if (data === QB_CODEFLAG) {
+                        count = this.readUint32();
+                        data = this.readUint32();
+                    }
+                    
+                    const color = bgra ? this.swapRedBlue(data) : data;
+                    for (let j = 0; j < count && index < sliceSize; j++) {
+                        colors[z * sliceSize + index++] = color;
+                    }
+                }
+            }
+        }
+        
+        return { name, size, position, colors };
+    }
+    
+    /**
+     * Convert parsed matrices to one layer each, in Three.js coordinates
+     * (Qubicle is Y-up like Three.js; left-handed files are mirrored on Z)
+     */
+    convertToLayers(qbData: QbData): VoxLayerData[] {
+        const paletteTypes = new Map<number, VoxelType>();
+        const colorRegistry = ColorRegistry.getInstance();
+        const layers: VoxLayerData[] = [];
+        let minY = 0;
+        
+        for (const matrix of qbData.matrices) {
+            const voxels = new Map<string, VoxelType>();
+            const { size, position, colors } = matrix;
+            
+            for (let z = 0; z < size.z; z++) {
+                for (let y = 0; y < size.y; y++) {
+                    for (let x = 0; x < size.x; x++) {
+                        const color = colors[x + y * size.x + z * size.x * size.y];
+                        if ((color >>> 24) === 0) continue;
+                        
+                        const rgb = color & 0xFFFFFF;
+                        let type = paletteTypes.get(rgb);
+                        if (type === undefined) {
+                            const hex = '#' + [rgb & 0xFF, (rgb >> 8) & 0xFF, (rgb >> 16) & 0xFF]
+                                .map(c => c.toString(16).padStart(2, '0'))
+                                .join('');
+                            type = colorRegistry.getOrCreateVoxelType(hex) ?? colorRegistry.findClosestVoxelType(hex);
+                            paletteTypes.set(rgb, type);
+                        }
+                        
+                        const worldZ = qbData.rightHanded ? position.z + z : -(position.z + z) - 1;
+                        minY = Math.min(minY, position.y + y);
+                        voxels.set(`${position.x + x},${position.y + y},${worldZ}`, type);
+                    }
+                }
+            }
+            
+            layers.push({ name: matrix.name || `Matrix ${layers.length + 1}`, hidden: false, voxels });
+        }
+        
+        // Lift the scene so nothing ends up below the ground plane
+        if (minY < 0) {
+            for (const layer of layers) {
+                const lifted = new Map<string, VoxelType>();
+                for (const [key, type] of layer.voxels) {
+                    const [x, y, z] = key.split(',').map(Number);
+                    lifted.set(`${x},${y - minY},${z}`, type);
+                }
+                layer.voxels = lifted;
+            }
+        }
+        
+        return layers;
+    }
+    
+    private readColor(bgra: boolean): number {
+        const value = this.readUint32();
+        return bgra ? this.swapRedBlue(value) : value;
+    }
+    
+    private swapRedBlue(value: number): number {
+        return ((value & 0xFF00FF00) | ((value & 0xFF) << 16) | ((value >> 16) & 0xFF)) >>> 0;
+    }
+    
+    private readUint8(): number {
+        this.checkBounds(1);
+        return this.view!.getUint8(this.offset++);
+    }
+    
+    private readUint32(): number {
+        this.checkBounds(4);
+        const value = this.view!.getUint32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+    
+    private readInt32(): number {
+        this.checkBounds(4);
+        const value = this.view!.getInt32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+    
+    private checkBounds(size: number): void {
+        if (this.offset + size > this.view!.byteLength) {
+            throw new Error('Invalid QB file: unexpected end of data');
+        }
+    }
+}
@@ -0,0 +1,126 @@
+import { VoxelType } from '../types';
+import { ColorRegistry } from '../engine/ColorRegistry';
+import { QB_CODEFLAG, QB_NEXTSLICEFLAG } from './QbParser';
+
+interface QbLayerInput {
+    name: string;
+    voxels: Map<string, VoxelType>;
+}
+
+/**
+ * Qubicle Binary (.qb) writer
+ * Writes one RLE-compressed matrix per layer, positioned at the layer's
+ * bounds, with RGBA colors and right-handed Z (same as Three.js)
+ */
+export class QbWriter {
+    /**
+     * Create a QB file from layers
+     */
+    createQbFile(layers: QbLayerInput[]): ArrayBuffer {
+        const colorRegistry = ColorRegistry.getInstance();
+        const typeColors = new Map<VoxelType, number>();
+        const colorOf = (type: VoxelType): number => {
+            let color = typeColors.get(type);
+            if (color === undefined) {
+                const rgb = parseInt((colorRegistry.getColor(type) || '#FFFFFF').slice(1), 16);
+                // Packed little-endian RGBA: R in the low byte, opaque alpha
+                color = (((rgb >> 16) & 0xFF) | (rgb & 0xFF00) | ((rgb & 0xFF) << 16) | 0xFF000000) >>> 0;
+                typeColors.set(type, color);
+            }
+            return color;
+        };
+        
+        const parts: Uint8Array[] = [];
+        
+        const header = new DataView(new ArrayBuffer(24));
+        header.setUint8(0, 1); // Version 1.1.0.0
+        header.setUint8(1, 1);
+        header.setUint32(4, 0, true); // RGBA
+        header.setUint32(8, 1, true); // Right-handed
+        header.setUint32(12, 1, true); // Compressed
+        header.setUint32(16, 0, true); // No visibility mask
+        const nonEmpty = layers.filter(layer => layer.voxels.size > 0);
+        header.setUint32(20, nonEmpty.length, true);
+        parts.push(new Uint8Array(header.buffer));
+        
+        for (const layer of nonEmpty) {
+            parts.push(this.createMatrix(layer, colorOf));
+        }
+        
+        const file = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+        let offset = 0;
+        for (const part of parts) {
+            file.set(part, offset);
+            offset += part.length;
+        }
+        return file.buffer;
+    }
+    
+    private createMatrix(layer: QbLayerInput, colorOf: (type: VoxelType) => number): Uint8Array {
+        let minX = Infinity, minY = Infinity, minZ = Infinity;
+        let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+        const positions: [number, number, number, VoxelType][] = [];
+        
+        for (const [key, type] of layer.voxels) {
+            if (type === VoxelType.AIR) continue;
+            const [x, y, z] = key.split(',').map(Number);
+            positions.push([x, y, z, type]);
+            minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+            minZ = Math.min(minZ, z); maxZ = Math.max(maxZ, z);
+        }
+        
+        const sizeX = maxX - minX + 1;
+        const sizeY = maxY - minY + 1;
+        const sizeZ = maxZ - minZ + 1;
+        const sliceSize = sizeX * sizeY;
+        const colors = new Uint32Array(sliceSize * sizeZ);
+        for (const [x, y, z, type] of positions) {
+            colors[(x - minX) + (y - minY) * sizeX + (z - minZ) * sliceSize] = colorOf(type);
+        }
+        
+        // Run-length encode each Z slice
+        const words: number[] = [];
+        for (let z = 0; z < sizeZ; z++) {
+            let index = 0;
+            while (index < sliceSize) {
+                const color = colors[z * sliceSize + index];
+                let count = 1;
+                while (index + count < sliceSize && colors[z * sliceSize + index + count] === color) {
+                    count++;
+                }
+                
+                if (count > 2) {
+                    words.push(QB_CODEFLAG, count, color);
+                } else {
+                    for (let i = 0; i < count; i++) words.push(color);
+                }
+                index += count;
+            }
+            words.push(QB_NEXTSLICEFLAG);
+        }
+        
+        // Names are length-prefixed with a single byte
+        const name = layer.name.replace(/[^\x20-\x7E]/g, '_').slice(0, 255);
+        const matrix = new DataView(new ArrayBuffer(1 + name.length + 24 + words.length * 4));
+        let offset = 0;
+        matrix.setUint8(offset++, name.length);
+        for (let i = 0; i < name.length; i++) {
+            matrix.setUint8(offset++, name.charCodeAt(i));
+        }
+        for (const value of [sizeX, sizeY, sizeZ]) {
+            matrix.setUint32(offset, value, true);
+            offset += 4;
+        }
+        for (const value of [minX, minY, minZ]) {
+            matrix.setInt32(offset, value, true);
+            offset += 4;
+        }
+        for (const word of words) {
+            matrix.setUint32(offset, word, true);
+            offset += 4;
+        }
+        
+        return new Uint8Array(matrix.buffer);
+    }
+}
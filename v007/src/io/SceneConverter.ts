@@ -0,0 +1,371 @@
+import { VoxelType, VoxelPosition } from '../types';
+import { buildChunks } from '../engine/VoxelChunk';
+import { ColorRegistry } from '../engine/ColorRegistry';
+import { VoxParser, VoxLayerData } from './VoxParser';
+import { VoxWriter } from './VoxWriter';
+import { QbParser } from './QbParser';
+import { QbWriter } from './QbWriter';
+import { GoxParser } from './GoxParser';
+import { GoxWriter } from './GoxWriter';
+import { GlbWriter } from './GlbWriter';
+import { ObjWriter } from './ObjWriter';
+import { StlWriter } from './StlWriter';
+import { ProjectParser, ProjectData, ProjectLayer, ProjectPaletteEntry, PROJECT_EXTENSION, PROJECT_VERSION } from './ProjectParser';
+import { ProjectWriter } from './ProjectWriter';
+import { SceneJson, SceneIssue, SceneValidationError, SCENE_JSON_VERSION } from './SceneSchema';
+
+export const SCENE_INPUT_FORMATS = [PROJECT_EXTENSION, 'json', 'vox', 'qb', 'gox'] as const;
+export const SCENE_OUTPUT_FORMATS = [PROJECT_EXTENSION, 'json', 'vox', 'qb', 'gox', 'glb', 'obj', 'stl'] as const;
+
+export type SceneInputFormat = typeof SCENE_INPUT_FORMATS[number];
+export type SceneOutputFormat = typeof SCENE_OUTPUT_FORMATS[number];
+
+export interface SceneExportOptions {
+    // Only export visible layers (GLB, OBJ, STL, QB, GOX, VOX)
+    visibleOnly?: boolean;
+    // Size of one voxel in output units (OBJ, STL); defaults to the scene voxel size
+    voxelSize?: number;
+    // Share vertices between faces that meet at the same position (OBJ)
+    mergeVertices?: boolean;
+}
+
+/**
+ * One file produced by an export (OBJ produces two)
+ */
+export interface SceneFile {
+    name: string;
+    data: ArrayBuffer;
+    mimeType: string;
+}
+
+/**
+ * A parsed scene and what was skipped or repaired while reading it
+ */
+export interface SceneReadResult {
+    project: ProjectData;
+    issues: SceneIssue[];
+}
+
+/**
+ * Summary of a scene, for the CLI and for logging
+ */
+export interface SceneStats {
+    layerCount: number;
+    voxelCount: number;
+    // Null for an empty scene
+    bounds: { min: VoxelPosition; max: VoxelPosition } | null;
+    // Voxels per type, most used first
+    palette: { type: VoxelType; name: string; color: string; count: number }[];
+}
+
+/**
+ * Reads and writes whole scenes as ProjectData, without an engine, DOM or
+ * WebGL. FileManager moves scenes between this and the engine and handles
+ * browser files and downloads; the command line converter uses it directly.
+ */
+export class SceneConverter {
+    private voxParser: VoxParser;
+    private qbParser: QbParser;
+    private goxParser: GoxParser;
+    private projectParser: ProjectParser;
+    private projectWriter: ProjectWriter;
+    
+    constructor() {
+        this.voxParser = new VoxParser();
+        this.qbParser = new QbParser();
+        this.goxParser = new GoxParser();
+        this.projectParser = new ProjectParser();
+        this.projectWriter = new ProjectWriter();
+    }
+    
+    static isInputFormat(format: string): format is SceneInputFormat {
+        return (SCENE_INPUT_FORMATS as readonly string[]).includes(format);
+    }
+    
+    static isOutputFormat(format: string): format is SceneOutputFormat {
+        return (SCENE_OUTPUT_FORMATS as readonly string[]).includes(format);
+    }
+    
+    /**
+     * Parse a scene file. Custom colors are registered with the ColorRegistry
+     * and the returned types already refer to them. JSON scenes that are
+     * partly malformed load what they can and list the rest as issues.
+     */
+    async read(buffer: ArrayBuffer, format: SceneInputFormat): Promise<SceneReadResult> {
+        switch (format) {
+            case PROJECT_EXTENSION:
+                return { project: this.registerPalette(this.projectParser.parseProjectFile(buffer)), issues: [] };
+            case 'json': {
+                let data: unknown;
+                try {
+                    data = JSON.parse(new TextDecoder().decode(buffer));
+                } catch (error) {
+                    throw new SceneValidationError('', `not valid JSON (${error instanceof Error ? error.message : error})`);
+                }
+                const { project, issues } = this.projectParser.parseJsonProject(data);
+                return { project: this.registerPalette(project), issues };
+            }
+            case 'vox': {
+                const voxData = await this.voxParser.parseVoxFile(buffer);
+                const layers = this.voxParser.hasSceneGraph(voxData)
+                    ? this.voxParser.convertToLayers(voxData)
+                    : [{ name: 'Layer 1', hidden: false, voxels: this.voxParser.convertToVoxelData(voxData) }];
+                return { project: this.createProject(layers), issues: [] };
+            }
+            case 'qb':
+                return { project: this.createProject(this.qbParser.convertToLayers(this.qbParser.parseQbFile(buffer))), issues: [] };
+            case 'gox':
+                return { project: this.createProject(this.goxParser.convertToLayers(await this.goxParser.parseGoxFile(buffer))), issues: [] };
+        }
+    }
+    
+    /**
+     * Serialize a scene. File names are baseName plus the format's extension.
+     */
+    async write(project: ProjectData, format: SceneOutputFormat, baseName: string, options: SceneExportOptions = {}): Promise<SceneFile[]> {
+        const layers = project.layers
+            .filter(layer => !options.visibleOnly || layer.visible)
+            .map(layer => ({ name: layer.name, visible: layer.visible, voxels: this.getLayerVoxels(layer) }));
+        const voxelSize = options.voxelSize ?? project.voxelSize;
+        
+        switch (format) {
+            case PROJECT_EXTENSION:
+                return [{ name: `${baseName}.${PROJECT_EXTENSION}`, data: this.projectWriter.createProjectFile(project), mimeType: 'application/octet-stream' }];
+            case 'json': {
+                const json = JSON.stringify(this.createJsonScene(project), null, 2);
+                return [{ name: `${baseName}.json`, data: new TextEncoder().encode(json).buffer as ArrayBuffer, mimeType: 'application/json' }];
+            }
+            case 'vox': {
+                // One model: later layers cover earlier ones
+                const merged = new Map<string, VoxelType>();
+                for (const layer of layers) {
+                    for (const [key, type] of layer.voxels) merged.set(key, type);
+                }
+                const voxelsByType = new Map<VoxelType, Set<string>>();
+                for (const [key, type] of merged) {
+                    let positions = voxelsByType.get(type);
+                    if (!positions) {
+                        positions = new Set();
+                        voxelsByType.set(type, positions);
+                    }
+                    positions.add(key);
+                }
+                return [{ name: `${baseName}.vox`, data: new VoxWriter().createVoxFile(voxelsByType), mimeType: 'application/octet-stream' }];
+            }
+            case 'qb':
+                return [{ name: `${baseName}.qb`, data: new QbWriter().createQbFile(layers), mimeType: 'application/octet-stream' }];
+            case 'gox':
+                return [{ name: `${baseName}.gox`, data: await new GoxWriter().createGoxFile(layers), mimeType: 'application/octet-stream' }];
+            case 'glb':
+                return [{ name: `${baseName}.glb`, data: new GlbWriter(voxelSize).createGlbFile(layers), mimeType: 'model/gltf-binary' }];
+            case 'obj': {
+                const { obj, mtl } = new ObjWriter().createObjFile(layers, `${baseName}.mtl`, {
+                    voxelSize,
+                    mergeVertices: options.mergeVertices
+                });
+                return [
+                    { name: `${baseName}.obj`, data: new TextEncoder().encode(obj).buffer as ArrayBuffer, mimeType: 'text/plain' },
+                    { name: `${baseName}.mtl`, data: new TextEncoder().encode(mtl).buffer as ArrayBuffer, mimeType: 'text/plain' }
+                ];
+            }
+            case 'stl': {
+                // One solid: later layers cover earlier ones
+                const merged = new Map<string, VoxelType>();
+                for (const layer of layers) {
+                    for (const [key, type] of layer.voxels) merged.set(key, type);
+                }
+                return [{ name: `${baseName}.stl`, data: new StlWriter().createStlFile(merged, { voxelSize }), mimeType: 'model/stl' }];
+            }
+        }
+    }
+    
+    /**
+     * Count voxels, bounds and color usage over all layers
+     */
+    getStats(project: ProjectData): SceneStats {
+        const colorRegistry = ColorRegistry.getInstance();
+        const counts = new Map<VoxelType, number>();
+        const min = { x: Infinity, y: Infinity, z: Infinity };
+        const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+        let voxelCount = 0;
+        
+        for (const layer of project.layers) {
+            for (const chunk of layer.chunks) {
+                chunk.forEachVoxel((x, y, z, type) => {
+                    counts.set(type, (counts.get(type) ?? 0) + 1);
+                    min.x = Math.min(min.x, x);
+                    min.y = Math.min(min.y, y);
+                    min.z = Math.min(min.z, z);
+                    max.x = Math.max(max.x, x);
+                    max.y = Math.max(max.y, y);
+                    max.z = Math.max(max.z, z);
+                    voxelCount++;
+                });
+            }
+        }
+        
+        return {
+            layerCount: project.layers.length,
+            voxelCount,
+            bounds: voxelCount > 0 ? { min, max } : null,
+            palette: [...counts.entries()]
+                .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+                .map(([type, count]) => ({
+                    type,
+                    name: VoxelType[type] ?? `TYPE_${type}`,
+                    color: colorRegistry.getColor(type) || '#FFFFFF',
+                    count
+                }))
+        };
+    }
+    
+    /**
+     * Describe the colors and materials of the given types for a project file
+     */
+    createPalette(types: Iterable<VoxelType>): ProjectPaletteEntry[] {
+        const colorRegistry = ColorRegistry.getInstance();
+        const palette: ProjectPaletteEntry[] = [];
+        
+        for (const type of [...new Set(types)].sort((a, b) => a - b)) {
+            palette.push({
+                type,
+                color: colorRegistry.getColor(type) || '#FFFFFF',
+                material: colorRegistry.getMaterial(type)
+            });
+        }
+        
+        return palette;
+    }
+    
+    /**
+     * Register the project's palette with the ColorRegistry. Custom types are
+     * assigned per session, so saved types are rewritten in place (layers,
+     * assets and the palette itself) to the ones assigned now.
+     */
+    registerPalette(project: ProjectData): ProjectData {
+        const colorRegistry = ColorRegistry.getInstance();
+        const typeRemap = new Map<VoxelType, VoxelType>();
+        
+        for (const entry of project.palette) {
+            let type = entry.type;
+            if (entry.type >= VoxelType.CUSTOM_1) {
+                type = colorRegistry.getOrCreateVoxelType(entry.color) ?? entry.type;
+                if (type !== entry.type) typeRemap.set(entry.type, type);
+            }
+            if (entry.material) {
+                colorRegistry.setMaterial(type, entry.material);
+            }
+        }
+        
+        if (typeRemap.size > 0) {
+            for (const layer of project.layers) {
+                for (const chunk of layer.chunks) {
+                    this.remapChunkTypes(chunk.data, typeRemap);
+                }
+                if (layer.editingAssetType !== undefined) {
+                    layer.editingAssetType = typeRemap.get(layer.editingAssetType) ?? layer.editingAssetType;
+                }
+            }
+            for (const asset of project.assets) {
+                for (const [key, type] of asset.voxelData) {
+                    const remapped = typeRemap.get(type);
+                    if (remapped !== undefined) asset.voxelData.set(key, remapped);
+                }
+            }
+            project.palette = project.palette.map(entry => ({ ...entry, type: typeRemap.get(entry.type) ?? entry.type }));
+        }
+        
+        return project;
+    }
+    
+    /**
+     * Scene in the JSON format: layers of { [type]: ["x,y,z", ...] } plus the
+     * palette, so custom colors survive a round trip
+     */
+    private createJsonScene(project: ProjectData): SceneJson {
+        const stats = this.getStats(project);
+        return {
+            version: SCENE_JSON_VERSION,
+            timestamp: project.timestamp,
+            voxelSize: project.voxelSize,
+            activeLayerId: project.activeLayerId,
+            layers: project.layers.map(layer => {
+                const voxels: Record<string, string[]> = {};
+                for (const chunk of layer.chunks) {
+                    chunk.forEachVoxel((x, y, z, type) => {
+                        (voxels[type] ??= []).push(`${x},${y},${z}`);
+                    });
+                }
+                return {
+                    id: layer.id,
+                    name: layer.name,
+                    visible: layer.visible,
+                    opacity: layer.opacity,
+                    locked: layer.locked,
+                    isBaked: layer.isBaked ?? false,
+                    voxels
+                };
+            }),
+            palette: project.palette,
+            metadata: {
+                version: SCENE_JSON_VERSION,
+                timestamp: Date.now(),
+                voxelCount: stats.voxelCount,
+                bounds: stats.bounds ?? { min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } },
+                format: 'NeverEverLand v007',
+                features: {
+                    voxelTypes: Object.keys(VoxelType).filter(k => isNaN(Number(k))),
+                    voxelSize: project.voxelSize
+                }
+            }
+        };
+    }
+    
+    /**
+     * Project data for imported layers, with the palette of the types they use
+     */
+    private createProject(layers: VoxLayerData[]): ProjectData {
+        const usedTypes = new Set<VoxelType>();
+        const projectLayers: ProjectLayer[] = layers.map((layer, index) => {
+            for (const type of layer.voxels.values()) usedTypes.add(type);
+            return {
+                id: `layer_${index + 1}`,
+                name: layer.name,
+                visible: !layer.hidden,
+                opacity: 1,
+                locked: false,
+                isEditingAsset: false,
+                chunks: buildChunks(layer.voxels)
+            };
+        });
+        
+        return {
+            version: PROJECT_VERSION,
+            timestamp: Date.now(),
+            voxelSize: 0.1,
+            activeLayerId: projectLayers[0]?.id ?? null,
+            layers: projectLayers,
+            palette: this.createPalette(usedTypes),
+            assets: [],
+            thumbnail: null
+        };
+    }
+    
+    private getLayerVoxels(layer: ProjectLayer): Map<string, VoxelType> {
+        const voxels = new Map<string, VoxelType>();
+        for (const chunk of layer.chunks) {
+            chunk.forEachVoxel((x, y, z, type) => voxels.set(`${x},${y},${z}`, type));
+        }
+        return voxels;
+    }
+    
+    /**
+     * Rewrite voxel types in chunk data in place
+     */
+    private remapChunkTypes(data: Uint16Array, typeRemap: Map<VoxelType, VoxelType>): void {
+        for (let i = 0; i < data.length; i++) {
+            const remapped = typeRemap.get(data[i]);
+            if (remapped !== undefined) data[i] = remapped;
+        }
+    }
+}
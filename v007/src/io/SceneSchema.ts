@@ -0,0 +1,345 @@
+import { VoxelType, VoxelMaterial } from '../types';
+
+/**
+ * Scene JSON format
+ *
+ *   { version, timestamp, voxelSize, activeLayerId, layers, palette, metadata? }
+ *
+ * Layers store their voxels as { [type]: ["x,y,z", ...] }. The palette holds
+ * the colors of the types in use, so custom types (assigned per session) can
+ * be remapped on load.
+ *
+ * Older files are upgraded one version at a time by SCENE_MIGRATIONS and then
+ * validated. Only an unreadable top level is fatal: malformed layers, voxels
+ * and palette entries are dropped, bad values are replaced by their defaults,
+ * and each of these is reported with its path in the file.
+ */
+
+export const SCENE_JSON_VERSION = '2.1';
+
+export interface SceneJsonLayer {
+    id: string;
+    name: string;
+    visible: boolean;
+    // 0 to 1
+    opacity: number;
+    locked: boolean;
+    // Rebaked on load
+    isBaked: boolean;
+    voxels: Record<string, string[]>;
+}
+
+export interface SceneJsonPaletteEntry {
+    type: VoxelType;
+    // #RRGGBB
+    color: string;
+    material: VoxelMaterial | null;
+}
+
+export interface SceneJson {
+    version: typeof SCENE_JSON_VERSION;
+    timestamp: number;
+    voxelSize: number;
+    activeLayerId: string | null;
+    layers: SceneJsonLayer[];
+    palette: SceneJsonPaletteEntry[];
+    // Informational only (voxel count, bounds, exporter); never read back
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * Something in a scene file that was skipped or replaced by a default
+ */
+export interface SceneIssue {
+    // Location in the file, e.g. layers[2].voxels["7"][13]
+    path: string;
+    message: string;
+}
+
+export interface SceneValidation {
+    scene: SceneJson;
+    // Version the file was written in, before migration
+    sourceVersion: string;
+    issues: SceneIssue[];
+}
+
+/**
+ * A scene file with nothing recoverable, such as an unknown version
+ */
+export class SceneValidationError extends Error {
+    readonly path: string;
+    
+    constructor(path: string, message: string) {
+        super(path ? `${path}: ${message}` : message);
+        this.name = 'SceneValidationError';
+        this.path = path;
+    }
+}
+
+// Upgrades a scene from the keyed version to the next one. Values are copied
+// as they are; validation afterwards fills in defaults and reports problems.
+const SCENE_MIGRATIONS: Record<string, (data: any) => any> = {
+    // 1.0: { voxels: { [type]: ["x,y,z", ...] } } in a single implicit layer
+    '1.0': (data) => ({
+        version: '2.0',
+        timestamp: data.timestamp,
+        voxelSize: data.voxelSize,
+        activeLayerId: 'layer_1',
+        layers: [{ id: 'layer_1', name: 'Layer 1', voxels: data.voxels }]
+    }),
+    // 2.0: layers. Custom colors were only stored by late 2.0 exports.
+    '2.0': (data) => ({ ...data, version: '2.1', palette: data.palette ?? [] })
+};
+
+const POSITION_PATTERN = /^-?\d+,-?\d+,-?\d+$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isVoxelType = (value: unknown): value is VoxelType =>
+    Number.isInteger(value) && (value as number) > VoxelType.AIR && (value as number) <= VoxelType.CUSTOM_256;
+
+/**
+ * Short description of an unexpected value for messages
+ */
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    if (typeof value === 'object') return 'an object';
+    if (typeof value === 'string') return JSON.stringify(value.length > 24 ? `${value.slice(0, 24)}...` : value);
+    return String(value);
+}
+
+/**
+ * Migrates and validates scene JSON, collecting issues instead of failing
+ * wherever part of the scene can still be loaded
+ */
+export class SceneValidator {
+    private issues: SceneIssue[] = [];
+    
+    /**
+     * Validate parsed JSON. Throws SceneValidationError when the scene can't
+     * be read at all.
+     */
+    validate(data: unknown): SceneValidation {
+        this.issues = [];
+        
+        if (!isObject(data)) {
+            throw new SceneValidationError('', `expected a scene object, got ${describe(data)}`);
+        }
+        
+        // Files without a version but with a flat voxels map predate layers
+        let version: unknown = data.version ?? (data.voxels !== undefined ? '1.0' : undefined);
+        if (typeof version !== 'string') {
+            throw new SceneValidationError('version', `expected a version string, got ${describe(version)}`);
+        }
+        const sourceVersion = version;
+        
+        let migrated: any = data;
+        while (version !== SCENE_JSON_VERSION) {
+            const migration = SCENE_MIGRATIONS[version as string];
+            if (!migration) {
+                throw new SceneValidationError('version', `unsupported scene version ${describe(version)}`);
+            }
+            migrated = migration(migrated);
+            version = migrated.version;
+        }
+        
+        const timestamp = this.readNumber(migrated, 'timestamp', '', Date.now(), 0, Number.MAX_SAFE_INTEGER);
+        const voxelSize = this.readNumber(migrated, 'voxelSize', '', 0.1, 0.001, 1000, false);
+        
+        // A 1.0 scene's voxels map sits at the top of the file
+        const layerPath = (index: number) => sourceVersion === '1.0' ? '' : `layers[${index}]`;
+        
+        if (!Array.isArray(migrated.layers)) {
+            throw new SceneValidationError('layers', `expected an array of layers, got ${describe(migrated.layers)}`);
+        }
+        const layers: SceneJsonLayer[] = [];
+        const usedIds = new Set<string>();
+        migrated.layers.forEach((layer: unknown, index: number) => {
+            const validated = this.validateLayer(layer, layerPath(index), index, usedIds);
+            if (validated) layers.push(validated);
+        });
+        
+        let activeLayerId: string | null = null;
+        if (migrated.activeLayerId !== undefined && migrated.activeLayerId !== null) {
+            if (layers.some(layer => layer.id === migrated.activeLayerId)) {
+                activeLayerId = migrated.activeLayerId;
+            } else {
+                this.report('activeLayerId', `no layer has id ${describe(migrated.activeLayerId)}; using the first layer`);
+            }
+        }
+        
+        const scene: SceneJson = {
+            version: SCENE_JSON_VERSION,
+            timestamp,
+            voxelSize,
+            activeLayerId: activeLayerId ?? layers[0]?.id ?? null,
+            layers,
+            palette: this.validatePalette(migrated.palette, 'palette')
+        };
+        if (isObject(migrated.metadata)) {
+            scene.metadata = migrated.metadata;
+        }
+        
+        return { scene, sourceVersion, issues: this.issues };
+    }
+    
+    private validateLayer(data: unknown, path: string, index: number, usedIds: Set<string>): SceneJsonLayer | null {
+        if (!isObject(data)) {
+            this.report(path, `expected a layer object, got ${describe(data)}; layer skipped`);
+            return null;
+        }
+        
+        // Ids tie the active layer to a layer, so they must be unique
+        let id = this.readString(data, 'id', path, '');
+        if (!id || usedIds.has(id)) {
+            let n = index + 1;
+            while (usedIds.has(`layer_${n}`)) n++;
+            if (id) this.report(this.join(path, 'id'), `duplicate layer id ${describe(id)}; using "layer_${n}"`);
+            id = `layer_${n}`;
+        }
+        usedIds.add(id);
+        
+        return {
+            id,
+            name: this.readString(data, 'name', path, `Layer ${index + 1}`),
+            visible: this.readBoolean(data, 'visible', path, true),
+            opacity: this.readNumber(data, 'opacity', path, 1, 0, 1),
+            locked: this.readBoolean(data, 'locked', path, false),
+            isBaked: this.readBoolean(data, 'isBaked', path, false),
+            voxels: this.validateVoxels(data.voxels, this.join(path, 'voxels'))
+        };
+    }
+    
+    private validateVoxels(data: unknown, path: string): Record<string, string[]> {
+        const voxels: Record<string, string[]> = {};
+        if (data === undefined) return voxels;
+        if (!isObject(data)) {
+            this.report(path, `expected { [type]: ["x,y,z", ...] }, got ${describe(data)}; voxels skipped`);
+            return voxels;
+        }
+        
+        for (const [key, positions] of Object.entries(data)) {
+            const typePath = `${path}[${JSON.stringify(key)}]`;
+            const type = Number(key);
+            if (!isVoxelType(type)) {
+                const count = Array.isArray(positions) ? positions.length : 0;
+                this.report(typePath, `unknown voxel type ${describe(key)}; ${count} voxel${count === 1 ? '' : 's'} skipped`);
+                continue;
+            }
+            if (!Array.isArray(positions)) {
+                this.report(typePath, `expected an array of "x,y,z" positions, got ${describe(positions)}; skipped`);
+                continue;
+            }
+            
+            const valid: string[] = [];
+            let firstInvalid = -1;
+            let invalidCount = 0;
+            positions.forEach((position: unknown, i: number) => {
+                if (typeof position === 'string' && POSITION_PATTERN.test(position)) {
+                    valid.push(position);
+                } else {
+                    if (firstInvalid < 0) firstInvalid = i;
+                    invalidCount++;
+                }
+            });
+            // One issue per type, pointing at the first bad position, keeps badly damaged files readable
+            if (invalidCount > 0) {
+                const others = invalidCount > 1 ? ` (and ${invalidCount - 1} more in this list)` : '';
+                this.report(`${typePath}[${firstInvalid}]`, `expected "x,y,z", got ${describe(positions[firstInvalid])}; voxel skipped${others}`);
+            }
+            if (valid.length > 0) {
+                voxels[type] = valid;
+            }
+        }
+        
+        return voxels;
+    }
+    
+    private validatePalette(data: unknown, path: string): SceneJsonPaletteEntry[] {
+        if (data === undefined) return [];
+        if (!Array.isArray(data)) {
+            this.report(path, `expected an array, got ${describe(data)}; custom colors keep their saved types`);
+            return [];
+        }
+        
+        const palette: SceneJsonPaletteEntry[] = [];
+        const seen = new Set<VoxelType>();
+        data.forEach((entry: unknown, index: number) => {
+            const entryPath = `${path}[${index}]`;
+            if (!isObject(entry)) {
+                this.report(entryPath, `expected a palette entry, got ${describe(entry)}; skipped`);
+                return;
+            }
+            if (!isVoxelType(entry.type)) {
+                this.report(`${entryPath}.type`, `unknown voxel type ${describe(entry.type)}; entry skipped`);
+                return;
+            }
+            if (seen.has(entry.type)) {
+                this.report(`${entryPath}.type`, `type ${entry.type} is already in the palette; entry skipped`);
+                return;
+            }
+            if (typeof entry.color !== 'string' || !COLOR_PATTERN.test(entry.color)) {
+                this.report(`${entryPath}.color`, `expected a #RRGGBB color, got ${describe(entry.color)}; entry skipped`);
+                return;
+            }
+            
+            let material: VoxelMaterial | null = null;
+            if (isObject(entry.material)) {
+                material = entry.material as VoxelMaterial;
+            } else if (entry.material !== undefined && entry.material !== null) {
+                this.report(`${entryPath}.material`, `expected an object, got ${describe(entry.material)}; using no material`);
+            }
+            
+            seen.add(entry.type);
+            palette.push({ type: entry.type, color: entry.color.toUpperCase(), material });
+        });
+        
+        return palette;
+    }
+    
+    private readString(data: Record<string, any>, key: string, path: string, fallback: string): string {
+        const value = data[key];
+        if (value === undefined) return fallback;
+        if (typeof value === 'string') return value;
+        this.report(this.join(path, key), `expected a string, got ${describe(value)}; using ${describe(fallback)}`);
+        return fallback;
+    }
+    
+    private readBoolean(data: Record<string, any>, key: string, path: string, fallback: boolean): boolean {
+        const value = data[key];
+        if (value === undefined) return fallback;
+        if (typeof value === 'boolean') return value;
+        this.report(this.join(path, key), `expected true or false, got ${describe(value)}; using ${fallback}`);
+        return fallback;
+    }
+    
+    /**
+     * Read a number, replacing a missing or non-numeric value by the fallback.
+     * Values out of range are clamped, or replaced too when clamp is false.
+     */
+    private readNumber(data: Record<string, any>, key: string, path: string, fallback: number, min: number, max: number, clamp = true): number {
+        const value = data[key];
+        if (value === undefined) return fallback;
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            this.report(this.join(path, key), `expected a number, got ${describe(value)}; using ${fallback}`);
+            return fallback;
+        }
+        if (value < min || value > max) {
+            const replacement = clamp ? Math.min(Math.max(value, min), max) : fallback;
+            this.report(this.join(path, key), `${value} is out of range (${min} to ${max}); using ${replacement}`);
+            return replacement;
+        }
+        return value;
+    }
+    
+    private join(path: string, key: string): string {
+        return path ? `${path}.${key}` : key;
+    }
+    
+    private report(path: string, message: string): void {
+        this.issues.push({ path, message });
+    }
+}
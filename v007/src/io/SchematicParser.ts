@@ -0,0 +1,286 @@
+import { VoxelType } from '../types';
+import { NbtReader, NbtCompound, NbtValue } from './NbtReader';
+import { decompressBytes } from './Compression';
+import { BlockColorTable } from './BlockColorTable';
+
+/**
+ * Minecraft schematic parser for Sponge (.schem, versions 1-3) and
+ * Litematica (.litematic) files. Both are gzip-compressed NBT.
+ */
+
+export type SchematicFormat = 'schem' | 'litematic';
+
+/**
+ * A box of blocks. Indices into the palette are stored x + z * sizeX + y * sizeX * sizeZ.
+ */
+export interface SchematicRegion {
+    name: string;
+    origin: { x: number; y: number; z: number };
+    size: { x: number; y: number; z: number };
+    // Block states such as 'minecraft:oak_log[axis=y]'
+    palette: string[];
+    blocks: Uint32Array;
+}
+
+export interface SchematicData {
+    format: SchematicFormat;
+    regions: SchematicRegion[];
+}
+
+// Larger schematics would take too long and too much memory to import
+const MAX_BLOCKS = 64 * 1024 * 1024;
+
+export class SchematicParser {
+    /**
+     * Parse a schematic file from an ArrayBuffer
+     */
+    async parseSchematicFile(buffer: ArrayBuffer, format: SchematicFormat): Promise<SchematicData> {
+        let bytes = new Uint8Array(buffer);
+        
+        // gzip magic number - some tools also write uncompressed NBT
+        if (bytes[0] === 0x1F && bytes[1] === 0x8B) {
+            bytes = await decompressBytes(bytes, 'gzip');
+        }
+        
+        const { value: root } = new NbtReader(bytes).readRoot();
+        const regions = format === 'litematic' ? this.readLitematic(root) : [this.readSponge(root)];
+        return { format, regions };
+    }
+    
+    /**
+     * Sponge schematic: Width/Height/Length, a Palette of state -> index and
+     * varint-encoded BlockData. Version 3 nests everything under 'Schematic'
+     * and moves the block fields into 'Blocks'.
+     */
+    private readSponge(root: NbtCompound): SchematicRegion {
+        const schematic = this.isCompound(root['Schematic']) ? root['Schematic'] : root;
+        const blocksTag = this.isCompound(schematic['Blocks']) ? schematic['Blocks'] : schematic;
+        
+        const sizeX = this.getNumber(schematic, 'Width');
+        const sizeY = this.getNumber(schematic, 'Height');
+        const sizeZ = this.getNumber(schematic, 'Length');
+        const volume = this.checkVolume(sizeX, sizeY, sizeZ);
+        
+        const paletteTag = blocksTag['Palette'];
+        if (!this.isCompound(paletteTag)) {
+            throw new Error('Invalid schematic: missing block palette');
+        }
+        const palette: string[] = [];
+        for (const [state, index] of Object.entries(paletteTag)) {
+            palette[Number(index)] = state;
+        }
+        
+        const data = blocksTag['BlockData'] ?? blocksTag['Data'];
+        if (!(data instanceof Int8Array)) {
+            throw new Error('Invalid schematic: missing block data');
+        }
+        
+        // Palette indices are unsigned LEB128 varints
+        const blocks = new Uint32Array(volume);
+        let position = 0;
+        for (let i = 0; i < volume; i++) {
+            let value = 0;
+            let shift = 0;
+            let byte: number;
+            do {
+                if (position >= data.length) {
+                    throw new Error('Invalid schematic: block data is truncated');
+                }
+                byte = data[position++] & 0xFF;
+                value |= (byte & 0x7F) << shift;
+                shift += 7;
+            } while (byte & 0x80);
+            blocks[i] = value;
+        }
+        
+        for (let i = 0; i < palette.length; i++) {
+            palette[i] ??= 'minecraft:air';
+        }
+        
+        return {
+            name: 'Schematic',
+            origin: { x: 0, y: 0, z: 0 },
+            size: { x: sizeX, y: sizeY, z: sizeZ },
+            palette,
+            blocks
+        };
+    }
+    
+    /**
+     * Litematica: any number of named regions, each with a list palette and
+     * indices bit-packed into a long array (entries may span two longs)
+     */
+    private readLitematic(root: NbtCompound): SchematicRegion[] {
+        const regionsTag = root['Regions'];
+        if (!this.isCompound(regionsTag)) {
+            throw new Error('Invalid litematic: missing regions');
+        }
+        
+        const regions: SchematicRegion[] = [];
+        for (const [name, regionTag] of Object.entries(regionsTag)) {
+            if (!this.isCompound(regionTag)) continue;
+            
+            const position = this.getVector(regionTag, 'Position');
+            const size = this.getVector(regionTag, 'Size');
+            
+            // Negative sizes extend from the position towards lower coordinates
+            const origin = {
+                x: position.x + (size.x < 0 ? size.x + 1 : 0),
+                y: position.y + (size.y < 0 ? size.y + 1 : 0),
+                z: position.z + (size.z < 0 ? size.z + 1 : 0)
+            };
+            const sizeX = Math.abs(size.x);
+            const sizeY = Math.abs(size.y);
+            const sizeZ = Math.abs(size.z);
+            const volume = this.checkVolume(sizeX, sizeY, sizeZ);
+            
+            const paletteTag = regionTag['BlockStatePalette'];
+            if (!Array.isArray(paletteTag)) {
+                throw new Error(`Invalid litematic: region "${name}" has no palette`);
+            }
+            const palette = paletteTag.map(entry => this.blockStateToString(entry));
+            
+            const states = regionTag['BlockStates'];
+            if (!(states instanceof BigInt64Array)) {
+                throw new Error(`Invalid litematic: region "${name}" has no block states`);
+            }
+            
+            // Longs are packed least significant bit first, so as little-endian
+            // 32-bit words they form one continuous bit stream
+            const words = new Uint32Array(states.length * 2 + 1);
+            for (let i = 0; i < states.length; i++) {
+                const value = BigInt.asUintN(64, states[i]);
+                words[i * 2] = Number(value & 0xFFFFFFFFn);
+                words[i * 2 + 1] = Number(value >> 32n);
+            }
+            
+            const bits = Math.max(2, Math.ceil(Math.log2(palette.length)));
+            if (volume * bits > states.length * 64) {
+                throw new Error(`Invalid litematic: region "${name}" block states are truncated`);
+            }
+            
+            const mask = 2 ** bits - 1;
+            const blocks = new Uint32Array(volume);
+            for (let i = 0; i < volume; i++) {
+                const bit = i * bits;
+                const word = Math.floor(bit / 32);
+                const shift = bit % 32;
+                let value = words[word] >>> shift;
+                if (shift + bits > 32) {
+                    value |= words[word + 1] << (32 - shift);
+                }
+                blocks[i] = (value & mask) >>> 0;
+            }
+            
+            regions.push({ name, origin, size: { x: sizeX, y: sizeY, z: sizeZ }, palette, blocks });
+        }
+        
+        return regions;
+    }
+    
+    /**
+     * Count the blocks of each id (without block state properties), air excluded
+     */
+    countBlocks(schematic: SchematicData, table: BlockColorTable): Map<string, number> {
+        const counts = new Map<string, number>();
+        
+        for (const region of schematic.regions) {
+            const ids = region.palette.map(state => BlockColorTable.normalizeBlockId(state));
+            const paletteCounts = new Uint32Array(ids.length);
+            for (const index of region.blocks) {
+                paletteCounts[index]++;
+            }
+            ids.forEach((id, index) => {
+                if (paletteCounts[index] === 0 || table.findEntry(id)?.type === VoxelType.AIR) return;
+                counts.set(id, (counts.get(id) ?? 0) + paletteCounts[index]);
+            });
+        }
+        
+        return counts;
+    }
+    
+    /**
+     * Convert all regions to voxels with the block table, with the lowest
+     * corner at the origin. Returns the blocks that had no mapping.
+     */
+    convertToVoxels(schematic: SchematicData, table: BlockColorTable): { voxels: Map<string, VoxelType>; unmapped: Map<string, number> } {
+        const voxels = new Map<string, VoxelType>();
+        const unmapped = new Map<string, number>();
+        const minX = Math.min(...schematic.regions.map(region => region.origin.x));
+        const minY = Math.min(...schematic.regions.map(region => region.origin.y));
+        const minZ = Math.min(...schematic.regions.map(region => region.origin.z));
+        
+        for (const region of schematic.regions) {
+            const ids = region.palette.map(state => BlockColorTable.normalizeBlockId(state));
+            const types = ids.map(id => table.resolve(id));
+            const { x: sizeX, z: sizeZ } = region.size;
+            
+            for (let i = 0; i < region.blocks.length; i++) {
+                const index = region.blocks[i];
+                const type = types[index];
+                
+                if (type === null || type === undefined) {
+                    const id = ids[index] ?? `unknown palette index ${index}`;
+                    unmapped.set(id, (unmapped.get(id) ?? 0) + 1);
+                    continue;
+                }
+                if (type === VoxelType.AIR) continue;
+                
+                // Minecraft is Y-up and right-handed like Three.js
+                const x = i % sizeX + region.origin.x - minX;
+                const z = Math.floor(i / sizeX) % sizeZ + region.origin.z - minZ;
+                const y = Math.floor(i / (sizeX * sizeZ)) + region.origin.y - minY;
+                voxels.set(`${x},${y},${z}`, type);
+            }
+        }
+        
+        return { voxels, unmapped };
+    }
+    
+    /**
+     * Litematica palette entries are { Name, Properties } compounds
+     */
+    private blockStateToString(entry: NbtValue): string {
+        if (!this.isCompound(entry) || typeof entry['Name'] !== 'string') {
+            return 'minecraft:air';
+        }
+        const properties = entry['Properties'];
+        if (!this.isCompound(properties)) {
+            return entry['Name'];
+        }
+        const pairs = Object.entries(properties).map(([key, value]) => `${key}=${value}`);
+        return `${entry['Name']}[${pairs.join(',')}]`;
+    }
+    
+    private checkVolume(x: number, y: number, z: number): number {
+        const volume = x * y * z;
+        if (!(volume > 0)) {
+            throw new Error(`Invalid schematic: size ${x}x${y}x${z}`);
+        }
+        if (volume > MAX_BLOCKS) {
+            throw new Error(`Schematic is too large to import (${x}x${y}x${z})`);
+        }
+        return volume;
+    }
+    
+    private getNumber(compound: NbtCompound, name: string): number {
+        const value = compound[name];
+        if (typeof value !== 'number') {
+            throw new Error(`Invalid schematic: missing ${name}`);
+        }
+        // Sizes are stored as signed shorts but go up to 65535
+        return value < 0 ? value + 65536 : value;
+    }
+    
+    private getVector(compound: NbtCompound, name: string): { x: number; y: number; z: number } {
+        const value = compound[name];
+        if (!this.isCompound(value) || typeof value['x'] !== 'number' || typeof value['y'] !== 'number' || typeof value['z'] !== 'number') {
+            throw new Error(`Invalid litematic: missing ${name}`);
+        }
+        return { x: value['x'], y: value['y'], z: value['z'] };
+    }
+    
+    private isCompound(value: NbtValue | undefined): value is NbtCompound {
+        return typeof value === 'object' && value !== null && !Array.isArray(value) && !ArrayBuffer.isView(value);
+    }
+}
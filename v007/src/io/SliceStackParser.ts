@@ -0,0 +1,182 @@
+import { VoxelType } from '../types';
+import { ColorRegistry } from '../engine/ColorRegistry';
+import { PngCodec, PngImage } from './PngCodec';
+import { ZipArchive } from './ZipArchive';
+
+export type SliceAxis = 'x' | 'y' | 'z';
+export type SliceLayout = 'zip' | 'sheet';
+
+/**
+ * Where a slice stack sits in the scene. Slice i holds the voxels at
+ * origin[axis] + i. Stored as slices.json in a zip, or as a PNG text chunk
+ * on a sprite sheet.
+ */
+export interface SliceStackInfo {
+    axis: SliceAxis;
+    origin: { x: number; y: number; z: number };
+    size: { x: number; y: number; z: number };
+    // Sprite sheets: slices per row, left to right then top to bottom
+    columns?: number;
+}
+
+export interface SliceStack {
+    info: SliceStackInfo;
+    slices: PngImage[];
+}
+
+export const SLICE_MANIFEST_NAME = 'slices.json';
+export const SLICE_SHEET_KEYWORD = 'VoxelSlices';
+
+// Pixels more transparent than this are empty
+const ALPHA_THRESHOLD = 128;
+
+/**
+ * Width and height of one slice image. Slices along Y are seen from above
+ * (X right, Z down); slices along X or Z are seen from the side with Y up.
+ */
+export function getSliceDimensions(info: SliceStackInfo): { width: number; height: number } {
+    switch (info.axis) {
+        case 'x': return { width: info.size.z, height: info.size.y };
+        case 'y': return { width: info.size.x, height: info.size.z };
+        case 'z': return { width: info.size.x, height: info.size.y };
+    }
+}
+
+/**
+ * Voxel position of pixel (u, v) in slice index
+ */
+export function sliceToVoxel(info: SliceStackInfo, index: number, u: number, v: number): { x: number; y: number; z: number } {
+    const { origin, size } = info;
+    switch (info.axis) {
+        case 'x': return { x: origin.x + index, y: origin.y + size.y - 1 - v, z: origin.z + u };
+        case 'y': return { x: origin.x + u, y: origin.y + index, z: origin.z + v };
+        case 'z': return { x: origin.x + u, y: origin.y + size.y - 1 - v, z: origin.z + index };
+    }
+}
+
+/**
+ * Reads stacks of PNG slices, as a zip of one PNG per slice or as a single
+ * sprite sheet, back into voxels
+ */
+export class SliceStackParser {
+    /**
+     * Read a zip of slice PNGs. Without a manifest the PNGs are taken in
+     * name order as slices along Y, starting at the origin.
+     */
+    async parseZip(buffer: ArrayBuffer): Promise<SliceStack> {
+        const entries = await ZipArchive.read(new Uint8Array(buffer));
+        
+        const manifest = entries.find(entry => entry.name.split('/').pop() === SLICE_MANIFEST_NAME);
+        const pngEntries = entries
+            .filter(entry => entry.name.toLowerCase().endsWith('.png'))
+            .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+        if (pngEntries.length === 0) {
+            throw new Error('Invalid slice stack: the zip contains no PNG images');
+        }
+        
+        const slices: PngImage[] = [];
+        for (const entry of pngEntries) {
+            slices.push(await PngCodec.decode(entry.data));
+        }
+        
+        const info: SliceStackInfo = manifest
+            ? this.parseInfo(new TextDecoder().decode(manifest.data))
+            : {
+                axis: 'y',
+                origin: { x: 0, y: 0, z: 0 },
+                size: { x: slices[0].width, y: slices.length, z: slices[0].height }
+            };
+        
+        this.checkSlices(info, slices);
+        return { info, slices };
+    }
+    
+    /**
+     * Whether a PNG is a slice sprite sheet written by SliceStackWriter
+     */
+    isSpriteSheet(image: PngImage): boolean {
+        return image.text?.[SLICE_SHEET_KEYWORD] !== undefined;
+    }
+    
+    /**
+     * Cut a sprite sheet into its slices
+     */
+    parseSpriteSheet(image: PngImage): SliceStack {
+        const text = image.text?.[SLICE_SHEET_KEYWORD];
+        if (text === undefined) {
+            throw new Error('Invalid slice sheet: missing slice information');
+        }
+        const info = this.parseInfo(text);
+        const { width, height } = getSliceDimensions(info);
+        const count = info.size[info.axis];
+        const columns = info.columns ?? count;
+        
+        if (image.width < columns * width || image.height < Math.ceil(count / columns) * height) {
+            throw new Error('Invalid slice sheet: image is smaller than its slices');
+        }
+        
+        const slices: PngImage[] = [];
+        for (let i = 0; i < count; i++) {
+            const left = (i % columns) * width;
+            const top = Math.floor(i / columns) * height;
+            const data = new Uint8ClampedArray(width * height * 4);
+            for (let row = 0; row < height; row++) {
+                const start = ((top + row) * image.width + left) * 4;
+                data.set(image.data.subarray(start, start + width * 4), row * width * 4);
+            }
+            slices.push({ width, height, data });
+        }
+        
+        return { info, slices };
+    }
+    
+    /**
+     * Turn slices back into voxels, registering their colors
+     */
+    convertToVoxels(stack: SliceStack): Map<string, VoxelType> {
+        const voxels = new Map<string, VoxelType>();
+        const colorRegistry = ColorRegistry.getInstance();
+        const typeByColor = new Map<number, VoxelType>();
+        
+        stack.slices.forEach((slice, index) => {
+            for (let v = 0; v < slice.height; v++) {
+                for (let u = 0; u < slice.width; u++) {
+                    const i = (v * slice.width + u) * 4;
+                    if (slice.data[i + 3] < ALPHA_THRESHOLD) continue;
+                    
+                    const rgb = (slice.data[i] << 16) | (slice.data[i + 1] << 8) | slice.data[i + 2];
+                    let type = typeByColor.get(rgb);
+                    if (type === undefined) {
+                        const hex = '#' + rgb.toString(16).padStart(6, '0').toUpperCase();
+                        type = colorRegistry.getOrCreateVoxelType(hex) ?? colorRegistry.findClosestVoxelType(hex);
+                        typeByColor.set(rgb, type);
+                    }
+                    
+                    const { x, y, z } = sliceToVoxel(stack.info, index, u, v);
+                    voxels.set(`${x},${y},${z}`, type);
+                }
+            }
+        });
+        
+        return voxels;
+    }
+    
+    private parseInfo(json: string): SliceStackInfo {
+        const info = JSON.parse(json);
+        const isVector = (value: any) => value && ['x', 'y', 'z'].every(axis => Number.isInteger(value[axis]));
+        if (!['x', 'y', 'z'].includes(info?.axis) || !isVector(info.origin) || !isVector(info.size)) {
+            throw new Error('Invalid slice stack: malformed slice information');
+        }
+        return info;
+    }
+    
+    private checkSlices(info: SliceStackInfo, slices: PngImage[]): void {
+        const { width, height } = getSliceDimensions(info);
+        if (slices.length !== info.size[info.axis]) {
+            throw new Error(`Invalid slice stack: expected ${info.size[info.axis]} slices, found ${slices.length}`);
+        }
+        if (slices.some(slice => slice.width !== width || slice.height !== height)) {
+            throw new Error(`Invalid slice stack: every slice must be ${width}x${height}`);
+        }
+    }
+}
@@ -0,0 +1,124 @@
+import { VoxelType, VoxelPosition } from '../types';
+import { ColorRegistry } from '../engine/ColorRegistry';
+import { PngCodec, PngImage } from './PngCodec';
+import { ZipArchive, ZipEntry } from './ZipArchive';
+import {
+    SliceAxis,
+    SliceStack,
+    SliceStackInfo,
+    SLICE_MANIFEST_NAME,
+    SLICE_SHEET_KEYWORD,
+    getSliceDimensions,
+    sliceToVoxel
+} from './SliceStackParser';
+
+type SliceVoxel = { x: number; y: number; z: number; type: VoxelType };
+
+/**
+ * Writes voxels as a stack of PNG cross-sections along one axis, either as
+ * a zip of one PNG per slice or as a single sprite sheet. Empty cells are
+ * transparent.
+ */
+export class SliceStackWriter {
+    /**
+     * Cut voxels within bounds into slices along the axis
+     */
+    createSlices(voxels: SliceVoxel[], bounds: { min: VoxelPosition; max: VoxelPosition }, axis: SliceAxis): SliceStack {
+        const colorRegistry = ColorRegistry.getInstance();
+        const info: SliceStackInfo = {
+            axis,
+            origin: { ...bounds.min },
+            size: {
+                x: bounds.max.x - bounds.min.x + 1,
+                y: bounds.max.y - bounds.min.y + 1,
+                z: bounds.max.z - bounds.min.z + 1
+            }
+        };
+        const { width, height } = getSliceDimensions(info);
+        
+        const slices: PngImage[] = [];
+        for (let i = 0; i < info.size[axis]; i++) {
+            slices.push({ width, height, data: new Uint8ClampedArray(width * height * 4) });
+        }
+        
+        // Find each voxel's pixel from the pixel -> voxel mapping of the slice's corner
+        const corner = sliceToVoxel(info, 0, 0, 0);
+        for (const voxel of voxels) {
+            if (voxel.type === VoxelType.AIR) continue;
+            
+            let index: number, u: number, v: number;
+            switch (axis) {
+                case 'x':
+                    [index, u, v] = [voxel.x - corner.x, voxel.z - corner.z, corner.y - voxel.y];
+                    break;
+                case 'y':
+                    [index, u, v] = [voxel.y - corner.y, voxel.x - corner.x, voxel.z - corner.z];
+                    break;
+                case 'z':
+                    [index, u, v] = [voxel.z - corner.z, voxel.x - corner.x, corner.y - voxel.y];
+                    break;
+            }
+            const slice = slices[index];
+            if (!slice || u < 0 || u >= width || v < 0 || v >= height) continue;
+            
+            const rgb = parseInt((colorRegistry.getColor(voxel.type) || '#FFFFFF').slice(1), 16);
+            const i = (v * width + u) * 4;
+            slice.data[i] = (rgb >> 16) & 0xFF;
+            slice.data[i + 1] = (rgb >> 8) & 0xFF;
+            slice.data[i + 2] = rgb & 0xFF;
+            slice.data[i + 3] = 255;
+        }
+        
+        return { info, slices };
+    }
+    
+    /**
+     * One PNG per slice, named in stack order, plus the slices.json manifest
+     */
+    async createZip(stack: SliceStack): Promise<Uint8Array> {
+        const digits = Math.max(3, String(stack.slices.length - 1).length);
+        const entries: ZipEntry[] = [];
+        
+        for (const [index, slice] of stack.slices.entries()) {
+            const position = stack.info.origin[stack.info.axis] + index;
+            entries.push({
+                name: `slice_${String(index).padStart(digits, '0')}_${stack.info.axis}${position}.png`,
+                data: await PngCodec.encode(slice)
+            });
+        }
+        entries.push({
+            name: SLICE_MANIFEST_NAME,
+            data: new TextEncoder().encode(JSON.stringify(stack.info, null, 2))
+        });
+        
+        return ZipArchive.create(entries);
+    }
+    
+    /**
+     * All slices in one PNG, in a grid as close to square as possible,
+     * with the stack information in a text chunk
+     */
+    async createSpriteSheet(stack: SliceStack): Promise<Uint8Array> {
+        const { width, height } = getSliceDimensions(stack.info);
+        const count = stack.slices.length;
+        const columns = Math.min(count, Math.max(1, Math.round(Math.sqrt(count * height / width))));
+        const rows = Math.ceil(count / columns);
+        
+        const sheetWidth = columns * width;
+        const data = new Uint8ClampedArray(sheetWidth * rows * height * 4);
+        stack.slices.forEach((slice, index) => {
+            const left = (index % columns) * width;
+            const top = Math.floor(index / columns) * height;
+            for (let row = 0; row < height; row++) {
+                data.set(slice.data.subarray(row * width * 4, (row + 1) * width * 4), ((top + row) * sheetWidth + left) * 4);
+            }
+        });
+        
+        return PngCodec.encode({
+            width: sheetWidth,
+            height: rows * height,
+            data,
+            text: { [SLICE_SHEET_KEYWORD]: JSON.stringify({ ...stack.info, columns }) }
+        });
+    }
+}
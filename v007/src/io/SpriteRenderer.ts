@@ -0,0 +1,254 @@
+import { VoxelType, VoxelPosition } from '../types';
+import { ColorRegistry } from '../engine/ColorRegistry';
+import { PngImage } from './PngCodec';
+
+type Vector3 = [number, number, number];
+
+/**
+ * One visible voxel face, already shaded
+ */
+export interface SpriteFace {
+    // Corners in world voxel units, counter-clockwise seen from outside
+    corners: [Vector3, Vector3, Vector3, Vector3];
+    color: [number, number, number];
+}
+
+/**
+ * Size of a sprite frame in pixels, and where the pivot lands in it
+ */
+export interface SpriteFrameLayout {
+    width: number;
+    height: number;
+    pivotX: number;
+    pivotY: number;
+}
+
+/**
+ * Renders shaded faces through a projection to an RGBA image with a
+ * transparent background. The WebGL renderer is used in the browser;
+ * SoftwareSpriteRenderer produces the same frames without a GPU.
+ */
+export interface SpriteRenderer {
+    render(faces: SpriteFace[], projection: SpriteProjection): Promise<PngImage>;
+}
+
+// Pitch giving the 2:1 pixel-art "isometric" look (really dimetric)
+export const DIMETRIC_PITCH = Math.atan(0.5) * 180 / Math.PI;
+// Pitch of true isometric projection
+export const ISOMETRIC_PITCH = Math.atan(1 / Math.SQRT2) * 180 / Math.PI;
+
+// Light from the upper left of the camera, so every frame is shaded alike
+const AMBIENT = 0.55;
+const DIFFUSE = 0.45;
+const LIGHT_IN_VIEW: Vector3 = [-0.35, 0.8, 0.5];
+
+// Face normals and their corners on the unit cube, counter-clockwise from outside
+const FACES: { normal: Vector3; corners: [Vector3, Vector3, Vector3, Vector3] }[] = [
+    { normal: [1, 0, 0], corners: [[1, 0, 1], [1, 0, 0], [1, 1, 0], [1, 1, 1]] },
+    { normal: [-1, 0, 0], corners: [[0, 0, 0], [0, 0, 1], [0, 1, 1], [0, 1, 0]] },
+    { normal: [0, 1, 0], corners: [[0, 1, 1], [1, 1, 1], [1, 1, 0], [0, 1, 0]] },
+    { normal: [0, -1, 0], corners: [[0, 0, 0], [1, 0, 0], [1, 0, 1], [0, 0, 1]] },
+    { normal: [0, 0, 1], corners: [[0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1]] },
+    { normal: [0, 0, -1], corners: [[1, 0, 0], [0, 0, 0], [0, 1, 0], [1, 1, 0]] }
+];
+
+const dot = (a: Vector3, b: Vector3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+/**
+ * Orthographic camera looking down at pitch degrees from yaw degrees around
+ * the Y axis (yaw 45 looks from +X+Z, like the main camera). The pivot point
+ * always lands on the same pixel, so frames line up when swapped in game.
+ */
+export class SpriteProjection {
+    // Camera basis in world space; forward points from the scene to the camera
+    readonly right: Vector3;
+    readonly up: Vector3;
+    readonly forward: Vector3;
+    
+    constructor(
+        readonly yaw: number,
+        readonly pitch: number,
+        readonly pixelsPerVoxel: number,
+        readonly pivot: VoxelPosition,
+        readonly layout: SpriteFrameLayout
+    ) {
+        const theta = yaw * Math.PI / 180;
+        const phi = pitch * Math.PI / 180;
+        this.right = [Math.cos(theta), 0, -Math.sin(theta)];
+        this.up = [-Math.sin(phi) * Math.sin(theta), Math.cos(phi), -Math.sin(phi) * Math.cos(theta)];
+        this.forward = [Math.cos(phi) * Math.sin(theta), Math.sin(phi), Math.cos(phi) * Math.cos(theta)];
+    }
+    
+    /**
+     * Pixel position of a world point, plus its depth (larger is nearer the camera)
+     */
+    project(point: Vector3): { x: number; y: number; depth: number } {
+        const relative: Vector3 = [point[0] - this.pivot.x, point[1] - this.pivot.y, point[2] - this.pivot.z];
+        return {
+            x: this.layout.pivotX + dot(relative, this.right) * this.pixelsPerVoxel,
+            y: this.layout.pivotY - dot(relative, this.up) * this.pixelsPerVoxel,
+            depth: dot(relative, this.forward)
+        };
+    }
+    
+    /**
+     * Light direction in world space
+     */
+    getLightDirection(): Vector3 {
+        const [x, y, z] = LIGHT_IN_VIEW;
+        const light: Vector3 = [
+            this.right[0] * x + this.up[0] * y + this.forward[0] * z,
+            this.right[1] * x + this.up[1] * y + this.forward[1] * z,
+            this.right[2] * x + this.up[2] * y + this.forward[2] * z
+        ];
+        const length = Math.hypot(...light);
+        return [light[0] / length, light[1] / length, light[2] / length];
+    }
+    
+    /**
+     * The pivot is the center of the footprint: where the model meets the ground
+     */
+    static getPivot(bounds: { min: VoxelPosition; max: VoxelPosition }): VoxelPosition {
+        return {
+            x: (bounds.min.x + bounds.max.x + 1) / 2,
+            y: bounds.min.y,
+            z: (bounds.min.z + bounds.max.z + 1) / 2
+        };
+    }
+    
+    /**
+     * One frame layout big enough for the bounds seen from every yaw, with
+     * the pivot centered horizontally and a pixel of margin
+     */
+    static fitLayout(bounds: { min: VoxelPosition; max: VoxelPosition }, yaws: number[], pitch: number, pixelsPerVoxel: number): SpriteFrameLayout {
+        const pivot = SpriteProjection.getPivot(bounds);
+        const origin = { width: 0, height: 0, pivotX: 0, pivotY: 0 };
+        let halfWidth = 0;
+        let top = 0;
+        let bottom = 0;
+        
+        for (const yaw of yaws) {
+            const projection = new SpriteProjection(yaw, pitch, pixelsPerVoxel, pivot, origin);
+            for (const x of [bounds.min.x, bounds.max.x + 1]) {
+                for (const y of [bounds.min.y, bounds.max.y + 1]) {
+                    for (const z of [bounds.min.z, bounds.max.z + 1]) {
+                        const point = projection.project([x, y, z]);
+                        halfWidth = Math.max(halfWidth, Math.abs(point.x));
+                        top = Math.min(top, point.y);
+                        bottom = Math.max(bottom, point.y);
+                    }
+                }
+            }
+        }
+        
+        const pivotX = Math.ceil(halfWidth) + 1;
+        const pivotY = Math.ceil(-top) + 1;
+        return { width: pivotX * 2, height: pivotY + Math.ceil(bottom) + 1, pivotX, pivotY };
+    }
+}
+
+/**
+ * Collect the faces of voxels that are exposed and facing the camera, shaded
+ */
+export function createSpriteFaces(voxels: Map<string, VoxelType>, projection: SpriteProjection): SpriteFace[] {
+    const colorRegistry = ColorRegistry.getInstance();
+    const light = projection.getLightDirection();
+    const faces: SpriteFace[] = [];
+    
+    const shades = FACES.map(face => AMBIENT + DIFFUSE * Math.max(0, dot(face.normal, light)));
+    const visible = FACES.map(face => dot(face.normal, projection.forward) > 1e-6);
+    const rgbByType = new Map<VoxelType, number>();
+    
+    for (const [key, type] of voxels) {
+        if (type === VoxelType.AIR) continue;
+        const [x, y, z] = key.split(',').map(Number);
+        
+        let rgb = rgbByType.get(type);
+        if (rgb === undefined) {
+            rgb = parseInt((colorRegistry.getColor(type) || '#FFFFFF').slice(1), 16);
+            rgbByType.set(type, rgb);
+        }
+        
+        FACES.forEach((face, index) => {
+            if (!visible[index]) return;
+            const [nx, ny, nz] = face.normal;
+            const neighbor = voxels.get(`${x + nx},${y + ny},${z + nz}`);
+            if (neighbor !== undefined && neighbor !== VoxelType.AIR) return;
+            
+            const shade = shades[index];
+            faces.push({
+                corners: face.corners.map(([cx, cy, cz]) => [x + cx, y + cy, z + cz]) as SpriteFace['corners'],
+                color: [
+                    Math.min(255, Math.round(((rgb! >> 16) & 0xFF) * shade)),
+                    Math.min(255, Math.round(((rgb! >> 8) & 0xFF) * shade)),
+                    Math.min(255, Math.round((rgb! & 0xFF) * shade))
+                ]
+            });
+        });
+    }
+    
+    return faces;
+}
+
+/**
+ * Scanline-free triangle rasterizer with a depth buffer. Pixels are covered
+ * when their center is inside a triangle, edges included, so faces that
+ * share an edge leave no gaps.
+ */
+export class SoftwareSpriteRenderer implements SpriteRenderer {
+    async render(faces: SpriteFace[], projection: SpriteProjection): Promise<PngImage> {
+        const { width, height } = projection.layout;
+        const data = new Uint8ClampedArray(width * height * 4);
+        const depthBuffer = new Float32Array(width * height).fill(-Infinity);
+        
+        for (const face of faces) {
+            const [a, b, c, d] = face.corners.map(corner => projection.project(corner));
+            this.fillTriangle(a, b, c, face.color, width, height, data, depthBuffer);
+            this.fillTriangle(a, c, d, face.color, width, height, data, depthBuffer);
+        }
+        
+        return { width, height, data };
+    }
+    
+    private fillTriangle(
+        a: { x: number; y: number; depth: number },
+        b: { x: number; y: number; depth: number },
+        c: { x: number; y: number; depth: number },
+        color: [number, number, number],
+        width: number,
+        height: number,
+        data: Uint8ClampedArray,
+        depthBuffer: Float32Array
+    ): void {
+        const area = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+        if (Math.abs(area) < 1e-9) return;
+        
+        const minX = Math.max(0, Math.floor(Math.min(a.x, b.x, c.x)));
+        const maxX = Math.min(width - 1, Math.ceil(Math.max(a.x, b.x, c.x)));
+        const minY = Math.max(0, Math.floor(Math.min(a.y, b.y, c.y)));
+        const maxY = Math.min(height - 1, Math.ceil(Math.max(a.y, b.y, c.y)));
+        
+        for (let py = minY; py <= maxY; py++) {
+            const y = py + 0.5;
+            for (let px = minX; px <= maxX; px++) {
+                const x = px + 0.5;
+                
+                // Barycentric weights; all share the sign of the area when inside
+                const wa = ((b.x - x) * (c.y - y) - (b.y - y) * (c.x - x)) / area;
+                const wb = ((c.x - x) * (a.y - y) - (c.y - y) * (a.x - x)) / area;
+                const wc = 1 - wa - wb;
+                if (wa < -1e-9 || wb < -1e-9 || wc < -1e-9) continue;
+                
+                const depth = wa * a.depth + wb * b.depth + wc * c.depth;
+                const index = py * width + px;
+                if (depth <= depthBuffer[index]) continue;
+                depthBuffer[index] = depth;
+                
+                data[index * 4] = color[0];
+                data[index * 4 + 1] = color[1];
+                data[index * 4 + 2] = color[2];
+                data[index * 4 + 3] = 255;
+            }
+        }
+    }
+}
@@ -0,0 +1,151 @@
+import { VoxelType } from '../types';
+import { PngCodec, PngImage } from './PngCodec';
+import {
+    SpriteProjection,
+    SpriteRenderer,
+    SpriteFrameLayout,
+    SoftwareSpriteRenderer,
+    createSpriteFaces,
+    DIMETRIC_PITCH
+} from './SpriteRenderer';
+
+export interface SpriteSheetOptions {
+    // Number of yaw angles, evenly spaced starting at 45 degrees
+    directions: 4 | 8;
+    // Size of one voxel edge on screen, in pixels
+    pixelsPerVoxel: number;
+    // Camera angle above the horizon in degrees
+    pitch: number;
+}
+
+export const DEFAULT_SPRITE_SHEET_OPTIONS: SpriteSheetOptions = {
+    directions: 4,
+    pixelsPerVoxel: 4,
+    pitch: DIMETRIC_PITCH
+};
+
+/**
+ * Sprite atlas in the TexturePacker "JSON hash" layout, which most 2D
+ * engines load directly. Pivots are normalized to the frame (0-1).
+ */
+export interface SpriteAtlas {
+    frames: Record<string, {
+        frame: { x: number; y: number; w: number; h: number };
+        rotated: false;
+        trimmed: false;
+        spriteSourceSize: { x: number; y: number; w: number; h: number };
+        sourceSize: { w: number; h: number };
+        pivot: { x: number; y: number };
+        yaw: number;
+    }>;
+    meta: {
+        app: string;
+        version: string;
+        image: string;
+        format: 'RGBA8888';
+        size: { w: number; h: number };
+        scale: '1';
+        pixelsPerVoxel: number;
+        pitch: number;
+        directions: number;
+    };
+}
+
+/**
+ * Renders voxels from several yaw angles through an orthographic camera and
+ * packs the frames into one sprite sheet with an atlas. All frames have the
+ * same size and pivot so they can be swapped without jitter.
+ */
+export class SpriteSheetWriter {
+    private renderer: SpriteRenderer;
+    
+    constructor(renderer: SpriteRenderer = new SoftwareSpriteRenderer()) {
+        this.renderer = renderer;
+    }
+    
+    /**
+     * Render the frames, without packing them. They all share the layout.
+     */
+    async renderFrames(voxels: Map<string, VoxelType>, options: SpriteSheetOptions): Promise<{ layout: SpriteFrameLayout; frames: { yaw: number; image: PngImage }[] }> {
+        const bounds = this.getBounds(voxels);
+        const yaws = Array.from({ length: options.directions }, (_, i) => (45 + i * 360 / options.directions) % 360);
+        const layout = SpriteProjection.fitLayout(bounds, yaws, options.pitch, options.pixelsPerVoxel);
+        const pivot = SpriteProjection.getPivot(bounds);
+        
+        const frames: { yaw: number; image: PngImage }[] = [];
+        for (const yaw of yaws) {
+            const projection = new SpriteProjection(yaw, options.pitch, options.pixelsPerVoxel, pivot, layout);
+            const image = await this.renderer.render(createSpriteFaces(voxels, projection), projection);
+            frames.push({ yaw, image });
+        }
+        return { layout, frames };
+    }
+    
+    /**
+     * Render and pack the frames, in rows of at most four, into a sheet
+     * named name.png with its atlas
+     */
+    async createSpriteSheet(name: string, voxels: Map<string, VoxelType>, options: SpriteSheetOptions): Promise<{ png: Uint8Array; atlas: SpriteAtlas }> {
+        const { layout, frames } = await this.renderFrames(voxels, options);
+        const { width, height } = layout;
+        const columns = Math.min(4, frames.length);
+        const rows = Math.ceil(frames.length / columns);
+        const sheetWidth = columns * width;
+        
+        const data = new Uint8ClampedArray(sheetWidth * rows * height * 4);
+        const atlas: SpriteAtlas = {
+            frames: {},
+            meta: {
+                app: 'NeverEverLand v007',
+                version: '1.0',
+                image: `${name}.png`,
+                format: 'RGBA8888',
+                size: { w: sheetWidth, h: rows * height },
+                scale: '1',
+                pixelsPerVoxel: options.pixelsPerVoxel,
+                pitch: Math.round(options.pitch * 1000) / 1000,
+                directions: options.directions
+            }
+        };
+        
+        frames.forEach((frame, index) => {
+            const left = (index % columns) * width;
+            const top = Math.floor(index / columns) * height;
+            for (let row = 0; row < height; row++) {
+                data.set(frame.image.data.subarray(row * width * 4, (row + 1) * width * 4), ((top + row) * sheetWidth + left) * 4);
+            }
+            
+            atlas.frames[`${name}_${String(Math.round(frame.yaw)).padStart(3, '0')}`] = {
+                frame: { x: left, y: top, w: width, h: height },
+                rotated: false,
+                trimmed: false,
+                spriteSourceSize: { x: 0, y: 0, w: width, h: height },
+                sourceSize: { w: width, h: height },
+                pivot: { x: layout.pivotX / width, y: layout.pivotY / height },
+                yaw: frame.yaw
+            };
+        });
+        
+        const png = await PngCodec.encode({ width: sheetWidth, height: rows * height, data });
+        return { png, atlas };
+    }
+    
+    private getBounds(voxels: Map<string, VoxelType>): { min: { x: number; y: number; z: number }; max: { x: number; y: number; z: number } } {
+        const min = { x: Infinity, y: Infinity, z: Infinity };
+        const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+        for (const [key, type] of voxels) {
+            if (type === VoxelType.AIR) continue;
+            const [x, y, z] = key.split(',').map(Number);
+            min.x = Math.min(min.x, x);
+            min.y = Math.min(min.y, y);
+            min.z = Math.min(min.z, z);
+            max.x = Math.max(max.x, x);
+            max.y = Math.max(max.y, y);
+            max.z = Math.max(max.z, z);
+        }
+        if (min.x === Infinity) {
+            throw new Error('Nothing to render: no voxels');
+        }
+        return { min, max };
+    }
+}
@@ -0,0 +1,146 @@
+import { VoxelType } from '../types';
+import { collectBakedQuads, BakedQuad } from './BakedQuads';
+
+/**
+ * Binary STL writer for 3D printing
+ * All voxels are meshed as one solid and greedy-meshed quads are re-triangulated
+ * wherever a neighbouring quad's corner lands on their edge (a T-junction), so
+ * every triangle edge is shared by exactly one opposite edge and the mesh is watertight.
+ */
+
+export interface StlExportOptions {
+    // Size of one voxel in output units (slicers usually read STL units as millimetres)
+    voxelSize?: number;
+}
+
+const STL_HEADER_SIZE = 80;
+const STL_TRIANGLE_SIZE = 50;
+
+export class StlWriter {
+    /**
+     * Create a binary STL file from voxel data
+     */
+    createStlFile(voxels: Map<string, VoxelType>, options: StlExportOptions = {}): ArrayBuffer {
+        const voxelSize = options.voxelSize ?? 0.1;
+        
+        // Colors don't exist in STL; meshing everything as one type avoids
+        // internal faces between different types and between opaque and transparent voxels
+        const solid = new Map<string, VoxelType>();
+        for (const key of voxels.keys()) {
+            solid.set(key, VoxelType.STONE);
+        }
+        
+        const quads = collectBakedQuads(solid);
+        const lines = this.indexCornerLines(quads);
+        
+        const triangles: { normal: number[]; vertices: number[][] }[] = [];
+        for (const quad of quads) {
+            const polygon = this.insertEdgeVertices(quad, lines);
+            
+            if (polygon.length === 4) {
+                triangles.push({ normal: quad.normal, vertices: [polygon[0], polygon[1], polygon[2]] });
+                triangles.push({ normal: quad.normal, vertices: [polygon[0], polygon[2], polygon[3]] });
+                continue;
+            }
+            
+            // Fan around the quad center so no triangle is degenerate
+            const center = [0, 1, 2].map(axis => quad.corners.reduce((sum, corner) => sum + corner[axis], 0) / 4);
+            for (let i = 0; i < polygon.length; i++) {
+                triangles.push({
+                    normal: quad.normal,
+                    vertices: [center, polygon[i], polygon[(i + 1) % polygon.length]]
+                });
+            }
+        }
+        
+        return this.writeBinary(triangles, voxelSize);
+    }
+    
+    /**
+     * Index quad corners by the axis-aligned lines they lie on.
+     * Key is axis plus the two fixed coordinates, value the sorted positions along the axis.
+     */
+    private indexCornerLines(quads: BakedQuad[]): Map<string, number[]> {
+        const sets = new Map<string, Set<number>>();
+        
+        for (const quad of quads) {
+            for (const [x, y, z] of quad.corners) {
+                for (const [key, value] of [[`x|${y}|${z}`, x], [`y|${x}|${z}`, y], [`z|${x}|${y}`, z]] as [string, number][]) {
+                    const set = sets.get(key);
+                    if (set) set.add(value);
+                    else sets.set(key, new Set([value]));
+                }
+            }
+        }
+        
+        const lines = new Map<string, number[]>();
+        for (const [key, set] of sets) {
+            lines.set(key, [...set].sort((a, b) => a - b));
+        }
+        return lines;
+    }
+    
+    /**
+     * Walk the quad outline, adding any corners of other quads that lie on its edges
+     */
+    private insertEdgeVertices(quad: BakedQuad, lines: Map<string, number[]>): number[][] {
+        const polygon: number[][] = [];
+        
+        for (let i = 0; i < 4; i++) {
+            const start = quad.corners[i];
+            const end = quad.corners[(i + 1) % 4];
+            polygon.push(start);
+            
+            // Edges are axis aligned, so exactly one coordinate changes
+            const axis = start[0] !== end[0] ? 0 : start[1] !== end[1] ? 1 : 2;
+            const fixed = [0, 1, 2].filter(a => a !== axis).map(a => start[a]);
+            const positions = lines.get(`${'xyz'[axis]}|${fixed[0]}|${fixed[1]}`) ?? [];
+            
+            const from = Math.min(start[axis], end[axis]);
+            const to = Math.max(start[axis], end[axis]);
+            const between = positions.filter(p => p > from && p < to);
+            if (start[axis] > end[axis]) between.reverse();
+            
+            for (const position of between) {
+                const vertex = [...start];
+                vertex[axis] = position;
+                polygon.push(vertex);
+            }
+        }
+        
+        return polygon;
+    }
+    
+    /**
+     * Write triangles in binary STL layout: 80-byte header, triangle count,
+     * then normal, three vertices and an attribute word per triangle
+     */
+    private writeBinary(triangles: { normal: number[]; vertices: number[][] }[], voxelSize: number): ArrayBuffer {
+        const buffer = new ArrayBuffer(STL_HEADER_SIZE + 4 + triangles.length * STL_TRIANGLE_SIZE);
+        const view = new DataView(buffer);
+        
+        const header = 'NeverEverLand v007 STL export';
+        for (let i = 0; i < header.length; i++) {
+            view.setUint8(i, header.charCodeAt(i));
+        }
+        view.setUint32(STL_HEADER_SIZE, triangles.length, true);
+        
+        let offset = STL_HEADER_SIZE + 4;
+        for (const triangle of triangles) {
+            for (const value of triangle.normal) {
+                view.setFloat32(offset, value, true);
+                offset += 4;
+            }
+            for (const vertex of triangle.vertices) {
+                for (const value of vertex) {
+                    view.setFloat32(offset, value * voxelSize, true);
+                    offset += 4;
+                }
+            }
+            view.setUint16(offset, 0, true); // Attribute byte count
+            offset += 2;
+        }
+        
+        return buffer;
+    }
+}
@@ -0,0 +1,194 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/addons/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/addons/postprocessing/RenderPass.js';
+import { OutputPass } from 'three/addons/postprocessing/OutputPass.js';
+import { FullScreenQuad } from 'three/addons/postprocessing/Pass.js';
+import { VoxelEngine } from '../engine/VoxelEngine';
+import { TiltShiftPass } from '../postprocessing/TiltShiftPass';
+import { PngImage } from './PngCodec';
+
+export type TurntableFormat = 'gif' | 'apng';
+
+export interface TurntableOptions {
+    format: TurntableFormat;
+    // Output size in pixels
+    width: number;
+    height: number;
+    frameCount: number;
+    // Length of one full turn in seconds
+    duration: number;
+    // 'scene' keeps the sky and ground, 'transparent' drops them, otherwise a #rrggbb color
+    background: string;
+    // Draw voxel edges while recording
+    edges: boolean;
+}
+
+export const DEFAULT_TURNTABLE_OPTIONS: TurntableOptions = {
+    format: 'gif',
+    width: 480,
+    height: 480,
+    frameCount: 36,
+    duration: 4,
+    background: 'scene',
+    edges: false
+};
+
+/**
+ * The viewport being recorded
+ */
+export interface TurntableView {
+    // Gives the starting angle, elevation and clipping planes
+    camera: THREE.OrthographicCamera;
+    target: THREE.Vector3;
+    // The viewport's tilt-shift pass, or null when post-processing is off
+    tiltShift: TiltShiftPass | null;
+    // Editor overlays (grid, axes), hidden while recording
+    helpers: THREE.Object3D[];
+    // Part of the scene background (ground), hidden unless the background is 'scene'
+    backdrop: THREE.Object3D[];
+}
+
+/**
+ * Orbits an orthographic camera around the scene bounds and renders each
+ * frame offscreen through the same post-processing as the viewport, so the
+ * frames look like the editor without the editor overlays. The scene,
+ * renderer and edge display are restored afterwards.
+ */
+export class TurntableRecorder {
+    private renderer: THREE.WebGLRenderer;
+    private scene: THREE.Scene;
+    private voxelEngine: VoxelEngine;
+    
+    constructor(renderer: THREE.WebGLRenderer, scene: THREE.Scene, voxelEngine: VoxelEngine) {
+        this.renderer = renderer;
+        this.scene = scene;
+        this.voxelEngine = voxelEngine;
+    }
+    
+    /**
+     * Render frameCount frames of one full turn, starting from the view's angle
+     */
+    record(view: TurntableView, options: TurntableOptions): PngImage[] {
+        if (this.voxelEngine.getVoxelCount() === 0) {
+            throw new Error('Nothing to record: the scene is empty');
+        }
+        const { width, height, frameCount } = options;
+        
+        // Frame the bounding sphere so the model fits from every angle
+        const bounds = this.voxelEngine.getBounds();
+        const voxelSize = this.voxelEngine.getVoxelSize();
+        const center = new THREE.Vector3(
+            (bounds.min.x + bounds.max.x + 1) / 2,
+            (bounds.min.y + bounds.max.y + 1) / 2,
+            (bounds.min.z + bounds.max.z + 1) / 2
+        ).multiplyScalar(voxelSize);
+        const radius = new THREE.Vector3(
+            bounds.max.x - bounds.min.x + 1,
+            bounds.max.y - bounds.min.y + 1,
+            bounds.max.z - bounds.min.z + 1
+        ).length() * voxelSize / 2;
+        
+        const aspect = width / height;
+        const halfHeight = radius * 1.1 * Math.max(1, 1 / aspect);
+        const camera = new THREE.OrthographicCamera(
+            -halfHeight * aspect, halfHeight * aspect, halfHeight, -halfHeight,
+            view.camera.near, view.camera.far
+        );
+        
+        const direction = view.camera.position.clone().sub(view.target).normalize();
+        // Straight down would leave lookAt without a horizon to keep level
+        const elevation = THREE.MathUtils.clamp(Math.asin(THREE.MathUtils.clamp(direction.y, -1, 1)), -1.5, 1.5);
+        const startAngle = Math.atan2(direction.x, direction.z);
+        const distance = radius * 2 + 1;
+        
+        // Offscreen pipeline at the output size, mirroring the viewport's
+        const composer = new EffectComposer(this.renderer);
+        composer.renderToScreen = false;
+        composer.setPixelRatio(1);
+        composer.addPass(new RenderPass(this.scene, camera));
+        if (view.tiltShift?.enabled) {
+            const tiltShift = new TiltShiftPass(width, height);
+            tiltShift.focusPosition = view.tiltShift.focusPosition;
+            tiltShift.focusBandwidth = view.tiltShift.focusBandwidth;
+            tiltShift.blurStrength = view.tiltShift.blurStrength;
+            tiltShift.gammaCorrection = view.tiltShift.gammaCorrection;
+            tiltShift.bladeCount = view.tiltShift.bladeCount;
+            composer.addPass(tiltShift);
+        } else {
+            // Without tilt-shift the viewport renders straight to the screen, converting to sRGB
+            composer.addPass(new OutputPass());
+        }
+        composer.setSize(width, height);
+        
+        // Copy the result into an 8-bit target that can be read back
+        const target = new THREE.WebGLRenderTarget(width, height);
+        const copyMaterial = new THREE.MeshBasicMaterial({
+            map: composer.readBuffer.texture,
+            transparent: true,
+            blending: THREE.NoBlending,
+            toneMapped: false
+        });
+        const copy = new FullScreenQuad(copyMaterial);
+        
+        // Set up the scene for recording, remembering what to restore
+        const previousTarget = this.renderer.getRenderTarget();
+        const previousClearColor = this.renderer.getClearColor(new THREE.Color());
+        const previousClearAlpha = this.renderer.getClearAlpha();
+        const previousBackground = this.scene.background;
+        const hidden = [...view.helpers, ...(options.background === 'scene' ? [] : view.backdrop)].filter(object => object.visible);
+        const toggleEdges = this.voxelEngine.getShowEdges() !== options.edges;
+        
+        hidden.forEach(object => object.visible = false);
+        if (toggleEdges) this.voxelEngine.toggleEdges();
+        if (options.background === 'transparent') {
+            this.scene.background = null;
+            this.renderer.setClearColor(0x000000, 0);
+        } else if (options.background !== 'scene') {
+            this.scene.background = new THREE.Color(options.background);
+        }
+        
+        const frames: PngImage[] = [];
+        try {
+            for (let i = 0; i < frameCount; i++) {
+                const angle = startAngle + i * Math.PI * 2 / frameCount;
+                camera.position.set(
+                    center.x + Math.sin(angle) * Math.cos(elevation) * distance,
+                    center.y + Math.sin(elevation) * distance,
+                    center.z + Math.cos(angle) * Math.cos(elevation) * distance
+                );
+                camera.lookAt(center);
+                camera.updateProjectionMatrix();
+                
+                composer.render();
+                // The composer swaps buffers, so the result alternates between them
+                copyMaterial.map = composer.readBuffer.texture;
+                this.renderer.setRenderTarget(target);
+                copy.render(this.renderer);
+                
+                const pixels = new Uint8Array(width * height * 4);
+                this.renderer.readRenderTargetPixels(target, 0, 0, width, height, pixels);
+                
+                // WebGL rows start at the bottom
+                const data = new Uint8ClampedArray(width * height * 4);
+                for (let row = 0; row < height; row++) {
+                    data.set(pixels.subarray((height - 1 - row) * width * 4, (height - row) * width * 4), row * width * 4);
+                }
+                frames.push({ width, height, data });
+            }
+        } finally {
+            hidden.forEach(object => object.visible = true);
+            if (toggleEdges) this.voxelEngine.toggleEdges();
+            this.scene.background = previousBackground;
+            this.renderer.setClearColor(previousClearColor, previousClearAlpha);
+            this.renderer.setRenderTarget(previousTarget);
+            
+            composer.passes.forEach(pass => pass.dispose());
+            composer.dispose();
+            copyMaterial.dispose();
+            copy.dispose();
+            target.dispose();
+        }
+        
+        return frames;
+    }
+}
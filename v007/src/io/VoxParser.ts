@@ -1,4 +1,5 @@
-import { VoxelType } from '../types';
+import { VoxelType, VoxelMaterial } from '../types';
+import { ColorRegistry } from '../engine/ColorRegistry';
 
 /**
  * VOX file format parser for MagicaVoxel .vox files
@@ -39,10 +40,65 @@ interface VoxModel {
     voxels: VoxVoxel[];
 }
 
-interface VoxData {
+type VoxDict = Record<string, string>;
+
+// Scene graph nodes (nTRN / nGRP / nSHP chunks)
+interface VoxTransformNode {
+    kind: 'transform';
+    id: number;
+    attributes: VoxDict;
+    childId: number;
+    layerId: number;
+    frames: VoxDict[];
+}
+
+interface VoxGroupNode {
+    kind: 'group';
+    id: number;
+    attributes: VoxDict;
+    childIds: number[];
+}
+
+interface VoxShapeNode {
+    kind: 'shape';
+    id: number;
+    attributes: VoxDict;
+    models: { modelId: number; attributes: VoxDict }[];
+}
+
+type VoxNode = VoxTransformNode | VoxGroupNode | VoxShapeNode;
+
+// LAYR chunk
+interface VoxLayer {
+    id: number;
+    name: string;
+    hidden: boolean;
+}
+
+export interface VoxData {
     version: number;
     models: VoxModel[];
     palette: VoxColor[];
+    nodes: Map<number, VoxNode>;
+    layers: VoxLayer[];
+    // Non-diffuse MATL materials keyed by palette color index
+    materials: Map<number, VoxelMaterial>;
+}
+
+/**
+ * Voxels of one imported layer (a MagicaVoxel layer, Qubicle matrix
+ * or Goxel layer), placed in world space
+ */
+export interface VoxLayerData {
+    name: string;
+    hidden: boolean;
+    voxels: Map<string, VoxelType>;
+}
+
+// Rotation (row-major 3x3) and translation accumulated down the scene graph
+interface VoxTransform {
+    rotation: number[];
+    translation: [number, number, number];
 }
 
 export class VoxParser {
@@ -76,6 +132,9 @@ export class VoxParser {
         const models: VoxModel[] = [];
         let palette: VoxColor[] | null = null;
         let currentModel: Partial<VoxModel> = {};
+        const nodes = new Map<number, VoxNode>();
+        const layers: VoxLayer[] = [];
+        const materials = new Map<number, VoxelMaterial>();
         
         // Process all chunks in the main chunk
         const endOffset = this.offset + mainChunk.childrenSize;
@@ -100,6 +159,26 @@ export class VoxParser {
                     palette = this.parsePaletteChunk(chunk);
                     break;
                     
+                case 'nTRN':
+                case 'nGRP':
+                case 'nSHP': {
+                    const node = this.parseNodeChunk(chunk);
+                    nodes.set(node.id, node);
+                    break;
+                }
+                    
+                case 'LAYR':
+                    layers.push(this.parseLayerChunk(chunk));
+                    break;
+                    
+                case 'MATL': {
+                    const { id, material } = this.parseMaterialChunk(chunk);
+                    if (material) {
+                        materials.set(id, material);
+                    }
+                    break;
+                }
+                    
                 default:
                     // Skip unknown chunks
                     console.log(`Skipping unknown chunk: ${chunk.id}`);
@@ -114,7 +193,10 @@ export class VoxParser {
         return {
             version,
             models,
-            palette
+            palette,
+            nodes,
+            layers,
+            materials
         };
     }
     
@@ -197,6 +279,98 @@ export class VoxParser {
         return palette;
     }
     
+    /**
+     * Parse nTRN, nGRP or nSHP chunk (scene graph node)
+     */
+    private parseNodeChunk(chunk: VoxChunk): VoxNode {
+        const reader = new ChunkReader(chunk.content);
+        const id = reader.readInt32();
+        const attributes = reader.readDict();
+        
+        if (chunk.id === 'nTRN') {
+            const childId = reader.readInt32();
+            reader.readInt32(); // Reserved id (always -1)
+            const layerId = reader.readInt32();
+            const numFrames = reader.readInt32();
+            const frames: VoxDict[] = [];
+            for (let i = 0; i < numFrames; i++) {
+                frames.push(reader.readDict());
+            }
+            return { kind: 'transform', id, attributes, childId, layerId, frames };
+        }
+        
+        if (chunk.id === 'nGRP') {
+            const numChildren = reader.readInt32();
+            const childIds: number[] = [];
+            for (let i = 0; i < numChildren; i++) {
+                childIds.push(reader.readInt32());
+            }
+            return { kind: 'group', id, attributes, childIds };
+        }
+        
+        const numModels = reader.readInt32();
+        const models: { modelId: number; attributes: VoxDict }[] = [];
+        for (let i = 0; i < numModels; i++) {
+            const modelId = reader.readInt32();
+            models.push({ modelId, attributes: reader.readDict() });
+        }
+        return { kind: 'shape', id, attributes, models };
+    }
+    
+    /**
+     * Parse LAYR chunk
+     */
+    private parseLayerChunk(chunk: VoxChunk): VoxLayer {
+        const reader = new ChunkReader(chunk.content);
+        const id = reader.readInt32();
+        const attributes = reader.readDict();
+        return {
+            id,
+            name: attributes['_name'] || `Layer ${id}`,
+            hidden: attributes['_hidden'] === '1'
+        };
+    }
+    
+    /**
+     * Parse MATL chunk (material of one palette color index).
+     * Plain diffuse materials yield null since they need no special rendering.
+     */
+    private parseMaterialChunk(chunk: VoxChunk): { id: number; material: VoxelMaterial | null } {
+        const reader = new ChunkReader(chunk.content);
+        const id = reader.readInt32();
+        const attributes = reader.readDict();
+        const number = (key: string, fallback: number): number => {
+            const value = parseFloat(attributes[key]);
+            return Number.isFinite(value) ? value : fallback;
+        };
+        
+        switch (attributes['_type']) {
+            case '_metal':
+                return { id, material: { metalness: number('_metal', 0), roughness: number('_rough', 0.1) } };
+                
+            case '_plastic':
+                return { id, material: { metalness: 0, roughness: number('_rough', 0.1) } };
+                
+            case '_glass':
+            case '_blend': {
+                // _ior is stored as (index of refraction - 1)
+                const material: VoxelMaterial = {
+                    roughness: number('_rough', 0.1),
+                    ior: 1 + number('_ior', 0.3),
+                    opacity: 1 - number('_trans', 0.5)
+                };
+                if (attributes['_type'] === '_glass') material.glass = true;
+                return { id, material };
+            }
+                
+            case '_emit':
+                return { id, material: { emissive: number('_emit', 0) * (1 + number('_flux', 0)) } };
+                
+            default:
+                return { id, material: null };
+        }
+    }
+    
     /**
      * Get default MagicaVoxel palette
      */
@@ -266,9 +440,20 @@ export class VoxParser {
     /**
      * Convert VOX data to our voxel engine format
      * Maps VOX colors to our VoxelType enum
+     * Scenes with a scene graph are flattened with their authored transforms
      */
     convertToVoxelData(voxData: VoxData): Map<string, VoxelType> {
         const voxels = new Map<string, VoxelType>();
+        const paletteTypes = this.registerPalette(voxData);
+        
+        if (this.hasSceneGraph(voxData)) {
+            for (const layer of this.convertToLayers(voxData)) {
+                for (const [key, type] of layer.voxels) {
+                    voxels.set(key, type);
+                }
+            }
+            return voxels;
+        }
         
         for (const model of voxData.models) {
             for (const voxel of model.voxels) {
@@ -279,18 +464,227 @@ export class VoxParser {
                 const y = voxel.z; // VOX Z (up) becomes Three.js Y (up)
                 const z = model.size.y - 1 - voxel.y - Math.floor(model.size.y / 2); // VOX Y (forward) becomes Three.js -Z (forward)
                 
-                // Map color to voxel type
-                const color = voxData.palette[voxel.colorIndex - 1]; // -1 because index 0 is reserved
-                const voxelType = this.colorToVoxelType(color);
-                
                 const key = `${x},${y},${z}`;
-                voxels.set(key, voxelType);
+                voxels.set(key, paletteTypes.get(voxel.colorIndex) ?? VoxelType.STONE);
             }
         }
         
         return voxels;
     }
     
+    /**
+     * Check whether the file carries a scene graph (MagicaVoxel 0.99+)
+     */
+    hasSceneGraph(voxData: VoxData): boolean {
+        return voxData.nodes.has(0);
+    }
+    
+    /**
+     * Convert a scene graph to one voxel set per MagicaVoxel layer
+     * Models are placed at their authored translation and rotation
+     */
+    convertToLayers(voxData: VoxData): VoxLayerData[] {
+        const layerVoxels = new Map<number, Map<string, VoxelType>>();
+        const paletteTypes = this.registerPalette(voxData);
+        const identity: VoxTransform = { rotation: [1, 0, 0, 0, 1, 0, 0, 0, 1], translation: [0, 0, 0] };
+        let minY = 0;
+        
+        const visit = (nodeId: number, parent: VoxTransform, layerId: number, depth: number): void => {
+            const node = voxData.nodes.get(nodeId);
+            // Guard against broken or cyclic graphs
+            if (!node || depth > 64) return;
+            
+            if (node.kind === 'transform') {
+                const local = this.parseFrameTransform(node.frames[0] || {});
+                const transform = this.combineTransforms(parent, local);
+                visit(node.childId, transform, node.layerId >= 0 ? node.layerId : layerId, depth + 1);
+            } else if (node.kind === 'group') {
+                for (const childId of node.childIds) {
+                    visit(childId, parent, layerId, depth + 1);
+                }
+            } else {
+                for (const { modelId } of node.models) {
+                    const model = voxData.models[modelId];
+                    if (!model) continue;
+                    
+                    let voxels = layerVoxels.get(layerId);
+                    if (!voxels) {
+                        voxels = new Map();
+                        layerVoxels.set(layerId, voxels);
+                    }
+                    
+                    // Model pivot is its center (integer half size)
+                    const pivotX = Math.floor(model.size.x / 2);
+                    const pivotY = Math.floor(model.size.y / 2);
+                    const pivotZ = Math.floor(model.size.z / 2);
+                    const r = parent.rotation;
+                    const t = parent.translation;
+                    
+                    for (const voxel of model.voxels) {
+                        const lx = voxel.x - pivotX;
+                        const ly = voxel.y - pivotY;
+                        const lz = voxel.z - pivotZ;
+                        const wx = r[0] * lx + r[1] * ly + r[2] * lz + t[0];
+                        const wy = r[3] * lx + r[4] * ly + r[5] * lz + t[1];
+                        const wz = r[6] * lx + r[7] * ly + r[8] * lz + t[2];
+                        
+                        // Convert from VOX coordinate system (Z-up) to Three.js (Y-up)
+                        const x = wx;
+                        const y = wz;
+                        const z = -wy - 1;
+                        minY = Math.min(minY, y);
+                        
+                        voxels.set(`${x},${y},${z}`, paletteTypes.get(voxel.colorIndex) ?? VoxelType.STONE);
+                    }
+                }
+            }
+        };
+        
+        visit(0, identity, -1, 0);
+        
+        // Lift the scene so nothing ends up below the ground plane
+        const lift = -minY;
+        const layerInfo = new Map(voxData.layers.map(layer => [layer.id, layer]));
+        const result: VoxLayerData[] = [];
+        const layerIds = [...layerVoxels.keys()].sort((a, b) => a - b);
+        
+        for (const layerId of layerIds) {
+            let voxels = layerVoxels.get(layerId)!;
+            if (lift > 0) {
+                const lifted = new Map<string, VoxelType>();
+                for (const [key, type] of voxels) {
+                    const [x, y, z] = key.split(',').map(Number);
+                    lifted.set(`${x},${y + lift},${z}`, type);
+                }
+                voxels = lifted;
+            }
+            
+            const info = layerInfo.get(layerId);
+            result.push({
+                name: info ? info.name : `Layer ${Math.max(0, layerId)}`,
+                hidden: info ? info.hidden : false,
+                voxels
+            });
+        }
+        
+        return result;
+    }
+    
+    /**
+     * Read rotation (_r) and translation (_t) from a transform frame
+     */
+    private parseFrameTransform(frame: VoxDict): VoxTransform {
+        const translation: [number, number, number] = [0, 0, 0];
+        if (frame['_t']) {
+            const parts = frame['_t'].split(' ').map(Number);
+            for (let i = 0; i < 3; i++) {
+                translation[i] = Number.isFinite(parts[i]) ? parts[i] : 0;
+            }
+        }
+        
+        const rotation = frame['_r'] !== undefined
+            ? this.decodeRotation(parseInt(frame['_r']))
+            : [1, 0, 0, 0, 1, 0, 0, 0, 1];
+        
+        return { rotation, translation };
+    }
+    
+    /**
+     * Decode MagicaVoxel's packed rotation byte into a row-major 3x3 matrix
+     * bits 0-1: column of the non-zero entry in row 0, bits 2-3: in row 1,
+     * bits 4-6: sign of rows 0-2 (1 = negative)
+     */
+    private decodeRotation(packed: number): number[] {
+        const matrix = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+        if (!Number.isFinite(packed)) {
+            return [1, 0, 0, 0, 1, 0, 0, 0, 1];
+        }
+        
+        const row0 = packed & 0x3;
+        const row1 = (packed >> 2) & 0x3;
+        const row2 = 3 - row0 - row1;
+        const columns = [row0, row1, row2];
+        
+        for (let row = 0; row < 3; row++) {
+            const column = columns[row];
+            if (column < 0 || column > 2) {
+                return [1, 0, 0, 0, 1, 0, 0, 0, 1];
+            }
+            matrix[row * 3 + column] = (packed >> (4 + row)) & 0x1 ? -1 : 1;
+        }
+        
+        return matrix;
+    }
+    
+    /**
+     * Apply a child transform inside its parent's space
+     */
+    private combineTransforms(parent: VoxTransform, child: VoxTransform): VoxTransform {
+        const a = parent.rotation;
+        const b = child.rotation;
+        const rotation = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+        
+        for (let row = 0; row < 3; row++) {
+            for (let col = 0; col < 3; col++) {
+                rotation[row * 3 + col] =
+                    a[row * 3] * b[col] +
+                    a[row * 3 + 1] * b[3 + col] +
+                    a[row * 3 + 2] * b[6 + col];
+            }
+        }
+        
+        const t = child.translation;
+        const translation: [number, number, number] = [0, 0, 0];
+        for (let row = 0; row < 3; row++) {
+            translation[row] =
+                a[row * 3] * t[0] +
+                a[row * 3 + 1] * t[1] +
+                a[row * 3 + 2] * t[2] +
+                parent.translation[row];
+        }
+        
+        return { rotation, translation };
+    }
+    
+    /**
+     * Register every palette color used by the models with the ColorRegistry
+     * so imported voxels keep their exact colors. Colors are registered in
+     * palette order, which lets VoxWriter write them back in the same order.
+     * Falls back to the closest built-in type when custom slots run out.
+     * MATL materials are attached to the registered types.
+     */
+    private registerPalette(voxData: VoxData): Map<number, VoxelType> {
+        const usedIndices = new Set<number>();
+        for (const model of voxData.models) {
+            for (const voxel of model.voxels) {
+                usedIndices.add(voxel.colorIndex);
+            }
+        }
+        
+        const colorRegistry = ColorRegistry.getInstance();
+        const paletteTypes = new Map<number, VoxelType>();
+        
+        for (const colorIndex of [...usedIndices].sort((a, b) => a - b)) {
+            // Index 0 is reserved; palette entry i holds color index i + 1
+            const color = voxData.palette[colorIndex - 1];
+            if (!color) continue;
+            
+            const hex = '#' + [color.r, color.g, color.b]
+                .map(c => c.toString(16).padStart(2, '0'))
+                .join('');
+            const voxelType = colorRegistry.getOrCreateVoxelType(hex);
+            paletteTypes.set(colorIndex, voxelType ?? this.colorToVoxelType(color));
+            
+            // Only custom types take on MATL materials; built-in types keep their own look
+            const material = voxData.materials.get(colorIndex);
+            if (material && voxelType !== null) {
+                colorRegistry.setMaterial(voxelType, material);
+            }
+        }
+        
+        return paletteTypes;
+    }
+    
     /**
      * Map a color to the closest VoxelType
      */
@@ -319,4 +713,39 @@ export class VoxParser {
             return VoxelType.STONE; // Default
         }
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Sequential little-endian reader over a chunk's content
+ */
+class ChunkReader {
+    private view: DataView;
+    private offset: number = 0;
+    
+    constructor(buffer: ArrayBuffer) {
+        this.view = new DataView(buffer);
+    }
+    
+    readInt32(): number {
+        const value = this.view.getInt32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+    
+    readString(): string {
+        const length = this.readInt32();
+        const bytes = new Uint8Array(this.view.buffer, this.offset, length);
+        this.offset += length;
+        return String.fromCharCode(...bytes);
+    }
+    
+    readDict(): Record<string, string> {
+        const dict: Record<string, string> = {};
+        const numPairs = this.readInt32();
+        for (let i = 0; i < numPairs; i++) {
+            const key = this.readString();
+            dict[key] = this.readString();
+        }
+        return dict;
+    }
+}
@@ -1,4 +1,5 @@
-import { VoxelType } from '../types';
+import { VoxelType, VoxelMaterial } from '../types';
+import { ColorRegistry } from '../engine/ColorRegistry';
 
 /**
  * VOX file format writer for MagicaVoxel .vox files
@@ -17,20 +18,6 @@ export class VoxWriter {
     private view: DataView;
     private offset: number;
     
-    // Color palette for voxel types (RGBA format)
-    private readonly typeColors: Partial<Record<VoxelType, number>> = {
-        [VoxelType.AIR]: 0x00000000,
-        [VoxelType.GRASS]: 0x90EE90FF,
-        [VoxelType.DIRT]: 0x8B6914FF,
-        [VoxelType.STONE]: 0x696969FF,
-        [VoxelType.WOOD]: 0xDEB887FF,
-        [VoxelType.LEAVES]: 0x32CD32FF,
-        [VoxelType.WATER]: 0x00CED1CC,  // Semi-transparent
-        [VoxelType.SAND]: 0xFFE4B5FF,
-        [VoxelType.SNOW]: 0xF0F8FFFF,
-        [VoxelType.ICE]: 0x87CEEBE6     // Semi-transparent
-    };
-    
     constructor() {
         // Start with 10MB buffer (can grow if needed)
         this.buffer = new ArrayBuffer(10 * 1024 * 1024);
@@ -79,9 +66,8 @@ export class VoxWriter {
             console.warn('Model exceeds VOX size limits (256x256x256), will be truncated');
         }
         
-        // Create color palette and map voxel types to indices
-        const palette = this.createPalette();
-        const typeToIndex = this.createTypeToIndexMap();
+        // Create color palette from the colors actually used
+        const { palette, typeToIndex } = this.createPalette(allVoxels.map(v => v.type));
         
         // Prepare voxel data with adjusted coordinates
         const voxelData: { x: number; y: number; z: number; index: number }[] = [];
@@ -100,16 +86,23 @@ export class VoxWriter {
             });
         }
         
+        // Material dictionaries for palette entries with non-diffuse materials
+        const materialChunks = this.createMaterialDicts(typeToIndex);
+        
         // Calculate chunk sizes
         const sizeChunkContent = 12; // 3 int32s for x, y, z
         const voxelChunkContent = 4 + voxelData.length * 4; // numVoxels + voxel data
         const paletteChunkContent = 256 * 4; // 256 RGBA colors
         
-        const mainChunkChildren = 
+        let mainChunkChildren = 
             12 + sizeChunkContent +      // SIZE chunk
             12 + voxelChunkContent +      // XYZI chunk
             12 + paletteChunkContent;     // RGBA chunk
         
+        for (const { dict } of materialChunks) {
+            mainChunkChildren += 12 + 4 + this.getDictSize(dict); // MATL chunk
+        }
+        
         // Write MAIN chunk
         this.writeString('MAIN');
         this.writeInt32(0); // No content
@@ -148,37 +141,62 @@ export class VoxWriter {
             this.writeByte(color & 0xFF);         // A
         }
         
+        // Write MATL chunks (materials)
+        for (const { id, dict } of materialChunks) {
+            this.writeString('MATL');
+            this.writeInt32(4 + this.getDictSize(dict));
+            this.writeInt32(0); // No children
+            this.writeInt32(id);
+            this.writeDict(dict);
+        }
+        
         // Return the used portion of the buffer
         return this.buffer.slice(0, this.offset);
     }
     
     /**
-     * Create color palette for VOX file
+     * Create color palette for VOX file from the voxel types in use
+     * Types are written in ascending order so a palette imported through
+     * VoxParser (registered in palette order) is written back in order
      */
-    private createPalette(): number[] {
+    private createPalette(types: VoxelType[]): { palette: number[]; typeToIndex: Map<VoxelType, number> } {
+        const colorRegistry = ColorRegistry.getInstance();
         const palette: number[] = [];
+        const colorToIndex = new Map<number, number>();
+        const typeToIndex = new Map<VoxelType, number>();
+        const overflow: VoxelType[] = [];
         
-        // VOX palette has 256 entries
-        // We'll put our voxel type colors at the beginning
-        const typeOrder = [
-            VoxelType.GRASS,
-            VoxelType.DIRT,
-            VoxelType.STONE,
-            VoxelType.WOOD,
-            VoxelType.LEAVES,
-            VoxelType.WATER,
-            VoxelType.SAND,
-            VoxelType.SNOW,
-            VoxelType.ICE
-        ];
-        
-        // Add our voxel type colors
-        for (const type of typeOrder) {
-            const color = this.typeColors[type];
-            if (color !== undefined) {
-                palette.push(color);
-            } else {
-                palette.push(0xFFFFFFFF); // Default white for undefined types
+        const usedTypes = [...new Set(types)].sort((a, b) => a - b);
+        
+        for (const type of usedTypes) {
+            const hex = colorRegistry.getColor(type) || '#FFFFFF';
+            const color = ((parseInt(hex.slice(1), 16) << 8) | 0xFF) >>> 0;
+            
+            // Types sharing a color share a palette entry
+            const existing = colorToIndex.get(color);
+            if (existing !== undefined) {
+                typeToIndex.set(type, existing);
+                continue;
+            }
+            
+            // VOX palette has 255 usable entries (index 0 is reserved)
+            if (palette.length >= 255) {
+                overflow.push(type);
+                continue;
+            }
+            
+            palette.push(color);
+            // Map types to palette indices (1-based, 0 is reserved in VOX)
+            colorToIndex.set(color, palette.length);
+            typeToIndex.set(type, palette.length);
+        }
+        
+        // Snap colors that didn't fit to the nearest palette entry
+        if (overflow.length > 0) {
+            console.warn(`VOX palette is limited to 255 colors, ${overflow.length} colors mapped to nearest match`);
+            for (const type of overflow) {
+                const hex = colorRegistry.getColor(type) || '#FFFFFF';
+                typeToIndex.set(type, this.findNearestColorIndex(parseInt(hex.slice(1), 16), palette));
             }
         }
         
@@ -192,27 +210,106 @@ export class VoxWriter {
             palette.push((r << 24) | (g << 16) | (b << 8) | 0xFF);
         }
         
-        return palette;
+        return { palette, typeToIndex };
+    }
+    
+    /**
+     * Build MATL dictionaries for palette indices whose voxel type has a material.
+     * When several types share an index, the first one with a material wins.
+     */
+    private createMaterialDicts(typeToIndex: Map<VoxelType, number>): { id: number; dict: Record<string, string> }[] {
+        const colorRegistry = ColorRegistry.getInstance();
+        const materials = new Map<number, VoxelMaterial>();
+        
+        for (const [type, index] of typeToIndex) {
+            const material = colorRegistry.getMaterial(type);
+            if (material && !materials.has(index)) {
+                materials.set(index, material);
+            }
+        }
+        
+        return [...materials.entries()]
+            .sort((a, b) => a[0] - b[0])
+            .map(([id, material]) => ({ id, dict: this.materialToDict(material) }));
     }
     
     /**
-     * Create mapping from VoxelType to palette index
+     * Convert a VoxelMaterial to MagicaVoxel MATL properties
      */
-    private createTypeToIndexMap(): Map<VoxelType, number> {
-        const map = new Map<VoxelType, number>();
-        
-        // Map types to palette indices (1-based, 0 is reserved in VOX)
-        map.set(VoxelType.GRASS, 1);
-        map.set(VoxelType.DIRT, 2);
-        map.set(VoxelType.STONE, 3);
-        map.set(VoxelType.WOOD, 4);
-        map.set(VoxelType.LEAVES, 5);
-        map.set(VoxelType.WATER, 6);
-        map.set(VoxelType.SAND, 7);
-        map.set(VoxelType.SNOW, 8);
-        map.set(VoxelType.ICE, 9);
-        
-        return map;
+    private materialToDict(material: VoxelMaterial): Record<string, string> {
+        const dict: Record<string, string> = {};
+        const roughness = material.roughness ?? 0.1;
+        
+        if (material.glass || material.opacity !== undefined) {
+            dict['_type'] = material.glass ? '_glass' : '_blend';
+            dict['_rough'] = String(roughness);
+            // _ior is stored as (index of refraction - 1)
+            dict['_ior'] = String((material.ior ?? 1.3) - 1);
+            dict['_trans'] = String(1 - (material.opacity ?? 0.5));
+        } else if (material.emissive) {
+            // MagicaVoxel splits intensity into _emit (0-1) and a _flux multiplier
+            dict['_type'] = '_emit';
+            dict['_emit'] = String(Math.min(material.emissive, 1));
+            dict['_flux'] = String(Math.max(material.emissive - 1, 0));
+        } else if (material.metalness) {
+            dict['_type'] = '_metal';
+            dict['_metal'] = String(material.metalness);
+            dict['_rough'] = String(roughness);
+        } else {
+            dict['_type'] = '_plastic';
+            dict['_rough'] = String(roughness);
+        }
+        
+        return dict;
+    }
+    
+    /**
+     * Byte size of a DICT (pair count followed by length-prefixed strings)
+     */
+    private getDictSize(dict: Record<string, string>): number {
+        let size = 4;
+        for (const [key, value] of Object.entries(dict)) {
+            size += 4 + key.length + 4 + value.length;
+        }
+        return size;
+    }
+    
+    /**
+     * Write a DICT
+     */
+    private writeDict(dict: Record<string, string>): void {
+        const entries = Object.entries(dict);
+        this.writeInt32(entries.length);
+        for (const [key, value] of entries) {
+            this.writeInt32(key.length);
+            this.writeString(key);
+            this.writeInt32(value.length);
+            this.writeString(value);
+        }
+    }
+    
+    /**
+     * Find the 1-based index of the palette color closest to an RGB value
+     */
+    private findNearestColorIndex(rgb: number, palette: number[]): number {
+        const r = (rgb >> 16) & 0xFF;
+        const g = (rgb >> 8) & 0xFF;
+        const b = rgb & 0xFF;
+        let bestIndex = 1;
+        let bestDistance = Infinity;
+        
+        palette.forEach((color, i) => {
+            const dr = ((color >> 24) & 0xFF) - r;
+            const dg = ((color >> 16) & 0xFF) - g;
+            const db = ((color >> 8) & 0xFF) - b;
+            const distance = dr * dr + dg * dg + db * db;
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                bestIndex = i + 1;
+            }
+        });
+        
+        return bestIndex;
     }
     
     /**
@@ -0,0 +1,89 @@
+import * as THREE from 'three';
+import { PngImage } from './PngCodec';
+import { SpriteFace, SpriteProjection, SpriteRenderer } from './SpriteRenderer';
+
+/**
+ * Renders sprite frames on the GPU with an offscreen orthographic camera.
+ * Faces arrive already shaded, so the output matches SoftwareSpriteRenderer
+ * apart from rasterization details. The WebGL context is created on first use.
+ */
+export class WebGLSpriteRenderer implements SpriteRenderer {
+    private renderer: THREE.WebGLRenderer | null = null;
+    private material = new THREE.MeshBasicMaterial({ vertexColors: true, side: THREE.DoubleSide });
+    
+    async render(faces: SpriteFace[], projection: SpriteProjection): Promise<PngImage> {
+        if (!this.renderer) {
+            this.renderer = new THREE.WebGLRenderer({ antialias: false, alpha: true });
+            this.renderer.setClearColor(0x000000, 0);
+            // Face colors are final sRGB values; don't convert them again
+            this.renderer.outputColorSpace = THREE.LinearSRGBColorSpace;
+        }
+        const renderer = this.renderer;
+        
+        const { width, height, pivotX, pivotY } = projection.layout;
+        const scale = projection.pixelsPerVoxel;
+        
+        // Two triangles per face, positioned relative to the pivot
+        const positions = new Float32Array(faces.length * 18);
+        const colors = new Float32Array(faces.length * 18);
+        const { pivot } = projection;
+        faces.forEach((face, faceIndex) => {
+            [0, 1, 2, 0, 2, 3].forEach((cornerIndex, vertex) => {
+                const [x, y, z] = face.corners[cornerIndex];
+                const offset = faceIndex * 18 + vertex * 3;
+                positions[offset] = x - pivot.x;
+                positions[offset + 1] = y - pivot.y;
+                positions[offset + 2] = z - pivot.z;
+                colors[offset] = face.color[0] / 255;
+                colors[offset + 1] = face.color[1] / 255;
+                colors[offset + 2] = face.color[2] / 255;
+            });
+        });
+        
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+        geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+        
+        const scene = new THREE.Scene();
+        scene.add(new THREE.Mesh(geometry, this.material));
+        
+        // Frustum in voxel units around the pivot, matching SpriteProjection.project
+        const camera = new THREE.OrthographicCamera(
+            -pivotX / scale,
+            (width - pivotX) / scale,
+            pivotY / scale,
+            -(height - pivotY) / scale,
+            0.1,
+            10000
+        );
+        const [fx, fy, fz] = projection.forward;
+        camera.position.set(fx * 5000, fy * 5000, fz * 5000);
+        camera.up.set(...projection.up);
+        camera.lookAt(0, 0, 0);
+        
+        const target = new THREE.WebGLRenderTarget(width, height);
+        renderer.setRenderTarget(target);
+        renderer.clear();
+        renderer.render(scene, camera);
+        
+        const pixels = new Uint8Array(width * height * 4);
+        renderer.readRenderTargetPixels(target, 0, 0, width, height, pixels);
+        renderer.setRenderTarget(null);
+        
+        target.dispose();
+        geometry.dispose();
+        
+        // WebGL rows start at the bottom
+        const data = new Uint8ClampedArray(width * height * 4);
+        for (let row = 0; row < height; row++) {
+            data.set(pixels.subarray((height - 1 - row) * width * 4, (height - row) * width * 4), row * width * 4);
+        }
+        return { width, height, data };
+    }
+    
+    dispose(): void {
+        this.material.dispose();
+        this.renderer?.dispose();
+        this.renderer = null;
+    }
+}
@@ -0,0 +1,148 @@
+import { compressBytes, decompressBytes, crc32 } from './Compression';
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034B50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014B50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054B50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// Bit 11 of the general purpose flags: file names are UTF-8
+const FLAG_UTF8 = 0x0800;
+
+/**
+ * Minimal ZIP archive reader/writer. Writes deflated entries unless
+ * compression doesn't help (e.g. PNGs); reads stored and deflated entries.
+ * No ZIP64, encryption or multi-disk archives.
+ */
+export class ZipArchive {
+    /**
+     * Create a ZIP file from entries, in order
+     */
+    static async create(entries: ZipEntry[]): Promise<Uint8Array> {
+        const encoder = new TextEncoder();
+        const localParts: Uint8Array[] = [];
+        const centralParts: Uint8Array[] = [];
+        let offset = 0;
+        
+        for (const entry of entries) {
+            const name = encoder.encode(entry.name);
+            const crc = crc32(entry.data);
+            const deflated = await compressBytes(entry.data, 'deflate-raw');
+            const useDeflate = deflated.length < entry.data.length;
+            const stored = useDeflate ? deflated : entry.data;
+            
+            const local = new Uint8Array(30 + name.length);
+            const localView = new DataView(local.buffer);
+            localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+            localView.setUint16(4, 20, true); // Version needed
+            localView.setUint16(6, FLAG_UTF8, true);
+            localView.setUint16(8, useDeflate ? METHOD_DEFLATE : METHOD_STORED, true);
+            localView.setUint16(10, 0, true); // Time
+            localView.setUint16(12, 0x21, true); // Date: 1980-01-01
+            localView.setUint32(14, crc, true);
+            localView.setUint32(18, stored.length, true);
+            localView.setUint32(22, entry.data.length, true);
+            localView.setUint16(26, name.length, true);
+            local.set(name, 30);
+            localParts.push(local, stored);
+            
+            const central = new Uint8Array(46 + name.length);
+            const centralView = new DataView(central.buffer);
+            centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+            centralView.setUint16(4, 20, true); // Version made by
+            // The rest of the local header fields repeat from offset 6
+            central.set(local.subarray(4, 30), 6);
+            centralView.setUint32(42, offset, true);
+            central.set(name, 46);
+            centralParts.push(central);
+            
+            offset += local.length + stored.length;
+        }
+        
+        const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+        const end = new Uint8Array(22);
+        const endView = new DataView(end.buffer);
+        endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+        endView.setUint16(8, entries.length, true);
+        endView.setUint16(10, entries.length, true);
+        endView.setUint32(12, centralSize, true);
+        endView.setUint32(16, offset, true);
+        
+        const parts = [...localParts, ...centralParts, end];
+        const file = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+        let position = 0;
+        for (const part of parts) {
+            file.set(part, position);
+            position += part.length;
+        }
+        return file;
+    }
+    
+    /**
+     * Read all file entries of a ZIP file (directories are skipped)
+     */
+    static async read(bytes: Uint8Array): Promise<ZipEntry[]> {
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        
+        // The end record is at the end, possibly followed by a comment of up to 64KB
+        let endOffset = -1;
+        for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xFFFF); i--) {
+            if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+                endOffset = i;
+                break;
+            }
+        }
+        if (endOffset < 0) {
+            throw new Error('Invalid ZIP file: end of central directory not found');
+        }
+        
+        const count = view.getUint16(endOffset + 10, true);
+        let offset = view.getUint32(endOffset + 16, true);
+        const entries: ZipEntry[] = [];
+        
+        for (let i = 0; i < count; i++) {
+            if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+                throw new Error('Invalid ZIP file: corrupt central directory');
+            }
+            const flags = view.getUint16(offset + 8, true);
+            const method = view.getUint16(offset + 10, true);
+            const compressedSize = view.getUint32(offset + 20, true);
+            const nameLength = view.getUint16(offset + 28, true);
+            const extraLength = view.getUint16(offset + 30, true);
+            const commentLength = view.getUint16(offset + 32, true);
+            const localOffset = view.getUint32(offset + 42, true);
+            const nameBytes = bytes.subarray(offset + 46, offset + 46 + nameLength);
+            const name = new TextDecoder(flags & FLAG_UTF8 ? 'utf-8' : 'latin1').decode(nameBytes);
+            offset += 46 + nameLength + extraLength + commentLength;
+            
+            if (name.endsWith('/')) continue;
+            
+            if (localOffset + 30 > bytes.length || view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+                throw new Error(`Invalid ZIP file: missing local header for ${name}`);
+            }
+            const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+            if (dataStart + compressedSize > bytes.length) {
+                throw new Error(`Invalid ZIP file: ${name} is truncated`);
+            }
+            const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+            
+            let data: Uint8Array;
+            if (method === METHOD_STORED) {
+                data = compressed.slice();
+            } else if (method === METHOD_DEFLATE) {
+                data = await decompressBytes(compressed, 'deflate-raw');
+            } else {
+                throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+            }
+            entries.push({ name, data });
+        }
+        
+        return entries;
+    }
+}
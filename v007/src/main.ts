@@ -7,16 +7,28 @@ import { VoxelEngine, VoxelType } from './engine/VoxelEngine';
 import { VoxelRenderer } from './engine/VoxelRenderer';
 import { AssetPreviewScene } from './ui/AssetPreviewScene';
 import { DrawingSystem } from './interaction/DrawingSystem';
+import { Symmetry } from './interaction/Symmetry';
 import { PerformanceMonitor } from './ui/Performance';
 import { DirectionIndicator } from './ui/DirectionIndicator';
 import { VoxelPanel } from './ui/VoxelPanel';
 import { LayerPanel } from './ui/LayerPanel';
+import { HistoryPanel } from './ui/HistoryPanel';
 import { ToolsPanel } from './ui/ToolsPanel';
 import { FileManager } from './io/FileManager';
+import { AutosaveManager } from './io/AutosaveManager';
 import { DynamicGrid } from './ui/DynamicGrid';
 import { BoxSelectionTool } from './tools/BoxSelectionTool';
 import { attachPerformanceTest } from './utils/PerformanceTest';
 import { MenuBar } from './ui/MenuBar';
+import { AutosaveRecoveryDialog } from './ui/AutosaveRecoveryDialog';
+import { SchematicImportDialog } from './ui/SchematicImportDialog';
+import { ImageImportDialog } from './ui/ImageImportDialog';
+import { ColorReplaceDialog } from './ui/ColorReplaceDialog';
+import { TerrainGeneratorDialog } from './ui/TerrainGeneratorDialog';
+import { SelectionOperationDialog, SelectionOperation } from './ui/SelectionOperationDialog';
+import { WebGLSpriteRenderer } from './io/WebGLSpriteRenderer';
+import { TurntableRecorder, TurntableOptions } from './io/TurntableRecorder';
+import { PngImage } from './io/PngCodec';
 import { testBaking } from './debug/TestBaking';
 import { visualBakingTest } from './debug/VisualBakingTest';
 import { debugBaking } from './debug/DebugBaking';
@@ -31,7 +43,16 @@ import { testSeparatedVoxels } from './debug/TestSeparatedVoxels';
 import { testBoundaryFix } from './debug/TestBoundaryFix';
 import { ActionLogger } from './ui/ActionLogger';
 import { testAllFaces } from './debug/TestAllFaces';
+import { testGlbExport } from './debug/TestGlbExport';
+import { testSpriteSheet } from './debug/TestSpriteSheet';
+import { testShapeRasterizer } from './debug/TestShapeRasterizer';
+import { testPushPull } from './debug/TestPushPull';
+import { testTerrainGenerator } from './debug/TestTerrainGenerator';
+import { testSculpt } from './debug/TestSculpt';
+import { testSelectionOps } from './debug/TestSelectionOps';
 import { ColorRegistry } from './engine/ColorRegistry';
+import { TerrainResult } from './engine/TerrainGenerator';
+import { TerrainWorkerClient } from './engine/TerrainWorkerClient';
 import { RunMode } from './modes/RunMode';
 
 // =====================================
@@ -208,6 +229,14 @@ export const settings = {
         targetFPS: 60                  // Target frames per second
     },
     
+    // Autosave Settings (IndexedDB crash recovery)
+    autosave: {
+        enabled: true,                 // Autosave and offer recovery on startup
+        intervalSeconds: 30,           // Seconds between saves (skipped when nothing changed)
+        maxSessions: 5,                // Number of autosaved sessions to keep
+        maxAgeDays: 7                  // Delete sessions older than this
+    },
+    
     // UI Settings
     ui: {
         showLoadingScreen: true,       // Show loading screen
@@ -362,15 +391,18 @@ class VoxelApp {
     private directionIndicator: DirectionIndicator | null;
     private voxelPanel: VoxelPanel | null;
     private layerPanel: LayerPanel | null;
+    private historyPanel: HistoryPanel | null;
     private toolsPanel: ToolsPanel | null;
     private runMode: RunMode | null;
     private fileManager: FileManager | null;
     private boxSelectionTool: BoxSelectionTool | null;
     private menuBar: MenuBar | null;
+    private autosaveManager: AutosaveManager | null;
     private raycaster: THREE.Raycaster;
     private mouse: THREE.Vector2;
     private gridHelper: THREE.GridHelper | null = null;
     private dynamicGrid: DynamicGrid | null = null;
+    private ground: THREE.Mesh | null = null;
     private axisLines: (THREE.Mesh | THREE.Line)[] = [];
     private xAxisLine: THREE.Mesh | null = null;
     private xAxisGlow: THREE.Mesh | null = null;
@@ -379,6 +411,7 @@ class VoxelApp {
     private lastInteractionTime: number = 0;
     private axisIdleFadeTimer: number = 0;
     private selectionMode: boolean = false;
+    private isGeneratingTerrain: boolean = false;
     private lastMousePos: { x: number; y: number } = { x: 0, y: 0 };
     private currentBrushSize: number = settings.brush.defaultSize;
     private currentBrushIndex: number = settings.brush.defaultSizeIndex;
@@ -398,11 +431,13 @@ class VoxelApp {
         this.directionIndicator = null;
         this.voxelPanel = null;
         this.layerPanel = null;
+        this.historyPanel = null;
         this.toolsPanel = null;
         this.runMode = null;
         this.fileManager = null;
         this.boxSelectionTool = null;
         this.menuBar = null;
+        this.autosaveManager = null;
         
         this.raycaster = new THREE.Raycaster();
         this.mouse = new THREE.Vector2();
@@ -575,6 +610,7 @@ class VoxelApp {
         ground.position.y = settings.ground.yPosition;
         ground.receiveShadow = true;
         this.scene.add(ground);
+        this.ground = ground;
         
         // Create dynamic grid instead of static GridHelper
         this.dynamicGrid = new DynamicGrid(settings.grid.size);
@@ -670,6 +706,10 @@ class VoxelApp {
             // Update callback - re-render when layer state changes
             this.voxelEngine?.updateInstances();
         });
+        this.historyPanel = new HistoryPanel(this.voxelEngine, () => {
+            // Jumps already re-render the scene; the layer list may have changed
+            this.layerPanel?.refresh();
+        });
         
         // Create tools panel
         this.toolsPanel = new ToolsPanel();
@@ -694,6 +734,7 @@ class VoxelApp {
         
         // Add layer panel to the page
         document.body.appendChild(this.layerPanel.getElement());
+        document.body.appendChild(this.historyPanel.getElement());
         
         // Update tilt-shift button initial state after VoxelPanel creates it
         setTimeout(() => {
@@ -708,7 +749,20 @@ class VoxelApp {
         
         // Initialize file manager and connect to panel
         this.fileManager = new FileManager(this.voxelEngine);
+        this.fileManager.setAssetManager(this.voxelPanel.getAssetManager());
+        this.fileManager.setThumbnailProvider(() => this.captureThumbnail());
+        this.fileManager.setSchematicReviewer((review) => SchematicImportDialog.show(review));
+        this.fileManager.setImageImportPrompt((info) => ImageImportDialog.show(info));
+        this.fileManager.setSpriteRenderer(new WebGLSpriteRenderer());
+        this.fileManager.setTurntableProvider((options) => this.recordTurntable(options));
         this.voxelPanel.setFileManager(this.fileManager);
+        
+        // Autosave to IndexedDB, offering to recover earlier sessions first
+        if (settings.autosave.enabled) {
+            this.autosaveManager = new AutosaveManager(this.voxelEngine, this.fileManager, settings.autosave);
+            this.autosaveManager.setThumbnailProvider(() => this.captureThumbnail());
+            this.startAutosave(this.autosaveManager);
+        }
         this.voxelPanel.setVoxelEngine(this.voxelEngine);
         this.voxelPanel.setToolsPanel(this.toolsPanel);
         
@@ -784,6 +838,13 @@ class VoxelApp {
         };
         (window as any).testBoundaryFix = testBoundaryFix;
         (window as any).testAllFaces = testAllFaces;
+        (window as any).testGlbExport = testGlbExport;
+        (window as any).testSpriteSheet = testSpriteSheet;
+        (window as any).testShapeRasterizer = testShapeRasterizer;
+        (window as any).testPushPull = testPushPull;
+        (window as any).testTerrainGenerator = testTerrainGenerator;
+        (window as any).testSculpt = testSculpt;
+        (window as any).testSelectionOps = testSelectionOps;
     }
     
     setupBrushSizeButtons() {
@@ -813,7 +874,7 @@ class VoxelApp {
         if (this.toolsPanel && settings.ui.showWireframe) {
             this.toolsPanel.updateWireframeButton(true);
         }
-        
+    
     }
     
     setupPostProcessing() {
@@ -857,6 +918,68 @@ class VoxelApp {
         return this.voxelEngine;
     }
     
+    /**
+     * Prompt to recover autosaved sessions, then start autosaving
+     */
+    private async startAutosave(autosaveManager: AutosaveManager): Promise<void> {
+        try {
+            await autosaveManager.pruneSessions();
+            const sessions = await autosaveManager.listSessions();
+            if (sessions.length > 0) {
+                const restoredId = await AutosaveRecoveryDialog.show(autosaveManager, sessions);
+                if (restoredId) {
+                    this.layerPanel?.refresh();
+                    ActionLogger.getInstance().log('Restored autosaved session', 2000);
+                }
+            }
+        } catch (error) {
+            console.error('Autosave recovery failed:', error);
+        }
+        
+        autosaveManager.start();
+    }
+    
+    /**
+     * Render the current view into a small PNG for project files
+     */
+    private captureThumbnail(size: number = 256): Promise<Blob | null> {
+        if (!this.renderer || !this.camera) return Promise.resolve(null);
+        
+        // Render now so the drawing buffer is still valid when copied
+        this.renderer.render(this.scene, this.camera);
+        const source = this.renderer.domElement;
+        
+        const canvas = document.createElement('canvas');
+        canvas.width = size;
+        canvas.height = size;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return Promise.resolve(null);
+        
+        // Center crop to a square
+        const side = Math.min(source.width, source.height);
+        ctx.drawImage(source, (source.width - side) / 2, (source.height - side) / 2, side, side, 0, 0, size, size);
+        
+        return new Promise(resolve => canvas.toBlob(resolve, 'image/png'));
+    }
+    
+    /**
+     * Orbit around the scene and render frames the way the viewport shows them
+     */
+    private async recordTurntable(options: TurntableOptions): Promise<PngImage[]> {
+        if (!this.renderer || !this.camera || !this.controls || !this.voxelEngine) {
+            throw new Error('Viewport is not ready');
+        }
+        
+        const recorder = new TurntableRecorder(this.renderer, this.scene, this.voxelEngine);
+        return recorder.record({
+            camera: this.camera,
+            target: this.controls.target,
+            tiltShift: this.composer && settings.postProcessing.enabled ? this.tiltShiftPass : null,
+            helpers: [...(this.dynamicGrid ? [this.dynamicGrid] : []), ...this.axisLines],
+            backdrop: this.ground ? [this.ground] : []
+        }, options);
+    }
+    
     private registerInteraction(): void {
         // Reset timers on any interaction
         this.lastInteractionTime = Date.now();
@@ -911,6 +1034,166 @@ class VoxelApp {
             }
         });
         
+        // Center the symmetry planes on the selection
+        window.addEventListener('symmetry-snap-to-selection', () => {
+            if (!this.drawingSystem) return;
+            const selection = this.boxSelectionTool?.getSelection() ?? [];
+            if (selection.length === 0) {
+                ActionLogger.getInstance().log('Select voxels to center symmetry on');
+                return;
+            }
+            const min = { x: Infinity, y: Infinity, z: Infinity };
+            const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+            for (const voxel of selection) {
+                min.x = Math.min(min.x, voxel.x);
+                min.y = Math.min(min.y, voxel.y);
+                min.z = Math.min(min.z, voxel.z);
+                max.x = Math.max(max.x, voxel.x);
+                max.y = Math.max(max.y, voxel.y);
+                max.z = Math.max(max.z, voxel.z);
+            }
+            this.drawingSystem.setSymmetry({ plane: Symmetry.centerOf(min, max) });
+        });
+        
+        // Replace one color with another without changing the shape
+        window.addEventListener('replace-color', async () => {
+            if (!this.voxelEngine) return;
+            const colorRegistry = ColorRegistry.getInstance();
+            const toHex = (hex: string | null) => hex ? (hex.startsWith('#') ? hex : '#' + hex) : '#ffffff';
+            
+            // Colors in use across all layers, most used first
+            const counts = new Map<VoxelType, number>();
+            for (const layer of this.voxelEngine.getAllLayers()) {
+                for (const [type, positions] of layer.getVoxelsByType()) {
+                    counts.set(type, (counts.get(type) ?? 0) + positions.size);
+                }
+            }
+            const colors = [...counts.entries()]
+                .filter(([type]) => type !== VoxelType.AIR)
+                .map(([type, count]) => ({ type, color: toHex(colorRegistry.getColor(type)), count }))
+                .sort((a, b) => b.count - a.count);
+            
+            const selection = this.boxSelectionTool?.getSelection() ?? [];
+            const currentType = this.voxelPanel?.getSelectedColorOrType().type;
+            const defaultHex = currentType !== undefined ? toHex(colorRegistry.getColor(currentType)) : '#ffffff';
+            
+            const request = await ColorReplaceDialog.show(colors, defaultHex, selection.length > 0);
+            if (!request) return;
+            
+            const to = colorRegistry.getOrCreateVoxelType(request.toHex);
+            if (to === null) {
+                ActionLogger.getInstance().log('No free color slots left');
+                return;
+            }
+            
+            // The selection spans every layer, so it's replaced in all of them
+            const allLayerIds = this.voxelEngine.getAllLayers().map(layer => layer.id);
+            const count = this.voxelEngine.replaceVoxelType(request.from, to, {
+                layerIds: request.scope === 'layer' ? undefined : allLayerIds,
+                positions: request.scope === 'selection' ? selection : undefined
+            });
+            if (request.scope === 'selection') {
+                this.boxSelectionTool?.refreshSelection();
+            }
+            ActionLogger.getInstance().log(ActionLogger.actions.replaceColor(count));
+        });
+        
+        // Hollow, solidify, outline or clean up islands in the selection
+        window.addEventListener('selection-operation', async (e) => {
+            const operation = (e as CustomEvent<SelectionOperation>).detail;
+            const selectionTool = this.boxSelectionTool;
+            const logger = ActionLogger.getInstance();
+            if (!selectionTool || !selectionTool.hasSelection()) {
+                logger.log('Select some voxels first');
+                return;
+            }
+            
+            if (operation === 'solidify') {
+                logger.log(ActionLogger.actions.solidifySelection(selectionTool.solidifySelection()));
+                return;
+            }
+            
+            const colorRegistry = ColorRegistry.getInstance();
+            const currentType = this.voxelPanel?.getSelectedColorOrType().type;
+            const currentHex = currentType !== undefined ? colorRegistry.getColor(currentType) : null;
+            const defaultHex = currentHex ? (currentHex.startsWith('#') ? currentHex : '#' + currentHex) : '#ffffff';
+            
+            const request = await SelectionOperationDialog.show(operation, defaultHex);
+            if (!request) return;
+            
+            if (operation === 'hollow') {
+                logger.log(ActionLogger.actions.hollowSelection(selectionTool.hollowSelection(request.thickness)));
+            } else if (operation === 'outline') {
+                const type = colorRegistry.getOrCreateVoxelType(request.colorHex);
+                if (type === null) {
+                    logger.log('No free color slots left');
+                    return;
+                }
+                logger.log(ActionLogger.actions.outlineSelection(selectionTool.outlineSelection(type)));
+            } else {
+                logger.log(ActionLogger.actions.removeIslands(selectionTool.removeSelectionIslands(request.minSize)));
+            }
+        });
+        
+        // Generate noise terrain in a worker, then fill the chosen layer with it
+        window.addEventListener('generate-terrain', async () => {
+            if (!this.voxelEngine || this.isGeneratingTerrain) return;
+            const engine = this.voxelEngine;
+            const layers = engine.getAllLayers()
+                .filter(layer => !layer.locked && !layer.isBaked)
+                .map(layer => ({ id: layer.id, name: layer.name }));
+            
+            const request = await TerrainGeneratorDialog.show(layers);
+            if (!request) return;
+            
+            const logger = ActionLogger.getInstance();
+            logger.log('Generating terrain...');
+            this.isGeneratingTerrain = true;
+            let result: TerrainResult;
+            try {
+                result = await TerrainWorkerClient.generate(request.options);
+            } catch (error) {
+                console.error('Terrain generation failed:', error);
+                logger.log('Terrain generation failed');
+                return;
+            } finally {
+                this.isGeneratingTerrain = false;
+            }
+            
+            // Keep earlier edits out of this undo step
+            engine.finalizePendingOperations();
+            const target = request.layerId ? engine.getAllLayers().find(layer => layer.id === request.layerId) : undefined;
+            const layer = target && !target.locked && !target.isBaked ? target : engine.createLayer('Terrain');
+            
+            if (request.clearFootprint) {
+                const { x, z, width, depth } = request.options;
+                const cleared: Array<{ x: number; y: number; z: number }> = [];
+                layer.forEachVoxel((vx, vy, vz) => {
+                    if (vx >= x && vx < x + width && vz >= z && vz < z + depth) {
+                        cleared.push({ x: vx, y: vy, z: vz });
+                    }
+                });
+                for (const pos of cleared) {
+                    layer.setVoxelAt(pos.x, pos.y, pos.z, VoxelType.AIR);
+                }
+            }
+            
+            const { positions, types } = result;
+            for (let i = 0; i < types.length; i++) {
+                layer.setVoxelAt(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2], types[i]);
+            }
+            engine.setActiveLayer(layer.id);
+            engine.finalizePendingOperations();
+            engine.updateInstances();
+            this.layerPanel?.refresh();
+            
+            logger.log(ActionLogger.actions.generateTerrain(types.length));
+        });
+        
+        window.addEventListener('toggleHistoryPanel', () => {
+            this.historyPanel?.toggle();
+        });
+        
         window.addEventListener('toggleTiltShift', () => {
             if (this.tiltShiftPass) {
                 this.tiltShiftPass.enabled = !this.tiltShiftPass.enabled;
@@ -1077,7 +1360,8 @@ class VoxelApp {
             // Create a plane at the constraint position based on the surface normal
             // The key insight: for both add and remove modes, we want the plane at the FACE
             // where we clicked, not at the voxel center. This keeps the plane stable.
-            const isRemoveMode = this.drawingSystem!.drawMode === 'remove';
+            // Paint recolors existing voxels, so like remove it works on the clicked voxel
+            const targetsExisting = this.drawingSystem!.drawMode !== 'add';
             
             // Update the visual constraint plane if it exists
             if (this.drawingSystem!.constraintPlane) {
@@ -1089,7 +1373,7 @@ class VoxelApp {
                 // For remove: if clicking top face (normal.y > 0), plane is at top of voxel
                 // For add: plane is at the adjacent position (already handled by basePos)
                 let yPos;
-                if (isRemoveMode) {
+                if (targetsExisting) {
                     // Place plane at the face we clicked (top or bottom of voxel)
                     if (normal.y > 0) {
                         // Clicked top face - plane at top of voxel
@@ -1107,7 +1391,7 @@ class VoxelApp {
             } else if (absX > absY && absX > absZ) {
                 // Vertical X plane - constrain X
                 let xPos;
-                if (isRemoveMode) {
+                if (targetsExisting) {
                     // Place plane at the face we clicked
                     if (normal.x > 0) {
                         xPos = (basePos.x + 1) * voxelSize;
@@ -1122,7 +1406,7 @@ class VoxelApp {
             } else {
                 // Vertical Z plane - constrain Z
                 let zPos;
-                if (isRemoveMode) {
+                if (targetsExisting) {
                     // Place plane at the face we clicked
                     if (normal.z > 0) {
                         zPos = (basePos.z + 1) * voxelSize;
@@ -1178,9 +1462,11 @@ class VoxelApp {
         }
         
         // Update preview with constrained position during drawing
-        // But don't constrain if we're in box tool height adjustment mode
-        const isBoxHeightMode = this.drawingSystem!.toolMode === 'box' && 
+        // But don't constrain if we're in box or shape tool height adjustment mode
+        const isBoxHeightMode = (this.drawingSystem!.toolMode === 'box' || this.drawingSystem!.toolMode === 'shape') && 
                                (this.drawingSystem as any).boxState === 'height';
+        // Push-pull follows the ray rather than the voxel under the cursor while dragging
+        const isPushPullDrag = this.drawingSystem!.toolMode === 'pushpull' && this.drawingSystem!.isPushPulling();
         
         // Skip preview updates during camera rotation
         if (!this.isRotating) {
@@ -1189,7 +1475,9 @@ class VoxelApp {
                 this.drawingSystem.checkArrowHover(this.raycaster);
             }
             
-            if (isBoxHeightMode) {
+            if (isPushPullDrag) {
+                this.drawingSystem!.updatePushPull(this.raycaster);
+            } else if (isBoxHeightMode) {
                 // For box height adjustment, use unconstrained position
                 // Pass raycaster to help calculate Y position
                 this.drawingSystem!.updatePreview(hit);
@@ -1203,6 +1491,11 @@ class VoxelApp {
             }
         }
         
+        // Sculpt strokes dab wherever the cursor goes
+        if (event.buttons && this.drawingSystem!.isSculpting()) {
+            this.drawingSystem!.continueSculpt(hit);
+        }
+        
         // Continue drawing if mouse is held down
         // event.buttons: 1 = left, 2 = right, 4 = middle
         // This should work for brush, eraser, or when doing remove with right-click
@@ -1379,11 +1672,12 @@ class VoxelApp {
                             }
                         }
                     }
-                } else if (this.drawingSystem.toolMode === 'box' || this.drawingSystem.toolMode === 'line') {
-                    // Box and Line tools handle their own clicks
+                } else if (this.drawingSystem.toolMode === 'box' || this.drawingSystem.toolMode === 'shape' || 
+                           this.drawingSystem.toolMode === 'line' || this.drawingSystem.toolMode === 'pushpull') {
+                    // Box, shape, line and push-pull tools handle their own clicks
                     const hit = this.voxelEngine.raycast(this.raycaster);
                     if (hit) {
-                        const mode = 'add'; // Box and line tools always add
+                        const mode = 'add'; // Box and line tools always add, the shape tool picks its own mode
                         this.drawingSystem.startDrawing(hit, mode, event.shiftKey);
                         // Disable controls during box/line tool usage to prevent accidental tumbling
                         if (this.controls) this.controls.enabled = false;
@@ -1414,12 +1708,15 @@ class VoxelApp {
             } else {
                 // In other modes, right-click removes voxels or cancels box tool
                 if (this.voxelEngine && this.drawingSystem) {
-                    // Cancel box tool if in progress
-                    if (this.drawingSystem.toolMode === 'box' && 
+                    // Cancel box or shape tool if in progress
+                    if ((this.drawingSystem.toolMode === 'box' || this.drawingSystem.toolMode === 'shape') && 
                         (this.drawingSystem as any).boxState !== 'idle') {
                         this.drawingSystem.cancelBoxTool();
                         // Re-enable controls after cancelling box tool
                         if (this.controls) this.controls.enabled = true;
+                    } else if (this.drawingSystem.isPushPulling()) {
+                        // Cancel a push-pull drag in progress
+                        this.drawingSystem.cancelPushPull();
                     } else {
                         // Otherwise, remove voxels
                         const hit = this.voxelEngine.raycast(this.raycaster);
@@ -1503,6 +1800,9 @@ class VoxelApp {
                     (this.drawingSystem as any).fillClickStart = null;
                 }
             } else {
+                // Releasing a push-pull drag applies it, releasing a sculpt stroke ends it
+                this.drawingSystem.finishPushPull();
+                this.drawingSystem.finishSculpt();
                 this.drawingSystem.stopDrawing();
             }
         }
@@ -1765,6 +2065,83 @@ class VoxelApp {
                     this.toolsPanel.selectTool('box');
                 }
                 break;
+            case 'm':
+            case 'M':
+                // Toggle symmetry drawing
+                if (!event.ctrlKey && !event.metaKey && this.drawingSystem) {
+                    this.drawingSystem.toggleSymmetry();
+                }
+                break;
+            case 'c':
+            case 'C':
+                // Toggle paint mode
+                if (!event.ctrlKey && !event.metaKey && this.drawingSystem) {
+                    this.drawingSystem.togglePaintMode();
+                }
+                break;
+            case 'o':
+            case 'O':
+                // Exit selection mode when switching tools
+                this.selectionMode = false;
+                if (this.boxSelectionTool) {
+                    this.boxSelectionTool.clearSelection(false); // Don't record undo when switching tools
+                }
+                if (this.drawingSystem) {
+                    this.drawingSystem.setToolMode('shape');
+                    // Don't show single voxel preview for shape tool
+                    this.updatePreviewAtCurrentMouse();
+                    // Re-enable controls when switching tools
+                    if (this.controls) this.controls.enabled = true;
+                }
+                if (this.voxelPanel) {
+                    this.voxelPanel.updateToolMode('shape');
+                }
+                if (this.toolsPanel) {
+                    this.toolsPanel.selectTool('shape');
+                }
+                break;
+            case 'u':
+            case 'U':
+                // Exit selection mode when switching tools
+                this.selectionMode = false;
+                if (this.boxSelectionTool) {
+                    this.boxSelectionTool.clearSelection(false); // Don't record undo when switching tools
+                }
+                if (this.drawingSystem) {
+                    this.drawingSystem.setToolMode('pushpull');
+                    // Don't show single voxel preview for push-pull tool
+                    this.updatePreviewAtCurrentMouse();
+                    // Re-enable controls when switching tools
+                    if (this.controls) this.controls.enabled = true;
+                }
+                if (this.voxelPanel) {
+                    this.voxelPanel.updateToolMode('pushpull');
+                }
+                if (this.toolsPanel) {
+                    this.toolsPanel.selectTool('pushpull');
+                }
+                break;
+            case 'k':
+            case 'K':
+                // Exit selection mode when switching tools
+                this.selectionMode = false;
+                if (this.boxSelectionTool) {
+                    this.boxSelectionTool.clearSelection(false); // Don't record undo when switching tools
+                }
+                if (this.drawingSystem) {
+                    this.drawingSystem.setToolMode('sculpt');
+                    // Don't show single voxel preview for sculpt tool
+                    this.updatePreviewAtCurrentMouse();
+                    // Re-enable controls when switching tools
+                    if (this.controls) this.controls.enabled = true;
+                }
+                if (this.voxelPanel) {
+                    this.voxelPanel.updateToolMode('sculpt');
+                }
+                if (this.toolsPanel) {
+                    this.toolsPanel.selectTool('sculpt');
+                }
+                break;
             case 'l':
             case 'L':
                 // Exit selection mode when switching tools
@@ -1887,6 +2264,15 @@ class VoxelApp {
                 // Cycle brush size forward
                 this.cycleBrushSize();
                 break;
+            case '{':
+            case '}':
+                // Sculpt brush strength down or up
+                if (this.drawingSystem) {
+                    const strength = this.drawingSystem.brushStrength + (event.key === '}' ? 0.1 : -0.1);
+                    this.drawingSystem.setBrushStrength(Math.round(strength * 10) / 10);
+                    ActionLogger.getInstance().log(`Brush strength: ${Math.round(this.drawingSystem.brushStrength * 100)}%`);
+                }
+                break;
             case 'Escape':
                 // Cancel selection or transformation
                 if (this.boxSelectionTool) {
@@ -2186,7 +2572,7 @@ class VoxelApp {
             case 'empty':
                 // Start with empty scene
                 break;
-                
+            
             case 'flat':
                 // Simple flat ground with water and snow features
                 const sizeX = settings.testScene.flatGround.sizeX;
@@ -2214,7 +2600,7 @@ class VoxelApp {
                 this.voxelEngine.setVoxel(0, 1, -2, VoxelType.ICE);
                 this.voxelEngine.setVoxel(0, 2, -2, VoxelType.ICE);
                 break;
-                
+            
             case 'starter':
                 // Just a few starter blocks
                 this.voxelEngine.setVoxel(0, 0, 0, VoxelType.GRASS);
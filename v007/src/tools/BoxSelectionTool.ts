@@ -2,6 +2,7 @@ import * as THREE from 'three';
 import { VoxelEngine } from '../engine/VoxelEngine';
 import { VoxelType } from '../types';
 import { TransformGizmo } from './TransformGizmo';
+import { SelectionOps } from './SelectionOps';
 
 export interface SelectionBox {
     min: THREE.Vector3;
@@ -2066,6 +2067,98 @@ export class BoxSelectionTool {
         console.log(`Cut ${this.clipboard?.length || 0} voxels`);
     }
     
+    /**
+     * Hollow out the selection, keeping a shell the given number of voxels thick
+     */
+    hollowSelection(thickness: number): number {
+        const removed = SelectionOps.hollow(this.selectedVoxels, thickness);
+        this.applySelectionEdit(removed, []);
+        console.log(`Hollowed selection: ${removed.length} interior voxels removed`);
+        return removed.length;
+    }
+    
+    /**
+     * Fill the cavities enclosed by the selection
+     */
+    solidifySelection(): number {
+        const filled = SelectionOps.solidify(this.selectedVoxels, (x, y, z) => this.voxelEngine.getVoxel(x, y, z));
+        this.applySelectionEdit([], filled);
+        console.log(`Solidified selection: ${filled.length} voxels filled`);
+        return filled.length;
+    }
+    
+    /**
+     * Add a one voxel border of the given type around the selection
+     */
+    outlineSelection(type: VoxelType): number {
+        const border = SelectionOps.outline(this.selectedVoxels, (x, y, z) => this.voxelEngine.getVoxel(x, y, z));
+        this.applySelectionEdit([], border.map(pos => ({ ...pos, type })));
+        console.log(`Outlined selection: ${border.length} voxels added`);
+        return border.length;
+    }
+    
+    /**
+     * Remove the selection's disconnected pieces smaller than minSize voxels
+     */
+    removeSelectionIslands(minSize: number): number {
+        const removed = SelectionOps.islands(this.selectedVoxels, minSize);
+        this.applySelectionEdit(removed, []);
+        console.log(`Removed ${removed.length} voxels in islands under ${minSize} voxels`);
+        return removed.length;
+    }
+    
+    /**
+     * Write a selection operation's changes as one undo step, and keep the
+     * selection on what's there afterwards
+     */
+    private applySelectionEdit(removed: Array<{ x: number; y: number; z: number }>, added: SelectedVoxel[]): void {
+        if (removed.length === 0 && added.length === 0) return;
+        
+        // Record previous selection for undo
+        const prevSelection = [...this.selectedVoxels];
+        
+        // Keep earlier edits out of this undo step
+        this.voxelEngine.finalizePendingOperations();
+        
+        for (const voxel of removed) {
+            this.voxelEngine.setVoxel(voxel.x, voxel.y, voxel.z, VoxelType.AIR, true);
+        }
+        for (const voxel of added) {
+            this.voxelEngine.setVoxel(voxel.x, voxel.y, voxel.z, voxel.type, true);
+        }
+        
+        // Update engine visual
+        this.voxelEngine.updateInstances();
+        
+        // Removed voxels leave the selection and added ones join it; voxels in
+        // locked layers or below the ground may not have changed, so check
+        const selection: SelectedVoxel[] = [];
+        for (const voxel of [...this.selectedVoxels, ...added]) {
+            const type = this.voxelEngine.getVoxel(voxel.x, voxel.y, voxel.z);
+            if (type !== VoxelType.AIR) {
+                selection.push({ x: voxel.x, y: voxel.y, z: voxel.z, type });
+            }
+        }
+        this.selectedVoxels = selection;
+        
+        // Record selection change
+        this.voxelEngine.recordSelectionChange(prevSelection, this.selectedVoxels);
+        
+        // Force immediate snapshot
+        this.voxelEngine.finalizePendingOperations();
+        this.previousSelection = [...this.selectedVoxels];
+        
+        // Update visuals
+        if (this.selectedVoxels.length > 0) {
+            this.updateSelectionOutline();
+            this.showSelectedVoxels();
+            const center = this.getSelectionCenter();
+            this.transformGizmo.show(center, this.selectedVoxels.length > 1);
+        } else {
+            this.clearSelectionVisuals();
+        }
+    }
+    
     /**
      * Clear selection visuals only (without recording undo)
      */
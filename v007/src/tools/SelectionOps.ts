@@ -0,0 +1,231 @@
+import { VoxelType, VoxelPosition } from '../types';
+import { SelectionVoxel } from '../engine/DeltaUndoManager';
+import { VoxelLookup } from '../interaction/PushPull';
+
+export const MAX_SHELL_THICKNESS = 32;
+
+const FACE_NEIGHBORS: VoxelPosition[] = [
+    { x: 1, y: 0, z: 0 }, { x: -1, y: 0, z: 0 },
+    { x: 0, y: 1, z: 0 }, { x: 0, y: -1, z: 0 },
+    { x: 0, y: 0, z: 1 }, { x: 0, y: 0, z: -1 }
+];
+
+// Every voxel touching another by a face, edge or corner
+const ALL_NEIGHBORS: VoxelPosition[] = [];
+for (let x = -1; x <= 1; x++) {
+    for (let y = -1; y <= 1; y++) {
+        for (let z = -1; z <= 1; z++) {
+            if (x !== 0 || y !== 0 || z !== 0) ALL_NEIGHBORS.push({ x, y, z });
+        }
+    }
+}
+
+const key = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+/**
+ * Geometry operations on a selection: hollowing, solidifying, outlining and
+ * removing small islands. Each works out the voxels to remove or add and
+ * leaves writing them to the caller. Voxels count as connected when they
+ * share a face.
+ */
+export class SelectionOps {
+    /**
+     * Interior voxels to remove so only a shell of the given thickness is left.
+     * The shell is measured in face steps from the outside of the selection,
+     * including the walls of cavities already inside it.
+     */
+    static hollow(selection: VoxelPosition[], thickness: number): VoxelPosition[] {
+        const shell = Math.max(1, Math.min(MAX_SHELL_THICKNESS, Math.floor(thickness)));
+        const index = SelectionOps.indexOf(selection);
+        const depth = new Int32Array(selection.length).fill(-1);
+        
+        // Voxels with a face outside the selection are the outer layer
+        const queue: number[] = [];
+        selection.forEach((voxel, i) => {
+            const exposed = FACE_NEIGHBORS.some(n => !index.has(key(voxel.x + n.x, voxel.y + n.y, voxel.z + n.z)));
+            if (exposed) {
+                depth[i] = 0;
+                queue.push(i);
+            }
+        });
+        
+        // Step inwards one layer at a time, no further than the shell needs
+        for (let head = 0; head < queue.length; head++) {
+            const i = queue[head];
+            if (depth[i] + 1 >= shell) continue;
+            const voxel = selection[i];
+            for (const n of FACE_NEIGHBORS) {
+                const j = index.get(key(voxel.x + n.x, voxel.y + n.y, voxel.z + n.z));
+                if (j !== undefined && depth[j] === -1) {
+                    depth[j] = depth[i] + 1;
+                    queue.push(j);
+                }
+            }
+        }
+        
+        return selection.filter((_, i) => depth[i] === -1).map(({ x, y, z }) => ({ x, y, z }));
+    }
+    
+    /**
+     * Empty cells enclosed by the selection, to fill. Each cavity is filled
+     * with the type most common in the selected voxels around it; cells holding
+     * voxels outside the selection are left as they are.
+     */
+    static solidify(selection: SelectionVoxel[], getVoxel: VoxelLookup): SelectionVoxel[] {
+        if (selection.length === 0) return [];
+        
+        // A grid over the selection's bounds with a one cell margin, so the
+        // outside is connected all the way around
+        const min = { x: Infinity, y: Infinity, z: Infinity };
+        const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+        for (const { x, y, z } of selection) {
+            min.x = Math.min(min.x, x); min.y = Math.min(min.y, y); min.z = Math.min(min.z, z);
+            max.x = Math.max(max.x, x); max.y = Math.max(max.y, y); max.z = Math.max(max.z, z);
+        }
+        const sizeX = max.x - min.x + 3;
+        const sizeY = max.y - min.y + 3;
+        const sizeZ = max.z - min.z + 3;
+        const cellOf = (x: number, y: number, z: number) =>
+            ((x - min.x + 1) * sizeY + (y - min.y + 1)) * sizeZ + (z - min.z + 1);
+        const steps = FACE_NEIGHBORS.map(n => (n.x * sizeY + n.y) * sizeZ + n.z);
+        
+        const SELECTED = 1;
+        const OUTSIDE = 2;
+        const VISITED = 3;
+        const cells = new Uint8Array(sizeX * sizeY * sizeZ);
+        const types = new Map<number, VoxelType>();
+        for (const voxel of selection) {
+            const cell = cellOf(voxel.x, voxel.y, voxel.z);
+            cells[cell] = SELECTED;
+            types.set(cell, voxel.type);
+        }
+        
+        // Mark everything the outside reaches without crossing the selection.
+        // A step off one side of the grid lands in the margin on another side
+        // or off the array, both outside, so no bounds checks are needed.
+        const queue: number[] = [0];
+        cells[0] = OUTSIDE;
+        for (let head = 0; head < queue.length; head++) {
+            const cell = queue[head];
+            for (const step of steps) {
+                const next = cell + step;
+                if (cells[next] === 0) {
+                    cells[next] = OUTSIDE;
+                    queue.push(next);
+                }
+            }
+        }
+        
+        // What's left unmarked is enclosed; fill each cavity in its walls' type
+        const filled: SelectionVoxel[] = [];
+        for (let start = 0; start < cells.length; start++) {
+            if (cells[start] !== 0) continue;
+            
+            const cavity: number[] = [start];
+            const wallTypes = new Map<VoxelType, number>();
+            cells[start] = VISITED;
+            for (let head = 0; head < cavity.length; head++) {
+                const cell = cavity[head];
+                for (const step of steps) {
+                    const next = cell + step;
+                    if (cells[next] === 0) {
+                        cells[next] = VISITED;
+                        cavity.push(next);
+                    } else if (cells[next] === SELECTED) {
+                        const type = types.get(next)!;
+                        wallTypes.set(type, (wallTypes.get(type) ?? 0) + 1);
+                    }
+                }
+            }
+            
+            let fillType = selection[0].type;
+            let most = 0;
+            for (const [type, count] of wallTypes) {
+                if (count > most) {
+                    fillType = type;
+                    most = count;
+                }
+            }
+            
+            for (const cell of cavity) {
+                const x = Math.floor(cell / (sizeY * sizeZ)) + min.x - 1;
+                const y = Math.floor(cell / sizeZ) % sizeY + min.y - 1;
+                const z = cell % sizeZ + min.z - 1;
+                if (getVoxel(x, y, z) === VoxelType.AIR) {
+                    filled.push({ x, y, z, type: fillType });
+                }
+            }
+        }
+        return filled;
+    }
+    
+    /**
+     * Empty cells touching the selection by a face, edge or corner: a one
+     * voxel border around it. Nothing goes below the ground.
+     */
+    static outline(selection: VoxelPosition[], getVoxel: VoxelLookup): VoxelPosition[] {
+        const index = SelectionOps.indexOf(selection);
+        const seen = new Set<string>();
+        const border: VoxelPosition[] = [];
+        for (const voxel of selection) {
+            for (const n of ALL_NEIGHBORS) {
+                const x = voxel.x + n.x;
+                const y = voxel.y + n.y;
+                const z = voxel.z + n.z;
+                const cellKey = key(x, y, z);
+                if (y < 0 || index.has(cellKey) || seen.has(cellKey)) continue;
+                seen.add(cellKey);
+                if (getVoxel(x, y, z) === VoxelType.AIR) {
+                    border.push({ x, y, z });
+                }
+            }
+        }
+        return border;
+    }
+    
+    /**
+     * Voxels of the selection's connected pieces smaller than minSize, to
+     * remove. The largest piece always stays, however small.
+     */
+    static islands(selection: VoxelPosition[], minSize: number): VoxelPosition[] {
+        const index = SelectionOps.indexOf(selection);
+        const component = new Int32Array(selection.length).fill(-1);
+        const pieces: number[][] = [];
+        
+        for (let start = 0; start < selection.length; start++) {
+            if (component[start] !== -1) continue;
+            
+            const piece = [start];
+            component[start] = pieces.length;
+            for (let head = 0; head < piece.length; head++) {
+                const voxel = selection[piece[head]];
+                for (const n of FACE_NEIGHBORS) {
+                    const j = index.get(key(voxel.x + n.x, voxel.y + n.y, voxel.z + n.z));
+                    if (j !== undefined && component[j] === -1) {
+                        component[j] = pieces.length;
+                        piece.push(j);
+                    }
+                }
+            }
+            pieces.push(piece);
+        }
+        
+        const largest = pieces.reduce((best, piece, i) => piece.length > pieces[best].length ? i : best, 0);
+        const removed: VoxelPosition[] = [];
+        pieces.forEach((piece, i) => {
+            if (i === largest || piece.length >= minSize) return;
+            for (const j of piece) {
+                const { x, y, z } = selection[j];
+                removed.push({ x, y, z });
+            }
+        });
+        return removed;
+    }
+    
+    // Position key to index in the selection
+    private static indexOf(selection: VoxelPosition[]): Map<string, number> {
+        const index = new Map<string, number>();
+        selection.forEach(({ x, y, z }, i) => index.set(key(x, y, z), i));
+        return index;
+    }
+}
@@ -0,0 +1,243 @@
+#!/usr/bin/env node
+
+/**
+ * Headless voxel format converter
+ *
+ *   voxconvert <input...>                       print stats, exit 1 if any input is malformed
+ *   voxconvert <input> -o <output>              convert one file, format from the extension
+ *   voxconvert --to <format> <input...>         convert each input next to it (or into --out-dir)
+ *
+ * Inputs: .nel, .json, .vox, .qb, .gox. Outputs add .glb, .obj (+ .mtl) and .stl.
+ * Build with `npm run build:cli`, then run `node dist/cli/voxconvert.js`.
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import * as path from 'node:path';
+import { SceneConverter, SceneExportOptions, SceneStats, SCENE_INPUT_FORMATS, SCENE_OUTPUT_FORMATS } from '../io/SceneConverter';
+import { SceneIssue } from '../io/SceneSchema';
+
+const USAGE = `Usage:
+  voxconvert [options] <input...>                 validate inputs and print stats
+  voxconvert [options] <input> -o <output>        convert one file
+  voxconvert [options] --to <format> <input...>   convert every input
+
+Formats in:  ${SCENE_INPUT_FORMATS.join(', ')}
+Formats out: ${SCENE_OUTPUT_FORMATS.join(', ')}
+
+Options:
+  -o, --output <file>     output file
+  -t, --to <format>       output format for every input
+  -d, --out-dir <dir>     directory for --to outputs (default: next to each input)
+  --visible-only          skip hidden layers
+  --voxel-size <size>     voxel size in output units for OBJ and STL
+  --merge-vertices        share vertices between faces in OBJ
+  --strict                fail on JSON scenes that load only partly
+  --json                  print stats as JSON
+  -q, --quiet             only print errors
+  -v, --verbose           show the converters' own log output
+  -h, --help              show this help`;
+
+interface CliOptions {
+    inputs: string[];
+    output: string | null;
+    to: string | null;
+    outDir: string | null;
+    export: SceneExportOptions;
+    strict: boolean;
+    json: boolean;
+    quiet: boolean;
+    verbose: boolean;
+}
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): CliOptions {
+    const options: CliOptions = {
+        inputs: [],
+        output: null,
+        to: null,
+        outDir: null,
+        export: {},
+        strict: false,
+        json: false,
+        quiet: false,
+        verbose: false
+    };
+    
+    const value = (index: number): string => {
+        const next = args[index + 1];
+        if (next === undefined || next.startsWith('-')) {
+            throw new UsageError(`Missing value for ${args[index]}`);
+        }
+        return next;
+    };
+    
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        switch (arg) {
+            case '-o':
+            case '--output':
+                options.output = value(i++);
+                break;
+            case '-t':
+            case '--to':
+                options.to = value(i++).replace(/^\./, '').toLowerCase();
+                break;
+            case '-d':
+            case '--out-dir':
+                options.outDir = value(i++);
+                break;
+            case '--visible-only':
+                options.export.visibleOnly = true;
+                break;
+            case '--voxel-size': {
+                const size = parseFloat(value(i++));
+                if (!(size > 0)) throw new UsageError('--voxel-size must be a positive number');
+                options.export.voxelSize = size;
+                break;
+            }
+            case '--merge-vertices':
+                options.export.mergeVertices = true;
+                break;
+            case '--strict':
+                options.strict = true;
+                break;
+            case '--json':
+                options.json = true;
+                break;
+            case '-q':
+            case '--quiet':
+                options.quiet = true;
+                break;
+            case '-v':
+            case '--verbose':
+                options.verbose = true;
+                break;
+            case '-h':
+            case '--help':
+                console.log(USAGE);
+                process.exit(0);
+                break;
+            default:
+                if (arg.startsWith('-')) throw new UsageError(`Unknown option ${arg}`);
+                options.inputs.push(arg);
+        }
+    }
+    
+    if (options.inputs.length === 0) {
+        throw new UsageError('No input files');
+    }
+    if (options.output && options.to) {
+        throw new UsageError('Use either --output or --to, not both');
+    }
+    if (options.output && options.inputs.length > 1) {
+        throw new UsageError('--output takes a single input; use --to for several');
+    }
+    if (options.to && !SceneConverter.isOutputFormat(options.to)) {
+        throw new UsageError(`Unsupported output format: ${options.to}`);
+    }
+    
+    return options;
+}
+
+function extensionOf(file: string): string {
+    return path.extname(file).slice(1).toLowerCase();
+}
+
+function formatStats(file: string, stats: SceneStats): string {
+    const lines = [`${file}: ${stats.voxelCount} voxels in ${stats.layerCount} layer${stats.layerCount === 1 ? '' : 's'}`];
+    if (stats.bounds) {
+        const { min, max } = stats.bounds;
+        lines.push(`  bounds  ${min.x},${min.y},${min.z} .. ${max.x},${max.y},${max.z}` +
+            ` (${max.x - min.x + 1} x ${max.y - min.y + 1} x ${max.z - min.z + 1})`);
+    }
+    lines.push(`  palette ${stats.palette.length} color${stats.palette.length === 1 ? '' : 's'}`);
+    for (const entry of stats.palette) {
+        const share = (entry.count / stats.voxelCount * 100).toFixed(1);
+        lines.push(`    ${entry.color}  ${entry.name.padEnd(12)} ${String(entry.count).padStart(9)}  ${share.padStart(5)}%`);
+    }
+    return lines.join('\n');
+}
+
+async function main(): Promise<number> {
+    let options: CliOptions;
+    try {
+        options = parseArgs(process.argv.slice(2));
+    } catch (error) {
+        if (!(error instanceof UsageError)) throw error;
+        console.error(`voxconvert: ${error.message}\n\n${USAGE}`);
+        return 2;
+    }
+    
+    // The parsers and writers log progress for the browser console
+    const print = console.log.bind(console);
+    if (!options.verbose) console.log = () => {};
+    
+    const converter = new SceneConverter();
+    const report: Record<string, (SceneStats & { issues: SceneIssue[] }) | { error: string }> = {};
+    let failures = 0;
+    
+    for (const input of options.inputs) {
+        try {
+            const inputFormat = extensionOf(input);
+            if (!SceneConverter.isInputFormat(inputFormat)) {
+                throw new Error(`Unsupported input format: .${inputFormat}`);
+            }
+            
+            const bytes = await readFile(input);
+            const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+            const { project, issues } = await converter.read(buffer, inputFormat);
+            const stats = converter.getStats(project);
+            report[input] = { ...stats, issues };
+            
+            // Partly malformed scenes still convert unless --strict
+            for (const issue of issues) {
+                console.error(`voxconvert: ${input}: ${issue.path || '(root)'}: ${issue.message}`);
+            }
+            if (options.strict && issues.length > 0) {
+                throw new Error(`${issues.length} problem${issues.length === 1 ? '' : 's'} in the scene (--strict)`);
+            }
+            if (!options.quiet && !options.json) print(formatStats(input, stats));
+            
+            let target: string | null = null;
+            if (options.output) {
+                target = options.output;
+            } else if (options.to) {
+                const dir = options.outDir ?? path.dirname(input);
+                target = path.join(dir, `${path.basename(input, path.extname(input))}.${options.to}`);
+            }
+            if (!target) continue;
+            
+            const outputFormat = extensionOf(target);
+            if (!SceneConverter.isOutputFormat(outputFormat)) {
+                throw new Error(`Unsupported output format: .${outputFormat}`);
+            }
+            
+            const dir = path.dirname(target);
+            const files = await converter.write(project, outputFormat, path.basename(target, path.extname(target)), options.export);
+            await mkdir(dir, { recursive: true });
+            for (const file of files) {
+                const outPath = path.join(dir, file.name);
+                await writeFile(outPath, new Uint8Array(file.data));
+                if (!options.quiet && !options.json) print(`  wrote ${outPath} (${file.data.byteLength} bytes)`);
+            }
+        } catch (error) {
+            failures++;
+            const message = error instanceof Error ? error.message : String(error);
+            report[input] = { error: message };
+            console.error(`voxconvert: ${input}: ${message}`);
+        }
+    }
+    
+    if (options.json) print(JSON.stringify(report, null, 2));
+    
+    return failures > 0 ? 1 : 0;
+}
+
+main().then(
+    code => process.exit(code),
+    error => {
+        console.error('voxconvert:', error);
+        process.exit(1);
+    }
+);
@@ -49,10 +49,20 @@ export enum VoxelType {
     CUSTOM_256 = 265  // Maximum custom slot
 }
 
+export interface VoxelMaterial {
+    emissive?: number;   // Emission strength, 0 = none
+    roughness?: number;  // 0 = mirror, 1 = fully matte
+    metalness?: number;  // 0 = dielectric, 1 = metal
+    glass?: boolean;     // Rendered with the transparent voxels
+    ior?: number;        // Index of refraction (glass only)
+    opacity?: number;    // Glass opacity, 0 = fully clear
+}
+
 export interface VoxelTypeDefinition {
     color: number | string;  // Allow hex strings like '#FF0000' for IDE color preview
     transparent?: boolean;
     opacity?: number;
+    material?: VoxelMaterial;
 }
 
 export interface VoxelPosition {
@@ -71,5 +81,5 @@ export interface RaycastHit {
     isBakedLayer?: boolean;
 }
 
-export type DrawMode = 'add' | 'remove';
-export type ToolMode = 'brush' | 'box' | 'line' | 'fill';
\ No newline at end of file
+export type DrawMode = 'add' | 'remove' | 'paint';
+export type ToolMode = 'brush' | 'box' | 'shape' | 'line' | 'pushpull' | 'sculpt' | 'fill';
\ No newline at end of file
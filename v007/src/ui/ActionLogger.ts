@@ -5,6 +5,7 @@ export class ActionLogger {
     private static instance: ActionLogger;
     private logElement: HTMLElement | null = null;
     private currentTimeout: number | null = null;
+    private listeners: Array<(message: string) => void> = [];
     
     private constructor() {
         this.logElement = document.getElementById('action-log');
@@ -17,7 +18,16 @@ export class ActionLogger {
         return ActionLogger.instance;
     }
     
+    /**
+     * Subscribe to logged messages (the undo history uses them as step names)
+     */
+    addListener(listener: (message: string) => void): void {
+        this.listeners.push(listener);
+    }
+    
     log(message: string, duration: number = 3000): void {
+        this.listeners.forEach(listener => listener(message));
+        
         if (!this.logElement) return;
         
         // Clear any existing timeout
@@ -45,6 +55,14 @@ export class ActionLogger {
         placeVoxel: (count: number = 1) => `Placed ${count} voxel${count > 1 ? 's' : ''}`,
         removeVoxel: (count: number = 1) => `Removed ${count} voxel${count > 1 ? 's' : ''}`,
         fillArea: (count: number) => `Filled area with ${count} voxels`,
+        paintVoxel: (count: number = 1) => `Painted ${count} voxel${count > 1 ? 's' : ''}`,
+        replaceColor: (count: number) => `Replaced color on ${count} voxel${count !== 1 ? 's' : ''}`,
+        generateTerrain: (count: number) => `Generated terrain with ${count} voxel${count !== 1 ? 's' : ''}`,
+        hollowSelection: (count: number) => `Hollowed selection, removed ${count} voxel${count !== 1 ? 's' : ''}`,
+        solidifySelection: (count: number) => `Solidified selection, filled ${count} voxel${count !== 1 ? 's' : ''}`,
+        outlineSelection: (count: number) => `Outlined selection with ${count} voxel${count !== 1 ? 's' : ''}`,
+        removeIslands: (count: number) => `Removed ${count} island voxel${count !== 1 ? 's' : ''}`,
+        sculpt: (brush: string, count: number) => `Sculpted ${count} voxel${count !== 1 ? 's' : ''} (${brush})`,
         
         // Tool changes
         selectTool: (tool: string) => `Selected ${tool} tool`,
@@ -57,6 +75,7 @@ export class ActionLogger {
         loadScene: (filename: string) => `Loaded scene: ${filename}`,
         exportVoxels: (format: string) => `Exported as ${format}`,
         importVoxels: (filename: string) => `Imported: ${filename}`,
+        importWithIssues: (filename: string, count: number) => `Imported: ${filename} (${count} problem${count > 1 ? 's' : ''} skipped, see console)`,
         
         // Layer operations
         createLayer: (name: string) => `Created layer: ${name}`,
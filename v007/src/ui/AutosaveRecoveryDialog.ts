@@ -0,0 +1,143 @@
+import { AutosaveManager, AutosaveSession } from '../io/AutosaveManager';
+import { ModalDialog } from './ModalDialog';
+
+/**
+ * Startup prompt listing autosaved sessions with their thumbnails,
+ * letting the user restore one, delete them, or start fresh
+ */
+export class AutosaveRecoveryDialog {
+    /**
+     * Show the prompt. Resolves with the restored session id, or null when nothing was restored.
+     */
+    static show(autosaveManager: AutosaveManager, sessions: AutosaveSession[]): Promise<string | null> {
+        return new Promise((resolve) => {
+            const overlay = ModalDialog.ensureOverlay();
+            overlay.innerHTML = '';
+            overlay.style.display = 'block';
+            
+            // Thumbnail object URLs live until the dialog closes
+            const objectUrls: string[] = [];
+            const finish = (restoredId: string | null) => {
+                ModalDialog.close();
+                objectUrls.forEach(url => URL.revokeObjectURL(url));
+                document.removeEventListener('keydown', escapeHandler);
+                resolve(restoredId);
+            };
+            
+            const modal = document.createElement('div');
+            modal.className = 'modal';
+            modal.style.minWidth = '480px';
+            
+            // Header
+            const header = document.createElement('div');
+            header.className = 'modal-header';
+            
+            const title = document.createElement('h2');
+            title.className = 'modal-title';
+            title.textContent = 'Recover Unsaved Work';
+            header.appendChild(title);
+            
+            // Session list
+            const content = document.createElement('div');
+            content.className = 'modal-content';
+            content.style.maxHeight = '400px';
+            content.style.overflowY = 'auto';
+            
+            const intro = document.createElement('p');
+            intro.style.margin = '0 0 12px 0';
+            intro.textContent = 'These sessions were autosaved but never closed cleanly:';
+            content.appendChild(intro);
+            
+            for (const session of sessions) {
+                const row = document.createElement('div');
+                row.style.cssText = `
+                    display: flex;
+                    align-items: center;
+                    gap: 12px;
+                    padding: 8px;
+                    border-radius: 4px;
+                    background: rgba(255, 255, 255, 0.05);
+                    margin-bottom: 8px;
+                `;
+                
+                const thumbnail = document.createElement('div');
+                thumbnail.style.cssText = `
+                    width: 64px;
+                    height: 64px;
+                    flex-shrink: 0;
+                    border-radius: 4px;
+                    background: rgba(0, 0, 0, 0.3) center / cover no-repeat;
+                `;
+                if (session.thumbnail) {
+                    const url = URL.createObjectURL(session.thumbnail);
+                    objectUrls.push(url);
+                    thumbnail.style.backgroundImage = `url(${url})`;
+                }
+                row.appendChild(thumbnail);
+                
+                const info = document.createElement('div');
+                info.style.flex = '1';
+                info.innerHTML = `
+                    <div>${new Date(session.updated).toLocaleString()}</div>
+                    <div style="font-size: 12px; color: rgba(255, 255, 255, 0.6);">
+                        ${session.voxelCount.toLocaleString()} voxels, ${session.layerCount} layer${session.layerCount === 1 ? '' : 's'}
+                        &middot; started ${new Date(session.created).toLocaleTimeString()}
+                    </div>
+                `;
+                row.appendChild(info);
+                
+                const restoreButton = document.createElement('button');
+                restoreButton.className = 'modal-button modal-button-primary';
+                restoreButton.textContent = 'Restore';
+                restoreButton.onclick = async () => {
+                    try {
+                        await autosaveManager.restoreSession(session.id);
+                        finish(session.id);
+                    } catch (error) {
+                        console.error('Failed to restore autosave:', error);
+                        finish(null);
+                        await ModalDialog.alert({ title: 'Error', message: `Failed to restore autosave: ${error}`, type: 'error' });
+                    }
+                };
+                row.appendChild(restoreButton);
+                
+                const deleteButton = document.createElement('button');
+                deleteButton.className = 'modal-button modal-button-danger';
+                deleteButton.textContent = 'Delete';
+                deleteButton.onclick = async () => {
+                    await autosaveManager.deleteSession(session.id);
+                    row.remove();
+                    if (!content.querySelector('button')) {
+                        finish(null);
+                    }
+                };
+                row.appendChild(deleteButton);
+                
+                content.appendChild(row);
+            }
+            
+            // Buttons
+            const buttons = document.createElement('div');
+            buttons.className = 'modal-buttons';
+            
+            const freshButton = document.createElement('button');
+            freshButton.className = 'modal-button modal-button-secondary';
+            freshButton.textContent = 'Start Fresh';
+            freshButton.onclick = () => finish(null);
+            buttons.appendChild(freshButton);
+            
+            modal.appendChild(header);
+            modal.appendChild(content);
+            modal.appendChild(buttons);
+            overlay.appendChild(modal);
+            
+            // Unlike confirm(), clicking the overlay doesn't dismiss - a misclick shouldn't hide recovery
+            overlay.onclick = null;
+            
+            const escapeHandler = (e: KeyboardEvent) => {
+                if (e.key === 'Escape') finish(null);
+            };
+            document.addEventListener('keydown', escapeHandler);
+        });
+    }
+}
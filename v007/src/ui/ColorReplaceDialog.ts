@@ -0,0 +1,158 @@
+import { VoxelType } from '../types';
+import { ModalDialog } from './ModalDialog';
+
+export type ColorReplaceScope = 'layer' | 'selection' | 'all';
+
+export interface ColorReplaceEntry {
+    type: VoxelType;
+    // Hex color with a leading '#'
+    color: string;
+    count: number;
+}
+
+export interface ColorReplaceRequest {
+    from: VoxelType;
+    toHex: string;
+    scope: ColorReplaceScope;
+}
+
+/**
+ * Asks which color to replace, what to replace it with and where
+ */
+export class ColorReplaceDialog {
+    /**
+     * Show the dialog with the colors in use, most used first. Resolves with
+     * the request, or null to cancel.
+     */
+    static show(colors: ColorReplaceEntry[], defaultToHex: string, hasSelection: boolean): Promise<ColorReplaceRequest | null> {
+        return new Promise((resolve) => {
+            const overlay = ModalDialog.ensureOverlay();
+            overlay.innerHTML = '';
+            overlay.style.display = 'block';
+            
+            const finish = (request: ColorReplaceRequest | null) => {
+                ModalDialog.close();
+                document.removeEventListener('keydown', keyHandler);
+                resolve(request);
+            };
+            
+            const modal = document.createElement('div');
+            modal.className = 'modal';
+            modal.style.minWidth = '380px';
+            
+            // Header
+            const header = document.createElement('div');
+            header.className = 'modal-header';
+            
+            const title = document.createElement('h2');
+            title.className = 'modal-title';
+            title.textContent = 'Replace Color';
+            header.appendChild(title);
+            
+            const content = document.createElement('div');
+            content.className = 'modal-content';
+            
+            const addField = (label: string, input: HTMLElement) => {
+                const field = document.createElement('label');
+                field.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 12px; margin-bottom: 8px;';
+                const text = document.createElement('span');
+                text.textContent = label;
+                field.appendChild(text);
+                field.appendChild(input);
+                content.appendChild(field);
+            };
+            
+            const createSwatch = (color: string): HTMLElement => {
+                const swatch = document.createElement('div');
+                swatch.style.cssText = `width: 24px; height: 24px; border-radius: 4px; border: 1px solid rgba(255, 255, 255, 0.3); background: ${color};`;
+                return swatch;
+            };
+            
+            // From: one of the colors in the scene
+            const fromRow = document.createElement('div');
+            fromRow.style.cssText = 'display: flex; gap: 8px; align-items: center; width: 200px;';
+            const fromSelect = document.createElement('select');
+            fromSelect.className = 'modal-input';
+            fromSelect.style.flex = '1';
+            for (const entry of colors) {
+                const option = document.createElement('option');
+                option.value = String(entry.type);
+                option.textContent = `${entry.color.toUpperCase()} (${entry.count})`;
+                fromSelect.appendChild(option);
+            }
+            const fromSwatch = createSwatch(colors[0]?.color ?? 'transparent');
+            fromSelect.onchange = () => {
+                const entry = colors.find(c => String(c.type) === fromSelect.value);
+                fromSwatch.style.background = entry ? entry.color : 'transparent';
+            };
+            fromRow.appendChild(fromSwatch);
+            fromRow.appendChild(fromSelect);
+            addField('Replace', fromRow);
+            
+            // To: any color
+            const toInput = document.createElement('input');
+            toInput.type = 'color';
+            toInput.value = defaultToHex.toLowerCase();
+            toInput.style.width = '200px';
+            addField('With', toInput);
+            
+            const scopeSelect = document.createElement('select');
+            scopeSelect.className = 'modal-input';
+            scopeSelect.style.width = '200px';
+            for (const [value, label] of [['layer', 'Active layer'], ['selection', 'Selection'], ['all', 'All layers']]) {
+                const option = document.createElement('option');
+                option.value = value;
+                option.textContent = label;
+                option.disabled = value === 'selection' && !hasSelection;
+                scopeSelect.appendChild(option);
+            }
+            scopeSelect.value = hasSelection ? 'selection' : 'layer';
+            addField('In', scopeSelect);
+            
+            const submit = () => {
+                if (colors.length === 0) {
+                    finish(null);
+                    return;
+                }
+                finish({
+                    from: Number(fromSelect.value) as VoxelType,
+                    toHex: toInput.value,
+                    scope: scopeSelect.value as ColorReplaceScope
+                });
+            };
+            
+            // Buttons
+            const buttons = document.createElement('div');
+            buttons.className = 'modal-buttons';
+            
+            const cancelButton = document.createElement('button');
+            cancelButton.className = 'modal-button modal-button-secondary';
+            cancelButton.textContent = 'Cancel';
+            cancelButton.onclick = () => finish(null);
+            buttons.appendChild(cancelButton);
+            
+            const replaceButton = document.createElement('button');
+            replaceButton.className = 'modal-button modal-button-primary';
+            replaceButton.textContent = 'Replace';
+            replaceButton.disabled = colors.length === 0;
+            replaceButton.onclick = submit;
+            buttons.appendChild(replaceButton);
+            
+            modal.appendChild(header);
+            modal.appendChild(content);
+            modal.appendChild(buttons);
+            overlay.appendChild(modal);
+            
+            overlay.onclick = (e) => {
+                if (e.target === overlay) finish(null);
+            };
+            
+            const keyHandler = (e: KeyboardEvent) => {
+                if (e.key === 'Escape') finish(null);
+            };
+            document.addEventListener('keydown', keyHandler);
+            
+            replaceButton.focus();
+        });
+    }
+}
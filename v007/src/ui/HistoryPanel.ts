@@ -0,0 +1,272 @@
+import { VoxelEngine } from '../engine/VoxelEngine';
+import { HistoryEntry } from '../engine/DeltaUndoManager';
+
+type EntryState = 'past' | 'current' | 'redo' | 'branch';
+
+/**
+ * Lists the undo history as a tree. The active line is shown top to bottom;
+ * abandoned branches are indented under the step they forked from.
+ * Clicking an entry jumps the scene to that state.
+ */
+export class HistoryPanel {
+    private container: HTMLDivElement;
+    private historyList: HTMLDivElement;
+    private voxelEngine: VoxelEngine;
+    private updateCallback: () => void;
+    private refreshQueued: boolean = false;
+    
+    constructor(voxelEngine: VoxelEngine, updateCallback: () => void) {
+        this.voxelEngine = voxelEngine;
+        this.updateCallback = updateCallback;
+        
+        // Create container
+        this.container = document.createElement('div');
+        this.container.className = 'history-panel';
+        this.container.style.display = 'none';
+        
+        // Create header
+        const header = document.createElement('div');
+        header.className = 'layer-panel-header';
+        header.innerHTML = '<i data-lucide="history" style="width: 16px; height: 16px; margin-right: 6px;"></i><span>History</span>';
+        
+        // Make header draggable
+        let isDragging = false;
+        let initialX: number;
+        let initialY: number;
+        
+        header.addEventListener('mousedown', (e) => {
+            isDragging = true;
+            initialX = e.clientX - this.container.offsetLeft;
+            initialY = e.clientY - this.container.offsetTop;
+            header.style.cursor = 'grabbing';
+        });
+        
+        document.addEventListener('mousemove', (e) => {
+            if (!isDragging) return;
+            
+            e.preventDefault();
+            this.container.style.left = (e.clientX - initialX) + 'px';
+            this.container.style.top = (e.clientY - initialY) + 'px';
+            this.container.style.right = 'auto';
+            this.container.style.bottom = 'auto';
+        });
+        
+        document.addEventListener('mouseup', () => {
+            isDragging = false;
+            header.style.cursor = 'grab';
+        });
+        
+        // Create history list container
+        this.historyList = document.createElement('div');
+        this.historyList.className = 'history-list';
+        
+        // Create footer toolbar
+        const footer = document.createElement('div');
+        footer.className = 'layer-panel-footer';
+        
+        const undoButton = this.createButton('undo-2', 'Undo', () => {
+            this.voxelEngine.undo();
+            this.updateCallback();
+        });
+        
+        const redoButton = this.createButton('redo-2', 'Redo', () => {
+            this.voxelEngine.redo();
+            this.updateCallback();
+        });
+        
+        // Checkpoints get a default name that can be edited in the list
+        const checkpointButton = this.createButton('flag', 'Add Checkpoint', () => {
+            const count = this.countCheckpoints(this.voxelEngine.getHistoryTree());
+            this.voxelEngine.createCheckpoint(`Checkpoint ${count + 1}`);
+        });
+        
+        footer.appendChild(undoButton);
+        footer.appendChild(redoButton);
+        footer.appendChild(checkpointButton);
+        
+        // Assemble panel
+        this.container.appendChild(header);
+        this.container.appendChild(this.historyList);
+        this.container.appendChild(footer);
+        
+        // Initialize Lucide icons in header
+        setTimeout(() => {
+            if ((window as any).lucide) {
+                (window as any).lucide.createIcons();
+            }
+        }, 0);
+        
+        // History changes arrive in bursts (e.g. a jump notifies once per step) - refresh once per frame
+        this.voxelEngine.addHistoryListener(() => this.queueRefresh());
+        
+        this.refresh();
+    }
+    
+    private createButton(iconName: string, tooltip: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = 'layer-panel-button';
+        button.title = tooltip;
+        button.innerHTML = `<i data-lucide="${iconName}" style="width: 20px; height: 20px;"></i>`;
+        button.addEventListener('click', onClick);
+        return button;
+    }
+    
+    private queueRefresh(): void {
+        if (this.refreshQueued) return;
+        this.refreshQueued = true;
+        requestAnimationFrame(() => {
+            this.refreshQueued = false;
+            this.refresh();
+        });
+    }
+    
+    refresh(): void {
+        // Hidden panels refresh when shown
+        if (this.container.style.display === 'none') return;
+        
+        const editing = this.historyList.querySelector('[contenteditable="true"]:focus');
+        if (editing) return; // Don't rebuild under an in-progress rename
+        
+        this.historyList.innerHTML = '';
+        
+        const tree = this.voxelEngine.getHistoryTree();
+        const currentId = this.voxelEngine.getCurrentHistoryId();
+        
+        // Ancestors of the current state are "past"; everything else on the active line is "redo"
+        const pastIds = new Set<number>();
+        const findPath = (entry: HistoryEntry): boolean => {
+            if (entry.id === currentId || entry.children.some(findPath)) {
+                pastIds.add(entry.id);
+                return true;
+            }
+            return false;
+        };
+        findPath(tree);
+        
+        this.renderLine(tree, 0, false, pastIds, currentId);
+        
+        if ((window as any).lucide) {
+            (window as any).lucide.createIcons();
+        }
+        
+        // Keep the current state in view
+        const currentItem = this.historyList.querySelector('.history-item.current');
+        currentItem?.scrollIntoView({ block: 'nearest' });
+    }
+    
+    /**
+     * Render a line of history following the active child at each fork,
+     * with the other children as indented branches right after their fork point
+     */
+    private renderLine(start: HistoryEntry, depth: number, inBranch: boolean, pastIds: Set<number>, currentId: number): void {
+        let entry: HistoryEntry | undefined = start;
+        
+        while (entry) {
+            let state: EntryState;
+            if (entry.id === currentId) state = 'current';
+            else if (pastIds.has(entry.id)) state = 'past';
+            else state = inBranch ? 'branch' : 'redo';
+            
+            this.historyList.appendChild(this.createHistoryItem(entry, state, depth));
+            
+            const next: HistoryEntry | undefined = entry.children.find(child => child.id === entry!.activeChildId);
+            for (const child of entry.children) {
+                if (child === next) continue;
+                this.renderLine(child, depth + 1, true, pastIds, currentId);
+            }
+            entry = next;
+        }
+    }
+    
+    private createHistoryItem(entry: HistoryEntry, state: EntryState, depth: number): HTMLDivElement {
+        const item = document.createElement('div');
+        item.className = `history-item ${state}`;
+        item.style.marginLeft = `${depth * 16}px`;
+        item.title = new Date(entry.timestamp).toLocaleTimeString();
+        
+        item.addEventListener('click', (e) => {
+            if ((e.target as HTMLElement).closest('.history-checkpoint')) return;
+            if (this.voxelEngine.jumpToHistory(entry.id)) {
+                this.updateCallback();
+            }
+        });
+        
+        const icon = document.createElement('i');
+        icon.setAttribute('data-lucide', depth > 0 && entry.children.length === 0 ? 'git-branch' : 'circle-dot');
+        icon.style.cssText = 'width: 12px; height: 12px; flex-shrink: 0;';
+        item.appendChild(icon);
+        
+        const label = document.createElement('span');
+        label.className = 'history-label';
+        label.textContent = entry.label;
+        item.appendChild(label);
+        
+        if (entry.checkpoint !== null) {
+            item.appendChild(this.createCheckpointTag(entry));
+        }
+        
+        return item;
+    }
+    
+    private createCheckpointTag(entry: HistoryEntry): HTMLSpanElement {
+        const tag = document.createElement('span');
+        tag.className = 'history-checkpoint';
+        
+        const flag = document.createElement('i');
+        flag.setAttribute('data-lucide', 'flag');
+        flag.style.cssText = 'width: 10px; height: 10px;';
+        tag.appendChild(flag);
+        
+        // Editable name, like layer names
+        const name = document.createElement('span');
+        name.textContent = entry.checkpoint;
+        name.contentEditable = 'true';
+        name.addEventListener('blur', () => {
+            const newName = name.textContent?.trim();
+            if (newName) {
+                this.voxelEngine.renameCheckpoint(entry.id, newName);
+            } else {
+                this.voxelEngine.removeCheckpoint(entry.id);
+            }
+        });
+        name.addEventListener('keydown', (e) => {
+            e.stopPropagation(); // Keep tool shortcuts from firing while typing
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                name.blur();
+            }
+        });
+        tag.appendChild(name);
+        
+        const removeButton = document.createElement('span');
+        removeButton.className = 'history-checkpoint-remove';
+        removeButton.textContent = '×';
+        removeButton.title = 'Remove Checkpoint';
+        removeButton.addEventListener('click', () => {
+            this.voxelEngine.removeCheckpoint(entry.id);
+        });
+        tag.appendChild(removeButton);
+        
+        return tag;
+    }
+    
+    private countCheckpoints(entry: HistoryEntry): number {
+        return (entry.checkpoint !== null ? 1 : 0) +
+            entry.children.reduce((sum, child) => sum + this.countCheckpoints(child), 0);
+    }
+    
+    toggle(): void {
+        this.setVisible(this.container.style.display === 'none');
+    }
+    
+    setVisible(visible: boolean): void {
+        this.container.style.display = visible ? 'flex' : 'none';
+        if (visible) {
+            this.refresh();
+        }
+    }
+    
+    getElement(): HTMLElement {
+        return this.container;
+    }
+}
@@ -0,0 +1,160 @@
+import { ImageImportInfo } from '../io/FileManager';
+import { ImageImportOptions, ImageImportMode, DEFAULT_IMAGE_IMPORT_OPTIONS } from '../io/ImageVoxelizer';
+import { ModalDialog } from './ModalDialog';
+
+/**
+ * Asks how an image should be imported: as a heightmap (with its height
+ * and dirt depth) or as pixel art (with its orientation and thickness)
+ */
+export class ImageImportDialog {
+    /**
+     * Show the dialog. Resolves with the chosen options, or null to cancel.
+     */
+    static show(info: ImageImportInfo): Promise<ImageImportOptions | null> {
+        return new Promise((resolve) => {
+            const overlay = ModalDialog.ensureOverlay();
+            overlay.innerHTML = '';
+            overlay.style.display = 'block';
+            
+            const finish = (options: ImageImportOptions | null) => {
+                ModalDialog.close();
+                document.removeEventListener('keydown', keyHandler);
+                resolve(options);
+            };
+            
+            const modal = document.createElement('div');
+            modal.className = 'modal';
+            modal.style.minWidth = '400px';
+            
+            // Header
+            const header = document.createElement('div');
+            header.className = 'modal-header';
+            
+            const title = document.createElement('h2');
+            title.className = 'modal-title';
+            title.textContent = 'Import Image';
+            header.appendChild(title);
+            
+            const content = document.createElement('div');
+            content.className = 'modal-content';
+            
+            const intro = document.createElement('p');
+            intro.style.margin = '0 0 12px 0';
+            intro.textContent = `${info.fileName}: ${info.width} x ${info.height} pixels`;
+            content.appendChild(intro);
+            
+            const addField = (label: string, input: HTMLElement): HTMLElement => {
+                const field = document.createElement('label');
+                field.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 12px; margin-bottom: 8px;';
+                const text = document.createElement('span');
+                text.textContent = label;
+                field.appendChild(text);
+                input.style.width = '160px';
+                field.appendChild(input);
+                content.appendChild(field);
+                return field;
+            };
+            
+            const createSelect = (options: [string, string][], value: string): HTMLSelectElement => {
+                const select = document.createElement('select');
+                select.className = 'modal-input';
+                for (const [optionValue, label] of options) {
+                    const option = document.createElement('option');
+                    option.value = optionValue;
+                    option.textContent = label;
+                    select.appendChild(option);
+                }
+                select.value = value;
+                return select;
+            };
+            
+            const createNumber = (value: number, min: number, max: number): HTMLInputElement => {
+                const input = document.createElement('input');
+                input.className = 'modal-input';
+                input.type = 'number';
+                input.min = String(min);
+                input.max = String(max);
+                input.value = String(value);
+                return input;
+            };
+            
+            const defaults = DEFAULT_IMAGE_IMPORT_OPTIONS;
+            const modeSelect = createSelect(
+                [['heightmap', 'Heightmap terrain'], ['pixel-art', 'Pixel art']],
+                info.grayscale ? 'heightmap' : 'pixel-art'
+            );
+            addField('Mode', modeSelect);
+            
+            const maxHeightInput = createNumber(defaults.maxHeight, 1, 256);
+            const dirtDepthInput = createNumber(defaults.dirtDepth, 0, 64);
+            const heightmapFields = [
+                addField('Max height', maxHeightInput),
+                addField('Dirt depth', dirtDepthInput)
+            ];
+            
+            const orientationSelect = createSelect(
+                [['upright', 'Standing upright'], ['flat', 'Lying flat']],
+                defaults.orientation
+            );
+            const depthInput = createNumber(defaults.depth, 1, 64);
+            const pixelArtFields = [
+                addField('Orientation', orientationSelect),
+                addField('Thickness', depthInput)
+            ];
+            
+            const updateFields = () => {
+                const heightmap = modeSelect.value === 'heightmap';
+                heightmapFields.forEach(field => field.style.display = heightmap ? 'flex' : 'none');
+                pixelArtFields.forEach(field => field.style.display = heightmap ? 'none' : 'flex');
+            };
+            modeSelect.onchange = updateFields;
+            updateFields();
+            
+            const readNumber = (input: HTMLInputElement, fallback: number): number => {
+                const value = parseInt(input.value, 10);
+                return Number.isFinite(value) ? Math.min(Math.max(value, Number(input.min)), Number(input.max)) : fallback;
+            };
+            
+            const submit = () => finish({
+                mode: modeSelect.value as ImageImportMode,
+                maxHeight: readNumber(maxHeightInput, defaults.maxHeight),
+                dirtDepth: readNumber(dirtDepthInput, defaults.dirtDepth),
+                orientation: orientationSelect.value as ImageImportOptions['orientation'],
+                depth: readNumber(depthInput, defaults.depth)
+            });
+            
+            // Buttons
+            const buttons = document.createElement('div');
+            buttons.className = 'modal-buttons';
+            
+            const cancelButton = document.createElement('button');
+            cancelButton.className = 'modal-button modal-button-secondary';
+            cancelButton.textContent = 'Cancel';
+            cancelButton.onclick = () => finish(null);
+            buttons.appendChild(cancelButton);
+            
+            const importButton = document.createElement('button');
+            importButton.className = 'modal-button modal-button-primary';
+            importButton.textContent = 'Import';
+            importButton.onclick = submit;
+            buttons.appendChild(importButton);
+            
+            modal.appendChild(header);
+            modal.appendChild(content);
+            modal.appendChild(buttons);
+            overlay.appendChild(modal);
+            
+            overlay.onclick = (e) => {
+                if (e.target === overlay) finish(null);
+            };
+            
+            const keyHandler = (e: KeyboardEvent) => {
+                if (e.key === 'Escape') finish(null);
+                if (e.key === 'Enter') submit();
+            };
+            document.addEventListener('keydown', keyHandler);
+            
+            importButton.focus();
+        });
+    }
+}
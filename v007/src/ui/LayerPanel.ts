@@ -222,7 +222,7 @@ export class LayerPanel {
         visibilityButton.style.opacity = layer.visible ? '1' : '0.3';
         visibilityButton.addEventListener('click', (e) => {
             e.stopPropagation();
-            layer.visible = !layer.visible;
+            this.voxelEngine.setLayerVisibility(layer.id, !layer.visible);
             this.refresh();
             this.updateCallback();
         });
@@ -251,7 +251,7 @@ export class LayerPanel {
         nameText.textContent = layer.name;
         nameText.contentEditable = 'true';
         nameText.addEventListener('blur', () => {
-            layer.name = nameText.textContent || 'Untitled';
+            this.voxelEngine.setLayerName(layer.id, nameText.textContent || 'Untitled');
             this.refresh();
         });
         nameText.addEventListener('keydown', (e) => {
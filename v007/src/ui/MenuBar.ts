@@ -1,12 +1,15 @@
 import { VoxelEngine } from '../engine/VoxelEngine';
 import { VoxelRenderer } from '../engine/VoxelRenderer';
 import { DrawingSystem } from '../interaction/DrawingSystem';
-import { UndoRedoManager } from '../engine/UndoRedoManager';
+import { DeltaUndoManager } from '../engine/DeltaUndoManager';
 import { FileManager } from '../io/FileManager';
 import { settings } from '../main';
 import { DirectionIndicator } from './DirectionIndicator';
 import { LayerPanel } from './LayerPanel';
 import { ModalDialog } from './ModalDialog';
+import { SliceExportDialog } from './SliceExportDialog';
+import { SpriteExportDialog } from './SpriteExportDialog';
+import { TurntableExportDialog } from './TurntableExportDialog';
 
 interface MenuItem {
     label?: string;
@@ -31,7 +34,7 @@ export class MenuBar {
         private engine: VoxelEngine,
         private renderer: VoxelRenderer,
         private drawingSystem: DrawingSystem,
-        private undoRedoManager: UndoRedoManager,
+        private undoRedoManager: DeltaUndoManager,
         private fileManager: FileManager,
         private directionIndicator: DirectionIndicator,
         private layerPanel: LayerPanel
@@ -50,6 +53,15 @@ export class MenuBar {
                 { label: 'Recent Scenes', action: 'recent-scenes', icon: 'clock', submenu: [] },
                 { type: 'separator' },
                 { label: 'Export Voxels', action: 'export-voxels', icon: 'download' },
+                { label: 'Export glTF (.glb)', action: 'export-glb', icon: 'box' },
+                { label: 'Export Visible Layers (.glb)', action: 'export-glb-visible', icon: 'eye' },
+                { label: 'Export OBJ/MTL', action: 'export-obj', icon: 'box' },
+                { label: 'Export STL (3D Print)', action: 'export-stl', icon: 'printer' },
+                { label: 'Export Qubicle (.qb)', action: 'export-qb', icon: 'boxes' },
+                { label: 'Export Goxel (.gox)', action: 'export-gox', icon: 'boxes' },
+                { label: 'Export PNG Slices...', action: 'export-slices', icon: 'layers' },
+                { label: 'Export Sprite Sheet...', action: 'export-sprites', icon: 'image' },
+                { label: 'Export Turntable...', action: 'export-turntable', icon: 'film' },
                 { label: 'Import Voxels', action: 'import-voxels', icon: 'upload' },
                 { type: 'separator' },
                 { label: 'Reload', action: 'reload', icon: 'refresh-cw' }
@@ -59,12 +71,20 @@ export class MenuBar {
                 { label: 'Redo', action: 'redo', icon: 'redo', shortcut: 'Ctrl+Y' },
                 { type: 'separator' },
                 { label: 'Clear All', action: 'clear-all', icon: 'trash-2' },
-                { label: 'Fill Layer', action: 'fill-layer', icon: 'layers' }
+                { label: 'Fill Layer', action: 'fill-layer', icon: 'layers' },
+                { type: 'separator' },
+                { label: 'Replace Color...', action: 'replace-color', icon: 'replace' },
+                { label: 'Generate Terrain...', action: 'generate-terrain', icon: 'mountain' }
             ],
             selection: [
                 { label: 'Select All', action: 'select-all', icon: 'square' },
                 { label: 'Select None', action: 'select-none', icon: 'square-dashed' },
-                { label: 'Invert Selection', action: 'invert-selection', icon: 'rotate-3d' }
+                { label: 'Invert Selection', action: 'invert-selection', icon: 'rotate-3d' },
+                { type: 'separator' },
+                { label: 'Hollow Out...', action: 'hollow-selection', icon: 'package-open' },
+                { label: 'Solidify', action: 'solidify-selection', icon: 'package' },
+                { label: 'Outline...', action: 'outline-selection', icon: 'frame' },
+                { label: 'Remove Islands...', action: 'remove-islands', icon: 'scissors' }
             ],
             layer: [
                 { label: 'Add Layer', action: 'add-layer', icon: 'plus-circle' },
@@ -84,6 +104,7 @@ export class MenuBar {
                 { label: 'Toggle Wireframe', action: 'toggle-wireframe', icon: 'box', shortcut: 'W' },
                 { label: 'Toggle Tilt-Shift', action: 'toggle-tilt-shift', icon: 'aperture', shortcut: 'T' },
                 { type: 'separator' },
+                { label: 'History Panel', action: 'toggle-history', icon: 'history' },
                 { label: 'Fullscreen', action: 'toggle-fullscreen', icon: 'maximize' }
             ],
             help: [
@@ -221,6 +242,33 @@ export class MenuBar {
             case 'export-voxels':
                 this.fileManager.exportFile('vox');
                 break;
+            case 'export-glb':
+                this.fileManager.exportFile('glb');
+                break;
+            case 'export-glb-visible':
+                this.fileManager.exportFile('glb', undefined, { visibleOnly: true });
+                break;
+            case 'export-obj':
+                this.fileManager.exportFile('obj');
+                break;
+            case 'export-stl':
+                this.fileManager.exportFile('stl', undefined, { visibleOnly: true });
+                break;
+            case 'export-qb':
+                this.fileManager.exportFile('qb');
+                break;
+            case 'export-gox':
+                this.fileManager.exportFile('gox');
+                break;
+            case 'export-slices':
+                await this.exportSlices();
+                break;
+            case 'export-sprites':
+                await this.exportSprites();
+                break;
+            case 'export-turntable':
+                await this.exportTurntable();
+                break;
             case 'import-voxels':
                 this.promptForImport();
                 break;
@@ -244,11 +292,30 @@ export class MenuBar {
             case 'fill-layer':
                 // TODO: Implement fill layer functionality
                 break;
+            case 'replace-color':
+                // main.ts owns the selection tool and palette
+                window.dispatchEvent(new CustomEvent('replace-color'));
+                break;
+            case 'generate-terrain':
+                window.dispatchEvent(new CustomEvent('generate-terrain'));
+                break;
             case 'select-all':
             case 'select-none':
             case 'invert-selection':
                 // TODO: Implement selection actions
                 break;
+            case 'hollow-selection':
+                window.dispatchEvent(new CustomEvent('selection-operation', { detail: 'hollow' }));
+                break;
+            case 'solidify-selection':
+                window.dispatchEvent(new CustomEvent('selection-operation', { detail: 'solidify' }));
+                break;
+            case 'outline-selection':
+                window.dispatchEvent(new CustomEvent('selection-operation', { detail: 'outline' }));
+                break;
+            case 'remove-islands':
+                window.dispatchEvent(new CustomEvent('selection-operation', { detail: 'islands' }));
+                break;
             case 'add-layer':
                 // TODO: Implement add layer
                 break;
@@ -287,6 +354,9 @@ export class MenuBar {
                 // Emit custom event for tilt-shift toggle
                 window.dispatchEvent(new CustomEvent('toggleTiltShift'));
                 break;
+            case 'toggle-history':
+                window.dispatchEvent(new CustomEvent('toggleHistoryPanel'));
+                break;
             case 'toggle-fullscreen':
                 if (!document.fullscreenElement) {
                     document.documentElement.requestFullscreen();
@@ -309,11 +379,50 @@ export class MenuBar {
         const filename = prompt('Enter filename:', defaultName);
         
         if (filename) {
-            this.fileManager.exportFile('json', filename);
+            this.fileManager.exportFile('nel', filename);
             this.addRecentScene(filename);
         }
     }
     
+    private async exportSlices(): Promise<void> {
+        const choice = await SliceExportDialog.show(this.engine.getAllLayers());
+        if (!choice) return;
+        
+        const options = { sliceAxis: choice.axis, sliceLayout: choice.layout };
+        try {
+            if (choice.layerId) {
+                await this.fileManager.exportLayer(choice.layerId, 'slices', options);
+            } else {
+                await this.fileManager.exportFile('slices', undefined, options);
+            }
+        } catch (error) {
+            await ModalDialog.alert({ title: 'Export Failed', message: `${error}`, type: 'error' });
+        }
+    }
+    
+    private async exportSprites(): Promise<void> {
+        const assets = await this.fileManager.listAssets();
+        const choice = await SpriteExportDialog.show(this.engine.getAllLayers(), assets, this.engine.getActiveLayer()?.id);
+        if (!choice) return;
+        
+        try {
+            await this.fileManager.exportSpriteSheet(choice.source, choice.options);
+        } catch (error) {
+            await ModalDialog.alert({ title: 'Export Failed', message: `${error}`, type: 'error' });
+        }
+    }
+    
+    private async exportTurntable(): Promise<void> {
+        const options = await TurntableExportDialog.show(this.engine.getShowEdges());
+        if (!options) return;
+        
+        try {
+            await this.fileManager.exportTurntable(options);
+        } catch (error) {
+            await ModalDialog.alert({ title: 'Export Failed', message: `${error}`, type: 'error' });
+        }
+    }
+    
     private async loadScene(): Promise<void> {
         this.promptForImport();
     }
@@ -354,12 +463,13 @@ export class MenuBar {
     private promptForImport(): void {
         const input = document.createElement('input');
         input.type = 'file';
-        input.accept = '.vox,.json';
+        input.accept = '.nel,.vox,.qb,.gox,.json,.schem,.litematic,.png,.jpg,.jpeg,.zip';
         input.onchange = async (event) => {
             const file = (event.target as HTMLInputElement).files?.[0];
             if (file) {
                 await this.fileManager.importFile(file);
                 this.engine.updateInstances();
+                this.layerPanel.refresh();
             }
         };
         input.click();
@@ -384,7 +494,12 @@ export class MenuBar {
                         <strong>B:</strong> Brush tool<br>
                         <strong>E:</strong> Eraser tool<br>
                         <strong>X:</strong> Box tool<br>
+                        <strong>O:</strong> Shape tool<br>
+                        <strong>M:</strong> Toggle symmetry<br>
+                        <strong>C:</strong> Toggle paint mode<br>
                         <strong>L:</strong> Line tool<br>
+                        <strong>U:</strong> Push/pull tool<br>
+                        <strong>K:</strong> Sculpt tool<br>
                         <strong>P:</strong> Fill tool<br>
                         <strong>S:</strong> Selection tool
                     </div>
@@ -399,7 +514,8 @@ export class MenuBar {
                         <strong>T:</strong> Toggle tilt-shift<br>
                         <strong>F:</strong> Reset camera<br>
                         <strong>R:</strong> Rotate asset<br>
-                        <strong>[/]:</strong> Brush size -/+
+                        <strong>[/]:</strong> Brush size -/+<br>
+                        <strong>{/}:</strong> Sculpt strength -/+
                     </div>
                     
                     <h3>File Operations</h3>
@@ -17,7 +17,7 @@ export interface ModalOptions {
 export class ModalDialog {
     private static overlay: HTMLDivElement | null = null;
     
-    private static ensureOverlay(): HTMLDivElement {
+    static ensureOverlay(): HTMLDivElement {
         if (!this.overlay) {
             this.overlay = document.getElementById('modal-overlay') as HTMLDivElement;
             if (!this.overlay) {
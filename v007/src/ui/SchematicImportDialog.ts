@@ -0,0 +1,225 @@
+import { VoxelType } from '../types';
+import { SchematicReview } from '../io/FileManager';
+import { ColorRegistry } from '../engine/ColorRegistry';
+import { ModalDialog } from './ModalDialog';
+
+const BUILT_IN_TYPES: [string, VoxelType][] = [
+    ['Grass', VoxelType.GRASS],
+    ['Dirt', VoxelType.DIRT],
+    ['Stone', VoxelType.STONE],
+    ['Wood', VoxelType.WOOD],
+    ['Leaves', VoxelType.LEAVES],
+    ['Water', VoxelType.WATER],
+    ['Sand', VoxelType.SAND],
+    ['Snow', VoxelType.SNOW],
+    ['Ice', VoxelType.ICE]
+];
+
+/**
+ * Shown before a schematic is imported: lists the blocks it contains with
+ * how each will be imported, and lets the user change the mapping. Changes
+ * are saved to the block color table for later imports too.
+ */
+export class SchematicImportDialog {
+    /**
+     * Show the dialog. Resolves true to import, false to cancel.
+     */
+    static show(review: SchematicReview): Promise<boolean> {
+        return new Promise((resolve) => {
+            const overlay = ModalDialog.ensureOverlay();
+            overlay.innerHTML = '';
+            overlay.style.display = 'block';
+            
+            const finish = (proceed: boolean) => {
+                ModalDialog.close();
+                document.removeEventListener('keydown', escapeHandler);
+                resolve(proceed);
+            };
+            
+            const { table } = review;
+            const blocks = [...review.blockCounts].sort((a, b) => b[1] - a[1]);
+            
+            const modal = document.createElement('div');
+            modal.className = 'modal';
+            modal.style.minWidth = '520px';
+            
+            // Header
+            const header = document.createElement('div');
+            header.className = 'modal-header';
+            
+            const title = document.createElement('h2');
+            title.className = 'modal-title';
+            title.textContent = 'Import Schematic';
+            header.appendChild(title);
+            
+            const content = document.createElement('div');
+            content.className = 'modal-content';
+            
+            const totalBlocks = blocks.reduce((sum, [, count]) => sum + count, 0);
+            const intro = document.createElement('p');
+            intro.style.margin = '0 0 8px 0';
+            intro.textContent = `${review.fileName}: ${review.size.x} x ${review.size.y} x ${review.size.z}, ` +
+                `${totalBlocks.toLocaleString()} blocks of ${blocks.length} kinds.`;
+            content.appendChild(intro);
+            
+            // Updated as mappings change
+            const summary = document.createElement('p');
+            summary.style.margin = '0 0 12px 0';
+            content.appendChild(summary);
+            
+            const updateSummary = () => {
+                const unmapped = blocks.filter(([id]) => !table.findEntry(id));
+                if (unmapped.length === 0) {
+                    summary.style.color = 'rgba(255, 255, 255, 0.6)';
+                    summary.textContent = 'All blocks have a mapping.';
+                } else {
+                    const count = unmapped.reduce((sum, [, blockCount]) => sum + blockCount, 0);
+                    summary.style.color = '#ffb74d';
+                    summary.textContent = `${unmapped.length} block kind${unmapped.length === 1 ? '' : 's'} ` +
+                        `(${count.toLocaleString()} blocks) have no mapping and will be skipped.`;
+                }
+            };
+            
+            const list = document.createElement('div');
+            list.style.maxHeight = '360px';
+            list.style.overflowY = 'auto';
+            
+            for (const [id, count] of blocks) {
+                const row = document.createElement('div');
+                row.style.cssText = `
+                    display: flex;
+                    align-items: center;
+                    gap: 8px;
+                    padding: 4px 8px;
+                    border-radius: 4px;
+                    margin-bottom: 4px;
+                `;
+                
+                const swatch = document.createElement('div');
+                swatch.style.cssText = `
+                    width: 16px;
+                    height: 16px;
+                    flex-shrink: 0;
+                    border-radius: 3px;
+                    border: 1px solid rgba(255, 255, 255, 0.2);
+                `;
+                row.appendChild(swatch);
+                
+                const name = document.createElement('div');
+                name.style.flex = '1';
+                name.style.overflow = 'hidden';
+                name.style.textOverflow = 'ellipsis';
+                name.textContent = id.replace(/^minecraft:/, '');
+                name.title = id;
+                row.appendChild(name);
+                
+                const countLabel = document.createElement('div');
+                countLabel.style.cssText = 'font-size: 12px; color: rgba(255, 255, 255, 0.6); min-width: 64px; text-align: right;';
+                countLabel.textContent = count.toLocaleString();
+                row.appendChild(countLabel);
+                
+                const select = document.createElement('select');
+                select.className = 'modal-input';
+                select.style.width = '140px';
+                select.style.padding = '4px';
+                
+                const addOption = (value: string, label: string) => {
+                    const option = document.createElement('option');
+                    option.value = value;
+                    option.textContent = label;
+                    select.appendChild(option);
+                };
+                if (!table.findEntry(id)) {
+                    addOption('unmapped', 'Unmapped');
+                }
+                addOption('skip', 'Skip');
+                for (const [label, type] of BUILT_IN_TYPES) {
+                    addOption(`type:${type}`, label);
+                }
+                addOption('color', 'Custom color');
+                row.appendChild(select);
+                
+                const colorInput = document.createElement('input');
+                colorInput.type = 'color';
+                colorInput.style.cssText = 'width: 32px; height: 24px; padding: 0; border: none; background: none;';
+                row.appendChild(colorInput);
+                
+                // Reflect the entry currently in effect for this block
+                const refresh = () => {
+                    const entry = table.findEntry(id);
+                    let color: string | null = null;
+                    if (!entry) {
+                        select.value = 'unmapped';
+                    } else if (entry.type !== undefined) {
+                        select.value = `type:${entry.type}`;
+                        color = ColorRegistry.getInstance().getColor(entry.type);
+                    } else if (entry.color) {
+                        select.value = 'color';
+                        color = entry.color;
+                        colorInput.value = entry.color.toLowerCase();
+                    } else {
+                        select.value = 'skip';
+                    }
+                    
+                    colorInput.style.display = select.value === 'color' ? '' : 'none';
+                    swatch.style.background = color ?? 'transparent';
+                    row.style.background = entry ? 'rgba(255, 255, 255, 0.05)' : 'rgba(255, 152, 0, 0.15)';
+                    updateSummary();
+                };
+                
+                select.onchange = () => {
+                    if (select.value === 'unmapped') {
+                        table.removeEntry(id);
+                    } else if (select.value === 'skip') {
+                        table.setEntry({ pattern: id });
+                    } else if (select.value === 'color') {
+                        table.setEntry({ pattern: id, color: colorInput.value.toUpperCase() });
+                    } else {
+                        table.setEntry({ pattern: id, type: Number(select.value.slice(5)) as VoxelType });
+                    }
+                    refresh();
+                };
+                colorInput.onchange = () => {
+                    table.setEntry({ pattern: id, color: colorInput.value.toUpperCase() });
+                    refresh();
+                };
+                
+                colorInput.value = '#808080';
+                refresh();
+                list.appendChild(row);
+            }
+            content.appendChild(list);
+            updateSummary();
+            
+            // Buttons
+            const buttons = document.createElement('div');
+            buttons.className = 'modal-buttons';
+            
+            const cancelButton = document.createElement('button');
+            cancelButton.className = 'modal-button modal-button-secondary';
+            cancelButton.textContent = 'Cancel';
+            cancelButton.onclick = () => finish(false);
+            buttons.appendChild(cancelButton);
+            
+            const importButton = document.createElement('button');
+            importButton.className = 'modal-button modal-button-primary';
+            importButton.textContent = 'Import';
+            importButton.onclick = () => finish(true);
+            buttons.appendChild(importButton);
+            
+            modal.appendChild(header);
+            modal.appendChild(content);
+            modal.appendChild(buttons);
+            overlay.appendChild(modal);
+            
+            overlay.onclick = (e) => {
+                if (e.target === overlay) finish(false);
+            };
+            
+            const escapeHandler = (e: KeyboardEvent) => {
+                if (e.key === 'Escape') finish(false);
+            };
+            document.addEventListener('keydown', escapeHandler);
+        });
+    }
+}
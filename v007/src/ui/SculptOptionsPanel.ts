@@ -0,0 +1,157 @@
+import { DrawingSystem } from '../interaction/DrawingSystem';
+import { SculptMode, SculptBrush, SCULPT_MODES, DEFAULT_BRUSH_STRENGTH, DEFAULT_BRUSH_FALLOFF } from '../interaction/Sculpt';
+import { ActionLogger } from './ActionLogger';
+
+const SCULPT_LABELS: Record<SculptMode, string> = {
+    smooth: 'Smooth',
+    erode: 'Erode',
+    inflate: 'Inflate',
+    flatten: 'Flatten',
+    raise: 'Raise',
+    lower: 'Lower'
+};
+
+/**
+ * Sculpt brush options - flyout next to the tools panel with the sculpt brush
+ * and the brush strength and falloff
+ */
+export class SculptOptionsPanel {
+    private element: HTMLElement;
+    private drawingSystem: DrawingSystem | null = null;
+    private modeSelect!: HTMLSelectElement;
+    private strengthInput!: HTMLInputElement;
+    private falloffInput!: HTMLInputElement;
+    private strengthValue!: HTMLSpanElement;
+    private falloffValue!: HTMLSpanElement;
+    
+    constructor() {
+        this.element = document.createElement('div');
+        this.element.className = 'sculpt-options-panel';
+        this.element.style.cssText = `
+            position: absolute;
+            width: 180px;
+            background: rgba(40, 40, 40, 0.95);
+            border: 1px solid rgba(255, 255, 255, 0.1);
+            border-radius: 8px;
+            padding: 10px 12px;
+            display: none;
+            flex-direction: column;
+            gap: 8px;
+            color: rgba(255, 255, 255, 0.8);
+            font-size: 12px;
+            user-select: none;
+            z-index: 100;
+        `;
+        this.create();
+        
+        // Strength can also change from the keyboard
+        window.addEventListener('sculpt-changed', (e) => {
+            this.update((e as CustomEvent<SculptBrush>).detail);
+        });
+        
+        const container = document.getElementById('container');
+        if (container) {
+            container.appendChild(this.element);
+        }
+    }
+    
+    setDrawingSystem(drawingSystem: DrawingSystem): void {
+        this.drawingSystem = drawingSystem;
+    }
+    
+    isVisible(): boolean {
+        return this.element.style.display !== 'none';
+    }
+    
+    /**
+     * Show the panel to the right of the tools panel, level with the given button
+     */
+    setVisible(visible: boolean, panel?: HTMLElement | null, button?: HTMLElement): void {
+        if (visible && panel) {
+            this.element.style.left = `${panel.offsetLeft + panel.offsetWidth + 8}px`;
+            this.element.style.top = `${panel.offsetTop + (button ? button.offsetTop : 0)}px`;
+        }
+        this.element.style.display = visible ? 'flex' : 'none';
+    }
+    
+    private create(): void {
+        this.modeSelect = document.createElement('select');
+        this.modeSelect.style.cssText = this.inputStyle();
+        for (const mode of SCULPT_MODES) {
+            const option = document.createElement('option');
+            option.value = mode;
+            option.textContent = SCULPT_LABELS[mode];
+            this.modeSelect.appendChild(option);
+        }
+        this.modeSelect.addEventListener('change', () => {
+            const mode = this.modeSelect.value as SculptMode;
+            this.drawingSystem?.setSculptMode(mode);
+            ActionLogger.getInstance().log(`Sculpt brush: ${SCULPT_LABELS[mode]}`);
+        });
+        this.addField('Brush', this.modeSelect);
+        
+        [this.strengthInput, this.strengthValue] = this.addSlider('Strength', (value) => {
+            this.drawingSystem?.setBrushStrength(value);
+        });
+        [this.falloffInput, this.falloffValue] = this.addSlider('Falloff', (value) => {
+            this.drawingSystem?.setBrushFalloff(value);
+        });
+        
+        this.update({ mode: 'smooth', radius: 1, strength: DEFAULT_BRUSH_STRENGTH, falloff: DEFAULT_BRUSH_FALLOFF });
+    }
+    
+    // Reflect the drawing system's brush in the controls
+    private update(brush: SculptBrush): void {
+        this.modeSelect.value = brush.mode;
+        this.strengthInput.value = String(Math.round(brush.strength * 100));
+        this.strengthValue.textContent = `${Math.round(brush.strength * 100)}%`;
+        this.falloffInput.value = String(Math.round(brush.falloff * 100));
+        this.falloffValue.textContent = `${Math.round(brush.falloff * 100)}%`;
+    }
+    
+    // A 0-100% slider with its value beside it; onChange gets 0-1
+    private addSlider(label: string, onChange: (value: number) => void): [HTMLInputElement, HTMLSpanElement] {
+        const input = document.createElement('input');
+        input.type = 'range';
+        input.min = '0';
+        input.max = '100';
+        input.step = '5';
+        input.style.cssText = 'width: 70px;';
+        input.addEventListener('input', () => onChange(Number(input.value) / 100));
+        // Keep arrow keys from reaching the editor's keyboard shortcuts
+        input.addEventListener('keydown', (e) => e.stopPropagation());
+        
+        const value = document.createElement('span');
+        value.style.cssText = 'width: 32px; text-align: right;';
+        
+        const row = document.createElement('div');
+        row.style.cssText = 'display: flex; align-items: center; gap: 4px;';
+        row.appendChild(input);
+        row.appendChild(value);
+        this.addField(label, row);
+        return [input, value];
+    }
+    
+    private addField(label: string, input: HTMLElement): void {
+        const field = document.createElement('label');
+        field.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 8px;';
+        const text = document.createElement('span');
+        text.textContent = label;
+        field.appendChild(text);
+        field.appendChild(input);
+        this.element.appendChild(field);
+    }
+    
+    private inputStyle(): string {
+        return `
+            width: 100px;
+            padding: 4px 6px;
+            background: rgba(30, 30, 30, 0.8);
+            border: 1px solid rgba(255, 255, 255, 0.2);
+            border-radius: 4px;
+            color: rgba(255, 255, 255, 0.9);
+            font-size: 12px;
+            outline: none;
+        `;
+    }
+}
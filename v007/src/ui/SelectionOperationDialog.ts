@@ -0,0 +1,153 @@
+import { ModalDialog } from './ModalDialog';
+import { MAX_SHELL_THICKNESS } from '../tools/SelectionOps';
+
+export type SelectionOperation = 'hollow' | 'solidify' | 'outline' | 'islands';
+
+export interface SelectionOperationRequest {
+    // Shell left by hollowing, in voxels
+    thickness: number;
+    // Outline color with a leading '#'
+    colorHex: string;
+    // Pieces with fewer voxels than this are removed as islands
+    minSize: number;
+}
+
+const TITLES: Record<SelectionOperation, string> = {
+    hollow: 'Hollow Out Selection',
+    solidify: 'Solidify Selection',
+    outline: 'Outline Selection',
+    islands: 'Remove Islands'
+};
+
+/**
+ * Asks for the setting a selection operation needs: the shell thickness for
+ * hollowing, the color for outlining or the size threshold for islands
+ */
+export class SelectionOperationDialog {
+    // The last settings used, so repeating an operation doesn't start over
+    private static lastThickness = 1;
+    private static lastMinSize = 8;
+    
+    /**
+     * Show the dialog. Resolves with the request, or null to cancel.
+     */
+    static show(operation: SelectionOperation, defaultHex: string): Promise<SelectionOperationRequest | null> {
+        return new Promise((resolve) => {
+            const overlay = ModalDialog.ensureOverlay();
+            overlay.innerHTML = '';
+            overlay.style.display = 'block';
+            
+            const finish = (request: SelectionOperationRequest | null) => {
+                ModalDialog.close();
+                document.removeEventListener('keydown', keyHandler);
+                resolve(request);
+            };
+            
+            const modal = document.createElement('div');
+            modal.className = 'modal';
+            modal.style.minWidth = '340px';
+            
+            // Header
+            const header = document.createElement('div');
+            header.className = 'modal-header';
+            
+            const title = document.createElement('h2');
+            title.className = 'modal-title';
+            title.textContent = TITLES[operation];
+            header.appendChild(title);
+            
+            const content = document.createElement('div');
+            content.className = 'modal-content';
+            
+            const addField = (label: string, input: HTMLElement) => {
+                const field = document.createElement('label');
+                field.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 12px; margin-bottom: 8px;';
+                const text = document.createElement('span');
+                text.textContent = label;
+                field.appendChild(text);
+                field.appendChild(input);
+                content.appendChild(field);
+            };
+            
+            const createNumberInput = (value: number, min: number, max: number): HTMLInputElement => {
+                const input = document.createElement('input');
+                input.className = 'modal-input';
+                input.type = 'number';
+                input.min = String(min);
+                input.max = String(max);
+                input.step = '1';
+                input.value = String(value);
+                input.style.width = '120px';
+                // Keep digits from reaching the editor's keyboard shortcuts
+                input.addEventListener('keydown', (e) => {
+                    if (e.key !== 'Escape') e.stopPropagation();
+                });
+                return input;
+            };
+            
+            const thicknessInput = createNumberInput(SelectionOperationDialog.lastThickness, 1, MAX_SHELL_THICKNESS);
+            const colorInput = document.createElement('input');
+            colorInput.type = 'color';
+            colorInput.value = defaultHex.toLowerCase();
+            colorInput.style.width = '120px';
+            const minSizeInput = createNumberInput(SelectionOperationDialog.lastMinSize, 1, 1000000);
+            
+            if (operation === 'hollow') {
+                addField('Shell thickness', thicknessInput);
+            } else if (operation === 'outline') {
+                addField('Color', colorInput);
+            } else if (operation === 'islands') {
+                addField('Smaller than (voxels)', minSizeInput);
+            }
+            
+            const readNumber = (input: HTMLInputElement, fallback: number): number => {
+                const value = Math.round(parseFloat(input.value));
+                if (!Number.isFinite(value)) return fallback;
+                return Math.min(Math.max(value, parseFloat(input.min)), parseFloat(input.max));
+            };
+            
+            const submit = () => {
+                const request: SelectionOperationRequest = {
+                    thickness: readNumber(thicknessInput, SelectionOperationDialog.lastThickness),
+                    colorHex: colorInput.value,
+                    minSize: readNumber(minSizeInput, SelectionOperationDialog.lastMinSize)
+                };
+                SelectionOperationDialog.lastThickness = request.thickness;
+                SelectionOperationDialog.lastMinSize = request.minSize;
+                finish(request);
+            };
+            
+            // Buttons
+            const buttons = document.createElement('div');
+            buttons.className = 'modal-buttons';
+            
+            const cancelButton = document.createElement('button');
+            cancelButton.className = 'modal-button modal-button-secondary';
+            cancelButton.textContent = 'Cancel';
+            cancelButton.onclick = () => finish(null);
+            buttons.appendChild(cancelButton);
+            
+            const applyButton = document.createElement('button');
+            applyButton.className = 'modal-button modal-button-primary';
+            applyButton.textContent = 'Apply';
+            applyButton.onclick = submit;
+            buttons.appendChild(applyButton);
+            
+            modal.appendChild(header);
+            modal.appendChild(content);
+            modal.appendChild(buttons);
+            overlay.appendChild(modal);
+            
+            overlay.onclick = (e) => {
+                if (e.target === overlay) finish(null);
+            };
+            
+            const keyHandler = (e: KeyboardEvent) => {
+                if (e.key === 'Escape') finish(null);
+            };
+            document.addEventListener('keydown', keyHandler);
+            
+            applyButton.focus();
+        });
+    }
+}
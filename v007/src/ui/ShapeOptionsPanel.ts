@@ -0,0 +1,152 @@
+import { DrawingSystem } from '../interaction/DrawingSystem';
+import { ShapeKind, ShapeAxis, SHAPE_KINDS, DEFAULT_SHAPE_OPTIONS } from '../interaction/ShapeRasterizer';
+import { DrawMode } from '../types';
+import { ActionLogger } from './ActionLogger';
+
+const SHAPE_LABELS: Record<ShapeKind, string> = {
+    sphere: 'Sphere',
+    ellipsoid: 'Ellipsoid',
+    cylinder: 'Cylinder',
+    cone: 'Cone',
+    pyramid: 'Pyramid',
+    torus: 'Torus'
+};
+
+/**
+ * Shape tool options - flyout next to the tools panel while the shape tool is active
+ */
+export class ShapeOptionsPanel {
+    private element: HTMLElement;
+    private drawingSystem: DrawingSystem | null = null;
+    private axisSelect!: HTMLSelectElement;
+    private thicknessInput!: HTMLInputElement;
+    
+    constructor() {
+        this.element = document.createElement('div');
+        this.element.className = 'shape-options-panel';
+        this.element.style.cssText = `
+            position: absolute;
+            width: 180px;
+            background: rgba(40, 40, 40, 0.95);
+            border: 1px solid rgba(255, 255, 255, 0.1);
+            border-radius: 8px;
+            padding: 10px 12px;
+            display: none;
+            flex-direction: column;
+            gap: 8px;
+            color: rgba(255, 255, 255, 0.8);
+            font-size: 12px;
+            user-select: none;
+            z-index: 100;
+        `;
+        this.create();
+        
+        const container = document.getElementById('container');
+        if (container) {
+            container.appendChild(this.element);
+        }
+    }
+    
+    setDrawingSystem(drawingSystem: DrawingSystem): void {
+        this.drawingSystem = drawingSystem;
+    }
+    
+    /**
+     * Show the panel beside the given element (the tools panel), or hide it
+     */
+    setVisible(visible: boolean, anchor?: HTMLElement | null): void {
+        if (visible && anchor) {
+            this.element.style.left = `${anchor.offsetLeft + anchor.offsetWidth + 8}px`;
+            this.element.style.top = `${anchor.offsetTop}px`;
+        }
+        this.element.style.display = visible ? 'flex' : 'none';
+    }
+    
+    private create(): void {
+        const shapeSelect = this.addSelect('Shape', SHAPE_KINDS.map(kind => [kind, SHAPE_LABELS[kind]]));
+        shapeSelect.value = DEFAULT_SHAPE_OPTIONS.kind;
+        shapeSelect.addEventListener('change', () => {
+            const kind = shapeSelect.value as ShapeKind;
+            this.drawingSystem?.setShapeOptions({ kind });
+            this.updateAxisState(kind);
+            ActionLogger.getInstance().log(`Shape: ${SHAPE_LABELS[kind]}`);
+        });
+        
+        this.axisSelect = this.addSelect('Axis', [['y', 'Y (up)'], ['x', 'X'], ['z', 'Z']]);
+        this.axisSelect.value = DEFAULT_SHAPE_OPTIONS.axis;
+        this.axisSelect.addEventListener('change', () => {
+            this.drawingSystem?.setShapeOptions({ axis: this.axisSelect.value as ShapeAxis });
+        });
+        this.updateAxisState(DEFAULT_SHAPE_OPTIONS.kind);
+        
+        const fillSelect = this.addSelect('Fill', [['solid', 'Solid'], ['hollow', 'Hollow']]);
+        fillSelect.value = DEFAULT_SHAPE_OPTIONS.hollow ? 'hollow' : 'solid';
+        fillSelect.addEventListener('change', () => {
+            const hollow = fillSelect.value === 'hollow';
+            this.drawingSystem?.setShapeOptions({ hollow });
+            this.thicknessInput.disabled = !hollow;
+        });
+        
+        this.thicknessInput = document.createElement('input');
+        this.thicknessInput.type = 'number';
+        this.thicknessInput.min = '1';
+        this.thicknessInput.max = '32';
+        this.thicknessInput.value = String(DEFAULT_SHAPE_OPTIONS.wallThickness);
+        this.thicknessInput.disabled = !DEFAULT_SHAPE_OPTIONS.hollow;
+        this.thicknessInput.style.cssText = this.inputStyle();
+        this.thicknessInput.addEventListener('change', () => {
+            const wallThickness = Math.max(1, Math.min(32, Math.floor(Number(this.thicknessInput.value)) || 1));
+            this.thicknessInput.value = String(wallThickness);
+            this.drawingSystem?.setShapeOptions({ wallThickness });
+        });
+        // Keep digits from reaching the editor's keyboard shortcuts
+        this.thicknessInput.addEventListener('keydown', (e) => e.stopPropagation());
+        this.addField('Wall', this.thicknessInput);
+        
+        const modeSelect = this.addSelect('Mode', [['add', 'Add'], ['remove', 'Remove']]);
+        modeSelect.addEventListener('change', () => {
+            this.drawingSystem?.setShapeMode(modeSelect.value as DrawMode);
+        });
+    }
+    
+    // Spheres and ellipsoids look the same along every axis
+    private updateAxisState(kind: ShapeKind): void {
+        this.axisSelect.disabled = kind === 'sphere' || kind === 'ellipsoid';
+    }
+    
+    private addSelect(label: string, options: [string, string][]): HTMLSelectElement {
+        const select = document.createElement('select');
+        select.style.cssText = this.inputStyle();
+        for (const [value, optionLabel] of options) {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = optionLabel;
+            select.appendChild(option);
+        }
+        this.addField(label, select);
+        return select;
+    }
+    
+    private addField(label: string, input: HTMLElement): void {
+        const field = document.createElement('label');
+        field.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 8px;';
+        const text = document.createElement('span');
+        text.textContent = label;
+        field.appendChild(text);
+        field.appendChild(input);
+        this.element.appendChild(field);
+    }
+    
+    private inputStyle(): string {
+        return `
+            width: 100px;
+            padding: 4px 6px;
+            background: rgba(30, 30, 30, 0.8);
+            border: 1px solid rgba(255, 255, 255, 0.2);
+            border-radius: 4px;
+            color: rgba(255, 255, 255, 0.9);
+            font-size: 12px;
+            outline: none;
+        `;
+    }
+}
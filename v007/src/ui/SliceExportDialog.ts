@@ -0,0 +1,122 @@
+import { VoxelLayer } from '../engine/VoxelLayer';
+import { SliceAxis, SliceLayout } from '../io/SliceStackParser';
+import { ModalDialog } from './ModalDialog';
+
+export interface SliceExportChoice {
+    // null exports the whole scene
+    layerId: string | null;
+    axis: SliceAxis;
+    layout: SliceLayout;
+}
+
+/**
+ * Asks what to export as PNG slices (the scene or one layer), along which
+ * axis, and whether as a zip of images or a single sprite sheet
+ */
+export class SliceExportDialog {
+    /**
+     * Show the dialog. Resolves with the choice, or null to cancel.
+     */
+    static show(layers: VoxelLayer[]): Promise<SliceExportChoice | null> {
+        return new Promise((resolve) => {
+            const overlay = ModalDialog.ensureOverlay();
+            overlay.innerHTML = '';
+            overlay.style.display = 'block';
+            
+            const finish = (choice: SliceExportChoice | null) => {
+                ModalDialog.close();
+                document.removeEventListener('keydown', keyHandler);
+                resolve(choice);
+            };
+            
+            const modal = document.createElement('div');
+            modal.className = 'modal';
+            modal.style.minWidth = '400px';
+            
+            // Header
+            const header = document.createElement('div');
+            header.className = 'modal-header';
+            
+            const title = document.createElement('h2');
+            title.className = 'modal-title';
+            title.textContent = 'Export PNG Slices';
+            header.appendChild(title);
+            
+            const content = document.createElement('div');
+            content.className = 'modal-content';
+            
+            const addSelect = (label: string, options: [string, string][]): HTMLSelectElement => {
+                const field = document.createElement('label');
+                field.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 12px; margin-bottom: 8px;';
+                const text = document.createElement('span');
+                text.textContent = label;
+                field.appendChild(text);
+                
+                const select = document.createElement('select');
+                select.className = 'modal-input';
+                select.style.width = '200px';
+                for (const [value, optionLabel] of options) {
+                    const option = document.createElement('option');
+                    option.value = value;
+                    option.textContent = optionLabel;
+                    select.appendChild(option);
+                }
+                field.appendChild(select);
+                content.appendChild(field);
+                return select;
+            };
+            
+            const sourceSelect = addSelect('Source', [
+                ['', 'Whole scene (visible layers)'],
+                ...layers.map(layer => [layer.id, `Layer: ${layer.name}`] as [string, string])
+            ]);
+            const axisSelect = addSelect('Slice along', [
+                ['y', 'Y (floors, seen from above)'],
+                ['x', 'X (seen from the side)'],
+                ['z', 'Z (seen from the front)']
+            ]);
+            const layoutSelect = addSelect('Layout', [
+                ['zip', 'Zip of PNG files'],
+                ['sheet', 'Single sprite sheet PNG']
+            ]);
+            
+            const submit = () => finish({
+                layerId: sourceSelect.value || null,
+                axis: axisSelect.value as SliceAxis,
+                layout: layoutSelect.value as SliceLayout
+            });
+            
+            // Buttons
+            const buttons = document.createElement('div');
+            buttons.className = 'modal-buttons';
+            
+            const cancelButton = document.createElement('button');
+            cancelButton.className = 'modal-button modal-button-secondary';
+            cancelButton.textContent = 'Cancel';
+            cancelButton.onclick = () => finish(null);
+            buttons.appendChild(cancelButton);
+            
+            const exportButton = document.createElement('button');
+            exportButton.className = 'modal-button modal-button-primary';
+            exportButton.textContent = 'Export';
+            exportButton.onclick = submit;
+            buttons.appendChild(exportButton);
+            
+            modal.appendChild(header);
+            modal.appendChild(content);
+            modal.appendChild(buttons);
+            overlay.appendChild(modal);
+            
+            overlay.onclick = (e) => {
+                if (e.target === overlay) finish(null);
+            };
+            
+            const keyHandler = (e: KeyboardEvent) => {
+                if (e.key === 'Escape') finish(null);
+            };
+            document.addEventListener('keydown', keyHandler);
+            
+            exportButton.focus();
+        });
+    }
+}
@@ -0,0 +1,160 @@
+import { VoxelLayer } from '../engine/VoxelLayer';
+import { AssetInfo } from '../assets/types';
+import { SpriteSheetOptions, DEFAULT_SPRITE_SHEET_OPTIONS } from '../io/SpriteSheetWriter';
+import { DIMETRIC_PITCH, ISOMETRIC_PITCH } from '../io/SpriteRenderer';
+import { ModalDialog } from './ModalDialog';
+
+export interface SpriteExportChoice {
+    source: { layerId: string } | { assetId: string };
+    options: SpriteSheetOptions;
+}
+
+/**
+ * Asks which layer or asset to render into a sprite sheet, from how many
+ * directions, at what pixel scale and with which projection
+ */
+export class SpriteExportDialog {
+    /**
+     * Show the dialog. Resolves with the choice, or null to cancel.
+     */
+    static show(layers: VoxelLayer[], assets: AssetInfo[], activeLayerId?: string): Promise<SpriteExportChoice | null> {
+        return new Promise((resolve) => {
+            const overlay = ModalDialog.ensureOverlay();
+            overlay.innerHTML = '';
+            overlay.style.display = 'block';
+            
+            const finish = (choice: SpriteExportChoice | null) => {
+                ModalDialog.close();
+                document.removeEventListener('keydown', keyHandler);
+                resolve(choice);
+            };
+            
+            const modal = document.createElement('div');
+            modal.className = 'modal';
+            modal.style.minWidth = '420px';
+            
+            // Header
+            const header = document.createElement('div');
+            header.className = 'modal-header';
+            
+            const title = document.createElement('h2');
+            title.className = 'modal-title';
+            title.textContent = 'Export Sprite Sheet';
+            header.appendChild(title);
+            
+            const content = document.createElement('div');
+            content.className = 'modal-content';
+            
+            const addField = (label: string, input: HTMLElement) => {
+                const field = document.createElement('label');
+                field.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 12px; margin-bottom: 8px;';
+                const text = document.createElement('span');
+                text.textContent = label;
+                field.appendChild(text);
+                input.style.width = '220px';
+                field.appendChild(input);
+                content.appendChild(field);
+            };
+            
+            // Layers and assets, grouped
+            const sourceSelect = document.createElement('select');
+            sourceSelect.className = 'modal-input';
+            const addGroup = (label: string, options: [string, string][]) => {
+                if (options.length === 0) return;
+                const group = document.createElement('optgroup');
+                group.label = label;
+                for (const [value, optionLabel] of options) {
+                    const option = document.createElement('option');
+                    option.value = value;
+                    option.textContent = optionLabel;
+                    group.appendChild(option);
+                }
+                sourceSelect.appendChild(group);
+            };
+            addGroup('Layers', layers.map(layer => [`layer:${layer.id}`, layer.name]));
+            addGroup('Assets', assets.map(asset => [`asset:${asset.id}`, asset.name]));
+            if (activeLayerId) {
+                sourceSelect.value = `layer:${activeLayerId}`;
+            }
+            addField('Source', sourceSelect);
+            
+            const createSelect = (options: [string, string][], value: string): HTMLSelectElement => {
+                const select = document.createElement('select');
+                select.className = 'modal-input';
+                for (const [optionValue, label] of options) {
+                    const option = document.createElement('option');
+                    option.value = optionValue;
+                    option.textContent = label;
+                    select.appendChild(option);
+                }
+                select.value = value;
+                return select;
+            };
+            
+            const directionsSelect = createSelect([['4', '4 directions'], ['8', '8 directions']], String(DEFAULT_SPRITE_SHEET_OPTIONS.directions));
+            addField('Angles', directionsSelect);
+            
+            const projectionSelect = createSelect([
+                ['dimetric', 'Dimetric (2:1 pixel art)'],
+                ['isometric', 'True isometric']
+            ], 'dimetric');
+            addField('Projection', projectionSelect);
+            
+            const scaleInput = document.createElement('input');
+            scaleInput.className = 'modal-input';
+            scaleInput.type = 'number';
+            scaleInput.min = '1';
+            scaleInput.max = '32';
+            scaleInput.value = String(DEFAULT_SPRITE_SHEET_OPTIONS.pixelsPerVoxel);
+            addField('Pixels per voxel', scaleInput);
+            
+            const submit = () => {
+                if (!sourceSelect.value) return;
+                const separator = sourceSelect.value.indexOf(':');
+                const kind = sourceSelect.value.slice(0, separator);
+                const id = sourceSelect.value.slice(separator + 1);
+                const scale = parseInt(scaleInput.value, 10);
+                finish({
+                    source: kind === 'layer' ? { layerId: id } : { assetId: id },
+                    options: {
+                        directions: directionsSelect.value === '8' ? 8 : 4,
+                        pixelsPerVoxel: Number.isFinite(scale) ? Math.min(Math.max(scale, 1), 32) : DEFAULT_SPRITE_SHEET_OPTIONS.pixelsPerVoxel,
+                        pitch: projectionSelect.value === 'isometric' ? ISOMETRIC_PITCH : DIMETRIC_PITCH
+                    }
+                });
+            };
+            
+            // Buttons
+            const buttons = document.createElement('div');
+            buttons.className = 'modal-buttons';
+            
+            const cancelButton = document.createElement('button');
+            cancelButton.className = 'modal-button modal-button-secondary';
+            cancelButton.textContent = 'Cancel';
+            cancelButton.onclick = () => finish(null);
+            buttons.appendChild(cancelButton);
+            
+            const exportButton = document.createElement('button');
+            exportButton.className = 'modal-button modal-button-primary';
+            exportButton.textContent = 'Export';
+            exportButton.onclick = submit;
+            buttons.appendChild(exportButton);
+            
+            modal.appendChild(header);
+            modal.appendChild(content);
+            modal.appendChild(buttons);
+            overlay.appendChild(modal);
+            
+            overlay.onclick = (e) => {
+                if (e.target === overlay) finish(null);
+            };
+            
+            const keyHandler = (e: KeyboardEvent) => {
+                if (e.key === 'Escape') finish(null);
+            };
+            document.addEventListener('keydown', keyHandler);
+            
+            exportButton.focus();
+        });
+    }
+}
@@ -0,0 +1,172 @@
+import { DrawingSystem } from '../interaction/DrawingSystem';
+import { SymmetrySettings, SymmetryAxis, SYMMETRY_AXES, DEFAULT_SYMMETRY } from '../interaction/Symmetry';
+
+/**
+ * Symmetry options - flyout next to the tools panel with the mirror axes,
+ * plane positions and snapping
+ */
+export class SymmetryOptionsPanel {
+    private element: HTMLElement;
+    private drawingSystem: DrawingSystem | null = null;
+    private axisButtons = new Map<SymmetryAxis, HTMLButtonElement>();
+    private planeInputs = new Map<SymmetryAxis, HTMLInputElement>();
+    
+    constructor() {
+        this.element = document.createElement('div');
+        this.element.className = 'symmetry-options-panel';
+        this.element.style.cssText = `
+            position: absolute;
+            width: 180px;
+            background: rgba(40, 40, 40, 0.95);
+            border: 1px solid rgba(255, 255, 255, 0.1);
+            border-radius: 8px;
+            padding: 10px 12px;
+            display: none;
+            flex-direction: column;
+            gap: 8px;
+            color: rgba(255, 255, 255, 0.8);
+            font-size: 12px;
+            user-select: none;
+            z-index: 100;
+        `;
+        this.create();
+        this.update(DEFAULT_SYMMETRY);
+        
+        window.addEventListener('symmetry-changed', (e) => {
+            this.update((e as CustomEvent<SymmetrySettings>).detail);
+        });
+        
+        const container = document.getElementById('container');
+        if (container) {
+            container.appendChild(this.element);
+        }
+    }
+    
+    setDrawingSystem(drawingSystem: DrawingSystem): void {
+        this.drawingSystem = drawingSystem;
+    }
+    
+    isVisible(): boolean {
+        return this.element.style.display !== 'none';
+    }
+    
+    /**
+     * Show the panel to the right of the tools panel, level with the given button
+     */
+    setVisible(visible: boolean, panel?: HTMLElement | null, button?: HTMLElement): void {
+        if (visible && panel) {
+            this.element.style.left = `${panel.offsetLeft + panel.offsetWidth + 8}px`;
+            this.element.style.top = `${panel.offsetTop + (button ? button.offsetTop : 0)}px`;
+        }
+        this.element.style.display = visible ? 'flex' : 'none';
+    }
+    
+    private create(): void {
+        // Axis toggles
+        const axisRow = document.createElement('div');
+        axisRow.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 8px;';
+        const axisLabel = document.createElement('span');
+        axisLabel.textContent = 'Mirror';
+        axisRow.appendChild(axisLabel);
+        
+        const axisGroup = document.createElement('div');
+        axisGroup.style.cssText = 'display: flex; gap: 4px;';
+        for (const axis of SYMMETRY_AXES) {
+            const button = document.createElement('button');
+            button.textContent = axis.toUpperCase();
+            button.title = `Mirror across the ${axis.toUpperCase()} plane`;
+            button.style.cssText = `
+                width: 30px;
+                height: 24px;
+                border: 1px solid rgba(255, 255, 255, 0.2);
+                border-radius: 4px;
+                cursor: pointer;
+                font-size: 12px;
+            `;
+            button.addEventListener('click', () => {
+                if (!this.drawingSystem) return;
+                const enabled = !this.drawingSystem.getSymmetry().axes[axis];
+                this.drawingSystem.setSymmetry({ axes: { [axis]: enabled } });
+            });
+            this.axisButtons.set(axis, button);
+            axisGroup.appendChild(button);
+        }
+        axisRow.appendChild(axisGroup);
+        this.element.appendChild(axisRow);
+        
+        // Plane positions, in voxels; halves run through voxel centers
+        for (const axis of SYMMETRY_AXES) {
+            const field = document.createElement('label');
+            field.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 8px;';
+            const text = document.createElement('span');
+            text.textContent = `${axis.toUpperCase()} plane`;
+            field.appendChild(text);
+            
+            const input = document.createElement('input');
+            input.type = 'number';
+            input.step = '0.5';
+            input.style.cssText = `
+                width: 80px;
+                padding: 4px 6px;
+                background: rgba(30, 30, 30, 0.8);
+                border: 1px solid rgba(255, 255, 255, 0.2);
+                border-radius: 4px;
+                color: rgba(255, 255, 255, 0.9);
+                font-size: 12px;
+                outline: none;
+            `;
+            input.addEventListener('change', () => {
+                const value = Number(input.value);
+                if (this.drawingSystem && Number.isFinite(value)) {
+                    this.drawingSystem.setSymmetry({ plane: { [axis]: value } });
+                }
+            });
+            // Keep digits from reaching the editor's keyboard shortcuts
+            input.addEventListener('keydown', (e) => e.stopPropagation());
+            this.planeInputs.set(axis, input);
+            field.appendChild(input);
+            this.element.appendChild(field);
+        }
+        
+        // Snapping
+        const snapRow = document.createElement('div');
+        snapRow.style.cssText = 'display: flex; gap: 6px;';
+        const addSnapButton = (label: string, title: string, onClick: () => void) => {
+            const button = document.createElement('button');
+            button.textContent = label;
+            button.title = title;
+            button.style.cssText = `
+                flex: 1;
+                padding: 4px 0;
+                background: rgba(100, 100, 100, 0.2);
+                color: rgba(255, 255, 255, 0.8);
+                border: 1px solid rgba(255, 255, 255, 0.2);
+                border-radius: 4px;
+                cursor: pointer;
+                font-size: 12px;
+            `;
+            button.addEventListener('click', onClick);
+            snapRow.appendChild(button);
+        };
+        addSnapButton('Origin', 'Move the planes to the world origin', () => {
+            this.drawingSystem?.setSymmetry({ plane: { x: 0, y: 0, z: 0 } });
+        });
+        addSnapButton('Selection', 'Center the planes on the current selection', () => {
+            // main.ts owns the selection tool
+            window.dispatchEvent(new CustomEvent('symmetry-snap-to-selection'));
+        });
+        this.element.appendChild(snapRow);
+    }
+    
+    private update(settings: SymmetrySettings): void {
+        for (const axis of SYMMETRY_AXES) {
+            const button = this.axisButtons.get(axis)!;
+            const enabled = settings.axes[axis];
+            button.style.background = enabled ? 'rgba(100, 200, 100, 0.3)' : 'rgba(100, 100, 100, 0.2)';
+            button.style.borderColor = enabled ? 'rgba(100, 200, 100, 0.8)' : 'rgba(255, 255, 255, 0.2)';
+            button.style.color = enabled ? 'rgba(100, 255, 100, 1)' : 'rgba(255, 255, 255, 0.8)';
+            
+            this.planeInputs.get(axis)!.value = String(settings.plane[axis]);
+        }
+    }
+}
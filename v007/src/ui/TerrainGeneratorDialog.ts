@@ -0,0 +1,235 @@
+import { TerrainOptions, DEFAULT_TERRAIN_OPTIONS, MAX_TERRAIN_SIZE, MAX_TERRAIN_HEIGHT, MAX_TERRAIN_OCTAVES, MAX_EROSION_PASSES } from '../engine/TerrainGenerator';
+import { ModalDialog } from './ModalDialog';
+
+export interface TerrainRequest {
+    options: TerrainOptions;
+    // Layer to fill, or null for a new layer
+    layerId: string | null;
+    // Remove what the layer already has in the footprint first
+    clearFootprint: boolean;
+}
+
+/**
+ * Asks for the seed, footprint, noise, erosion, water and biome settings of
+ * a generated terrain, and the layer to put it in
+ */
+export class TerrainGeneratorDialog {
+    // The last settings used, so tweaking and regenerating doesn't start over
+    private static lastOptions: TerrainOptions = { ...DEFAULT_TERRAIN_OPTIONS };
+    
+    /**
+     * Show the dialog. Resolves with the request, or null to cancel.
+     */
+    static show(layers: Array<{ id: string; name: string }>): Promise<TerrainRequest | null> {
+        return new Promise((resolve) => {
+            const overlay = ModalDialog.ensureOverlay();
+            overlay.innerHTML = '';
+            overlay.style.display = 'block';
+            
+            const finish = (request: TerrainRequest | null) => {
+                ModalDialog.close();
+                document.removeEventListener('keydown', keyHandler);
+                resolve(request);
+            };
+            
+            const defaults = TerrainGeneratorDialog.lastOptions;
+            
+            const modal = document.createElement('div');
+            modal.className = 'modal';
+            modal.style.minWidth = '420px';
+            
+            // Header
+            const header = document.createElement('div');
+            header.className = 'modal-header';
+            
+            const title = document.createElement('h2');
+            title.className = 'modal-title';
+            title.textContent = 'Generate Terrain';
+            header.appendChild(title);
+            
+            const content = document.createElement('div');
+            content.className = 'modal-content';
+            content.style.maxHeight = '60vh';
+            content.style.overflowY = 'auto';
+            
+            const addSection = (label: string) => {
+                const heading = document.createElement('div');
+                heading.textContent = label;
+                heading.style.cssText = 'font-weight: bold; margin: 12px 0 6px;';
+                content.appendChild(heading);
+            };
+            
+            const addField = (label: string, input: HTMLElement) => {
+                const field = document.createElement('label');
+                field.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 12px; margin-bottom: 8px;';
+                const text = document.createElement('span');
+                text.textContent = label;
+                field.appendChild(text);
+                field.appendChild(input);
+                content.appendChild(field);
+            };
+            
+            const createNumberInput = (value: number, min: number, max: number, step: number = 1): HTMLInputElement => {
+                const input = document.createElement('input');
+                input.className = 'modal-input';
+                input.type = 'number';
+                input.min = String(min);
+                input.max = String(max);
+                input.step = String(step);
+                input.value = String(value);
+                input.style.width = '200px';
+                // Keep digits from reaching the editor's keyboard shortcuts
+                input.addEventListener('keydown', (e) => {
+                    if (e.key !== 'Escape') e.stopPropagation();
+                });
+                return input;
+            };
+            
+            // Target layer
+            const layerSelect = document.createElement('select');
+            layerSelect.className = 'modal-input';
+            layerSelect.style.width = '200px';
+            const newOption = document.createElement('option');
+            newOption.value = '';
+            newOption.textContent = 'New layer';
+            layerSelect.appendChild(newOption);
+            for (const layer of layers) {
+                const option = document.createElement('option');
+                option.value = layer.id;
+                option.textContent = layer.name;
+                layerSelect.appendChild(option);
+            }
+            layerSelect.value = '';
+            addField('Layer', layerSelect);
+            
+            const clearInput = document.createElement('input');
+            clearInput.type = 'checkbox';
+            clearInput.checked = true;
+            addField('Clear footprint first', clearInput);
+            
+            // Seed, with a button to roll a new one
+            const seedRow = document.createElement('div');
+            seedRow.style.cssText = 'display: flex; gap: 8px; width: 200px;';
+            const seedInput = createNumberInput(defaults.seed, 0, 0xFFFFFFFF);
+            seedInput.style.width = 'auto';
+            seedInput.style.flex = '1';
+            const rollButton = document.createElement('button');
+            rollButton.className = 'modal-button modal-button-secondary';
+            rollButton.textContent = 'Random';
+            rollButton.onclick = (e) => {
+                e.preventDefault();
+                seedInput.value = String(Math.floor(Math.random() * 1000000));
+            };
+            seedRow.appendChild(seedInput);
+            seedRow.appendChild(rollButton);
+            addField('Seed', seedRow);
+            
+            addSection('Footprint');
+            const xInput = createNumberInput(defaults.x, -100000, 100000);
+            addField('X', xInput);
+            const zInput = createNumberInput(defaults.z, -100000, 100000);
+            addField('Z', zInput);
+            const widthInput = createNumberInput(defaults.width, 1, MAX_TERRAIN_SIZE);
+            addField('Width', widthInput);
+            const depthInput = createNumberInput(defaults.depth, 1, MAX_TERRAIN_SIZE);
+            addField('Depth', depthInput);
+            
+            addSection('Shape');
+            const minHeightInput = createNumberInput(defaults.minHeight, 1, MAX_TERRAIN_HEIGHT);
+            addField('Min height', minHeightInput);
+            const maxHeightInput = createNumberInput(defaults.maxHeight, 1, MAX_TERRAIN_HEIGHT);
+            addField('Max height', maxHeightInput);
+            const scaleInput = createNumberInput(defaults.scale, 1, 1024);
+            addField('Feature size', scaleInput);
+            const octavesInput = createNumberInput(defaults.octaves, 1, MAX_TERRAIN_OCTAVES);
+            addField('Octaves', octavesInput);
+            const persistenceInput = createNumberInput(defaults.persistence, 0, 1, 0.05);
+            addField('Roughness', persistenceInput);
+            const erosionInput = createNumberInput(defaults.erosion, 0, MAX_EROSION_PASSES);
+            addField('Erosion passes', erosionInput);
+            
+            addSection('Water and biomes');
+            const waterInput = createNumberInput(defaults.waterLevel, 0, MAX_TERRAIN_HEIGHT);
+            addField('Water level', waterInput);
+            const beachInput = createNumberInput(defaults.beachHeight, 0, MAX_TERRAIN_HEIGHT);
+            addField('Beach height', beachInput);
+            const rockInput = createNumberInput(defaults.rockLine, 0, MAX_TERRAIN_HEIGHT);
+            addField('Rock line', rockInput);
+            const snowInput = createNumberInput(defaults.snowLine, 0, MAX_TERRAIN_HEIGHT);
+            addField('Snow line', snowInput);
+            const dirtSlopeInput = createNumberInput(defaults.dirtSlope, 1, MAX_TERRAIN_HEIGHT);
+            addField('Dirt slope', dirtSlopeInput);
+            const cliffSlopeInput = createNumberInput(defaults.cliffSlope, 1, MAX_TERRAIN_HEIGHT);
+            addField('Cliff slope', cliffSlopeInput);
+            const soilInput = createNumberInput(defaults.soilDepth, 0, MAX_TERRAIN_HEIGHT);
+            addField('Soil depth', soilInput);
+            
+            const readNumber = (input: HTMLInputElement, fallback: number): number => {
+                const value = parseFloat(input.value);
+                if (!Number.isFinite(value)) return fallback;
+                return Math.min(Math.max(value, parseFloat(input.min)), parseFloat(input.max));
+            };
+            
+            const submit = () => {
+                const options: TerrainOptions = {
+                    seed: Math.round(readNumber(seedInput, defaults.seed)),
+                    x: Math.round(readNumber(xInput, defaults.x)),
+                    z: Math.round(readNumber(zInput, defaults.z)),
+                    width: Math.round(readNumber(widthInput, defaults.width)),
+                    depth: Math.round(readNumber(depthInput, defaults.depth)),
+                    minHeight: Math.round(readNumber(minHeightInput, defaults.minHeight)),
+                    maxHeight: Math.round(readNumber(maxHeightInput, defaults.maxHeight)),
+                    scale: readNumber(scaleInput, defaults.scale),
+                    octaves: Math.round(readNumber(octavesInput, defaults.octaves)),
+                    persistence: readNumber(persistenceInput, defaults.persistence),
+                    erosion: Math.round(readNumber(erosionInput, defaults.erosion)),
+                    waterLevel: Math.round(readNumber(waterInput, defaults.waterLevel)),
+                    beachHeight: Math.round(readNumber(beachInput, defaults.beachHeight)),
+                    dirtSlope: Math.round(readNumber(dirtSlopeInput, defaults.dirtSlope)),
+                    cliffSlope: Math.round(readNumber(cliffSlopeInput, defaults.cliffSlope)),
+                    rockLine: Math.round(readNumber(rockInput, defaults.rockLine)),
+                    snowLine: Math.round(readNumber(snowInput, defaults.snowLine)),
+                    soilDepth: Math.round(readNumber(soilInput, defaults.soilDepth))
+                };
+                TerrainGeneratorDialog.lastOptions = options;
+                finish({
+                    options,
+                    layerId: layerSelect.value || null,
+                    clearFootprint: clearInput.checked
+                });
+            };
+            
+            // Buttons
+            const buttons = document.createElement('div');
+            buttons.className = 'modal-buttons';
+            
+            const cancelButton = document.createElement('button');
+            cancelButton.className = 'modal-button modal-button-secondary';
+            cancelButton.textContent = 'Cancel';
+            cancelButton.onclick = () => finish(null);
+            buttons.appendChild(cancelButton);
+            
+            const generateButton = document.createElement('button');
+            generateButton.className = 'modal-button modal-button-primary';
+            generateButton.textContent = 'Generate';
+            generateButton.onclick = submit;
+            buttons.appendChild(generateButton);
+            
+            modal.appendChild(header);
+            modal.appendChild(content);
+            modal.appendChild(buttons);
+            overlay.appendChild(modal);
+            
+            overlay.onclick = (e) => {
+                if (e.target === overlay) finish(null);
+            };
+            
+            const keyHandler = (e: KeyboardEvent) => {
+                if (e.key === 'Escape') finish(null);
+            };
+            document.addEventListener('keydown', keyHandler);
+            
+            generateButton.focus();
+        });
+    }
+}
@@ -3,6 +3,10 @@ import { VoxelEngine } from '../engine/VoxelEngine';
 import { ActionLogger } from './ActionLogger';
 import { ColorPickerPopover, ColorInfo } from './ColorPickerPopover';
 import { ColorRegistry } from '../engine/ColorRegistry';
+import { ShapeOptionsPanel } from './ShapeOptionsPanel';
+import { SymmetryOptionsPanel } from './SymmetryOptionsPanel';
+import { SculptOptionsPanel } from './SculptOptionsPanel';
+import { Symmetry, SymmetrySettings } from '../interaction/Symmetry';
 import { settings } from '../main';
 
 /**
@@ -16,14 +20,23 @@ export class ToolsPanel {
     private activeToolButton: HTMLElement | null = null;
     private colorPickerPopover: ColorPickerPopover;
     private selectedColor: ColorInfo | null = null;
+    private shapeOptionsPanel: ShapeOptionsPanel;
+    private symmetryOptionsPanel: SymmetryOptionsPanel;
+    private sculptOptionsPanel: SculptOptionsPanel;
     
     constructor() {
         this.colorPickerPopover = new ColorPickerPopover(settings.colorPalettes);
+        this.shapeOptionsPanel = new ShapeOptionsPanel();
+        this.symmetryOptionsPanel = new SymmetryOptionsPanel();
+        this.sculptOptionsPanel = new SculptOptionsPanel();
         this.create();
     }
     
     setDrawingSystem(drawingSystem: DrawingSystem): void {
         this.drawingSystem = drawingSystem;
+        this.shapeOptionsPanel.setDrawingSystem(drawingSystem);
+        this.symmetryOptionsPanel.setDrawingSystem(drawingSystem);
+        this.sculptOptionsPanel.setDrawingSystem(drawingSystem);
         
         // Set the default color (Soft Green) if we have a selected color
         if (this.selectedColor && this.selectedColor.voxelType !== undefined) {
@@ -153,7 +166,10 @@ export class ToolsPanel {
         this.createToolButton('brush', 'Brush Tool (B)', 'B');
         this.createToolButton('eraser', 'Eraser Tool (E)', 'E');
         this.createToolButton('box', 'Box Tool (X)', 'X');
+        this.createToolButton('shape', 'Shape Tool (O)', 'O');
         this.createToolButton('line', 'Line Tool (L)', 'L');
+        this.createToolButton('pushpull', 'Push/Pull Tool (U)', 'U');
+        this.createToolButton('sculpt', 'Sculpt Tool (K)', 'K');
         this.createToolButton('fill', 'Fill Tool (P)', 'P');
         this.createToolButton('eyedropper', 'Eyedropper Tool (I)', 'I');
         
@@ -173,6 +189,12 @@ export class ToolsPanel {
         // Add brush size button
         this.createBrushSizeButton();
         
+        // Add symmetry button
+        this.createSymmetryButton();
+        
+        // Add paint mode button
+        this.createPaintModeButton();
+        
         // Add footer for padding
         const footer = document.createElement('div');
         footer.style.cssText = `
@@ -220,7 +242,10 @@ export class ToolsPanel {
             brush: 'pencil',
             eraser: 'eraser',
             box: 'box',
+            shape: 'shapes',
             line: 'git-commit',
+            pushpull: 'arrow-up-from-line',
+            sculpt: 'shovel',
             fill: 'paint-bucket',
             selection: 'square-dashed',
             eyedropper: 'pipette'
@@ -358,11 +383,11 @@ export class ToolsPanel {
             return;
         }
         
-        // Reset all tool buttons first
+        // Reset all tool buttons first (the symmetry and paint toggles keep their own state)
         const allToolButtons = this.toolsContainer?.querySelectorAll('button');
         if (allToolButtons) {
             allToolButtons.forEach((btn) => {
-                if (btn instanceof HTMLElement && btn.id !== 'color-palette-button') {
+                if (btn instanceof HTMLElement && btn.id !== 'color-palette-button' && btn.id !== 'toggle-symmetry' && btn.id !== 'toggle-paint') {
                     // Remove selected class
                     btn.classList.remove('selected');
                     
@@ -381,6 +406,8 @@ export class ToolsPanel {
         
         // Set new active button
         this.activeToolButton = button;
+        this.shapeOptionsPanel.setVisible(button.id === 'tool-shape', this.element);
+        this.sculptOptionsPanel.setVisible(button.id === 'tool-sculpt', this.element, button);
         button.style.background = 'rgba(100, 200, 100, 0.3)';
         button.style.borderColor = 'rgba(100, 200, 100, 0.8)';
         
@@ -423,7 +450,7 @@ export class ToolsPanel {
             const allToolButtons = this.toolsContainer?.querySelectorAll('button');
             if (allToolButtons) {
                 allToolButtons.forEach((btn) => {
-                    if (btn instanceof HTMLElement && btn.id !== 'color-palette-button') {
+                    if (btn instanceof HTMLElement && btn.id !== 'color-palette-button' && btn.id !== 'toggle-symmetry' && btn.id !== 'toggle-paint') {
                         // Remove selected class
                         btn.classList.remove('selected');
                         
@@ -441,6 +468,7 @@ export class ToolsPanel {
             }
             this.activeToolButton = null;
         }
+        this.shapeOptionsPanel.setVisible(false);
     }
     
     private createColorPaletteButton(): void {
@@ -641,7 +669,7 @@ export class ToolsPanel {
         
         let currentSize = 1;
         button.textContent = '1';
-        button.title = 'Brush Size (Click to toggle)';
+        button.title = 'Brush Size (Click to toggle, right-click for strength and falloff)';
         
         button.addEventListener('click', () => {
             // Toggle between 1, 2, 4, 6, 8, 10
@@ -657,6 +685,12 @@ export class ToolsPanel {
             }
         });
         
+        // Right-click opens the sculpt brush strength and falloff
+        button.addEventListener('contextmenu', (e) => {
+            e.preventDefault();
+            this.sculptOptionsPanel.setVisible(!this.sculptOptionsPanel.isVisible(), this.element, button);
+        });
+        
         button.addEventListener('mouseenter', () => {
             button.style.background = 'rgba(100, 100, 100, 0.3)';
             button.style.transform = 'scale(1.05)';
@@ -670,6 +704,98 @@ export class ToolsPanel {
         this.toolsContainer!.appendChild(button);
     }
     
+    private createSymmetryButton(): void {
+        const button = document.createElement('button');
+        button.id = 'toggle-symmetry';
+        button.title = 'Symmetry (M to toggle, click for options)';
+        button.style.cssText = `
+            width: 44px;
+            height: 44px;
+            border: 2px solid transparent;
+            background: rgba(100, 100, 100, 0.2);
+            color: rgba(255, 255, 255, 0.8);
+            border-radius: 8px;
+            cursor: pointer;
+            font-size: 20px;
+            transition: all 0.2s;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            position: relative;
+        `;
+        
+        const icon = document.createElement('span');
+        icon.setAttribute('data-lucide', 'flip-horizontal-2');
+        icon.style.width = '20px';
+        icon.style.height = '20px';
+        button.appendChild(icon);
+        
+        // Click opens the options; the button lights up while any axis is mirrored
+        button.addEventListener('click', () => {
+            this.symmetryOptionsPanel.setVisible(!this.symmetryOptionsPanel.isVisible(), this.element, button);
+        });
+        
+        window.addEventListener('symmetry-changed', (e) => {
+            const symmetry = (e as CustomEvent<SymmetrySettings>).detail;
+            this.updateToggleButton(button, Symmetry.isActive(symmetry));
+        });
+        
+        button.addEventListener('mouseenter', () => {
+            button.style.transform = 'scale(1.05)';
+        });
+        
+        button.addEventListener('mouseleave', () => {
+            button.style.transform = 'scale(1)';
+        });
+        
+        this.toolsContainer!.appendChild(button);
+    }
+    
+    private createPaintModeButton(): void {
+        const button = document.createElement('button');
+        button.id = 'toggle-paint';
+        button.title = 'Paint Mode (C) - recolor existing voxels';
+        button.style.cssText = `
+            width: 44px;
+            height: 44px;
+            border: 2px solid transparent;
+            background: rgba(100, 100, 100, 0.2);
+            color: rgba(255, 255, 255, 0.8);
+            border-radius: 8px;
+            cursor: pointer;
+            font-size: 20px;
+            transition: all 0.2s;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            position: relative;
+        `;
+        
+        const icon = document.createElement('span');
+        icon.setAttribute('data-lucide', 'paint-roller');
+        icon.style.width = '20px';
+        icon.style.height = '20px';
+        button.appendChild(icon);
+        
+        button.addEventListener('click', () => {
+            this.drawingSystem?.togglePaintMode();
+        });
+        
+        window.addEventListener('paint-mode-changed', (e) => {
+            this.updateToggleButton(button, (e as CustomEvent<boolean>).detail);
+        });
+        
+        button.addEventListener('mouseenter', () => {
+            button.style.transform = 'scale(1.05)';
+        });
+        
+        button.addEventListener('mouseleave', () => {
+            button.style.transform = 'scale(1)';
+        });
+        
+        this.toolsContainer!.appendChild(button);
+    }
+    
     // Public method to programmatically select the pointer tool
     public selectPointerTool(): void {
         const pointerButton = document.getElementById('tool-pointer');
@@ -0,0 +1,161 @@
+import { TurntableOptions, DEFAULT_TURNTABLE_OPTIONS } from '../io/TurntableRecorder';
+import { ModalDialog } from './ModalDialog';
+
+/**
+ * Asks for the format, size, frame count, background and edge display of a
+ * turntable animation
+ */
+export class TurntableExportDialog {
+    /**
+     * Show the dialog. Resolves with the options, or null to cancel.
+     */
+    static show(showEdges: boolean): Promise<TurntableOptions | null> {
+        return new Promise((resolve) => {
+            const overlay = ModalDialog.ensureOverlay();
+            overlay.innerHTML = '';
+            overlay.style.display = 'block';
+            
+            const finish = (options: TurntableOptions | null) => {
+                ModalDialog.close();
+                document.removeEventListener('keydown', keyHandler);
+                resolve(options);
+            };
+            
+            const modal = document.createElement('div');
+            modal.className = 'modal';
+            modal.style.minWidth = '420px';
+            
+            // Header
+            const header = document.createElement('div');
+            header.className = 'modal-header';
+            
+            const title = document.createElement('h2');
+            title.className = 'modal-title';
+            title.textContent = 'Export Turntable';
+            header.appendChild(title);
+            
+            const content = document.createElement('div');
+            content.className = 'modal-content';
+            
+            const addField = (label: string, input: HTMLElement) => {
+                const field = document.createElement('label');
+                field.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 12px; margin-bottom: 8px;';
+                const text = document.createElement('span');
+                text.textContent = label;
+                field.appendChild(text);
+                field.appendChild(input);
+                content.appendChild(field);
+            };
+            
+            const createNumberInput = (value: number, min: number, max: number): HTMLInputElement => {
+                const input = document.createElement('input');
+                input.className = 'modal-input';
+                input.type = 'number';
+                input.min = String(min);
+                input.max = String(max);
+                input.value = String(value);
+                input.style.width = '220px';
+                return input;
+            };
+            
+            const formatSelect = document.createElement('select');
+            formatSelect.className = 'modal-input';
+            formatSelect.style.width = '220px';
+            for (const [value, label] of [['gif', 'GIF'], ['apng', 'Animated PNG']]) {
+                const option = document.createElement('option');
+                option.value = value;
+                option.textContent = label;
+                formatSelect.appendChild(option);
+            }
+            formatSelect.value = DEFAULT_TURNTABLE_OPTIONS.format;
+            addField('Format', formatSelect);
+            
+            const widthInput = createNumberInput(DEFAULT_TURNTABLE_OPTIONS.width, 64, 2048);
+            addField('Width (px)', widthInput);
+            const heightInput = createNumberInput(DEFAULT_TURNTABLE_OPTIONS.height, 64, 2048);
+            addField('Height (px)', heightInput);
+            const framesInput = createNumberInput(DEFAULT_TURNTABLE_OPTIONS.frameCount, 4, 360);
+            addField('Frames', framesInput);
+            const durationInput = createNumberInput(DEFAULT_TURNTABLE_OPTIONS.duration, 1, 60);
+            addField('Seconds per turn', durationInput);
+            
+            // Background: the scene's sky and ground, nothing, or a flat color
+            const backgroundRow = document.createElement('div');
+            backgroundRow.style.cssText = 'display: flex; gap: 8px; width: 220px;';
+            const backgroundSelect = document.createElement('select');
+            backgroundSelect.className = 'modal-input';
+            backgroundSelect.style.flex = '1';
+            for (const [value, label] of [['scene', 'Scene'], ['transparent', 'Transparent'], ['color', 'Color']]) {
+                const option = document.createElement('option');
+                option.value = value;
+                option.textContent = label;
+                backgroundSelect.appendChild(option);
+            }
+            const colorInput = document.createElement('input');
+            colorInput.type = 'color';
+            colorInput.value = '#ffffff';
+            colorInput.disabled = true;
+            backgroundSelect.onchange = () => {
+                colorInput.disabled = backgroundSelect.value !== 'color';
+            };
+            backgroundRow.appendChild(backgroundSelect);
+            backgroundRow.appendChild(colorInput);
+            addField('Background', backgroundRow);
+            
+            const edgesInput = document.createElement('input');
+            edgesInput.type = 'checkbox';
+            edgesInput.checked = showEdges;
+            addField('Show edges', edgesInput);
+            
+            const readNumber = (input: HTMLInputElement, fallback: number): number => {
+                const value = parseFloat(input.value);
+                if (!Number.isFinite(value)) return fallback;
+                return Math.min(Math.max(value, parseFloat(input.min)), parseFloat(input.max));
+            };
+            
+            const submit = () => {
+                finish({
+                    format: formatSelect.value === 'apng' ? 'apng' : 'gif',
+                    width: Math.round(readNumber(widthInput, DEFAULT_TURNTABLE_OPTIONS.width)),
+                    height: Math.round(readNumber(heightInput, DEFAULT_TURNTABLE_OPTIONS.height)),
+                    frameCount: Math.round(readNumber(framesInput, DEFAULT_TURNTABLE_OPTIONS.frameCount)),
+                    duration: readNumber(durationInput, DEFAULT_TURNTABLE_OPTIONS.duration),
+                    background: backgroundSelect.value === 'color' ? colorInput.value : backgroundSelect.value,
+                    edges: edgesInput.checked
+                });
+            };
+            
+            // Buttons
+            const buttons = document.createElement('div');
+            buttons.className = 'modal-buttons';
+            
+            const cancelButton = document.createElement('button');
+            cancelButton.className = 'modal-button modal-button-secondary';
+            cancelButton.textContent = 'Cancel';
+            cancelButton.onclick = () => finish(null);
+            buttons.appendChild(cancelButton);
+            
+            const exportButton = document.createElement('button');
+            exportButton.className = 'modal-button modal-button-primary';
+            exportButton.textContent = 'Export';
+            exportButton.onclick = submit;
+            buttons.appendChild(exportButton);
+            
+            modal.appendChild(header);
+            modal.appendChild(content);
+            modal.appendChild(buttons);
+            overlay.appendChild(modal);
+            
+            overlay.onclick = (e) => {
+                if (e.target === overlay) finish(null);
+            };
+            
+            const keyHandler = (e: KeyboardEvent) => {
+                if (e.key === 'Escape') finish(null);
+            };
+            document.addEventListener('keydown', keyHandler);
+            
+            exportButton.focus();
+        });
+    }
+}
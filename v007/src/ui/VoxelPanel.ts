@@ -671,7 +671,7 @@ export class VoxelPanel {
         // Hidden file input
         const fileInput = document.createElement('input');
         fileInput.type = 'file';
-        fileInput.accept = '.vox,.json';
+        fileInput.accept = '.nel,.vox,.qb,.gox,.json,.schem,.litematic,.png,.jpg,.jpeg,.zip';
         fileInput.style.display = 'none';
         fileInput.addEventListener('change', async (e) => {
             const target = e.target as HTMLInputElement;
@@ -679,6 +679,9 @@ export class VoxelPanel {
                 try {
                     await this.fileManager.importFile(target.files[0]);
                     console.log('File imported successfully');
+                    
+                    // Imports can add or rename layers
+                    (window as any).app?.layerPanel?.refresh();
                 } catch (error) {
                     console.error('Import failed:', error);
                     alert(`Failed to import file: ${error}`);
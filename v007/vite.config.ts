@@ -1,7 +1,7 @@
 import { defineConfig } from 'vite';
 import path from 'path';
 
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src')
@@ -14,6 +14,8 @@ export default defineConfig({
   build: {
     target: 'es2022',
     outDir: 'dist',
-    sourcemap: true
+    sourcemap: true,
+    // The SSR build is the command line converter, which has no use for public assets
+    copyPublicDir: !isSsrBuild
   }
-});
\ No newline at end of file
+}));
\ No newline at end of file